@@ -1,30 +1,90 @@
 #!/usr/bin/env node
 import "dotenv/config";
-import { Command } from "commander";
+import { Command, Option } from "commander";
 import packageJson from "../package.json";
 import { DEFAULT_MAX_CONCURRENCY, DEFAULT_MAX_DEPTH, DEFAULT_MAX_PAGES } from "./config";
 import { PipelineManager } from "./pipeline/PipelineManager";
 import { FileFetcher, HttpFetcher } from "./scraper/fetcher";
 import { ScrapeMode } from "./scraper/types"; // Import ScrapeMode enum
 import { DocumentManagementService } from "./store/DocumentManagementService";
+import type { Bm25Weights, RankingOptions } from "./store/types";
 import {
+  AskTool,
+  DiffVersionsTool,
   FetchUrlTool,
   FindVersionTool,
+  ListAliasesTool,
   ListLibrariesTool,
+  ReembedTool,
+  RefreshTool,
+  RemoveAliasTool,
   ScrapeTool,
   SearchTool,
+  SetAliasTool,
+  StatsTool,
 } from "./tools";
+import { parseDuration } from "./utils/duration";
 import { LogLevel, setLogLevel } from "./utils/logger";
 
 const formatOutput = (data: unknown) => JSON.stringify(data, null, 2);
 
+/**
+ * Adds the options tuning the hybrid ranking, shared by `search` and `ranking`.
+ */
+function addRankingOptions(command: Command): Command {
+  return command
+    .option("--rrf-k <number>", "RRF constant; smaller values favor top-ranked results")
+    .option("--vector-weight <number>", "Weight of the vector similarity ranking")
+    .option("--text-weight <number>", "Weight of the full-text ranking")
+    .option(
+      "--bm25-weights <weights>",
+      "Full-text weights per field, e.g. 'content=10,title=1,url=5,path=1'",
+    );
+}
+
+/**
+ * Parses the options added by `addRankingOptions`; returns undefined if none is set.
+ */
+function parseRankingOptions(options: {
+  rrfK?: string;
+  vectorWeight?: string;
+  textWeight?: string;
+  bm25Weights?: string;
+}): RankingOptions | undefined {
+  if (
+    !options.rrfK &&
+    !options.vectorWeight &&
+    !options.textWeight &&
+    !options.bm25Weights
+  ) {
+    return undefined;
+  }
+  const bm25Weights: Partial<Bm25Weights> = {};
+  for (const entry of options.bm25Weights?.split(",") ?? []) {
+    const [field, value] = entry.split("=").map((part) => part.trim());
+    if (!["content", "title", "url", "path"].includes(field) || value === undefined) {
+      throw new Error(
+        `Invalid BM25 weight '${entry}': expected <content|title|url|path>=<number>`,
+      );
+    }
+    bm25Weights[field as keyof Bm25Weights] = Number.parseFloat(value);
+  }
+  return {
+    rrfK: options.rrfK ? Number.parseFloat(options.rrfK) : undefined,
+    vectorWeight: options.vectorWeight
+      ? Number.parseFloat(options.vectorWeight)
+      : undefined,
+    textWeight: options.textWeight ? Number.parseFloat(options.textWeight) : undefined,
+    bm25Weights,
+  };
+}
+
 async function main() {
   let docService: DocumentManagementService | undefined;
   let pipelineManager: PipelineManager | undefined;
 
   try {
     docService = new DocumentManagementService();
-    await docService.initialize();
 
     // Instantiate PipelineManager for CLI use
     pipelineManager = new PipelineManager(docService); // Assign inside try
@@ -36,6 +96,14 @@ async function main() {
       findVersion: new FindVersionTool(docService),
       scrape: new ScrapeTool(docService, pipelineManager), // Pass manager
       search: new SearchTool(docService),
+      ask: new AskTool(docService),
+      diffVersions: new DiffVersionsTool(docService),
+      reembed: new ReembedTool(docService),
+      refresh: new RefreshTool(docService, pipelineManager),
+      stats: new StatsTool(docService),
+      setAlias: new SetAliasTool(docService),
+      listAliases: new ListAliasesTool(docService),
+      removeAlias: new RemoveAliasTool(docService),
       fetchUrl: new FetchUrlTool(new HttpFetcher(), new FileFetcher()),
     };
 
@@ -108,12 +176,22 @@ async function main() {
         },
         ScrapeMode.Auto, // Use enum default
       )
+      .option(
+        "--incremental",
+        "Update an already indexed version in place: skip unchanged pages and remove pages no longer found",
+        false,
+      )
+      .option(
+        "--description <text>",
+        "Description recorded for the version (kept from the previous scrape if omitted)",
+      )
       .action(async (library, url, options) => {
         // Update action parameters
         const result = await tools.scrape.execute({
           url,
           library,
           version: options.version, // Get version from options
+          description: options.description,
           options: {
             maxPages: Number.parseInt(options.maxPages),
             maxDepth: Number.parseInt(options.maxDepth),
@@ -122,6 +200,7 @@ async function main() {
             scope: options.scope,
             followRedirects: options.followRedirects, // This will be `true` by default, or `false` if --no-follow-redirects is used
             scrapeMode: options.scrapeMode, // Pass the new scrapeMode option
+            incremental: options.incremental,
           },
           // CLI always waits for completion (default behavior)
         });
@@ -134,18 +213,20 @@ async function main() {
         }
       });
 
-    program
+    const searchCommand = program
       .command("search <library> <query>") // Remove <version> as positional
       .description(
         "Search documents in a library. Version matching examples:\n" +
           "  - search react --version 18.0.0 'hooks' -> matches docs for React 18.0.0 or earlier versions\n" +
           "  - search react --version 18.0.0 'hooks' --exact-match -> only matches React 18.0.0\n" +
           "  - search typescript --version 5.x 'types' -> matches any TypeScript 5.x.x version\n" +
-          "  - search typescript --version 5.2.x 'types' -> matches any TypeScript 5.2.x version",
+          "  - search typescript --version 5.2.x 'types' -> matches any TypeScript 5.2.x version\n" +
+          "  - search next,react,react-dom 'server components' -> searches all three libraries\n" +
+          "  - search '*' 'routing' -> searches all indexed libraries",
       )
       .option(
         "-v, --version <string>", // Add optional version flag
-        "Version of the library (optional, supports ranges)",
+        "Version of the library (optional, supports ranges and aliases)",
       )
       .option("-l, --limit <number>", "Maximum number of results", "5")
       .option(
@@ -153,16 +234,214 @@ async function main() {
         "Only use exact version match (e.g., '18.0.0' matches only 18.0.0, not 17.x.x) (default: false)",
         false,
       )
-      .action(async (library, query, options) => {
-        // Update action parameters
-        const result = await tools.search.execute({
+      .option(
+        "--include-prerelease",
+        "Let version ranges and the latest version match prereleases (e.g., 19.0.0-rc.1)",
+        false,
+      )
+      .option("--url-prefix <prefix>", "Only return results from URLs with this prefix")
+      .option(
+        "--path-contains <text>",
+        "Only return results whose heading path contains this text",
+      )
+      .addOption(
+        new Option(
+          "--content-type <type>",
+          "Only return results containing this type of content",
+        ).choices(["text", "code", "table"]),
+      )
+      .option(
+        "--min-level <number>",
+        "Only return results at this heading level or deeper",
+      )
+      .option(
+        "--explain",
+        "Include vector distance, full-text score, both ranks and the fused score of each result",
+        false,
+      )
+      .option(
+        "--max-tokens <number>",
+        "Approximate token budget for the content of all results",
+      )
+      .option("--max-chars <number>", "Character budget for the content of all results")
+      .option(
+        "--no-rerank",
+        "Keep the hybrid ranking even if a re-ranking model is configured",
+      )
+      .option(
+        "--expand",
+        "Also search for query variants generated by the chat model (DOCS_MCP_EXPANSION_MODEL)",
+        false,
+      );
+    addRankingOptions(searchCommand).action(async (library, query, options) => {
+      // Update action parameters
+      // A comma-separated list or "*" searches several libraries at once
+      const libraries =
+        library === "*"
+          ? []
+          : library
+              .split(",")
+              .map((name: string) => name.trim())
+              .filter(Boolean);
+      const result = await tools.search.execute({
+        libraries,
+        version: options.version, // Get version from options
+        includePrerelease: options.includePrerelease,
+        query,
+        limit: Number.parseInt(options.limit),
+        exactMatch: options.exactMatch,
+        filters: {
+          urlPrefix: options.urlPrefix,
+          pathContains: options.pathContains,
+          contentType: options.contentType,
+          minLevel: options.minLevel ? Number.parseInt(options.minLevel) : undefined,
+        },
+        ranking: parseRankingOptions(options),
+        explain: options.explain,
+        maxTokens: options.maxTokens ? Number.parseInt(options.maxTokens) : undefined,
+        maxChars: options.maxChars ? Number.parseInt(options.maxChars) : undefined,
+        rerank: options.rerank,
+        expand: options.expand,
+      });
+      if (result.mode === "fts") {
+        console.warn(
+          "ℹ️ Keyword search only: no embedding model configured (DOCS_MCP_EMBEDDING_MODEL).",
+        );
+      }
+      for (const entry of result.unknownLibraries ?? []) {
+        console.warn(`⚠️ Skipped: ${entry.message}`);
+      }
+      console.log(formatOutput(result.results));
+    });
+
+    program
+      .command("ask <library> <question>")
+      .description(
+        "Answer a question from the indexed documentation of a library, citing the\n" +
+          "pages the answer is based on. Uses the chat model DOCS_MCP_ASK_MODEL (or MODEL_ID).",
+      )
+      .option(
+        "-v, --version <string>",
+        "Version of the library (optional, supports ranges and aliases)",
+      )
+      .option("-l, --limit <number>", "Maximum number of excerpts to answer from", "5")
+      .option("-m, --model <model>", "Chat model to use instead of DOCS_MCP_ASK_MODEL")
+      .action(async (library, question, options) => {
+        const result = await tools.ask.execute({
           library,
-          version: options.version, // Get version from options
-          query,
+          version: options.version,
+          question,
           limit: Number.parseInt(options.limit),
-          exactMatch: options.exactMatch,
+          model: options.model,
         });
-        console.log(formatOutput(result.results));
+        console.log(result.answer);
+        if (result.citations.length > 0) {
+          console.log("\nSources:");
+          for (const citation of result.citations) {
+            console.log(`[${citation.number}] ${citation.url}`);
+          }
+        }
+      });
+
+    program
+      .command("diff <library> <from> <to>")
+      .description(
+        "Compare two indexed versions of a library, listing the added, removed and\n" +
+          "modified sections by page path and heading path with line diffs",
+      )
+      .option(
+        "-s, --summarize",
+        "Summarize breaking-looking changes with the chat model DOCS_MCP_DIFF_MODEL (or MODEL_ID)",
+        false,
+      )
+      .option("-m, --model <model>", "Chat model to use instead of DOCS_MCP_DIFF_MODEL")
+      .option("--json", "Print the result as JSON", false)
+      .action(async (library, from, to, options) => {
+        const result = await tools.diffVersions.execute({
+          library,
+          fromVersion: from,
+          toVersion: to,
+          summarize: options.summarize,
+          model: options.model,
+        });
+        if (options.json) {
+          console.log(formatOutput(result));
+          return;
+        }
+        for (const change of result.changes) {
+          console.log(
+            `[${change.status}] ${[change.path, ...change.headings].join(" > ")}`,
+          );
+          console.log(`${change.url}\n${change.diff}\n`);
+        }
+        const count = (status: string) =>
+          result.changes.filter((change) => change.status === status).length;
+        console.log(
+          `✅ Compared ${library}@${result.fromVersion} with ${result.toVersion}: ${count("added")} added, ${count("removed")} removed, ${count("modified")} modified, ${result.unchanged} unchanged sections.`,
+        );
+        if (result.summary) {
+          console.log(`\nBreaking-looking changes:\n${result.summary}`);
+        }
+      });
+
+    const rankingCommand = program
+      .command("ranking <library>")
+      .description(
+        "Show or configure the hybrid search ranking of a library. Options change the\n" +
+          "configured values, which apply to all versions and can be overridden per search.",
+      )
+      .option("--reset", "Restore the default ranking", false);
+    addRankingOptions(rankingCommand).action(async (library, options) => {
+      if (!docService) {
+        throw new Error("Document service not initialized.");
+      }
+      if (options.reset) {
+        await docService.resetLibraryRanking(library);
+        console.log(`✅ Reset ranking of ${library} to the defaults.`);
+      }
+      const ranking = parseRankingOptions(options);
+      if (ranking) {
+        await docService.setLibraryRanking(library, ranking);
+        console.log(`✅ Updated ranking of ${library}.`);
+      }
+      const { settings } = await docService.getLibraryRanking(library);
+      console.log(formatOutput(settings));
+    });
+
+    const alias = program
+      .command("alias")
+      .description(
+        "Manage version aliases such as 'stable' or 'next', accepted wherever a version is",
+      );
+
+    alias
+      .command("set <library> <alias> <version>")
+      .description("Point an alias at an indexed version, moving it if already set")
+      .action(async (library, name, version) => {
+        const result = await tools.setAlias.execute({ library, alias: name, version });
+        console.log(`✅ ${result.message}`);
+      });
+
+    alias
+      .command("list [library]")
+      .description("List the aliases of a library, or of all libraries")
+      .action(async (library) => {
+        const { aliases } = await tools.listAliases.execute({ library });
+        if (aliases.length === 0) {
+          console.log("No version aliases defined.");
+          return;
+        }
+        for (const entry of aliases) {
+          console.log(`${entry.library}@${entry.alias} → ${entry.version}`);
+        }
+      });
+
+    alias
+      .command("remove <library> <alias>")
+      .description("Remove an alias; the version it points at stays indexed")
+      .action(async (library, name) => {
+        const result = await tools.removeAlias.execute({ library, alias: name });
+        console.log(`✅ ${result.message}`);
       });
 
     program
@@ -173,18 +452,35 @@ async function main() {
         console.log(formatOutput(result.libraries));
       });
 
+    program
+      .command("stats")
+      .description(
+        "Show page and chunk counts, content size, embedding coverage and index date\n" +
+          "per library version, and the size of the database",
+      )
+      .action(async () => {
+        const result = await tools.stats.execute();
+        console.log(formatOutput(result));
+      });
+
     program
       .command("find-version <library>") // Remove [targetVersion] positional
       .description("Find the best matching version for a library")
       .option(
         "-v, --version <string>", // Add optional version flag
-        "Target version to match (optional, supports ranges)",
+        "Target version to match (optional, supports ranges and aliases)",
+      )
+      .option(
+        "--include-prerelease",
+        "Let version ranges and the latest version match prereleases (e.g., 19.0.0-rc.1)",
+        false,
       )
       .action(async (library, options) => {
         // Update action parameters
         const versionInfo = await tools.findVersion.execute({
           library,
           targetVersion: options.version, // Get version from options
+          includePrerelease: options.includePrerelease,
         });
         // findVersion.execute now returns a string, handle potential error messages within it
         if (!versionInfo) {
@@ -199,7 +495,7 @@ async function main() {
       .description("Remove documents for a specific library and version")
       .option(
         "-v, --version <string>",
-        "Version to remove (optional, removes unversioned if omitted)",
+        "Version or alias to remove (optional, removes unversioned if omitted)",
       )
       .action(async (library, options) => {
         // library is now the first arg
@@ -222,6 +518,155 @@ async function main() {
         }
       });
 
+    program
+      .command("reembed <library>")
+      .description(
+        "Regenerate embeddings of an indexed library with the configured embedding model",
+      )
+      .option(
+        "-v, --version <string>",
+        "Version or alias to re-embed (optional, re-embeds unversioned if omitted)",
+      )
+      .action(async (library, options) => {
+        const result = await tools.reembed.execute({
+          library,
+          version: options.version,
+        });
+        console.log(`✅ ${result.message}`);
+      });
+
+    program
+      .command("refresh [library]")
+      .description(
+        "Re-scrape indexed documentation with the URL and options it was last scraped with",
+      )
+      .option(
+        "-v, --version <string>",
+        "Version or alias to refresh (optional, refreshes all versions if omitted)",
+      )
+      .option("--all", "Refresh every indexed library", false)
+      .option(
+        "--older-than <duration>",
+        "Only refresh versions last indexed longer ago than this, e.g. '7d' or '12h'",
+      )
+      .action(async (library, options) => {
+        if (!library === !options.all) {
+          throw new Error("Specify either a library or --all.");
+        }
+        const { outcomes } = await tools.refresh.execute({
+          library,
+          version: options.version,
+          all: options.all,
+          olderThan: options.olderThan ? parseDuration(options.olderThan) : undefined,
+        });
+        console.log(formatOutput(outcomes));
+        const failed = outcomes.filter((outcome) => outcome.status === "failed").length;
+        if (failed > 0) {
+          throw new Error(`${failed} of ${outcomes.length} refreshes failed.`);
+        }
+        const refreshed = outcomes.filter((outcome) => outcome.status === "completed");
+        console.log(
+          `✅ Refreshed ${refreshed.length} of ${outcomes.length} library versions.`,
+        );
+      });
+
+    program
+      .command("export <library>")
+      .description("Export an indexed library version to a portable bundle file")
+      .option(
+        "-v, --version <string>",
+        "Version or alias to export (optional, exports unversioned if omitted)",
+      )
+      .requiredOption("-o, --output <file>", "Path of the bundle file to write")
+      .action(async (library, options) => {
+        if (!docService) {
+          throw new Error("Document service not initialized.");
+        }
+        const count = await docService.exportBundle(
+          library,
+          options.version,
+          options.output,
+        );
+        console.log(
+          `✅ Exported ${count} documents of ${library}${options.version ? `@${options.version}` : " (unversioned)"} to ${options.output}.`,
+        );
+      });
+
+    program
+      .command("import <file>")
+      .description(
+        "Import a library version from a bundle file, replacing it if already indexed",
+      )
+      .action(async (file) => {
+        if (!docService) {
+          throw new Error("Document service not initialized.");
+        }
+        const result = await docService.importBundle(file);
+        console.log(
+          `✅ Imported ${result.documentCount} documents of ${result.library}${result.version ? `@${result.version}` : " (unversioned)"}.`,
+        );
+      });
+
+    const db = program.command("db").description("Database maintenance commands");
+
+    db.command("migrate")
+      .description("Apply pending database schema migrations")
+      .option("--dry-run", "List pending migrations without applying them", false)
+      .action(async (options) => {
+        if (!docService) {
+          throw new Error("Document service not initialized.");
+        }
+        const result = await docService.migrate({ dryRun: options.dryRun });
+        if (result.applied.length === 0) {
+          console.log(
+            `✅ Database schema is up to date (version ${result.fromVersion}).`,
+          );
+          return;
+        }
+        const verb = result.dryRun ? "Pending" : "Applied";
+        console.log(
+          `${verb} migrations (schema version ${result.fromVersion} → ${
+            result.dryRun ? result.applied.at(-1)?.version : result.toVersion
+          }):`,
+        );
+        for (const migration of result.applied) {
+          console.log(`  ${migration.version}: ${migration.description}`);
+        }
+      });
+
+    db.command("check")
+      .description("Report orphaned vectors, full-text index drift and duplicate chunks")
+      .action(async () => {
+        if (!docService) {
+          throw new Error("Document service not initialized.");
+        }
+        const report = await docService.checkConsistency();
+        console.log(`Orphaned vectors:      ${report.orphanedVectors}`);
+        console.log(`Full-text index drift: ${report.ftsDrift}`);
+        console.log(`Duplicate chunks:      ${report.duplicateChunks}`);
+        const total = report.orphanedVectors + report.ftsDrift + report.duplicateChunks;
+        console.log(
+          total === 0
+            ? "✅ No inconsistencies found."
+            : `⚠️ Found ${total} inconsistencies. Run 'docs-cli db gc' to repair them.`,
+        );
+      });
+
+    db.command("gc")
+      .description(
+        "Repair the inconsistencies reported by 'db check', then compact and optimize the database",
+      )
+      .action(async () => {
+        if (!docService) {
+          throw new Error("Document service not initialized.");
+        }
+        const { repaired, sizeBefore, sizeAfter } = await docService.collectGarbage();
+        console.log(`Removed orphaned vectors:    ${repaired.orphanedVectors}`);
+        console.log(`Repaired full-text entries:  ${repaired.ftsDrift}`);
+        console.log(`Removed duplicate chunks:    ${repaired.duplicateChunks}`);
+        console.log(`✅ Database size: ${sizeBefore} → ${sizeAfter} bytes.`);
+      });
+
     program
       .command("fetch-url <url>")
       .description("Fetch a URL and convert its content to Markdown")
@@ -254,7 +699,7 @@ async function main() {
       });
 
     // Hook to set log level after parsing global options but before executing command action
-    program.hook("preAction", (thisCommand) => {
+    program.hook("preAction", async (thisCommand, actionCommand) => {
       // Global options are attached to the program (thisCommand)
       const options = thisCommand.opts();
       if (options.silent) {
@@ -264,6 +709,12 @@ async function main() {
         setLogLevel(LogLevel.DEBUG);
       }
       // Otherwise, the default LogLevel.INFO remains set from logger.ts
+
+      // Database maintenance commands manage the schema themselves and must not
+      // trigger the automatic migration or the embedding model setup
+      if (actionCommand.parent?.name() !== "db") {
+        await docService?.initialize();
+      }
     });
 
     await program.parseAsync();
@@ -5,23 +5,43 @@ import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js"
 import { z } from "zod";
 import { DEFAULT_MAX_DEPTH, DEFAULT_MAX_PAGES } from "../config";
 import { PipelineManager } from "../pipeline/PipelineManager";
+import { RefreshScheduler } from "../pipeline/RefreshScheduler";
 import { PipelineJobStatus } from "../pipeline/types";
 import { FileFetcher, HttpFetcher } from "../scraper/fetcher";
 import { DocumentManagementService } from "../store/DocumentManagementService";
 import {
+  AskTool,
   CancelJobTool,
+  DiffVersionsTool,
   FetchUrlTool,
   FindVersionTool,
   GetJobInfoTool,
+  ListAliasesTool,
   ListJobsTool,
   ListLibrariesTool,
+  ReembedTool,
+  RefreshTool,
+  RemoveAliasTool,
+  RemoveScheduleTool,
   RemoveTool,
   ScrapeTool,
   SearchTool,
+  SetAliasTool,
+  SetScheduleTool,
+  StatsTool,
   VersionNotFoundError,
 } from "../tools";
+import { parseDuration } from "../utils/duration";
 import { LogLevel, logger, setLogLevel } from "../utils/logger"; // Import LogLevel and setLogLevel
-import { createError, createResponse } from "./utils";
+import {
+  createError,
+  createResponse,
+  formatExplanation,
+  formatLibraryVersion,
+  formatRefreshOutcome,
+  formatSchedule,
+  formatSectionChange,
+} from "./utils";
 
 export async function startServer() {
   // Set the default log level for the server to ERROR
@@ -37,6 +57,9 @@ export async function startServer() {
     const pipelineManager = new PipelineManager(docService);
     // Start the pipeline manager to process jobs
     await pipelineManager.start(); // Assuming start is async and needed
+    // Re-enqueue scrape jobs on the schedules of the schedule file
+    const scheduler = new RefreshScheduler(docService, pipelineManager);
+    await scheduler.start();
 
     // Instantiate tools, passing dependencies
     const tools = {
@@ -44,10 +67,20 @@ export async function startServer() {
       findVersion: new FindVersionTool(docService),
       scrape: new ScrapeTool(docService, pipelineManager),
       search: new SearchTool(docService),
-      listJobs: new ListJobsTool(pipelineManager),
+      ask: new AskTool(docService),
+      diffVersions: new DiffVersionsTool(docService),
+      listJobs: new ListJobsTool(pipelineManager, scheduler),
       getJobInfo: new GetJobInfoTool(pipelineManager),
       cancelJob: new CancelJobTool(pipelineManager),
       remove: new RemoveTool(docService),
+      reembed: new ReembedTool(docService),
+      refresh: new RefreshTool(docService, pipelineManager),
+      setSchedule: new SetScheduleTool(scheduler),
+      removeSchedule: new RemoveScheduleTool(scheduler),
+      setAlias: new SetAliasTool(docService),
+      listAliases: new ListAliasesTool(docService),
+      removeAlias: new RemoveAliasTool(docService),
+      stats: new StatsTool(docService),
       // FetchUrlTool now uses middleware pipeline internally
       fetchUrl: new FetchUrlTool(new HttpFetcher(), new FileFetcher()),
     };
@@ -96,15 +129,39 @@ export async function startServer() {
           .optional()
           .default(true)
           .describe("Whether to follow HTTP redirects (3xx responses)"),
+        incremental: z
+          .boolean()
+          .optional()
+          .default(false)
+          .describe(
+            "Update an already indexed version in place: unchanged pages are skipped and pages no longer found are removed (default: false, replaces the version)",
+          ),
+        description: z
+          .string()
+          .optional()
+          .describe(
+            "Free-text description recorded for the version, e.g. what part of the docs it covers",
+          ),
       },
 
-      async ({ url, library, version, maxPages, maxDepth, scope, followRedirects }) => {
+      async ({
+        url,
+        library,
+        version,
+        maxPages,
+        maxDepth,
+        scope,
+        followRedirects,
+        incremental,
+        description,
+      }) => {
         try {
           // Execute scrape tool without waiting and without progress callback
           const result = await tools.scrape.execute({
             url,
             library,
             version,
+            description,
             waitForCompletion: false, // Don't wait for completion
             // onProgress: undefined, // Explicitly undefined or omitted
             options: {
@@ -112,6 +169,7 @@ export async function startServer() {
               maxDepth,
               scope,
               followRedirects,
+              incremental,
             },
           });
 
@@ -142,38 +200,163 @@ export async function startServer() {
         '- {library: "react", query: "how do hooks work"} -> matches latest version of React\n' +
         '- {library: "react", version: "18.0.0", query: "how do hooks work"} -> matches React 18.0.0 or earlier\n' +
         '- {library: "typescript", version: "5.x", query: "ReturnType example"} -> any TypeScript 5.x.x version\n' +
-        '- {library: "typescript", version: "5.2.x", query: "ReturnType example"} -> any TypeScript 5.2.x version',
+        '- {library: "typescript", version: "5.2.x", query: "ReturnType example"} -> any TypeScript 5.2.x version\n' +
+        '- {libraries: ["next", "react", "react-dom"], query: "server components"} -> searches all three, each at its latest version\n' +
+        '- {query: "routing"} -> searches all indexed libraries',
       {
-        library: z.string().describe("Name of the library"),
+        library: z
+          .string()
+          .optional()
+          .describe(
+            "Name of the library. Omit it (and libraries) to search all indexed libraries",
+          ),
+        libraries: z
+          .array(z.string())
+          .optional()
+          .describe("Names of several libraries to search together"),
         version: z
           .string()
           .optional()
           .describe(
-            "Version of the library (supports exact versions like '18.0.0' or X-Range patterns like '5.x', '5.2.x')",
+            "Version of the library (supports exact versions like '18.0.0', X-Range patterns like '5.x', '5.2.x', calendar versions like '2024-05', labels like 'main' or aliases like 'stable')",
+          ),
+        includePrerelease: z
+          .boolean()
+          .optional()
+          .describe(
+            "Let version ranges and the latest version match prereleases like '19.0.0-rc.1'",
           ),
         query: z.string().describe("Search query"),
         limit: z.number().optional().default(5).describe("Maximum number of results"),
+        urlPrefix: z
+          .string()
+          .optional()
+          .describe("Only return results from pages whose URL starts with this prefix"),
+        pathContains: z
+          .string()
+          .optional()
+          .describe("Only return results whose heading path contains this text"),
+        contentType: z
+          .enum(["text", "code", "table"])
+          .optional()
+          .describe("Only return results containing this type of content"),
+        minLevel: z
+          .number()
+          .int()
+          .min(1)
+          .optional()
+          .describe("Only return results at this heading level or deeper"),
+        ranking: z
+          .object({
+            rrfK: z
+              .number()
+              .positive()
+              .optional()
+              .describe("RRF constant; smaller values favor top-ranked results"),
+            vectorWeight: z
+              .number()
+              .min(0)
+              .optional()
+              .describe("Weight of vector similarity"),
+            textWeight: z
+              .number()
+              .min(0)
+              .optional()
+              .describe("Weight of keyword matching"),
+            bm25Weights: z
+              .object({
+                content: z.number().min(0).optional(),
+                title: z.number().min(0).optional(),
+                url: z.number().min(0).optional(),
+                path: z.number().min(0).optional(),
+              })
+              .optional()
+              .describe("Weights of keyword matches per field"),
+          })
+          .optional()
+          .describe("Overrides the hybrid ranking parameters configured for the library"),
+        explain: z
+          .boolean()
+          .optional()
+          .describe(
+            "Show how each result was ranked (vector and keyword rank and score)",
+          ),
+        maxTokens: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe(
+            "Approximate token budget for all results; context around lower-ranked hits shrinks first",
+          ),
+        rerank: z
+          .boolean()
+          .optional()
+          .describe(
+            "Set to false to skip re-ranking by the configured model (DOCS_MCP_RERANK_MODEL)",
+          ),
+        expand: z
+          .boolean()
+          .optional()
+          .describe(
+            "Also search for rewritten variants of the query and a hypothetical answer generated by a chat model. Helps with short or vague queries, at the cost of a model call.",
+          ),
       },
-      async ({ library, version, query, limit }) => {
+      async ({
+        library,
+        libraries,
+        version,
+        includePrerelease,
+        query,
+        limit,
+        urlPrefix,
+        pathContains,
+        contentType,
+        minLevel,
+        ranking,
+        explain,
+        maxTokens,
+        rerank,
+        expand,
+      }) => {
         try {
           const result = await tools.search.execute({
             library,
+            libraries,
             version,
+            includePrerelease,
             query,
             limit,
+            filters: { urlPrefix, pathContains, contentType, minLevel },
+            ranking,
+            explain,
+            maxTokens,
+            rerank,
+            expand,
             exactMatch: false, // Always false for MCP interface
           });
 
           const formattedResults = result.results.map(
             (r, i) => `
 ------------------------------------------------------------
-Result ${i + 1}: ${r.url}
+Result ${i + 1}: ${r.url} (${r.library}${r.version ? `@${r.version}` : ", unversioned"})${r.explain ? `\n${formatExplanation(r.explain)}` : ""}${r.truncated ? "\n(Shortened to fit the token budget)" : ""}
 
 ${r.content}\n`,
           );
 
+          const modeNote =
+            result.mode === "fts"
+              ? " (keyword search only, no embedding model configured)"
+              : "";
+
+          const scope = libraries?.length
+            ? libraries.join(", ")
+            : (library ?? "all libraries");
+          const skipped = (result.unknownLibraries ?? [])
+            .map((entry) => `\nSkipped: ${entry.message}`)
+            .join("");
           return createResponse(
-            `Search results for '${query}' in ${library} v${version}:
+            `Search results for '${query}' in ${scope}${version ? ` v${version}` : ""}${modeNote}:${skipped}
 ${formattedResults.join("")}`,
           );
         } catch (error) {
@@ -196,14 +379,101 @@ ${formattedResults.join("")}`,
       },
     );
 
+    // Ask docs tool
+    server.tool(
+      "ask_docs",
+      "Answer a question from the indexed documentation of a library. Returns a concise answer citing the documentation pages it is based on, or states that nothing relevant was found.",
+      {
+        library: z.string().describe("Name of the library"),
+        version: z
+          .string()
+          .optional()
+          .describe(
+            "Version of the library (supports exact versions like '18.0.0', X-Range patterns like '5.x' or aliases like 'stable')",
+          ),
+        question: z.string().describe("Question to answer"),
+        limit: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe("Maximum number of documentation excerpts to answer from"),
+      },
+      async ({ library, version, question, limit }) => {
+        try {
+          const result = await tools.ask.execute({ library, version, question, limit });
+          const sources = result.citations
+            .map((citation) => `[${citation.number}] ${citation.url}`)
+            .join("\n");
+          return createResponse(
+            sources ? `${result.answer}\n\nSources:\n${sources}` : result.answer,
+          );
+        } catch (error) {
+          return createError(
+            `Failed to answer the question: ${
+              error instanceof Error ? error.message : String(error)
+            }`,
+          );
+        }
+      },
+    );
+
+    // Diff versions tool
+    server.tool(
+      "diff_versions",
+      "Compare two indexed versions of a library. Lists the sections added, removed or modified between them, matched by page path and heading path, with line diffs. Optionally summarizes the changes that look breaking.",
+      {
+        library: z.string().describe("Name of the library"),
+        fromVersion: z
+          .string()
+          .describe("Older version or alias to compare from, e.g. '17.0.2'"),
+        toVersion: z
+          .string()
+          .describe("Newer version or alias to compare to, e.g. '18.2.0' or 'stable'"),
+        summarize: z
+          .boolean()
+          .optional()
+          .default(false)
+          .describe("Summarize the changes that look breaking with a chat model"),
+      },
+      async ({ library, fromVersion, toVersion, summarize }) => {
+        try {
+          const result = await tools.diffVersions.execute({
+            library,
+            fromVersion,
+            toVersion,
+            summarize,
+          });
+          const count = (status: string) =>
+            result.changes.filter((change) => change.status === status).length;
+          const header = `Compared ${result.library}@${result.fromVersion} with ${result.toVersion}: ${count("added")} added, ${count("removed")} removed, ${count("modified")} modified, ${result.unchanged} unchanged sections.`;
+          const summary = result.summary
+            ? `\n\nBreaking-looking changes:\n${result.summary}`
+            : "";
+          const changes = result.changes.map(formatSectionChange).join("\n\n");
+          return createResponse(`${header}${summary}${changes ? `\n\n${changes}` : ""}`);
+        } catch (error) {
+          return createError(
+            `Failed to compare versions: ${
+              error instanceof Error ? error.message : String(error)
+            }`,
+          );
+        }
+      },
+    );
+
     // List libraries tool (Keep as is)
     server.tool("list_libraries", "List all indexed libraries", {}, async () => {
       try {
         const result = await tools.listLibraries.execute();
 
-        return createResponse(
-          `Indexed libraries:\n${result.libraries.map((lib) => `- ${lib.name}`).join("\n")}`,
+        const libraries = result.libraries.map((lib) =>
+          [
+            `- ${lib.name}`,
+            ...lib.versions.map((v) => `  - ${formatLibraryVersion(v)}`),
+          ].join("\n"),
         );
+        return createResponse(`Indexed libraries:\n${libraries.join("\n")}`);
       } catch (error) {
         return createError(
           `Failed to list libraries: ${
@@ -223,14 +493,21 @@ ${formattedResults.join("")}`,
           .string()
           .optional()
           .describe(
-            "Target version to match (supports exact versions like '18.0.0' or X-Range patterns like '5.x', '5.2.x')",
+            "Target version to match (supports exact versions like '18.0.0', X-Range patterns like '5.x', '5.2.x', calendar versions like '2024-05', labels like 'main' or aliases like 'stable')",
+          ),
+        includePrerelease: z
+          .boolean()
+          .optional()
+          .describe(
+            "Let version ranges and the latest version match prereleases like '19.0.0-rc.1'",
           ),
       },
-      async ({ library, targetVersion }) => {
+      async ({ library, targetVersion, includePrerelease }) => {
         try {
           const version = await tools.findVersion.execute({
             library,
             targetVersion,
+            includePrerelease,
           });
 
           if (!version) {
@@ -251,7 +528,7 @@ ${formattedResults.join("")}`,
     // List jobs tool
     server.tool(
       "list_jobs",
-      "List pipeline jobs, optionally filtering by status.",
+      "List pipeline jobs, optionally filtering by status, and the refresh schedules with their last and next run.",
       {
         status: z
           .nativeEnum(PipelineJobStatus)
@@ -270,11 +547,15 @@ ${formattedResults.join("")}`,
                 `- ID: ${job.id}\n  Status: ${job.status}\n  Library: ${job.library}\n  Version: ${job.version}\n  Created: ${job.createdAt}${job.startedAt ? `\n  Started: ${job.startedAt}` : ""}${job.finishedAt ? `\n  Finished: ${job.finishedAt}` : ""}${job.error ? `\n  Error: ${job.error}` : ""}`,
             )
             .join("\n\n");
-          return createResponse(
+          const jobsText =
             result.jobs.length > 0
               ? `Current Jobs:\n\n${formattedJobs}`
-              : "No jobs found matching criteria.",
-          );
+              : "No jobs found matching criteria.";
+          const schedulesText =
+            result.schedules.length > 0
+              ? `\n\nRefresh Schedules:\n\n${result.schedules.map(formatSchedule).join("\n\n")}`
+              : "";
+          return createResponse(`${jobsText}${schedulesText}`);
         } catch (error) {
           return createError(
             `Failed to list jobs: ${
@@ -371,7 +652,9 @@ ${formattedResults.join("")}`,
         version: z
           .string()
           .optional()
-          .describe("Version of the library (optional, removes unversioned if omitted)"),
+          .describe(
+            "Version or alias of the library (optional, removes unversioned if omitted)",
+          ),
       },
       async ({ library, version }) => {
         try {
@@ -390,6 +673,227 @@ ${formattedResults.join("")}`,
       },
     );
 
+    // Re-embed docs tool
+    server.tool(
+      "reembed_docs",
+      "Regenerate the embeddings of an indexed library version with the currently configured embedding model. Use after changing the embedding model; no re-scraping is needed.",
+      {
+        library: z.string().describe("Name of the library"),
+        version: z
+          .string()
+          .optional()
+          .describe(
+            "Version of the library (optional, re-embeds unversioned if omitted)",
+          ),
+      },
+      async ({ library, version }) => {
+        try {
+          const result = await tools.reembed.execute({ library, version });
+          return createResponse(result.message);
+        } catch (error) {
+          return createError(
+            `Failed to re-embed documents: ${
+              error instanceof Error ? error.message : String(error)
+            }`,
+          );
+        }
+      },
+    );
+
+    // Refresh docs tool
+    server.tool(
+      "refresh_docs",
+      "Re-scrape indexed documentation with the URL and scraper options it was last scraped with. Refreshes all versions of a library unless a version is given, or every library with 'all'. Returns the job IDs immediately; use get_job_info to follow them.",
+      {
+        library: z
+          .string()
+          .optional()
+          .describe("Name of the library (required unless 'all' is set)"),
+        version: z
+          .string()
+          .optional()
+          .describe(
+            "Version or alias to refresh (optional, refreshes all versions if omitted)",
+          ),
+        all: z
+          .boolean()
+          .optional()
+          .default(false)
+          .describe("Refresh every indexed library"),
+        olderThan: z
+          .string()
+          .optional()
+          .describe(
+            "Only refresh versions last indexed longer ago than this, e.g. '7d' or '12h'",
+          ),
+      },
+      async ({ library, version, all, olderThan }) => {
+        try {
+          const { outcomes } = await tools.refresh.execute({
+            library,
+            version,
+            all,
+            olderThan: olderThan ? parseDuration(olderThan) : undefined,
+            waitForCompletion: false,
+          });
+          if (outcomes.length === 0) {
+            return createResponse("No indexed versions to refresh.");
+          }
+          const queued = outcomes.filter((outcome) => outcome.status === "queued");
+          return createResponse(
+            `🔄 Started ${queued.length} of ${outcomes.length} refresh jobs:\n\n${outcomes
+              .map((outcome) => `- ${formatRefreshOutcome(outcome)}`)
+              .join("\n")}`,
+          );
+        } catch (error) {
+          return createError(
+            `Failed to refresh documentation: ${
+              error instanceof Error ? error.message : String(error)
+            }`,
+          );
+        }
+      },
+    );
+
+    // Refresh schedule tools
+    server.tool(
+      "set_schedule",
+      "Re-index a library periodically with the options it was last scraped with, every interval (e.g. '1d') or on a cron expression (e.g. '0 3 * * *'). Replaces the existing schedule of the same library and version. Schedules are listed by list_jobs.",
+      {
+        library: z.string().describe("Name of the library"),
+        version: z
+          .string()
+          .optional()
+          .describe("Version or alias to re-index (optional, all versions if omitted)"),
+        every: z
+          .string()
+          .optional()
+          .describe("Interval between runs, e.g. '6h' or '1d' (set this or 'cron')"),
+        cron: z
+          .string()
+          .optional()
+          .describe(
+            "Five-field cron expression in server local time, e.g. '0 3 * * 1' (set this or 'every')",
+          ),
+        jitter: z
+          .string()
+          .optional()
+          .describe("Maximum random delay added to each run, e.g. '10m' (default: '5m')"),
+      },
+      async ({ library, version, every, cron, jitter }) => {
+        try {
+          const result = await tools.setSchedule.execute({
+            library,
+            version,
+            every,
+            cron,
+            jitter,
+          });
+          return createResponse(result.message);
+        } catch (error) {
+          return createError(
+            `Failed to set schedule: ${
+              error instanceof Error ? error.message : String(error)
+            }`,
+          );
+        }
+      },
+    );
+
+    server.tool(
+      "remove_schedule",
+      "Stop re-indexing a library periodically. The indexed documentation is kept.",
+      {
+        library: z.string().describe("Name of the library"),
+        version: z
+          .string()
+          .optional()
+          .describe(
+            "Version of the schedule (optional, the library-wide schedule if omitted)",
+          ),
+      },
+      async ({ library, version }) => {
+        try {
+          const result = await tools.removeSchedule.execute({ library, version });
+          return createResponse(result.message);
+        } catch (error) {
+          return createError(
+            `Failed to remove schedule: ${
+              error instanceof Error ? error.message : String(error)
+            }`,
+          );
+        }
+      },
+    );
+
+    // Version alias tools
+    server.tool(
+      "set_alias",
+      "Name an indexed version of a library, e.g. 'stable' for '18.3.1'. The alias can then be used wherever a version is accepted. Setting an existing alias moves it to the new version.",
+      {
+        library: z.string().describe("Name of the library"),
+        alias: z
+          .string()
+          .describe("Alias name, e.g. 'stable' or 'next'; must start with a letter"),
+        version: z.string().describe("Indexed version the alias points at"),
+      },
+      async ({ library, alias, version }) => {
+        try {
+          const result = await tools.setAlias.execute({ library, alias, version });
+          return createResponse(result.message);
+        } catch (error) {
+          return createError(error instanceof Error ? error.message : String(error));
+        }
+      },
+    );
+
+    server.tool(
+      "list_aliases",
+      "List version aliases and the versions they point at",
+      {
+        library: z
+          .string()
+          .optional()
+          .describe("Name of the library (optional, lists all libraries if omitted)"),
+      },
+      async ({ library }) => {
+        try {
+          const { aliases } = await tools.listAliases.execute({ library });
+          if (aliases.length === 0) {
+            return createResponse("No version aliases defined.");
+          }
+          return createResponse(
+            `Version aliases:\n${aliases
+              .map((entry) => `- ${entry.library}@${entry.alias} → ${entry.version}`)
+              .join("\n")}`,
+          );
+        } catch (error) {
+          return createError(
+            `Failed to list aliases: ${
+              error instanceof Error ? error.message : String(error)
+            }`,
+          );
+        }
+      },
+    );
+
+    server.tool(
+      "remove_alias",
+      "Remove a version alias of a library. The version stays indexed.",
+      {
+        library: z.string().describe("Name of the library"),
+        alias: z.string().describe("Alias to remove"),
+      },
+      async ({ library, alias }) => {
+        try {
+          const result = await tools.removeAlias.execute({ library, alias });
+          return createResponse(result.message);
+        } catch (error) {
+          return createError(error instanceof Error ? error.message : String(error));
+        }
+      },
+    );
+
     server.prompt(
       "docs",
       "Search indexed documentation",
@@ -437,7 +941,8 @@ ${formattedResults.join("")}`,
         list: undefined,
       }),
       {
-        description: "List all indexed versions for a library",
+        description:
+          "List all indexed versions for a library with their source, index date and size, followed by its version aliases",
       },
       async (uri: URL, { library }) => {
         const result = await tools.listLibraries.execute();
@@ -447,11 +952,41 @@ ${formattedResults.join("")}`,
           return { contents: [] };
         }
 
+        const { aliases } = await tools.listAliases.execute({ library: lib.name });
         return {
-          contents: lib.versions.map((v) => ({
-            uri: new URL(v.version, uri).href,
-            text: v.version,
-          })),
+          contents: [
+            ...lib.versions.map((v) => ({
+              uri: new URL(v.version, uri).href,
+              text: formatLibraryVersion(v),
+            })),
+            ...aliases.map((entry) => ({
+              uri: new URL(entry.alias, uri).href,
+              text: `${entry.alias} → ${entry.version}`,
+            })),
+          ],
+        };
+      },
+    );
+
+    server.resource(
+      "stats",
+      "docs://stats",
+      {
+        description:
+          "Page and chunk counts, content size, embedding coverage and index date per library version, and the database size",
+        mimeType: "application/json",
+      },
+      async (uri: URL) => {
+        const result = await tools.stats.execute();
+
+        return {
+          contents: [
+            {
+              uri: uri.href,
+              mimeType: "application/json",
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
         };
       },
     );
@@ -548,6 +1083,7 @@ ${formattedResults.join("")}`,
 
     // Handle cleanup
     process.on("SIGINT", async () => {
+      await scheduler.stop();
       await pipelineManager.stop(); // Stop the pipeline manager
       await docService.shutdown();
       await server.close();
@@ -1,4 +1,6 @@
 import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import type { RankingExplanation, SectionChange } from "../store/types";
+import type { LibraryVersion, RefreshOutcome, ScheduleInfo } from "../tools";
 
 /**
  * Creates a success response object in the format expected by the MCP server.
@@ -33,3 +35,94 @@ export function createError(text: string): CallToolResult {
     isError: true,
   };
 }
+
+/**
+ * Formats how a search result was ranked as a single line, e.g.
+ * "Ranking: fused 0.0325 | vector #1 (distance 0.4123) | text #3 (score -4.2100)",
+ * followed by "| expansion 0.0328" if the search was expanded and "| rerank 8" if the
+ * result was re-ranked.
+ * @param explain The ranking details of the result.
+ * @returns The formatted line.
+ */
+export function formatExplanation(explain: RankingExplanation): string {
+  const vector =
+    explain.vectorRank !== null
+      ? `vector #${explain.vectorRank} (distance ${explain.vectorDistance?.toFixed(4)})`
+      : "vector: no match";
+  const text =
+    explain.textRank !== null
+      ? `text #${explain.textRank} (score ${explain.textScore?.toFixed(4)})`
+      : "text: no match";
+  const expansion =
+    explain.expansionScore !== undefined
+      ? ` | expansion ${explain.expansionScore.toFixed(4)}`
+      : "";
+  const rerank =
+    explain.rerankScore !== undefined ? ` | rerank ${explain.rerankScore}` : "";
+  return `Ranking: fused ${explain.fusedScore.toFixed(4)} | ${vector} | ${text}${expansion}${rerank}`;
+}
+
+/**
+ * Formats an indexed version with its registry details, e.g.
+ * "18.2.0: from https://react.dev/reference, indexed 2025-01-31T10:00:00.000Z,
+ * 120 pages, 950 chunks — React API reference".
+ * @param version The version as listed by the list libraries tool.
+ * @returns The formatted line.
+ */
+export function formatLibraryVersion(version: LibraryVersion): string {
+  const label = version.version || "[no version]";
+  if (version.pages === undefined) {
+    return label;
+  }
+  const details = [
+    version.sourceUrl ? `from ${version.sourceUrl}` : null,
+    version.finishedAt ? `indexed ${version.finishedAt}` : null,
+    `${version.pages} pages, ${version.chunks} chunks`,
+  ].filter(Boolean);
+  const description = version.description ? ` — ${version.description}` : "";
+  return `${label}: ${details.join(", ")}${description}`;
+}
+
+/**
+ * Formats the outcome of refreshing a library version, e.g.
+ * "react@18.2.0: completed (job 3f2a…, 120 pages)" or
+ * "lodash@[no version]: skipped — No stored scrape configuration (...)".
+ * @param outcome The outcome as reported by the refresh tool.
+ * @returns The formatted line.
+ */
+export function formatRefreshOutcome(outcome: RefreshOutcome): string {
+  const details = [
+    outcome.jobId ? `job ${outcome.jobId}` : null,
+    outcome.pagesScraped !== undefined ? `${outcome.pagesScraped} pages` : null,
+  ].filter(Boolean);
+  const suffix = details.length > 0 ? ` (${details.join(", ")})` : "";
+  const message = outcome.message ? ` — ${outcome.message}` : "";
+  return `${outcome.library}@${outcome.version || "[no version]"}: ${outcome.status}${suffix}${message}`;
+}
+
+/**
+ * Formats a refresh schedule with its last and next run as an indented block in the
+ * style of the job list.
+ * @param schedule The schedule as listed by the list jobs tool.
+ * @returns The formatted block.
+ */
+export function formatSchedule(schedule: ScheduleInfo): string {
+  const target = `${schedule.library}${schedule.version ? `@${schedule.version}` : " (all versions)"}`;
+  const timing = schedule.cron ? `cron '${schedule.cron}'` : `every ${schedule.every}`;
+  const lastRun = schedule.lastRunAt
+    ? `\n  Last run: ${schedule.lastRunAt} (${schedule.lastRunStatus}${schedule.lastRunMessage ? `: ${schedule.lastRunMessage}` : ""})`
+    : "";
+  return `- Library: ${target}\n  Schedule: ${timing}${lastRun}\n  Next run: ${schedule.nextRunAt ?? "never"}`;
+}
+
+/**
+ * Formats a changed section with its line diff, e.g.
+ * "[modified] /reference/{version}/hooks > Hooks > useState" followed by the page URL
+ * and the diff.
+ * @param change The section change as reported by the diff versions tool.
+ * @returns The formatted block.
+ */
+export function formatSectionChange(change: SectionChange): string {
+  const heading = [change.path, ...change.headings].join(" > ");
+  return `[${change.status}] ${heading}\n${change.url}\n${change.diff}`;
+}
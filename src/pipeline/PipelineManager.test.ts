@@ -30,7 +30,12 @@ describe("PipelineManager", () => {
     vi.useFakeTimers(); // Use fake timers for controlling async queue processing
 
     mockStore = {
-      // Add mock methods if manager interacts directly (it shouldn't now)
+      getStagingLibrary: vi.fn((jobId: string) => `__staging__/${jobId}`),
+      commitStaging: vi.fn().mockResolvedValue(1),
+      discardStaging: vi.fn().mockResolvedValue(undefined),
+      saveVersionRecord: vi.fn().mockResolvedValue(undefined),
+      removePagesNotIn: vi.fn().mockResolvedValue([]),
+      removePages: vi.fn().mockResolvedValue([]),
     };
 
     mockScraperService = {
@@ -128,5 +133,156 @@ describe("PipelineManager", () => {
     );
   });
 
+  it("should register the version with the options and timing of a completed job", async () => {
+    const options = { url: "http://a.com", library: "libA", version: "1.0", maxDepth: 2 };
+    const jobId = await manager.enqueueJob("libA", "1.0", options, "Main docs");
+
+    await manager.start();
+    await vi.advanceTimersByTimeAsync(1);
+    await manager.waitForJobCompletion(jobId);
+
+    expect(mockStore.saveVersionRecord).toHaveBeenCalledWith("libA", "1.0", {
+      sourceUrl: "http://a.com",
+      scraperOptions: options,
+      jobId,
+      description: "Main docs",
+      startedAt: expect.any(String),
+      finishedAt: expect.any(String),
+    });
+  });
+
+  it("should complete the job even if registering the version fails", async () => {
+    (mockStore.saveVersionRecord as Mock).mockRejectedValue(new Error("disk full"));
+    const options = { url: "http://a.com", library: "libA", version: "1.0" };
+    const jobId = await manager.enqueueJob("libA", "1.0", options);
+
+    await manager.start();
+    await vi.advanceTimersByTimeAsync(1);
+    await manager.waitForJobCompletion(jobId);
+
+    expect((await manager.getJob(jobId))?.status).toBe(PipelineJobStatus.COMPLETED);
+  });
+
+  // --- Staging ---
+  describe("staging", () => {
+    const stagingLibrary = `__staging__/${mockUuid}`;
+    const options = { url: "http://a.com", library: "libA", version: "1.0" };
+
+    it("should swap the staged documents in when the job completes", async () => {
+      const jobId = await manager.enqueueJob("libA", "1.0", options);
+      await manager.start();
+      await vi.advanceTimersByTimeAsync(1);
+      await manager.waitForJobCompletion(jobId);
+
+      const job = await manager.getJob(jobId);
+      expect(job?.stagingLibrary).toBe(stagingLibrary);
+      expect(mockStore.commitStaging).toHaveBeenCalledWith(stagingLibrary, "libA", "1.0");
+      expect(mockStore.discardStaging).not.toHaveBeenCalled();
+      expect(job?.status).toBe(PipelineJobStatus.COMPLETED);
+    });
+
+    it("should discard the staged documents and keep the live version on failure", async () => {
+      mockWorkerInstance.executeJob.mockRejectedValue(new Error("Scrape failed"));
+
+      const jobId = await manager.enqueueJob("libA", "1.0", options);
+      await manager.start();
+      const completion = expect(manager.waitForJobCompletion(jobId)).rejects.toThrow(
+        "Scrape failed",
+      );
+      await vi.advanceTimersByTimeAsync(1);
+      await completion;
+
+      const job = await manager.getJob(jobId);
+      expect(job?.status).toBe(PipelineJobStatus.FAILED);
+      expect(mockStore.commitStaging).not.toHaveBeenCalled();
+      expect(mockStore.discardStaging).toHaveBeenCalledWith(stagingLibrary, "1.0");
+      expect(mockStore.saveVersionRecord).not.toHaveBeenCalled();
+    });
+
+    it("should fail the job if the swap fails", async () => {
+      (mockStore.commitStaging as Mock).mockRejectedValue(new Error("Nothing staged"));
+
+      const jobId = await manager.enqueueJob("libA", "1.0", options);
+      await manager.start();
+      const completion = expect(manager.waitForJobCompletion(jobId)).rejects.toThrow(
+        "Nothing staged",
+      );
+      await vi.advanceTimersByTimeAsync(1);
+      await completion;
+
+      const job = await manager.getJob(jobId);
+      expect(job?.status).toBe(PipelineJobStatus.FAILED);
+      expect(mockStore.discardStaging).toHaveBeenCalledWith(stagingLibrary, "1.0");
+    });
+
+    it("should not stage incremental jobs", async () => {
+      const jobId = await manager.enqueueJob("libA", "1.0", {
+        ...options,
+        incremental: true,
+      });
+      await manager.start();
+      await vi.advanceTimersByTimeAsync(1);
+      await manager.waitForJobCompletion(jobId);
+
+      const job = await manager.getJob(jobId);
+      expect(job?.stagingLibrary).toBeNull();
+      expect(mockStore.getStagingLibrary).not.toHaveBeenCalled();
+      expect(mockStore.commitStaging).not.toHaveBeenCalled();
+    });
+  });
+
+  // --- Incremental page removal ---
+  describe("incremental page removal", () => {
+    const options = {
+      url: "http://a.com",
+      library: "libA",
+      version: "1.0",
+      incremental: true,
+    };
+
+    it("should remove pages not reached by a complete crawl once the job succeeds", async () => {
+      const keepUrls = new Set(["http://a.com/1"]);
+      mockWorkerInstance.executeJob.mockResolvedValue({ keepUrls, goneUrls: new Set() });
+
+      const jobId = await manager.enqueueJob("libA", "1.0", options);
+      await manager.start();
+      await vi.advanceTimersByTimeAsync(1);
+      await manager.waitForJobCompletion(jobId);
+
+      expect(mockStore.removePagesNotIn).toHaveBeenCalledWith("libA", "1.0", keepUrls);
+      expect(mockStore.removePages).not.toHaveBeenCalled();
+    });
+
+    it("should only remove pages that no longer exist after an incomplete crawl", async () => {
+      const goneUrls = new Set(["http://a.com/gone"]);
+      mockWorkerInstance.executeJob.mockResolvedValue({ keepUrls: null, goneUrls });
+
+      const jobId = await manager.enqueueJob("libA", "1.0", options);
+      await manager.start();
+      await vi.advanceTimersByTimeAsync(1);
+      await manager.waitForJobCompletion(jobId);
+
+      expect(mockStore.removePages).toHaveBeenCalledWith("libA", "1.0", goneUrls);
+      expect(mockStore.removePagesNotIn).not.toHaveBeenCalled();
+    });
+
+    it("should not remove pages when the job is cancelled", async () => {
+      mockWorkerInstance.executeJob.mockImplementation(async (job) => {
+        await manager.cancelJob(job.id);
+        return { keepUrls: new Set(), goneUrls: new Set() };
+      });
+
+      const jobId = await manager.enqueueJob("libA", "1.0", options);
+      await manager.start();
+      const completion = expect(manager.waitForJobCompletion(jobId)).rejects.toThrow();
+      await vi.advanceTimersByTimeAsync(1);
+      await completion;
+
+      expect((await manager.getJob(jobId))?.status).toBe(PipelineJobStatus.CANCELLED);
+      expect(mockStore.removePagesNotIn).not.toHaveBeenCalled();
+      expect(mockStore.removePages).not.toHaveBeenCalled();
+    });
+  });
+
   // Add more tests here for concurrency, failure, cancellation etc.
 });
@@ -5,7 +5,7 @@ import type { DocumentManagementService } from "../store";
 import { logger } from "../utils/logger";
 import { PipelineWorker } from "./PipelineWorker"; // Import the worker
 import { CancellationError, PipelineStateError } from "./errors";
-import type { PipelineJob, PipelineManagerCallbacks } from "./types";
+import type { PageRemoval, PipelineJob, PipelineManagerCallbacks } from "./types";
 import { PipelineJobStatus } from "./types";
 
 const DEFAULT_CONCURRENCY = 3;
@@ -70,12 +70,14 @@ export class PipelineManager {
   }
 
   /**
-   * Enqueues a new document processing job.
+   * Enqueues a new document processing job. Once it completes, the version is recorded
+   * in the registry with the options, timing and `description` of the job.
    */
   async enqueueJob(
     library: string,
     version: string,
     options: ScraperOptions,
+    description?: string,
   ): Promise<string> {
     const jobId = uuidv4();
     const abortController = new AbortController();
@@ -86,12 +88,17 @@ export class PipelineManager {
       resolveCompletion = resolve;
       rejectCompletion = reject;
     });
+    // The outcome is also recorded on the job, so a failure must not become an
+    // unhandled rejection when nobody waits for the job
+    completionPromise.catch(() => {});
 
     const job: PipelineJob = {
       id: jobId,
       library,
       version,
       options,
+      description: description ?? null,
+      stagingLibrary: null,
       status: PipelineJobStatus.QUEUED,
       progress: null,
       error: null,
@@ -239,6 +246,15 @@ export class PipelineManager {
   /**
    * Executes a single pipeline job by delegating to a PipelineWorker.
    * Handles final status updates and promise resolution/rejection.
+   *
+   * Non-incremental jobs write into a staging area that replaces the indexed version
+   * in one transaction once the job completes, so searches never see a partially
+   * scraped version and a failed or cancelled job keeps the previous documents.
+   *
+   * Incremental jobs update the indexed version in place and are atomic per page only:
+   * each changed page is swapped for its new chunks in one transaction, but a failed
+   * or cancelled job keeps the pages it already updated next to ones it did not reach.
+   * Pages are only removed once the job succeeds, so such a job never loses pages.
    */
   private async _runJob(job: PipelineJob): Promise<void> {
     const { id: jobId, abortController } = job;
@@ -247,10 +263,13 @@ export class PipelineManager {
     // Instantiate a worker for this job.
     // Dependencies (store, scraperService) are held by the manager.
     const worker = new PipelineWorker(this.store, this.scraperService);
+    job.stagingLibrary = job.options.incremental
+      ? null
+      : this.store.getStagingLibrary(jobId);
 
     try {
       // Delegate the actual work to the worker
-      await worker.executeJob(job, this.callbacks);
+      const removal = await worker.executeJob(job, this.callbacks);
 
       // If executeJob completes without throwing, and we weren't cancelled meanwhile...
       if (signal.aborted) {
@@ -258,6 +277,14 @@ export class PipelineManager {
         throw new CancellationError("Job cancelled just before completion");
       }
 
+      if (job.stagingLibrary) {
+        await this.store.commitStaging(job.stagingLibrary, job.library, job.version);
+      }
+      if (removal) {
+        await this._removePages(job, removal);
+      }
+      await this._recordVersion(job);
+
       // Mark as completed
       job.status = PipelineJobStatus.COMPLETED;
       job.finishedAt = new Date();
@@ -265,6 +292,7 @@ export class PipelineManager {
       await this.callbacks.onJobStatusChange?.(job);
       job.resolveCompletion();
     } catch (error) {
+      await this._discardStaging(job);
       // Handle errors thrown by the worker, including CancellationError
       if (error instanceof CancellationError || signal.aborted) {
         // Explicitly check for CancellationError or if the signal was aborted
@@ -293,4 +321,48 @@ export class PipelineManager {
       this._processQueue();
     }
   }
+
+  /**
+   * Removes the pages an incremental job no longer found: all pages not reached by a
+   * complete crawl, or only those that no longer exist after an incomplete one.
+   */
+  private async _removePages(job: PipelineJob, removal: PageRemoval): Promise<void> {
+    const removed = removal.keepUrls
+      ? await this.store.removePagesNotIn(job.library, job.version, removal.keepUrls)
+      : await this.store.removePages(job.library, job.version, removal.goneUrls);
+    logger.info(`🗑️ Removed ${removed.length} pages of ${job.library}@${job.version}`);
+  }
+
+  /**
+   * Records the source, options and timing of a completed job in the version registry.
+   * Failures are only logged, since the documents are already stored.
+   */
+  private async _recordVersion(job: PipelineJob): Promise<void> {
+    const { signal, knownPages, ...scraperOptions } = job.options;
+    try {
+      await this.store.saveVersionRecord(job.library, job.version, {
+        sourceUrl: job.options.url,
+        scraperOptions,
+        jobId: job.id,
+        description: job.description,
+        startedAt: job.startedAt?.toISOString() ?? null,
+        finishedAt: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.warn(`⚠️ Failed to register ${job.library}@${job.version}: ${error}`);
+    }
+  }
+
+  /**
+   * Removes the staged documents of a job that did not complete. Failures are only
+   * logged, so they never mask the error that ended the job.
+   */
+  private async _discardStaging(job: PipelineJob): Promise<void> {
+    if (!job.stagingLibrary) return;
+    try {
+      await this.store.discardStaging(job.stagingLibrary, job.version);
+    } catch (error) {
+      logger.warn(`⚠️ Failed to discard staged documents of job ${job.id}: ${error}`);
+    }
+  }
 }
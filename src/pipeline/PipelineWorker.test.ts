@@ -1,3 +1,4 @@
+import { createHash } from "node:crypto";
 import { type Mock, beforeEach, describe, expect, it, vi } from "vitest";
 import type { ScraperService } from "../scraper";
 import type { ScraperProgress } from "../scraper/types";
@@ -25,6 +26,11 @@ describe("PipelineWorker", () => {
 
     mockStore = {
       addDocument: vi.fn().mockResolvedValue(undefined),
+      savePageState: vi.fn().mockResolvedValue(undefined),
+      getPageStates: vi.fn().mockResolvedValue(new Map()),
+      replacePage: vi.fn().mockResolvedValue(undefined),
+      removePagesNotIn: vi.fn().mockResolvedValue([]),
+      removePages: vi.fn().mockResolvedValue([]),
     };
 
     mockScraperService = {
@@ -59,6 +65,8 @@ describe("PipelineWorker", () => {
         maxPages: 10,
         maxDepth: 1,
       },
+      stagingLibrary: null,
+      description: null,
       status: PipelineJobStatus.RUNNING, // Assume worker receives a running job
       progress: null,
       error: null,
@@ -156,6 +164,39 @@ describe("PipelineWorker", () => {
     expect(mockCallbacks.onJobError).not.toHaveBeenCalled();
   });
 
+  it("should write documents and page states to the staging library", async () => {
+    mockJob.stagingLibrary = "__staging__/test-job-id";
+    const doc: Document = {
+      content: "doc1",
+      metadata: { url: "url1", title: "Doc 1", library: "test-lib", version: "1.0.0" },
+    };
+    (mockScraperService.scrape as Mock).mockImplementation(
+      async (_options, progressCallback) => {
+        await progressCallback({
+          pagesScraped: 1,
+          maxPages: 1,
+          currentUrl: "url1",
+          depth: 0,
+          maxDepth: 1,
+          document: doc,
+        });
+      },
+    );
+
+    await worker.executeJob(mockJob, mockCallbacks);
+
+    expect(mockStore.addDocument).toHaveBeenCalledWith(
+      "__staging__/test-job-id",
+      "1.0.0",
+      expect.objectContaining({ pageContent: "doc1" }),
+    );
+    expect(mockStore.savePageState).toHaveBeenCalledWith(
+      "__staging__/test-job-id",
+      "1.0.0",
+      expect.objectContaining({ url: "url1" }),
+    );
+  });
+
   it("should re-throw error if scraperService.scrape fails", async () => {
     const scraperError = new Error("Scraper failed");
     (mockScraperService.scrape as Mock).mockRejectedValue(scraperError);
@@ -195,7 +236,7 @@ describe("PipelineWorker", () => {
     (mockStore.addDocument as Mock).mockRejectedValue(storeError);
 
     // Execute the job - should complete despite the error
-    await expect(worker.executeJob(mockJob, mockCallbacks)).resolves.toBeUndefined();
+    await expect(worker.executeJob(mockJob, mockCallbacks)).resolves.toBeNull();
 
     // Verify scrape was called
     expect(mockScraperService.scrape).toHaveBeenCalledOnce();
@@ -277,4 +318,141 @@ describe("PipelineWorker", () => {
     expect(mockCallbacks.onJobProgress).not.toHaveBeenCalled();
     expect(mockCallbacks.onJobError).not.toHaveBeenCalled();
   });
+
+  describe("incremental jobs", () => {
+    const makeDoc = (url: string, content: string): Document => ({
+      content,
+      metadata: { url, title: url, library: "test-lib", version: "1.0.0" },
+      etag: `"${content}"`,
+    });
+    const hashOf = (content: string) =>
+      createHash("sha256").update(content).digest("hex");
+
+    beforeEach(() => {
+      mockJob.options = { ...mockJob.options, incremental: true };
+      (mockStore.getPageStates as Mock).mockResolvedValue(
+        new Map([
+          ["url1", { url: "url1", contentHash: hashOf("same"), links: [] }],
+          ["url2", { url: "url2", contentHash: hashOf("old"), links: [] }],
+          [
+            "url3",
+            { url: "url3", contentHash: hashOf("x"), etag: '"x"', links: ["url4"] },
+          ],
+        ]),
+      );
+      (mockScraperService.scrape as Mock).mockImplementation(
+        async (options, progressCallback) => {
+          const base = { maxPages: 10, depth: 1, maxDepth: 1 };
+          await progressCallback({
+            ...base,
+            pagesScraped: 1,
+            currentUrl: "url1",
+            document: makeDoc("url1", "same"),
+            links: ["url2"],
+          });
+          await progressCallback({
+            ...base,
+            pagesScraped: 2,
+            currentUrl: "url2",
+            document: makeDoc("url2", "new"),
+          });
+          await progressCallback({
+            ...base,
+            pagesScraped: 3,
+            currentUrl: "url3",
+            notModified: true,
+            links: ["url4"],
+          });
+        },
+      );
+    });
+
+    it("should pass known pages to the scraper", async () => {
+      await worker.executeJob(mockJob, mockCallbacks);
+
+      const scrapeOptions = (mockScraperService.scrape as Mock).mock.calls[0][0];
+      expect(scrapeOptions.knownPages.get("url3")).toMatchObject({ etag: '"x"' });
+    });
+
+    it("should only refresh the page state of unchanged content", async () => {
+      await worker.executeJob(mockJob, mockCallbacks);
+
+      expect(mockStore.savePageState).toHaveBeenCalledWith("test-lib", "1.0.0", {
+        url: "url1",
+        contentHash: hashOf("same"),
+        etag: '"same"',
+        lastModified: undefined,
+        links: ["url2"],
+      });
+      expect(mockStore.replacePage).toHaveBeenCalledOnce();
+      expect(mockStore.addDocument).not.toHaveBeenCalled();
+    });
+
+    it("should replace pages whose content changed", async () => {
+      await worker.executeJob(mockJob, mockCallbacks);
+
+      expect(mockStore.replacePage).toHaveBeenCalledWith(
+        "test-lib",
+        "1.0.0",
+        { pageContent: "new", metadata: makeDoc("url2", "new").metadata },
+        expect.objectContaining({ url: "url2", contentHash: hashOf("new") }),
+      );
+    });
+
+    it("should return the pages reached by a complete crawl to keep", async () => {
+      const removal = await worker.executeJob(mockJob, mockCallbacks);
+
+      expect(removal).toEqual({
+        keepUrls: new Set(["url1", "url2", "url3"]),
+        goneUrls: new Set(),
+      });
+      // Pages are only removed by the manager once the job succeeded
+      expect(mockStore.removePagesNotIn).not.toHaveBeenCalled();
+      expect(mockStore.removePages).not.toHaveBeenCalled();
+    });
+
+    it("should only return pages that no longer exist after an incomplete crawl", async () => {
+      const scrape = (mockScraperService.scrape as Mock).getMockImplementation();
+      (mockScraperService.scrape as Mock).mockImplementation(
+        async (options, progressCallback, signal) => {
+          await scrape?.(options, progressCallback, signal);
+          const base = { pagesScraped: 3, maxPages: 10, depth: 2, maxDepth: 1 };
+          await progressCallback({ ...base, currentUrl: "url4", skipped: "gone" });
+          await progressCallback({ ...base, currentUrl: "url5", skipped: "limit" });
+        },
+      );
+
+      const removal = await worker.executeJob(mockJob, mockCallbacks);
+
+      expect(removal).toEqual({ keepUrls: null, goneUrls: new Set(["url4"]) });
+      expect(mockCallbacks.onJobProgress).toHaveBeenCalledTimes(3);
+    });
+
+    it("should still keep only reached pages after a complete crawl that found missing pages", async () => {
+      const scrape = (mockScraperService.scrape as Mock).getMockImplementation();
+      (mockScraperService.scrape as Mock).mockImplementation(
+        async (options, progressCallback, signal) => {
+          await scrape?.(options, progressCallback, signal);
+          await progressCallback({
+            pagesScraped: 3,
+            maxPages: 10,
+            currentUrl: "url4",
+            depth: 1,
+            maxDepth: 1,
+            skipped: "gone",
+          });
+        },
+      );
+
+      const removal = await worker.executeJob(mockJob, mockCallbacks);
+
+      expect(removal?.keepUrls).toEqual(new Set(["url1", "url2", "url3"]));
+    });
+
+    it("should not return pages for non-incremental jobs", async () => {
+      mockJob.options = { ...mockJob.options, incremental: false };
+
+      await expect(worker.executeJob(mockJob, mockCallbacks)).resolves.toBeNull();
+    });
+  });
 });
@@ -1,9 +1,11 @@
+import { createHash } from "node:crypto";
 import type { ScraperService } from "../scraper";
 import type { ScraperProgress } from "../scraper/types";
 import type { DocumentManagementService } from "../store";
+import type { PageState } from "../store/types";
 import { logger } from "../utils/logger";
 import { CancellationError } from "./errors";
-import type { PipelineJob, PipelineManagerCallbacks } from "./types";
+import type { PageRemoval, PipelineJob, PipelineManagerCallbacks } from "./types";
 
 /**
  * Executes a single document processing job.
@@ -22,40 +24,104 @@ export class PipelineWorker {
 
   /**
    * Executes the given pipeline job.
+   *
+   * Documents are written to `job.stagingLibrary` when set; the manager swaps them
+   * into the indexed version once the job completes.
+   *
+   * Incremental jobs (`options.incremental`) update an indexed version in place: pages
+   * are revalidated with conditional requests, pages whose content hash is unchanged
+   * are not re-split or re-embedded, and the pages to remove are returned for the
+   * manager to remove once the job succeeds: those not reached by the crawl, or, if
+   * pages failed or were cut off by `maxPages`/`maxDepth`, only those that no longer
+   * exist (404/410).
    * @param job - The job to execute.
    * @param callbacks - Callbacks provided by the manager for reporting.
+   * @returns The pages to remove for incremental jobs, otherwise null.
    */
-  async executeJob(job: PipelineJob, callbacks: PipelineManagerCallbacks): Promise<void> {
+  async executeJob(
+    job: PipelineJob,
+    callbacks: PipelineManagerCallbacks,
+  ): Promise<PageRemoval | null> {
     const { id: jobId, library, version, options, abortController } = job;
     const signal = abortController.signal;
 
     logger.debug(`[${jobId}] Worker starting job for ${library}@${version}`);
 
+    const incremental = options.incremental === true;
+    const targetLibrary = job.stagingLibrary ?? library;
+    const seenUrls = new Set<string>();
+    const goneUrls = new Set<string>();
+    let complete = true;
+    let unchangedPages = 0;
+
     try {
+      const knownPages = incremental
+        ? await this.store.getPageStates(library, version)
+        : new Map<string, PageState>();
+
       // --- Core Job Logic ---
       await this.scraperService.scrape(
-        options,
+        incremental ? { ...options, knownPages } : options,
         async (progress: ScraperProgress) => {
           // Check for cancellation signal before processing each document
           if (signal.aborted) {
             throw new CancellationError("Job cancelled during scraping progress");
           }
 
+          // Skipped URLs tell whether unreached pages can be pruned; they are not progress
+          if (progress.skipped) {
+            if (progress.skipped === "gone") {
+              goneUrls.add(progress.currentUrl);
+            } else {
+              complete = false;
+            }
+            return;
+          }
+
           // Update job object directly (manager holds the reference)
           job.progress = progress;
           // Report progress via manager's callback
           await callbacks.onJobProgress?.(job, progress);
 
+          if (progress.notModified) {
+            seenUrls.add(progress.currentUrl);
+            unchangedPages++;
+          }
+
           if (progress.document) {
+            const { document } = progress;
+            seenUrls.add(document.metadata.url);
             try {
-              // TODO: Pass signal to store.addDocument if it supports it
-              await this.store.addDocument(library, version, {
-                pageContent: progress.document.content,
-                metadata: progress.document.metadata,
-              });
-              logger.debug(
-                `[${jobId}] Stored document: ${progress.document.metadata.url}`,
-              );
+              const page: PageState = {
+                url: document.metadata.url,
+                contentHash: createHash("sha256").update(document.content).digest("hex"),
+                etag: document.etag,
+                lastModified: document.lastModified,
+                links: progress.links ?? [],
+              };
+
+              if (knownPages.get(page.url)?.contentHash === page.contentHash) {
+                // Same content as before: only refresh validators and links
+                await this.store.savePageState(targetLibrary, version, page);
+                unchangedPages++;
+                logger.debug(`[${jobId}] Unchanged document: ${page.url}`);
+              } else if (incremental) {
+                await this.store.replacePage(
+                  library,
+                  version,
+                  { pageContent: document.content, metadata: document.metadata },
+                  page,
+                );
+                logger.debug(`[${jobId}] Updated document: ${page.url}`);
+              } else {
+                // TODO: Pass signal to store.addDocument if it supports it
+                await this.store.addDocument(targetLibrary, version, {
+                  pageContent: document.content,
+                  metadata: document.metadata,
+                });
+                await this.store.savePageState(targetLibrary, version, page);
+                logger.debug(`[${jobId}] Stored document: ${page.url}`);
+              }
             } catch (docError) {
               logger.error(
                 `[${jobId}] Failed to store document ${progress.document.metadata.url}: ${docError}`,
@@ -80,8 +146,20 @@ export class PipelineWorker {
         throw new CancellationError("Job cancelled shortly after scraping finished");
       }
 
+      let removal: PageRemoval | null = null;
+      if (incremental) {
+        logger.info(
+          `[${jobId}] Incremental scrape: ${seenUrls.size - unchangedPages} changed, ${unchangedPages} unchanged pages.`,
+        );
+        if (!complete) {
+          logger.info(`[${jobId}] Crawl was incomplete, keeping pages it did not reach.`);
+        }
+        removal = { keepUrls: complete ? seenUrls : null, goneUrls };
+      }
+
       // If successful and not cancelled, the manager will handle status update
       logger.info(`[${jobId}] Worker finished job successfully.`);
+      return removal;
     } catch (error) {
       // Re-throw error to be caught by the manager in _runJob
       logger.warn(`[${jobId}] Worker encountered error: ${error}`);
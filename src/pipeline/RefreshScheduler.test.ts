@@ -0,0 +1,267 @@
+// @vitest-environment node
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { type Mock, afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { DocumentManagementService } from "../store/DocumentManagementService";
+import { RefreshTool } from "../tools/RefreshTool";
+import type { PipelineManager } from "./PipelineManager";
+import { RefreshScheduler } from "./RefreshScheduler";
+import { ScheduleError } from "./errors";
+import { type PipelineJob, PipelineJobStatus } from "./types";
+
+vi.mock("../tools/RefreshTool");
+vi.mock("../utils/logger");
+
+const HOUR = 60 * 60 * 1000;
+const NOW = new Date("2025-01-10T12:00:00.000Z");
+
+describe("RefreshScheduler", () => {
+  let dir: string;
+  let filePath: string;
+  let mockDocService: Partial<DocumentManagementService>;
+  let mockManager: Partial<PipelineManager>;
+  let mockExecute: Mock;
+  let scheduler: RefreshScheduler;
+
+  const writeConfig = (config: unknown) =>
+    writeFileSync(filePath, JSON.stringify(config), "utf-8");
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+    vi.spyOn(Math, "random").mockReturnValue(0.5);
+
+    dir = mkdtempSync(path.join(tmpdir(), "schedules-"));
+    filePath = path.join(dir, "schedules.json");
+
+    mockDocService = {
+      resolveVersion: vi.fn(async (_library: string, version?: string | null) =>
+        version === "stable" ? "18.2.0" : (version ?? undefined),
+      ),
+      listVersionRecords: vi.fn().mockResolvedValue([]),
+    };
+    mockManager = {
+      getJob: vi.fn().mockResolvedValue(undefined),
+      // Jobs keep running unless a test finishes them
+      waitForJobCompletion: vi.fn(() => new Promise<void>(() => {})),
+    };
+    mockExecute = vi.fn().mockResolvedValue({
+      outcomes: [
+        { library: "react", version: "18.2.0", status: "queued", jobId: "job-1" },
+      ],
+    });
+    (RefreshTool as Mock).mockImplementation(() => ({ execute: mockExecute }));
+
+    scheduler = new RefreshScheduler(
+      mockDocService as DocumentManagementService,
+      mockManager as PipelineManager,
+      filePath,
+    );
+  });
+
+  afterEach(async () => {
+    await scheduler.stop();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should start without schedules if the file does not exist", async () => {
+    await scheduler.start();
+    expect(scheduler.listSchedules()).toEqual([]);
+  });
+
+  it("should schedule the first interval run after the last indexing, with jitter", async () => {
+    writeConfig({ jitter: "10m", schedules: [{ library: "React", every: "6h" }] });
+    (mockDocService.listVersionRecords as Mock).mockResolvedValue([
+      { library: "react", version: "18.2.0", finishedAt: "2025-01-10T10:00:00.000Z" },
+      { library: "react", version: "17.0.2", finishedAt: "2025-01-10T11:00:00.000Z" },
+    ]);
+
+    await scheduler.start();
+
+    const [schedule] = scheduler.listSchedules();
+    expect(schedule).toMatchObject({ library: "react", every: "6h", lastRunAt: null });
+    // Oldest version indexed at 10:00, plus 6h, plus half of the 10 minute jitter
+    expect(schedule.nextRunAt).toEqual(new Date("2025-01-10T16:05:00.000Z"));
+  });
+
+  it("should run schedules with zero jitter exactly when due", async () => {
+    writeConfig({
+      jitter: "1m",
+      schedules: [{ library: "react", every: "6h", jitter: "0s" }],
+    });
+    (mockDocService.listVersionRecords as Mock).mockResolvedValue([
+      { library: "react", version: "18.2.0", finishedAt: "2025-01-10T10:00:00.000Z" },
+    ]);
+
+    await scheduler.start();
+
+    const [schedule] = scheduler.listSchedules();
+    expect(schedule).toMatchObject({ jitter: "0s" });
+    expect(schedule.nextRunAt).toEqual(new Date("2025-01-10T16:00:00.000Z"));
+    await vi.advanceTimersByTimeAsync(4 * HOUR);
+    expect(mockExecute).toHaveBeenCalledOnce();
+  });
+
+  it("should run interval schedules when due and re-arm them", async () => {
+    writeConfig({ schedules: [{ library: "react", every: "6h" }] });
+
+    await scheduler.start();
+    // No indexing recorded, so the first run is due right away (plus jitter)
+    await vi.advanceTimersByTimeAsync(3 * 60 * 1000);
+
+    expect(mockExecute).toHaveBeenCalledWith({
+      library: "react",
+      version: undefined,
+      waitForCompletion: false,
+    });
+    const [schedule] = scheduler.listSchedules();
+    expect(schedule).toMatchObject({
+      lastRunStatus: "started",
+      lastRunMessage: "Started 1 of 1 refresh jobs.",
+      jobIds: ["job-1"],
+    });
+    expect(schedule.nextRunAt?.getTime()).toBe(
+      NOW.getTime() + 150_000 + 6 * HOUR + 150_000,
+    );
+  });
+
+  it("should record the outcome of the jobs a run started", async () => {
+    writeConfig({ schedules: [{ library: "react", every: "1h" }] });
+    mockExecute.mockResolvedValue({
+      outcomes: [
+        { library: "react", version: "17.0.2", status: "queued", jobId: "job-1" },
+        { library: "react", version: "18.2.0", status: "queued", jobId: "job-2" },
+      ],
+    });
+    (mockManager.waitForJobCompletion as Mock)
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(new Error("Network unreachable"));
+
+    await scheduler.start();
+    await vi.advanceTimersByTimeAsync(5 * 60 * 1000);
+
+    expect(mockManager.waitForJobCompletion).toHaveBeenCalledWith("job-1");
+    expect(mockManager.waitForJobCompletion).toHaveBeenCalledWith("job-2");
+    expect(scheduler.listSchedules()[0]).toMatchObject({
+      lastRunStatus: "failed",
+      lastRunMessage: "1 of 2 refresh jobs failed: Network unreachable",
+    });
+  });
+
+  it("should record runs whose jobs all completed", async () => {
+    writeConfig({ schedules: [{ library: "react", every: "1h" }] });
+    (mockManager.waitForJobCompletion as Mock).mockResolvedValue(undefined);
+
+    await scheduler.start();
+    await vi.advanceTimersByTimeAsync(5 * 60 * 1000);
+
+    expect(scheduler.listSchedules()[0]).toMatchObject({
+      lastRunStatus: "completed",
+      lastRunMessage: "Completed 1 refresh jobs.",
+    });
+  });
+
+  it("should skip a run while jobs of the previous run are still active", async () => {
+    writeConfig({ schedules: [{ library: "react", every: "1h", jitter: "1m" }] });
+    (mockManager.getJob as Mock).mockResolvedValue({
+      status: PipelineJobStatus.RUNNING,
+    } as PipelineJob);
+
+    await scheduler.start();
+    await vi.advanceTimersByTimeAsync(HOUR + 2 * 60 * 1000);
+
+    expect(mockExecute).toHaveBeenCalledTimes(1);
+    expect(mockManager.getJob).toHaveBeenCalledWith("job-1");
+    expect(scheduler.listSchedules()[0]).toMatchObject({
+      lastRunStatus: "skipped",
+      lastRunMessage: "Previous run still active (jobs job-1).",
+    });
+  });
+
+  it("should record failed runs and keep the schedule", async () => {
+    writeConfig({ schedules: [{ library: "react", every: "1h" }] });
+    mockExecute.mockRejectedValueOnce(new Error("Library react not found"));
+
+    await scheduler.start();
+    await vi.advanceTimersByTimeAsync(5 * 60 * 1000);
+
+    const [schedule] = scheduler.listSchedules();
+    expect(schedule.lastRunStatus).toBe("failed");
+    expect(schedule.lastRunMessage).toBe("Library react not found");
+    expect(schedule.nextRunAt).not.toBeNull();
+  });
+
+  it("should run cron schedules at the next matching time", async () => {
+    await scheduler.start();
+    const status = await scheduler.setSchedule({
+      library: "react",
+      version: "stable",
+      cron: "*/15 * * * *",
+      jitter: "2m",
+    });
+
+    expect(status.nextRunAt).toEqual(new Date("2025-01-10T12:16:00.000Z"));
+    await vi.advanceTimersByTimeAsync(16 * 60 * 1000);
+    expect(mockExecute).toHaveBeenCalledWith({
+      library: "react",
+      version: "stable",
+      waitForCompletion: false,
+    });
+  });
+
+  it("should save schedules set and removed to the file", async () => {
+    await scheduler.start();
+    await scheduler.setSchedule({ library: "React", every: "1d" });
+    await scheduler.setSchedule({ library: "vue", version: "3.4.0", cron: "0 3 * * *" });
+    // Replaces the first schedule
+    await scheduler.setSchedule({ library: "react", every: "12h" });
+
+    expect(JSON.parse(readFileSync(filePath, "utf-8"))).toEqual({
+      schedules: [
+        { library: "react", every: "12h" },
+        { library: "vue", version: "3.4.0", cron: "0 3 * * *" },
+      ],
+    });
+
+    await scheduler.removeSchedule("vue", "3.4.0");
+    expect(JSON.parse(readFileSync(filePath, "utf-8"))).toEqual({
+      schedules: [{ library: "react", every: "12h" }],
+    });
+    await expect(scheduler.removeSchedule("vue")).rejects.toThrow(ScheduleError);
+  });
+
+  it.each([
+    [{ library: "react" }, /either 'every' or 'cron'/],
+    [{ library: "react", every: "1d", cron: "0 3 * * *" }, /either 'every' or 'cron'/],
+    [{ library: "react", every: "daily" }, /Invalid duration/],
+    [{ library: "react", cron: "0 25 * * *" }, /Invalid cron expression/],
+    [{ library: "", every: "1d" }, /needs a library/],
+  ])("should reject invalid schedule %o", async (schedule, error) => {
+    await expect(scheduler.setSchedule(schedule)).rejects.toThrow(error);
+  });
+
+  it("should ignore invalid schedules in the file", async () => {
+    writeConfig({
+      schedules: [
+        { library: "react", every: "soon" },
+        { library: "vue", every: "1d" },
+      ],
+    });
+
+    await scheduler.start();
+
+    expect(scheduler.listSchedules().map((schedule) => schedule.library)).toEqual([
+      "vue",
+    ]);
+
+    // Saving keeps the invalid entries for the user to fix
+    await scheduler.removeSchedule("vue");
+    expect(JSON.parse(readFileSync(filePath, "utf-8"))).toEqual({
+      schedules: [{ library: "react", every: "soon" }],
+    });
+  });
+});
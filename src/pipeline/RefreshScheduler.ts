@@ -0,0 +1,434 @@
+import { existsSync } from "node:fs";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import envPaths from "env-paths";
+import type { DocumentManagementService } from "../store";
+import { RefreshTool } from "../tools/RefreshTool";
+import { type CronExpression, nextCronTime, parseCron } from "../utils/cron";
+import { parseDuration } from "../utils/duration";
+import { logger } from "../utils/logger";
+import type { PipelineManager } from "./PipelineManager";
+import { ScheduleError } from "./errors";
+import {
+  PipelineJobStatus,
+  type RefreshSchedule,
+  type ScheduleConfig,
+  type ScheduleStatus,
+} from "./types";
+
+/** Maximum random delay added to runs unless the schedule file sets another */
+const DEFAULT_JITTER = "5m";
+
+/** Longest delay `setTimeout` supports; later runs are re-armed when it fires */
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+/**
+ * Determines the schedule file: DOCS_MCP_SCHEDULE_FILE, or `schedules.json` in the
+ * platform's config directory.
+ */
+function resolveScheduleFilePath(): string {
+  const envFile = process.env.DOCS_MCP_SCHEDULE_FILE;
+  if (envFile) {
+    return envFile;
+  }
+  const standardPaths = envPaths("docs-mcp-server", { suffix: "" });
+  return path.join(standardPaths.config, "schedules.json");
+}
+
+/** A schedule with its parsed timing and run state */
+interface ScheduleEntry {
+  schedule: RefreshSchedule;
+  cron: CronExpression | null;
+  intervalMs: number | null;
+  jitterMs: number;
+  status: ScheduleStatus;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+/**
+ * Keeps indexes fresh by periodically re-scraping libraries with the options stored
+ * in the version registry, on an interval or a cron schedule. Runs are delayed by a
+ * random jitter so schedules due at the same time do not start all their jobs at
+ * once, and a run is skipped while jobs of its previous run are still active.
+ *
+ * Schedules are read from the schedule file on `start()`, and changes made with
+ * `setSchedule()` and `removeSchedule()` are written back to it.
+ */
+export class RefreshScheduler {
+  private entries: Map<string, ScheduleEntry> = new Map();
+  /** Invalid schedules of the file, kept so that saving does not drop them */
+  private invalidSchedules: RefreshSchedule[] = [];
+  private defaultJitter = DEFAULT_JITTER;
+  private isRunning = false;
+  private docService: DocumentManagementService;
+  private manager: PipelineManager;
+  private refreshTool: RefreshTool;
+  private filePath: string;
+
+  constructor(
+    docService: DocumentManagementService,
+    manager: PipelineManager,
+    filePath: string = resolveScheduleFilePath(),
+  ) {
+    this.docService = docService;
+    this.manager = manager;
+    this.refreshTool = new RefreshTool(docService, manager);
+    this.filePath = filePath;
+  }
+
+  /**
+   * Loads the schedule file and arms all schedules. A missing file means no
+   * schedules; invalid schedules are logged and ignored.
+   */
+  async start(): Promise<void> {
+    if (this.isRunning) {
+      logger.warn("RefreshScheduler is already running.");
+      return;
+    }
+    this.isRunning = true;
+    const config = await this.loadConfig();
+    if (config.jitter) {
+      try {
+        parseDuration(config.jitter, { allowZero: true });
+        this.defaultJitter = config.jitter;
+      } catch (error) {
+        logger.error(`❌ Ignoring default jitter in ${this.filePath}: ${error}`);
+      }
+    }
+    for (const schedule of config.schedules) {
+      try {
+        await this.addEntry(schedule);
+      } catch (error) {
+        this.invalidSchedules.push(schedule);
+        logger.error(
+          `❌ Ignoring schedule of ${schedule.library} in ${this.filePath}: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }
+    logger.debug(`⏰ RefreshScheduler started with ${this.entries.size} schedules.`);
+  }
+
+  /**
+   * Stops all timers. Jobs already enqueued keep running.
+   */
+  async stop(): Promise<void> {
+    this.isRunning = false;
+    for (const entry of this.entries.values()) {
+      if (entry.timer) {
+        clearTimeout(entry.timer);
+        entry.timer = null;
+      }
+    }
+  }
+
+  /**
+   * Lists the configured schedules with their last and next run.
+   */
+  listSchedules(): ScheduleStatus[] {
+    return Array.from(this.entries.values(), (entry) => ({
+      ...entry.status,
+      jobIds: [...entry.status.jobIds],
+    }));
+  }
+
+  /**
+   * Adds a schedule, replacing the one of the same library and version, and saves the
+   * schedule file.
+   * @throws {ScheduleError} If the schedule is invalid
+   */
+  async setSchedule(schedule: RefreshSchedule): Promise<ScheduleStatus> {
+    const entry = await this.addEntry(schedule);
+    await this.saveConfig();
+    logger.info(
+      `⏰ Scheduled ${this.describe(entry.schedule)} ${entry.cron ? `at '${entry.schedule.cron}'` : `every ${entry.schedule.every}`}`,
+    );
+    return { ...entry.status };
+  }
+
+  /**
+   * Removes the schedule of a library version and saves the schedule file. Jobs it
+   * already started keep running.
+   * @throws {ScheduleError} If no such schedule exists
+   */
+  async removeSchedule(library: string, version?: string): Promise<void> {
+    const key = this.getKey(library, version);
+    const entry = this.entries.get(key);
+    if (!entry) {
+      throw new ScheduleError(
+        `No schedule defined for ${this.describe({ library, version })}`,
+      );
+    }
+    if (entry.timer) {
+      clearTimeout(entry.timer);
+    }
+    this.entries.delete(key);
+    await this.saveConfig();
+    logger.info(`⏰ Removed schedule of ${this.describe(entry.schedule)}`);
+  }
+
+  /**
+   * Validates a schedule, replaces any entry with the same key and arms its timer.
+   */
+  private async addEntry(input: RefreshSchedule): Promise<ScheduleEntry> {
+    const schedule = this.normalize(input);
+    const key = this.getKey(schedule.library, schedule.version);
+    const existing = this.entries.get(key);
+    if (existing?.timer) {
+      clearTimeout(existing.timer);
+    }
+
+    const entry: ScheduleEntry = {
+      schedule,
+      cron: schedule.cron ? parseCron(schedule.cron) : null,
+      intervalMs: schedule.every ? parseDuration(schedule.every) : null,
+      jitterMs: parseDuration(schedule.jitter ?? this.defaultJitter, { allowZero: true }),
+      status: {
+        ...schedule,
+        lastRunAt: existing?.status.lastRunAt ?? null,
+        lastRunStatus: existing?.status.lastRunStatus ?? null,
+        lastRunMessage: existing?.status.lastRunMessage ?? null,
+        nextRunAt: null,
+        jobIds: existing?.status.jobIds ?? [],
+      },
+      timer: null,
+    };
+    entry.status.nextRunAt = await this.getFirstRun(entry);
+    this.entries.set(key, entry);
+    this.arm(entry);
+    return entry;
+  }
+
+  /**
+   * Checks that a schedule names a library and exactly one of `every` and `cron`, and
+   * lowercases library and version like the store does.
+   */
+  private normalize(schedule: RefreshSchedule): RefreshSchedule {
+    if (!schedule?.library) {
+      throw new ScheduleError("A schedule needs a library.");
+    }
+    if (!schedule.every === !schedule.cron) {
+      throw new ScheduleError(
+        `Schedule of ${schedule.library} needs either 'every' or 'cron', not both or neither.`,
+      );
+    }
+    try {
+      if (schedule.every) parseDuration(schedule.every);
+      if (schedule.cron) parseCron(schedule.cron);
+      if (schedule.jitter) parseDuration(schedule.jitter, { allowZero: true });
+    } catch (error) {
+      throw new ScheduleError(error instanceof Error ? error.message : String(error));
+    }
+    return {
+      library: schedule.library.toLowerCase(),
+      ...(schedule.version && { version: schedule.version.toLowerCase() }),
+      ...(schedule.every && { every: schedule.every }),
+      ...(schedule.cron && { cron: schedule.cron }),
+      ...(schedule.jitter && { jitter: schedule.jitter }),
+    };
+  }
+
+  /**
+   * Determines the first run after (re)starting. Cron schedules run at their next
+   * matching time. Interval schedules run one interval after the oldest covered
+   * version was last indexed, or right away if that is past, so restarting the
+   * server neither re-indexes fresh versions nor postpones stale ones.
+   */
+  private async getFirstRun(entry: ScheduleEntry): Promise<Date | null> {
+    const now = new Date();
+    if (entry.intervalMs === null) {
+      return this.getNextRun(entry, now);
+    }
+    const { library, version } = entry.schedule;
+    let lastIndexed: number | null = null;
+    try {
+      const resolved = (
+        await this.docService.resolveVersion(library, version)
+      )?.toLowerCase();
+      const records = (await this.docService.listVersionRecords(library)).filter(
+        (record) => resolved === undefined || record.version === resolved,
+      );
+      if (records.length > 0 && records.every((record) => record.finishedAt)) {
+        lastIndexed = Math.min(
+          ...records.map((record) => new Date(record.finishedAt as string).getTime()),
+        );
+      }
+    } catch (error) {
+      logger.warn(`⚠️ Could not read registry of ${library}: ${error}`);
+    }
+    const base = Math.max(now.getTime(), (lastIndexed ?? 0) + entry.intervalMs);
+    return this.addJitter(entry, base);
+  }
+
+  /**
+   * Determines the run following one at `from`.
+   */
+  private getNextRun(entry: ScheduleEntry, from: Date): Date | null {
+    if (entry.cron) {
+      const next = nextCronTime(entry.cron, from);
+      return next ? this.addJitter(entry, next.getTime()) : null;
+    }
+    return this.addJitter(entry, from.getTime() + (entry.intervalMs ?? 0));
+  }
+
+  private addJitter(entry: ScheduleEntry, time: number): Date {
+    return new Date(time + Math.floor(Math.random() * entry.jitterMs));
+  }
+
+  /**
+   * Sets the timer of a schedule for its next run. Delays beyond the `setTimeout`
+   * limit fire early and re-arm.
+   */
+  private arm(entry: ScheduleEntry): void {
+    const nextRunAt = entry.status.nextRunAt;
+    if (!this.isRunning || !nextRunAt) {
+      return;
+    }
+    const delay = Math.min(
+      Math.max(nextRunAt.getTime() - Date.now(), 0),
+      MAX_TIMER_DELAY,
+    );
+    entry.timer = setTimeout(() => {
+      entry.timer = null;
+      if (Date.now() < nextRunAt.getTime()) {
+        this.arm(entry);
+      } else {
+        void this.run(entry);
+      }
+    }, delay);
+    // Timers must not keep the process alive on their own
+    entry.timer.unref?.();
+  }
+
+  /**
+   * Runs a schedule: enqueues refresh jobs unless jobs of its previous run are still
+   * active, then arms the next run.
+   */
+  private async run(entry: ScheduleEntry): Promise<void> {
+    const { status } = entry;
+    const target = this.describe(entry.schedule);
+    status.lastRunAt = new Date();
+
+    const activeJobIds: string[] = [];
+    for (const jobId of status.jobIds) {
+      const job = await this.manager.getJob(jobId);
+      if (
+        job?.status === PipelineJobStatus.QUEUED ||
+        job?.status === PipelineJobStatus.RUNNING
+      ) {
+        activeJobIds.push(jobId);
+      }
+    }
+
+    if (activeJobIds.length > 0) {
+      status.lastRunStatus = "skipped";
+      status.lastRunMessage = `Previous run still active (jobs ${activeJobIds.join(", ")}).`;
+      logger.warn(`⚠️ Skipped scheduled refresh of ${target}: ${status.lastRunMessage}`);
+    } else {
+      try {
+        const { outcomes } = await this.refreshTool.execute({
+          library: entry.schedule.library,
+          version: entry.schedule.version,
+          waitForCompletion: false,
+        });
+        status.jobIds = outcomes.flatMap((outcome) =>
+          outcome.status === "queued" && outcome.jobId ? [outcome.jobId] : [],
+        );
+        status.lastRunStatus = "started";
+        status.lastRunMessage = `Started ${status.jobIds.length} of ${outcomes.length} refresh jobs.`;
+        logger.info(`⏰ Scheduled refresh of ${target}: ${status.lastRunMessage}`);
+        void this.trackJobs(entry, status.jobIds);
+      } catch (error) {
+        status.lastRunStatus = "failed";
+        status.lastRunMessage = error instanceof Error ? error.message : String(error);
+        logger.error(
+          `❌ Scheduled refresh of ${target} failed: ${status.lastRunMessage}`,
+        );
+      }
+    }
+
+    // The schedule may have been replaced or removed while the run was in progress
+    if (
+      this.entries.get(this.getKey(entry.schedule.library, entry.schedule.version)) ===
+      entry
+    ) {
+      status.nextRunAt = this.getNextRun(entry, new Date());
+      this.arm(entry);
+    }
+  }
+
+  /**
+   * Waits for the jobs started by a run and records whether all of them completed.
+   * Every job's outcome is handled, so a failed refresh never becomes an unhandled
+   * rejection. Nothing is recorded if a later run has started other jobs meanwhile.
+   */
+  private async trackJobs(entry: ScheduleEntry, jobIds: string[]): Promise<void> {
+    if (jobIds.length === 0) {
+      return;
+    }
+    const results = await Promise.allSettled(
+      jobIds.map((jobId) => this.manager.waitForJobCompletion(jobId)),
+    );
+    const { status } = entry;
+    if (status.jobIds !== jobIds) {
+      return;
+    }
+    const errors = results.flatMap((result) =>
+      result.status === "rejected"
+        ? [result.reason instanceof Error ? result.reason.message : String(result.reason)]
+        : [],
+    );
+    const target = this.describe(entry.schedule);
+    if (errors.length === 0) {
+      status.lastRunStatus = "completed";
+      status.lastRunMessage = `Completed ${jobIds.length} refresh jobs.`;
+      logger.info(`⏰ Scheduled refresh of ${target}: ${status.lastRunMessage}`);
+    } else {
+      status.lastRunStatus = "failed";
+      status.lastRunMessage = `${errors.length} of ${jobIds.length} refresh jobs failed: ${errors.join("; ")}`;
+      logger.error(`❌ Scheduled refresh of ${target}: ${status.lastRunMessage}`);
+    }
+  }
+
+  /**
+   * Reads the schedule file; a missing or unreadable file yields no schedules.
+   */
+  private async loadConfig(): Promise<ScheduleConfig> {
+    if (!existsSync(this.filePath)) {
+      logger.debug(`⏰ No schedule file at ${this.filePath}`);
+      return { schedules: [] };
+    }
+    try {
+      const config = JSON.parse(await readFile(this.filePath, "utf-8")) as ScheduleConfig;
+      if (!Array.isArray(config.schedules)) {
+        throw new Error("'schedules' must be an array");
+      }
+      return config;
+    } catch (error) {
+      logger.error(`❌ Failed to read schedule file ${this.filePath}: ${error}`);
+      return { schedules: [] };
+    }
+  }
+
+  /**
+   * Writes the current schedules to the schedule file.
+   */
+  private async saveConfig(): Promise<void> {
+    const config: ScheduleConfig = {
+      ...(this.defaultJitter !== DEFAULT_JITTER && { jitter: this.defaultJitter }),
+      schedules: [
+        ...Array.from(this.entries.values(), (entry) => entry.schedule),
+        ...this.invalidSchedules,
+      ],
+    };
+    await mkdir(path.dirname(this.filePath), { recursive: true });
+    await writeFile(this.filePath, `${JSON.stringify(config, null, 2)}\n`);
+  }
+
+  private getKey(library: string, version?: string): string {
+    return `${library.toLowerCase()}@${version?.toLowerCase() ?? ""}`;
+  }
+
+  private describe(schedule: Pick<RefreshSchedule, "library" | "version">): string {
+    return `${schedule.library}${schedule.version ? `@${schedule.version}` : " (all versions)"}`;
+  }
+}
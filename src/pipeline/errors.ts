@@ -31,3 +31,8 @@ export class CancellationError extends PipelineError {
     super(message);
   }
 }
+
+/**
+ * Error indicating an invalid or unknown refresh schedule.
+ */
+export class ScheduleError extends PipelineError {}
@@ -25,6 +25,14 @@ export interface PipelineJob {
   version: string;
   /** Options provided for the scraper. */
   options: ScraperOptions;
+  /** Description recorded for the version in the registry; null keeps the current one. */
+  description: string | null;
+  /**
+   * Library key the worker writes documents to while the job runs. They are swapped
+   * into `library` when the job completes and discarded otherwise. Null for
+   * incremental jobs, which update the indexed version in place.
+   */
+  stagingLibrary: string | null;
   /** Current status of the job. */
   status: PipelineJobStatus;
   /** Detailed progress information. */
@@ -47,6 +55,19 @@ export interface PipelineJob {
   rejectCompletion: (reason?: unknown) => void;
 }
 
+/**
+ * Pages an incremental job removes from the indexed version once it succeeds.
+ */
+export interface PageRemoval {
+  /**
+   * URLs reached by the crawl. Set only after a complete crawl, in which case every
+   * other page of the version is removed.
+   */
+  keepUrls: Set<string> | null;
+  /** URLs that no longer exist (404/410); removed even after an incomplete crawl */
+  goneUrls: Set<string>;
+}
+
 /**
  * Defines the structure for callback functions used with the PipelineManager.
  * Allows external components to hook into job lifecycle events.
@@ -59,3 +80,49 @@ export interface PipelineManagerCallbacks {
   /** Callback triggered when a job encounters an error during processing (e.g., storing a doc). */
   onJobError?: (job: PipelineJob, error: Error, document?: Document) => Promise<void>;
 }
+
+/**
+ * Periodic re-indexing of a library, configured in the schedule file or with the
+ * `set_schedule` tool. Exactly one of `every` and `cron` is set.
+ */
+export interface RefreshSchedule {
+  /** The library to re-index. */
+  library: string;
+  /** Version or alias to re-index; all versions of the library if omitted. */
+  version?: string;
+  /** Interval between runs, e.g. "6h" or "1d". */
+  every?: string;
+  /** Five-field cron expression in local time, e.g. "0 3 * * *". */
+  cron?: string;
+  /** Maximum random delay added to each run, e.g. "10m"; overrides the file's default. */
+  jitter?: string;
+}
+
+/**
+ * Contents of the schedule file.
+ */
+export interface ScheduleConfig {
+  /** Default maximum random delay added to each run, e.g. "5m". */
+  jitter?: string;
+  schedules: RefreshSchedule[];
+}
+
+/**
+ * A configured schedule with the state of its runs.
+ */
+export interface ScheduleStatus extends RefreshSchedule {
+  /** When the schedule last ran, or null if it has not run since the server started. */
+  lastRunAt: Date | null;
+  /**
+   * Outcome of the last run: 'started' while its refresh jobs are running, 'completed'
+   * once all of them succeeded, 'failed' if any of them failed or the refresh could not
+   * start, 'skipped' if jobs of the previous run were still active.
+   */
+  lastRunStatus: "started" | "completed" | "skipped" | "failed" | null;
+  /** Details of the last run, e.g. how many jobs it started or why it failed. */
+  lastRunMessage: string | null;
+  /** When the schedule runs next, or null if it never does. */
+  nextRunAt: Date | null;
+  /** Jobs enqueued by the last run that started any. */
+  jobIds: string[];
+}
@@ -1,6 +1,6 @@
 import fs from "node:fs/promises";
 import path from "node:path";
-import { ScraperError } from "../../utils/errors";
+import { NotFoundError, ScraperError } from "../../utils/errors";
 import { logger } from "../../utils/logger";
 import type { ContentFetcher, FetchOptions, RawContent } from "./types";
 
@@ -28,6 +28,12 @@ export class FileFetcher implements ContentFetcher {
         encoding: "utf-8", // Assume UTF-8 for text files
       };
     } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        throw new NotFoundError(
+          `File not found: ${filePath}`,
+          error instanceof Error ? error : undefined,
+        );
+      }
       throw new ScraperError(
         `Failed to read file ${filePath}: ${
           (error as { message?: string }).message ?? "Unknown error"
@@ -1,6 +1,6 @@
 import axios from "axios";
 import { afterAll, beforeEach, describe, expect, it, vi } from "vitest";
-import { RedirectError, ScraperError } from "../../utils/errors";
+import { NotFoundError, RedirectError, ScraperError } from "../../utils/errors";
 import { HttpFetcher } from "./HttpFetcher";
 
 vi.mock("axios");
@@ -52,6 +52,13 @@ describe("HttpFetcher", () => {
     expect(mockedAxios.get).toHaveBeenCalledTimes(1);
   });
 
+  it("should throw a NotFoundError for missing pages", async () => {
+    const fetcher = new HttpFetcher();
+    mockedAxios.get.mockRejectedValue({ response: { status: 410 } });
+
+    await expect(fetcher.fetch("https://example.com/old")).rejects.toThrow(NotFoundError);
+  });
+
   it("should retry on 5xx errors", async () => {
     const fetcher = new HttpFetcher();
     mockedAxios.get
@@ -108,6 +115,54 @@ describe("HttpFetcher", () => {
     });
   });
 
+  describe("conditional requests", () => {
+    it("should return the ETag and Last-Modified headers of a response", async () => {
+      const fetcher = new HttpFetcher();
+      mockedAxios.get.mockResolvedValue({
+        status: 200,
+        data: "<html></html>",
+        headers: {
+          "content-type": "text/html",
+          etag: '"abc"',
+          "last-modified": "Wed, 01 Jan 2025 00:00:00 GMT",
+        },
+      });
+
+      const result = await fetcher.fetch("https://example.com");
+      expect(result.etag).toBe('"abc"');
+      expect(result.lastModified).toBe("Wed, 01 Jan 2025 00:00:00 GMT");
+      expect(result.notModified).toBeUndefined();
+    });
+
+    it("should send validators and report 304 responses as not modified", async () => {
+      const fetcher = new HttpFetcher();
+      mockedAxios.get.mockResolvedValue({ status: 304, data: "", headers: {} });
+
+      const result = await fetcher.fetch("https://example.com", {
+        headers: { "X-Custom-Header": "value" },
+        etag: '"abc"',
+        lastModified: "Wed, 01 Jan 2025 00:00:00 GMT",
+      });
+
+      const config = mockedAxios.get.mock.calls[0][1];
+      expect(config?.headers).toEqual({
+        "X-Custom-Header": "value",
+        "If-None-Match": '"abc"',
+        "If-Modified-Since": "Wed, 01 Jan 2025 00:00:00 GMT",
+      });
+      expect(config?.validateStatus?.(304)).toBe(true);
+      expect(config?.validateStatus?.(404)).toBe(false);
+      expect(result).toEqual({
+        content: "",
+        mimeType: "",
+        source: "https://example.com",
+        etag: '"abc"',
+        lastModified: "Wed, 01 Jan 2025 00:00:00 GMT",
+        notModified: true,
+      });
+    });
+  });
+
   describe("redirect handling", () => {
     it("should follow redirects by default", async () => {
       const fetcher = new HttpFetcher();
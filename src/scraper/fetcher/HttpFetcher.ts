@@ -1,5 +1,5 @@
 import axios, { type AxiosError, type AxiosRequestConfig } from "axios";
-import { RedirectError, ScraperError } from "../../utils/errors";
+import { NotFoundError, RedirectError, ScraperError } from "../../utils/errors";
 import { logger } from "../../utils/logger";
 import type { ContentFetcher, FetchOptions, RawContent } from "./types";
 
@@ -23,6 +23,7 @@ export class HttpFetcher implements ContentFetcher {
     const baseDelay = options?.retryDelay ?? this.BASE_DELAY;
     // Default to following redirects if not specified
     const followRedirects = options?.followRedirects ?? true;
+    const isConditional = Boolean(options?.etag || options?.lastModified);
 
     for (let attempt = 0; attempt <= maxRetries; attempt++) {
       try {
@@ -34,14 +35,37 @@ export class HttpFetcher implements ContentFetcher {
           // Axios follows redirects by default, we need to explicitly disable it if needed
           maxRedirects: followRedirects ? 5 : 0,
         };
+        if (isConditional) {
+          // Revalidate a previously fetched version; 304 means it is still current
+          config.headers = {
+            ...options?.headers,
+            ...(options?.etag && { "If-None-Match": options.etag }),
+            ...(options?.lastModified && { "If-Modified-Since": options.lastModified }),
+          };
+          config.validateStatus = (status) =>
+            (status >= 200 && status < 300) || status === 304;
+        }
 
         const response = await axios.get(source, config);
 
+        if (response.status === 304) {
+          return {
+            content: "",
+            mimeType: "",
+            source: source,
+            etag: options?.etag,
+            lastModified: options?.lastModified,
+            notModified: true,
+          } satisfies RawContent;
+        }
+
         return {
           content: response.data,
           mimeType: response.headers["content-type"] || "application/octet-stream",
           source: source,
           encoding: response.headers["content-encoding"],
+          etag: response.headers.etag,
+          lastModified: response.headers["last-modified"],
         } satisfies RawContent;
       } catch (error: unknown) {
         const axiosError = error as AxiosError;
@@ -70,6 +94,13 @@ export class HttpFetcher implements ContentFetcher {
           continue;
         }
 
+        if (status === 404 || status === 410) {
+          throw new NotFoundError(
+            `Failed to fetch ${source}: not found (Status: ${status})`,
+            error instanceof Error ? error : undefined,
+          );
+        }
+
         // Not a 5xx error or max retries reached
         throw new ScraperError(
           `Failed to fetch ${source} after ${
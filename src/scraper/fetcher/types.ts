@@ -11,6 +11,15 @@ export interface RawContent {
   source: string;
   /** Character encoding if applicable */
   encoding?: string;
+  /** `ETag` response header, if provided by the server */
+  etag?: string;
+  /** `Last-Modified` response header, if provided by the server */
+  lastModified?: string;
+  /**
+   * True if a conditional request was answered with "304 Not Modified". The content
+   * is empty in that case and the previously stored version is still current.
+   */
+  notModified?: boolean;
 }
 
 /**
@@ -29,6 +38,10 @@ export interface FetchOptions {
   signal?: AbortSignal;
   /** Whether to follow HTTP redirects (3xx responses) */
   followRedirects?: boolean;
+  /** `ETag` of a previously fetched version, sent as `If-None-Match` */
+  etag?: string;
+  /** `Last-Modified` of a previously fetched version, sent as `If-Modified-Since` */
+  lastModified?: string;
 }
 
 /**
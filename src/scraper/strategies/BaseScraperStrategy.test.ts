@@ -1,4 +1,5 @@
 import { beforeEach, describe, expect, it, vi } from "vitest";
+import { NotFoundError } from "../../utils/errors";
 import type { ScraperOptions } from "../types";
 import { BaseScraperStrategy, type QueueItem } from "./BaseScraperStrategy";
 
@@ -51,9 +52,45 @@ describe("BaseScraperStrategy", () => {
       depth: 0,
       maxDepth: 1,
       document: { content: "test", metadata: {} },
+      links: [],
     });
   });
 
+  it("should report unchanged pages and follow their replayed links", async () => {
+    const options: ScraperOptions = {
+      url: "https://example.com/",
+      library: "test",
+      version: "1.0.0",
+      maxPages: 5,
+      maxDepth: 1,
+    };
+    const progressCallback = vi.fn();
+
+    strategy.processItem.mockImplementation(async (item: QueueItem) =>
+      item.url === "https://example.com/"
+        ? { notModified: true, links: ["https://example.com/page1"] }
+        : { document: { content: "sub page", metadata: {} }, links: [] },
+    );
+
+    await strategy.scrape(options, progressCallback);
+
+    expect(strategy.processItem).toHaveBeenCalledTimes(2);
+    expect(progressCallback).toHaveBeenCalledWith(
+      expect.objectContaining({
+        pagesScraped: 1,
+        currentUrl: "https://example.com/",
+        document: undefined,
+        notModified: true,
+      }),
+    );
+    expect(progressCallback).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        pagesScraped: 2,
+        currentUrl: "https://example.com/page1",
+      }),
+    );
+  });
+
   it("should respect maxPages", async () => {
     const options: ScraperOptions = {
       url: "https://example.com/",
@@ -91,7 +128,64 @@ describe("BaseScraperStrategy", () => {
     await strategy.scrape(options, progressCallback);
 
     expect(strategy.processItem).toHaveBeenCalledTimes(1);
-    expect(progressCallback).not.toHaveBeenCalled();
+    expect(progressCallback).toHaveBeenCalledOnce();
+    expect(progressCallback).toHaveBeenCalledWith({
+      pagesScraped: 0,
+      maxPages: 1,
+      currentUrl: "https://example.com/",
+      depth: 0,
+      maxDepth: 1,
+      skipped: "error",
+    });
+  });
+
+  it("should report pages that no longer exist as gone", async () => {
+    const options: ScraperOptions = {
+      url: "https://example.com/",
+      library: "test",
+      version: "1.0.0",
+      ignoreErrors: true,
+    };
+    const progressCallback = vi.fn();
+
+    strategy.processItem.mockRejectedValue(new NotFoundError("Not found"));
+
+    await strategy.scrape(options, progressCallback);
+
+    expect(progressCallback).toHaveBeenCalledOnce();
+    expect(progressCallback).toHaveBeenCalledWith(
+      expect.objectContaining({ currentUrl: "https://example.com/", skipped: "gone" }),
+    );
+  });
+
+  it("should report URLs cut off by maxPages and maxDepth", async () => {
+    const options: ScraperOptions = {
+      url: "https://example.com/",
+      library: "test",
+      version: "1.0.0",
+      maxPages: 2,
+      maxDepth: 1,
+    };
+    const progressCallback = vi.fn();
+
+    strategy.processItem.mockImplementation(async (item: QueueItem) => ({
+      document: { content: "test", metadata: {} },
+      links:
+        item.depth === 0
+          ? ["https://example.com/a", "https://example.com/b", "https://example.com/c"]
+          : [`${item.url}/child`],
+    }));
+
+    await strategy.scrape(options, progressCallback);
+
+    const skipped = progressCallback.mock.calls
+      .filter(([progress]) => progress.skipped)
+      .map(([progress]) => [progress.currentUrl, progress.skipped]);
+    expect(skipped).toEqual([
+      ["https://example.com/b", "limit"],
+      ["https://example.com/c", "limit"],
+      ["https://example.com/a/child", "limit"],
+    ]);
   });
 
   it("should throw errors when ignoreErrors is false", async () => {
@@ -1,6 +1,7 @@
 import { URL } from "node:url";
 import { CancellationError } from "../../pipeline/errors";
 import type { Document, ProgressCallback } from "../../types";
+import { NotFoundError } from "../../utils/errors";
 import { logger } from "../../utils/logger";
 import { type UrlNormalizerOptions, normalizeUrl } from "../../utils/url";
 import type { ScraperOptions, ScraperProgress, ScraperStrategy } from "../types";
@@ -44,10 +45,32 @@ export abstract class BaseScraperStrategy implements ScraperStrategy {
   ): Promise<{
     document?: Document;
     links?: string[];
+    /** Set when the page is unchanged since the previous scrape (see `ScraperOptions.knownPages`) */
+    notModified?: boolean;
   }>;
 
   // Removed getProcessor method as processing is now handled by strategies using middleware pipelines
 
+  /**
+   * Reports a queued URL that was not scraped, so callers can tell an incomplete crawl
+   * from pages that are no longer linked.
+   */
+  protected async reportSkipped(
+    item: QueueItem,
+    skipped: NonNullable<ScraperProgress["skipped"]>,
+    options: ScraperOptions,
+    progressCallback: ProgressCallback<ScraperProgress>,
+  ): Promise<void> {
+    await progressCallback({
+      pagesScraped: this.pageCount,
+      maxPages: options.maxPages ?? DEFAULT_MAX_PAGES,
+      currentUrl: item.url,
+      depth: item.depth,
+      maxDepth: options.maxDepth ?? DEFAULT_MAX_DEPTH,
+      skipped,
+    });
+  }
+
   protected async processBatch(
     batch: QueueItem[],
     baseUrl: URL,
@@ -64,6 +87,7 @@ export abstract class BaseScraperStrategy implements ScraperStrategy {
         // Resolve default for maxDepth check
         const maxDepth = options.maxDepth ?? DEFAULT_MAX_DEPTH;
         if (item.depth > maxDepth) {
+          await this.reportSkipped(item, "limit", options, progressCallback);
           return [];
         }
 
@@ -71,13 +95,13 @@ export abstract class BaseScraperStrategy implements ScraperStrategy {
           // Pass signal to processItem
           const result = await this.processItem(item, options, undefined, signal);
 
-          if (result.document) {
+          if (result.document || result.notModified) {
             this.pageCount++;
             // Resolve defaults for logging and progress callback
             const maxPages = options.maxPages ?? DEFAULT_MAX_PAGES;
             // maxDepth already resolved above
             logger.info(
-              `🌐 Scraping page ${this.pageCount}/${maxPages} (depth ${item.depth}/${maxDepth}): ${item.url}`,
+              `🌐 ${result.notModified ? "Unchanged" : "Scraping"} page ${this.pageCount}/${maxPages} (depth ${item.depth}/${maxDepth}): ${item.url}`,
             );
             await progressCallback({
               pagesScraped: this.pageCount,
@@ -86,6 +110,8 @@ export abstract class BaseScraperStrategy implements ScraperStrategy {
               depth: item.depth,
               maxDepth: maxDepth,
               document: result.document,
+              links: result.links,
+              notModified: result.notModified,
             });
           }
 
@@ -108,6 +134,12 @@ export abstract class BaseScraperStrategy implements ScraperStrategy {
         } catch (error) {
           if (options.ignoreErrors) {
             logger.error(`❌ Failed to process ${item.url}: ${error}`);
+            await this.reportSkipped(
+              item,
+              error instanceof NotFoundError ? "gone" : "error",
+              options,
+              progressCallback,
+            );
             return [];
           }
           throw error;
@@ -180,5 +212,10 @@ export abstract class BaseScraperStrategy implements ScraperStrategy {
 
       queue.push(...newUrls);
     }
+
+    // URLs still queued were cut off by maxPages
+    for (const item of queue) {
+      await this.reportSkipped(item, "limit", options, progressCallback);
+    }
   }
 }
@@ -109,7 +109,14 @@ describe("LocalFileStrategy", () => {
     );
 
     await strategy.scrape(options, progressCallback);
-    expect(progressCallback).toHaveBeenCalledTimes(2); //file1, file4 and subdir
+    const scraped = progressCallback.mock.calls.filter(([progress]) => !progress.skipped);
+    expect(scraped).toHaveLength(2); //file1, file4 and subdir
+    expect(progressCallback).toHaveBeenCalledWith(
+      expect.objectContaining({
+        currentUrl: "file:///testdir/subdir/file2.html",
+        skipped: "limit",
+      }),
+    );
   });
 
   it("should respect maxPages option", async () => {
@@ -135,7 +142,11 @@ describe("LocalFileStrategy", () => {
     );
 
     await strategy.scrape(options, progressCallback);
-    expect(progressCallback).toHaveBeenCalledTimes(2); //Only 2 files
+    const scraped = progressCallback.mock.calls.filter(([progress]) => !progress.skipped);
+    expect(scraped).toHaveLength(2); //Only 2 files
+    expect(progressCallback).toHaveBeenCalledWith(
+      expect.objectContaining({ skipped: "limit" }),
+    );
   });
 
   it("should process different file types correctly", async () => {
@@ -459,4 +459,47 @@ describe("WebScraperStrategy", () => {
       ]),
     );
   });
+
+  // --- Incremental Scrape Tests ---
+
+  it("should revalidate known pages and replay their links when not modified", async () => {
+    mockFetchFn.mockImplementation(async (url: string, fetchOptions) => {
+      if (url === "https://example.com" && fetchOptions?.etag) {
+        return { content: "", mimeType: "", source: url, notModified: true };
+      }
+      return {
+        content: `<html><head><title>${url}</title></head><body>${url}</body></html>`,
+        mimeType: "text/html",
+        source: url,
+        etag: '"page1-v2"',
+      };
+    });
+    options.knownPages = new Map([
+      [
+        "https://example.com",
+        { etag: '"root-v1"', links: ["https://example.com/page1"] },
+      ],
+    ]);
+    const progressCallback = vi.fn();
+
+    await strategy.scrape(options, progressCallback);
+
+    expect(mockFetchFn).toHaveBeenCalledWith("https://example.com", {
+      signal: undefined,
+      followRedirects: true,
+      etag: '"root-v1"',
+      lastModified: undefined,
+    });
+    expect(mockFetchFn).toHaveBeenCalledWith("https://example.com/page1", {
+      signal: undefined,
+      followRedirects: true,
+    });
+    const [rootCall, pageCall] = progressCallback.mock.calls.map((call) => call[0]);
+    expect(rootCall).toMatchObject({
+      currentUrl: "https://example.com",
+      notModified: true,
+    });
+    expect(rootCall.document).toBeUndefined();
+    expect(pageCall.document.etag).toBe('"page1-v2"');
+  });
 });
@@ -3,7 +3,7 @@ import { logger } from "../../utils/logger";
 import type { UrlNormalizerOptions } from "../../utils/url";
 import { hasSameDomain, hasSameHostname, isSubpath } from "../../utils/url";
 import { HttpFetcher } from "../fetcher";
-import type { RawContent } from "../fetcher/types";
+import type { FetchOptions, RawContent } from "../fetcher/types";
 import { ContentProcessingPipeline } from "../middleware/ContentProcessorPipeline";
 // Import new and updated middleware from index
 import {
@@ -74,19 +74,31 @@ export class WebScraperStrategy extends BaseScraperStrategy {
     options: ScraperOptions,
     _progressCallback?: ProgressCallback<ScraperProgress>, // Base class passes it, but not used here
     signal?: AbortSignal, // Add signal
-  ): Promise<{ document?: Document; links?: string[] }> {
+  ): Promise<{ document?: Document; links?: string[]; notModified?: boolean }> {
     const { url } = item;
 
     try {
       // Define fetch options, passing both signal and followRedirects
-      const fetchOptions = {
+      const fetchOptions: FetchOptions = {
         signal,
         followRedirects: options.followRedirects,
       };
 
+      // Revalidate pages known from a previous scrape with a conditional request
+      const knownPage = options.knownPages?.get(url);
+      if (knownPage?.etag || knownPage?.lastModified) {
+        fetchOptions.etag = knownPage.etag;
+        fetchOptions.lastModified = knownPage.lastModified;
+      }
+
       // Pass options to fetcher
       const rawContent: RawContent = await this.httpFetcher.fetch(url, fetchOptions);
 
+      if (rawContent.notModified && knownPage) {
+        logger.debug(`Page not modified since previous scrape: ${url}`);
+        return { notModified: true, links: knownPage.links };
+      }
+
       // --- Start Middleware Pipeline ---
       const initialContext: ContentProcessingContext = {
         content: rawContent.content,
@@ -173,6 +185,8 @@ export class WebScraperStrategy extends BaseScraperStrategy {
             version: options.version,
             // Add other metadata from context if needed
           },
+          etag: rawContent.etag,
+          lastModified: rawContent.lastModified,
         } satisfies Document,
         links: filteredLinks, // Use the filtered links
       };
@@ -57,6 +57,27 @@ export interface ScraperOptions {
   scrapeMode?: ScrapeMode;
   /** Optional AbortSignal for cancellation */
   signal?: AbortSignal;
+  /**
+   * Update an already indexed version in place instead of replacing it: unchanged
+   * pages are skipped and pages no longer reached by the crawl are removed.
+   */
+  incremental?: boolean;
+  /**
+   * Pages indexed by a previous scrape, keyed by URL. Supplied by the pipeline for
+   * incremental scrapes so strategies can send conditional requests.
+   */
+  knownPages?: Map<string, KnownPage>;
+}
+
+/**
+ * State of a previously scraped page needed to re-validate it without downloading
+ * it again. `links` are replayed when the server reports the page as not modified,
+ * so the crawl continues past unchanged pages.
+ */
+export interface KnownPage {
+  etag?: string;
+  lastModified?: string;
+  links: string[];
 }
 
 /**
@@ -80,4 +101,13 @@ export interface ScraperProgress {
   depth: number;
   maxDepth: number;
   document?: Document;
+  /** Links found on the current page (replayed from the previous scrape if not modified) */
+  links?: string[];
+  /** True if the server reported the current page as unchanged since the previous scrape */
+  notModified?: boolean;
+  /**
+   * Set when the current URL was not scraped: "gone" if it no longer exists, "error" if
+   * it failed with `ignoreErrors` enabled and "limit" if `maxPages` or `maxDepth` cut it off
+   */
+  skipped?: "gone" | "error" | "limit";
 }
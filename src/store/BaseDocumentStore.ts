@@ -0,0 +1,366 @@
+import type { Document } from "@langchain/core/documents";
+import type { Embeddings } from "@langchain/core/embeddings";
+import type { DocumentMetadata } from "../types";
+import { logger } from "../utils/logger";
+import { createEmbeddingModel, parseEmbeddingModel } from "./embeddings/EmbeddingFactory";
+import {
+  BundleError,
+  DimensionError,
+  EmbeddingModelMismatchError,
+  StoreError,
+} from "./errors";
+import { DEFAULT_RANKING, calculateFusedScore, mergeRankingOptions } from "./ranking";
+import { VECTOR_DIMENSION } from "./schema";
+import {
+  type Bundle,
+  type DbDocument,
+  type EmbeddingModelInfo,
+  type RankingOptions,
+  type RankingSettings,
+  type SearchMode,
+  mapDbDocumentToDocument,
+} from "./types";
+
+/** Embedding model used when DOCS_MCP_EMBEDDING_MODEL is not set */
+const DEFAULT_EMBEDDING_MODEL = "text-embedding-3-small";
+
+/** Value of DOCS_MCP_EMBEDDING_MODEL that explicitly disables vector search */
+const DISABLED_EMBEDDING_MODEL = "none";
+
+/** Number of documents embedded per request and transaction when re-embedding */
+export const REEMBED_BATCH_SIZE = 100;
+
+/**
+ * Prefix of the reserved library keys under which scrape jobs stage their documents
+ * until they are swapped in. Staged libraries are hidden from listings.
+ */
+export const STAGING_LIBRARY_PREFIX = "__staging__/";
+
+/**
+ * Raw row of the hybrid search query. `vec_score` is the vector distance and
+ * `fts_score` the full-text score (lower is better for both); each is null when the
+ * document was not returned by that leg of the search.
+ */
+export interface RawSearchResult extends DbDocument {
+  vec_score: number | null;
+  fts_score: number | null;
+}
+
+interface RankedResult extends RawSearchResult {
+  vec_rank?: number;
+  fts_rank?: number;
+  rrf_score: number;
+}
+
+/**
+ * Database-independent part of the document stores: embedding model setup, vector
+ * padding, Reciprocal Rank Fusion of the search legs and staging library keys.
+ * Subclasses implement the storage itself (see `DocumentStorage`).
+ */
+export abstract class BaseDocumentStore {
+  /** Embedding model, or null when running in full-text-only mode */
+  protected embeddings: Embeddings | null = null;
+  protected readonly dbDimension: number = VECTOR_DIMENSION;
+  protected modelDimension!: number;
+  /** Normalized "provider:model" identity of the configured embedding model */
+  protected modelName: string | null = null;
+
+  /**
+   * Retrieves the embedding model recorded for a library version, or null if the
+   * version has no vectors or was indexed before models were recorded.
+   */
+  abstract getStoredEmbeddingModel(
+    library: string,
+    version: string,
+  ): Promise<EmbeddingModelInfo | null>;
+
+  /**
+   * Retrieves the ranking options configured for a library, or null if it uses the
+   * defaults.
+   */
+  abstract getRankingOptions(library: string): Promise<RankingOptions | null>;
+
+  /**
+   * Determines the ranking of a search: the defaults, overridden by the options
+   * configured for the library, overridden by the options passed with the query.
+   */
+  protected async resolveRanking(
+    library: string,
+    overrides?: RankingOptions,
+  ): Promise<RankingSettings> {
+    return mergeRankingOptions(
+      DEFAULT_RANKING,
+      await this.getRankingOptions(library),
+      overrides,
+    );
+  }
+
+  /**
+   * Assigns ranks to search results based on their scores
+   */
+  private assignRanks(
+    results: RawSearchResult[],
+    ranking: RankingSettings,
+  ): RankedResult[] {
+    // Create maps to store ranks
+    const vecRanks = new Map<number, number>();
+    const ftsRanks = new Map<number, number>();
+
+    // Sort by vector distance (ascending) and assign ranks
+    results
+      .filter((r) => r.vec_score !== null && r.vec_score !== undefined)
+      .sort((a, b) => (a.vec_score ?? 0) - (b.vec_score ?? 0))
+      .forEach((result, index) => {
+        vecRanks.set(Number(result.id), index + 1);
+      });
+
+    // Sort by BM25 scores (more negative is more relevant) and assign ranks
+    results
+      .filter((r) => r.fts_score !== null && r.fts_score !== undefined)
+      .sort((a, b) => (a.fts_score ?? 0) - (b.fts_score ?? 0))
+      .forEach((result, index) => {
+        ftsRanks.set(Number(result.id), index + 1);
+      });
+
+    // Combine results with ranks and calculate RRF
+    return results.map((result) => ({
+      ...result,
+      vec_rank: vecRanks.get(Number(result.id)),
+      fts_rank: ftsRanks.get(Number(result.id)),
+      rrf_score: calculateFusedScore(
+        ranking,
+        vecRanks.get(Number(result.id)),
+        ftsRanks.get(Number(result.id)),
+      ),
+    }));
+  }
+
+  /**
+   * Fuses the rows of both search legs with weighted Reciprocal Rank Fusion and returns
+   * the top documents, with their score, the raw score of each leg and the per-leg
+   * ranks added to the metadata.
+   */
+  protected rankResults(
+    rawResults: RawSearchResult[],
+    limit: number,
+    ranking: RankingSettings,
+  ): Document[] {
+    // Apply RRF ranking
+    const rankedResults = this.assignRanks(rawResults, ranking);
+
+    // Sort by RRF score and take top results
+    const topResults = rankedResults
+      .sort((a, b) => b.rrf_score - a.rrf_score)
+      .slice(0, limit);
+
+    return topResults.map((row) => {
+      const doc = mapDbDocumentToDocument(row);
+      return {
+        ...doc,
+        metadata: {
+          ...doc.metadata,
+          score: row.rrf_score,
+          vec_score: row.vec_score,
+          fts_score: row.fts_score,
+          vec_rank: row.vec_rank,
+          fts_rank: row.fts_rank,
+        },
+      };
+    });
+  }
+
+  /**
+   * Pads a vector to the fixed database dimension by appending zeros.
+   * Throws an error if the input vector is longer than the database dimension.
+   */
+  protected padVector(vector: number[]): number[] {
+    if (vector.length > this.dbDimension) {
+      throw new Error(
+        `Vector dimension ${vector.length} exceeds database dimension ${this.dbDimension}`,
+      );
+    }
+    if (vector.length === this.dbDimension) {
+      return vector;
+    }
+    return [...vector, ...new Array(this.dbDimension - vector.length).fill(0)];
+  }
+
+  /**
+   * Determines which embedding model to use. Returns null (full-text-only mode) when
+   * DOCS_MCP_EMBEDDING_MODEL is "none", or when it is unset and no OpenAI-compatible
+   * endpoint is configured either, so the store stays usable as a keyword index
+   * without any embedding provider.
+   */
+  private resolveEmbeddingModelSpec(): string | null {
+    const modelSpec = process.env.DOCS_MCP_EMBEDDING_MODEL?.trim();
+    if (modelSpec) {
+      return modelSpec.toLowerCase() === DISABLED_EMBEDDING_MODEL ? null : modelSpec;
+    }
+    if (!process.env.OPENAI_API_KEY && !process.env.OPENAI_API_BASE) {
+      return null;
+    }
+    return DEFAULT_EMBEDDING_MODEL;
+  }
+
+  /**
+   * Initializes the embedding model configured via DOCS_MCP_EMBEDDING_MODEL and
+   * probes it once to determine the native vector dimension. Models producing
+   * vectors larger than the database dimension are rejected up front, so a
+   * misconfiguration fails at startup rather than on the first insert.
+   */
+  protected async initializeEmbeddings(): Promise<void> {
+    const modelSpec = this.resolveEmbeddingModelSpec();
+    if (!modelSpec) {
+      logger.warn(
+        "⚠️ No embedding model configured. Running in full-text search mode without vector search.",
+      );
+      this.embeddings = null;
+      this.modelName = null;
+      return;
+    }
+
+    this.embeddings = createEmbeddingModel(modelSpec);
+    const { provider, model } = parseEmbeddingModel(modelSpec);
+    this.modelName = `${provider}:${model}`;
+
+    const testVector = await this.embeddings.embedQuery("test");
+    this.modelDimension = testVector.length;
+
+    if (this.modelDimension > this.dbDimension) {
+      throw new DimensionError(modelSpec, this.modelDimension, this.dbDimension);
+    }
+  }
+
+  /**
+   * Returns whether searches combine vector and full-text results ("hybrid") or
+   * rank purely by BM25 because no embedding model is configured ("fts").
+   */
+  getSearchMode(): SearchMode {
+    return this.embeddings ? "hybrid" : "fts";
+  }
+
+  /**
+   * Returns the identity of the configured embedding model, or null in full-text-only mode.
+   */
+  getEmbeddingModelInfo(): EmbeddingModelInfo | null {
+    if (!this.embeddings || !this.modelName) {
+      return null;
+    }
+    return { model: this.modelName, dimension: this.modelDimension };
+  }
+
+  /**
+   * Builds the text that is embedded for a chunk. Title, URL and heading path are
+   * included so that vectors carry the chunk's position within the documentation.
+   */
+  protected formatEmbeddingText(content: string, metadata: DocumentMetadata): string {
+    const header = `<title>${metadata.title}</title>\n<url>${metadata.url}</url>\n<path>${(metadata.path ?? []).join(" / ")}</path>\n`;
+    return `${header}${content}`;
+  }
+
+  /**
+   * Embeds a batch of documents for storage. Returns null in full-text-only mode.
+   * @throws {EmbeddingModelMismatchError} If the version already holds vectors of another model
+   */
+  protected async embedDocuments(
+    library: string,
+    version: string,
+    documents: Document[],
+  ): Promise<number[][] | null> {
+    if (!this.embeddings) {
+      return null;
+    }
+    const storedModel = await this.getStoredEmbeddingModel(library, version);
+    if (storedModel && this.modelName && storedModel.model !== this.modelName) {
+      throw new EmbeddingModelMismatchError(
+        library,
+        version,
+        storedModel.model,
+        this.modelName,
+      );
+    }
+
+    const texts = documents.map((doc) =>
+      this.formatEmbeddingText(doc.pageContent, doc.metadata as DocumentMetadata),
+    );
+    const rawEmbeddings = await this.embeddings.embedDocuments(texts);
+    return rawEmbeddings.map((vector) => this.padVector(vector));
+  }
+
+  /**
+   * Checks whether the stored vectors of a version were produced by the configured model.
+   * Distances between vectors of different models are meaningless, so on a mismatch a
+   * warning is logged and the caller falls back to full-text search. Versions without a
+   * recorded model (indexed before models were tracked) are assumed to be compatible.
+   */
+  protected async hasCompatibleVectors(
+    library: string,
+    version: string,
+  ): Promise<boolean> {
+    const storedModel = await this.getStoredEmbeddingModel(library, version);
+    if (!storedModel || storedModel.model === this.modelName) {
+      return true;
+    }
+    const mismatch = new EmbeddingModelMismatchError(
+      library,
+      version,
+      storedModel.model,
+      this.modelName ?? DISABLED_EMBEDDING_MODEL,
+    );
+    logger.warn(`⚠️ ${mismatch.message} Falling back to full-text search.`);
+    return false;
+  }
+
+  /**
+   * Ensures the vectors of a bundle can be imported as they are, i.e. they were
+   * produced by the configured model. In full-text-only mode any bundle is accepted.
+   * @throws {BundleError} If the bundle was embedded with a different model
+   * @throws {DimensionError} If the bundle's vectors exceed the database dimension
+   */
+  protected assertImportableBundle(bundle: Bundle): void {
+    const { embeddingModel } = bundle;
+    if (embeddingModel && this.modelName && embeddingModel.model !== this.modelName) {
+      throw new BundleError(
+        `Bundle for ${bundle.library}@${bundle.version || "[no version]"} was embedded with "${embeddingModel.model}", ` +
+          `but the configured model is "${this.modelName}". ` +
+          `Set DOCS_MCP_EMBEDDING_MODEL to "${embeddingModel.model}" to import it.`,
+      );
+    }
+    if (embeddingModel && embeddingModel.dimension > this.dbDimension) {
+      throw new DimensionError(
+        embeddingModel.model,
+        embeddingModel.dimension,
+        this.dbDimension,
+      );
+    }
+  }
+
+  /**
+   * Returns the reserved library key under which the given job stages its documents.
+   */
+  getStagingLibrary(jobId: string): string {
+    return `${STAGING_LIBRARY_PREFIX}${jobId}`.toLowerCase();
+  }
+
+  /**
+   * Ensures a library key belongs to the staging area, so staging operations can
+   * never move or delete regular libraries.
+   */
+  protected assertStagingLibrary(stagingLibrary: string): void {
+    if (!stagingLibrary.startsWith(STAGING_LIBRARY_PREFIX)) {
+      throw new StoreError(`Not a staging library: ${stagingLibrary}`);
+    }
+  }
+
+  /**
+   * Returns the model that re-embedding would use, or throws in full-text-only mode.
+   */
+  protected requireEmbeddings(): { embeddings: Embeddings; modelName: string } {
+    if (!this.embeddings || !this.modelName) {
+      throw new StoreError(
+        "Cannot re-embed documents: no embedding model is configured (DOCS_MCP_EMBEDDING_MODEL)",
+      );
+    }
+    return { embeddings: this.embeddings, modelName: this.modelName };
+  }
+}
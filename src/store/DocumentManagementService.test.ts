@@ -31,7 +31,17 @@ const mockStore = {
   checkDocumentExists: vi.fn(),
   queryLibraryVersions: vi.fn(),
   addDocuments: vi.fn(),
+  replacePage: vi.fn().mockResolvedValue(0),
+  deletePage: vi.fn(),
   deleteDocuments: vi.fn(),
+  exportDocuments: vi.fn(),
+  queryDocuments: vi.fn(),
+  getRankingOptions: vi.fn(),
+  setRankingOptions: vi.fn(),
+  queryVersionAliases: vi.fn().mockResolvedValue([]),
+  setVersionAlias: vi.fn(),
+  queryVersionRecords: vi.fn().mockResolvedValue([]),
+  saveVersionRecord: vi.fn(),
 };
 
 // Mock the DocumentStore module
@@ -248,6 +258,7 @@ describe("DocumentManagementService", () => {
               metadata: expect.objectContaining({
                 level: 1,
                 path: expect.arrayContaining(["Chapter 1", "Section 1.1"]),
+                types: expect.arrayContaining(["text"]),
               }),
             }),
           ]),
@@ -257,6 +268,25 @@ describe("DocumentManagementService", () => {
         const results = await docService.searchStore(library, version, "testing");
         expect(results).toEqual(["Mocked search result"]);
       });
+
+      it("should replace the chunks of a page in a single store call", async () => {
+        const document = new Document({
+          pageContent: "# Hooks\nChanged content",
+          metadata: { url: "http://example.com/hooks", title: "Hooks" },
+        });
+        const page = { url: "http://example.com/hooks", contentHash: "abc", links: [] };
+
+        await docService.replacePage("test-lib", "1.0.0", document, page);
+
+        expect(mockStore.replacePage).toHaveBeenCalledWith(
+          "test-lib",
+          "1.0.0",
+          [expect.objectContaining({ pageContent: "# Hooks\nChanged content" })],
+          page,
+        );
+        expect(mockStore.deletePage).not.toHaveBeenCalled();
+        expect(mockStore.addDocuments).not.toHaveBeenCalled();
+      });
     });
 
     it("should remove all documents for a specific library and version", async () => {
@@ -297,24 +327,28 @@ describe("DocumentManagementService", () => {
         expect(mockStore.queryUniqueVersions).toHaveBeenCalledWith(library); // Fix: Use mockStoreInstance
       });
 
-      it("should filter out empty string and non-semver versions", async () => {
+      it("should keep non-semver versions and order them, filtering out empty strings", async () => {
         const library = "test-lib";
         mockStore.queryUniqueVersions.mockResolvedValue([
-          // Fix: Use mockStoreInstance
-          "1.0.0",
+          "2.0.0",
           "",
-          "invalid-version",
+          "main",
+          "2024-05",
           "2.0.0-beta", // Valid semver, should be included
-          "2.0.0",
+          "1.0.0",
+          "v3",
         ]);
 
         const versions = await docService.listVersions(library);
-        expect(versions).toEqual([
-          { version: "1.0.0", indexed: true },
-          { version: "2.0.0-beta", indexed: true },
-          { version: "2.0.0", indexed: true },
+        expect(versions.map((v) => v.version)).toEqual([
+          "main",
+          "1.0.0",
+          "2.0.0-beta",
+          "2.0.0",
+          "v3",
+          "2024-05",
         ]);
-        expect(mockStore.queryUniqueVersions).toHaveBeenCalledWith(library); // Fix: Use mockStoreInstance
+        expect(mockStore.queryUniqueVersions).toHaveBeenCalledWith(library);
       });
     });
 
@@ -431,9 +465,77 @@ describe("DocumentManagementService", () => {
           docService.findBestVersion(library, "invalid-format"),
         ).rejects.toThrow(VersionNotFoundError);
       });
+
+      it("should match calendar versions, loose versions and labels", async () => {
+        mockStore.queryUniqueVersions.mockResolvedValue([
+          "main",
+          "2024-01",
+          "2024-05",
+          "v2",
+        ]);
+
+        const match = async (version?: string) =>
+          (await docService.findBestVersion(library, version)).bestMatch;
+        expect(await match("main")).toBe("main");
+        expect(await match("2024-03")).toBe("2024-01");
+        expect(await match("2.x")).toBe("v2");
+        expect(await match()).toBe("2024-05");
+      });
+
+      it("should fall back to the default branch for libraries without numbered versions", async () => {
+        mockStore.queryUniqueVersions.mockResolvedValue(["develop", "main"]);
+
+        const result = await docService.findBestVersion(library);
+        expect(result).toEqual({ bestMatch: "main", hasUnversioned: false });
+      });
+
+      it("should only match prereleases with includePrerelease", async () => {
+        mockStore.queryUniqueVersions.mockResolvedValue(["18.2.0", "19.0.0-rc.1"]);
+
+        expect((await docService.findBestVersion(library)).bestMatch).toBe("18.2.0");
+        await expect(docService.findBestVersion(library, "19.x")).rejects.toThrow(
+          VersionNotFoundError,
+        );
+
+        const options = { includePrerelease: true };
+        const latest = await docService.findBestVersion(library, undefined, options);
+        expect(latest.bestMatch).toBe("19.0.0-rc.1");
+        const range = await docService.findBestVersion(library, "19.x", options);
+        expect(range.bestMatch).toBe("19.0.0-rc.1");
+      });
     });
 
     describe("listLibraries", () => {
+      it("should attach the registry entry of each version that has one", async () => {
+        const record = {
+          library: "lib1",
+          version: "1.1.0",
+          sourceUrl: "https://lib1.dev/docs",
+          scraperOptions: null,
+          jobId: "job-1",
+          description: "Guides",
+          startedAt: null,
+          finishedAt: "2025-01-02T03:04:05.000Z",
+          pages: 4,
+          chunks: 20,
+        };
+        mockStore.queryLibraryVersions.mockResolvedValue(
+          new Map([["lib1", new Set(["1.1.0", "1.0.0"])]]),
+        );
+        mockStore.queryVersionRecords.mockResolvedValueOnce([record]);
+
+        const result = await docService.listLibraries();
+        expect(result).toEqual([
+          {
+            library: "lib1",
+            versions: [
+              { version: "1.0.0", indexed: true },
+              { version: "1.1.0", indexed: true, record },
+            ],
+          },
+        ]);
+      });
+
       it("should list libraries and their versions", async () => {
         const mockLibraryMap = new Map([
           ["lib1", new Set(["1.0.0", "1.1.0"])],
@@ -531,15 +633,33 @@ describe("DocumentManagementService", () => {
       it("searchStore should normalize version to empty string", async () => {
         // Call without explicit limit, should use default limit of 5
         await docService.searchStore(library, null, query);
-        expect(mockRetriever.search).toHaveBeenCalledWith(library, "", query, 5); // Expect default limit 5
+        expect(mockRetriever.search).toHaveBeenCalledWith(
+          library,
+          "",
+          query,
+          5,
+          undefined,
+        ); // Expect default limit 5
 
         // Call with explicit limit
         await docService.searchStore(library, undefined, query, 7);
-        expect(mockRetriever.search).toHaveBeenCalledWith(library, "", query, 7);
+        expect(mockRetriever.search).toHaveBeenCalledWith(
+          library,
+          "",
+          query,
+          7,
+          undefined,
+        );
 
         // Call with another explicit limit
         await docService.searchStore(library, "", query, 10);
-        expect(mockRetriever.search).toHaveBeenCalledWith(library, "", query, 10);
+        expect(mockRetriever.search).toHaveBeenCalledWith(
+          library,
+          "",
+          query,
+          10,
+          undefined,
+        );
       });
     });
 
@@ -645,5 +765,188 @@ describe("DocumentManagementService", () => {
         expect(mockStore.checkDocumentExists).toHaveBeenCalledWith(libraryLower, "");
       });
     });
+
+    describe("exportBundle", () => {
+      it("should throw VersionNotFoundError if the version is not indexed", async () => {
+        mockStore.queryUniqueVersions.mockResolvedValue(["1.0.0"]);
+        mockStore.checkDocumentExists.mockResolvedValue(false);
+
+        await expect(
+          docService.exportBundle("test-lib", "2.0.0", "/tmp/test-lib.bundle"),
+        ).rejects.toThrow(VersionNotFoundError);
+        expect(mockStore.exportDocuments).not.toHaveBeenCalled();
+      });
+    });
+
+    describe("diffVersions", () => {
+      it("should compare the documents of two indexed versions, resolving aliases", async () => {
+        mockStore.queryUniqueVersions.mockResolvedValue(["1.0.0", "2.0.0"]);
+        mockStore.checkDocumentExists.mockResolvedValue(true);
+        mockStore.queryVersionAliases.mockResolvedValueOnce([
+          { library: "test-lib", alias: "stable", version: "2.0.0" },
+        ]);
+        const page = (content: string) => [
+          new Document({
+            pageContent: content,
+            metadata: { url: "https://x.dev/api", path: ["API"] },
+          }),
+        ];
+        mockStore.queryDocuments
+          .mockResolvedValueOnce(page("get(key)"))
+          .mockResolvedValueOnce(page("get(key, fallback)"));
+
+        const diff = await docService.diffVersions("Test-Lib", "1.0.0", "stable");
+
+        expect(mockStore.queryDocuments).toHaveBeenCalledWith("Test-Lib", "1.0.0");
+        expect(mockStore.queryDocuments).toHaveBeenCalledWith("Test-Lib", "2.0.0");
+        expect(diff).toMatchObject({
+          library: "test-lib",
+          fromVersion: "1.0.0",
+          toVersion: "2.0.0",
+          unchanged: 0,
+          changes: [{ status: "modified", diff: "- get(key)\n+ get(key, fallback)" }],
+        });
+      });
+
+      it("should throw VersionNotFoundError if a version is not indexed", async () => {
+        mockStore.queryUniqueVersions.mockResolvedValue(["1.0.0"]);
+        mockStore.checkDocumentExists.mockImplementation(
+          async (_library: string, version: string) => version === "1.0.0",
+        );
+
+        await expect(
+          docService.diffVersions("test-lib", "1.0.0", "2.0.0"),
+        ).rejects.toThrow(VersionNotFoundError);
+        expect(mockStore.queryDocuments).not.toHaveBeenCalled();
+      });
+    });
+
+    describe("ranking", () => {
+      it("should merge new ranking options into the configured ones", async () => {
+        mockStore.queryUniqueVersions.mockResolvedValue(["1.0.0"]);
+        mockStore.getRankingOptions.mockResolvedValue({
+          rrfK: 20,
+          bm25Weights: { url: 0 },
+        });
+
+        const settings = await docService.setLibraryRanking("test-lib", {
+          textWeight: 2,
+          bm25Weights: { title: 3 },
+        });
+
+        expect(mockStore.setRankingOptions).toHaveBeenCalledWith("test-lib", {
+          rrfK: 20,
+          textWeight: 2,
+          bm25Weights: { url: 0, title: 3 },
+        });
+        expect(settings).toEqual({
+          rrfK: 20,
+          vectorWeight: 1,
+          textWeight: 2,
+          bm25Weights: { content: 10, title: 3, url: 0, path: 1 },
+        });
+      });
+
+      it("should reject invalid ranking options and budgets", async () => {
+        mockStore.queryUniqueVersions.mockResolvedValue(["1.0.0"]);
+        mockStore.getRankingOptions.mockResolvedValue(null);
+
+        await expect(
+          docService.setLibraryRanking("test-lib", { rrfK: -1 }),
+        ).rejects.toThrow(StoreError);
+        await expect(
+          docService.searchStore("test-lib", "1.0.0", "query", 5, {
+            ranking: { vectorWeight: 0, textWeight: 0 },
+          }),
+        ).rejects.toThrow(StoreError);
+        await expect(
+          docService.searchLibraries(
+            [{ library: "test-lib", version: null }],
+            "query",
+            5,
+            {
+              maxTokens: 0,
+            },
+          ),
+        ).rejects.toThrow(/maxTokens=0/);
+        expect(mockStore.setRankingOptions).not.toHaveBeenCalled();
+        expect(mockRetriever.search).not.toHaveBeenCalled();
+      });
+
+      it("should remove the configured options on reset", async () => {
+        await docService.resetLibraryRanking("test-lib");
+
+        expect(mockStore.setRankingOptions).toHaveBeenCalledWith("test-lib", null);
+      });
+    });
+
+    describe("version aliases", () => {
+      const stable = { library: "test-lib", alias: "stable", version: "1.1.0" };
+
+      beforeEach(() => {
+        mockStore.queryUniqueVersions.mockResolvedValue(["1.0.0", "1.1.0", "2.0.0"]);
+        mockStore.checkDocumentExists.mockResolvedValue(false);
+      });
+
+      it("should resolve aliases before matching versions", async () => {
+        mockStore.queryVersionAliases.mockResolvedValueOnce([stable]);
+        mockStore.checkDocumentExists.mockResolvedValueOnce(true);
+
+        expect(await docService.findBestVersion("test-lib", "Stable")).toEqual({
+          bestMatch: "1.1.0",
+          hasUnversioned: false,
+        });
+        expect(mockStore.queryVersionAliases).toHaveBeenCalledWith("test-lib");
+      });
+
+      it("should reject aliases pointing at a version that is no longer indexed", async () => {
+        mockStore.queryVersionAliases.mockResolvedValueOnce([stable]);
+
+        await expect(docService.findBestVersion("test-lib", "stable")).rejects.toThrow(
+          VersionNotFoundError,
+        );
+        expect(mockStore.checkDocumentExists).toHaveBeenCalledWith("test-lib", "1.1.0");
+      });
+
+      it("should not look up aliases for versions and ranges", async () => {
+        expect(await docService.resolveVersion("test-lib", "1.x")).toBe("1.x");
+        expect(await docService.resolveVersion("test-lib", "2.0.0")).toBe("2.0.0");
+        expect(mockStore.queryVersionAliases).not.toHaveBeenCalled();
+      });
+
+      it("should only point valid alias names at indexed versions", async () => {
+        for (const alias of ["x", "1.0", "-next", "next!"]) {
+          await expect(
+            docService.setVersionAlias("test-lib", alias, "1.1.0"),
+          ).rejects.toThrow(StoreError);
+        }
+        await expect(
+          docService.setVersionAlias("test-lib", "stable", "1.2.0"),
+        ).rejects.toThrow(VersionNotFoundError);
+        expect(mockStore.setVersionAlias).not.toHaveBeenCalled();
+
+        mockStore.checkDocumentExists.mockResolvedValue(true);
+        await docService.setVersionAlias("test-lib", "stable", "1.1.0");
+        expect(mockStore.setVersionAlias).toHaveBeenCalledWith(
+          "test-lib",
+          "stable",
+          "1.1.0",
+        );
+      });
+
+      it("should only remove defined aliases", async () => {
+        await expect(docService.removeVersionAlias("test-lib", "next")).rejects.toThrow(
+          "Alias 'next' is not defined for test-lib",
+        );
+
+        mockStore.queryVersionAliases.mockResolvedValueOnce([stable]);
+        await docService.removeVersionAlias("test-lib", "stable");
+        expect(mockStore.setVersionAlias).toHaveBeenCalledWith(
+          "test-lib",
+          "stable",
+          null,
+        );
+      });
+    });
   }); // Closing brace for describe("Core Functionality", ...)
 }); // Closing brace for the main describe block
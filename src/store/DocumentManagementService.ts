@@ -10,14 +10,97 @@ import { LibraryNotFoundError, VersionNotFoundError } from "../tools";
 import { logger } from "../utils/logger";
 import { DocumentRetrieverService } from "./DocumentRetrieverService";
 import { DocumentStore } from "./DocumentStore";
+import { LlmQueryExpander } from "./LlmQueryExpander";
+import { LlmReranker } from "./LlmReranker";
+import { PostgresDocumentStore } from "./PostgresDocumentStore";
+import { readBundle, writeBundle } from "./bundle";
+import { diffDocuments } from "./diff";
 import { StoreError } from "./errors";
-import type { FindVersionResult, LibraryVersion, StoreSearchResult } from "./types";
+import {
+  DEFAULT_RANKING,
+  combineRankingOptions,
+  mergeRankingOptions,
+  validateRankingOptions,
+} from "./ranking";
+import type {
+  BundleImportResult,
+  ConsistencyReport,
+  DocumentStorage,
+  EmbeddingModelInfo,
+  FindVersionResult,
+  GarbageCollectionResult,
+  LibraryVersion,
+  MigrationResult,
+  PageState,
+  RankingOptions,
+  RankingSettings,
+  SearchMode,
+  SearchOptions,
+  SearchTarget,
+  StoreSearchResult,
+  StoreStats,
+  VersionAlias,
+  VersionDiff,
+  VersionProvenance,
+  VersionRecord,
+} from "./types";
+import { type VersionMatchOptions, findMatchingVersion, sortVersions } from "./versions";
+
+/** Names allowed for version aliases; names that are valid ranges (e.g. "x") are not */
+const VERSION_ALIAS_PATTERN = /^[a-z][a-z0-9._-]*$/i;
+
+/**
+ * Determines the SQLite database file: DOCS_MCP_STORE_PATH, the legacy `.store`
+ * directory of the project if it holds a database, or the platform's data directory.
+ * Creates the directory if needed.
+ */
+function resolveSqliteDbPath(): string {
+  let dbPath: string;
+  let dbDir: string;
+
+  // 1. Check Environment Variable
+  const envStorePath = process.env.DOCS_MCP_STORE_PATH;
+  if (envStorePath) {
+    dbDir = envStorePath;
+    dbPath = path.join(dbDir, "documents.db");
+    logger.debug(`💾 Using database directory from DOCS_MCP_STORE_PATH: ${dbDir}`);
+  } else {
+    // 2. Check Old Local Path
+    const projectRoot = path.resolve(import.meta.dirname, "..");
+    const oldDbDir = path.join(projectRoot, ".store");
+    const oldDbPath = path.join(oldDbDir, "documents.db");
+    const oldDbExists = existsSync(oldDbPath); // Check file existence specifically
+
+    if (oldDbExists) {
+      dbPath = oldDbPath;
+      dbDir = oldDbDir;
+      logger.debug(`💾 Using legacy database path: ${dbPath}`);
+    } else {
+      // 3. Use Standard Path
+      const standardPaths = envPaths("docs-mcp-server", { suffix: "" });
+      dbDir = standardPaths.data;
+      dbPath = path.join(dbDir, "documents.db");
+      logger.debug(`💾 Using standard database directory: ${dbDir}`);
+    }
+  }
+
+  // Ensure the chosen directory exists
+  try {
+    mkdirSync(dbDir, { recursive: true });
+  } catch (error) {
+    // Log potential error during directory creation but proceed
+    // The DocumentStore constructor might handle DB file creation errors
+    logger.error(`⚠️ Failed to create database directory ${dbDir}: ${error}`);
+  }
+
+  return dbPath;
+}
 
 /**
  * Provides semantic search capabilities across different versions of library documentation.
  */
 export class DocumentManagementService {
-  private readonly store: DocumentStore;
+  private readonly store: DocumentStorage;
   private readonly documentRetriever: DocumentRetrieverService;
   private readonly splitter: DocumentSplitter;
 
@@ -30,46 +113,21 @@ export class DocumentManagementService {
   }
 
   constructor() {
-    let dbPath: string;
-    let dbDir: string;
-
-    // 1. Check Environment Variable
-    const envStorePath = process.env.DOCS_MCP_STORE_PATH;
-    if (envStorePath) {
-      dbDir = envStorePath;
-      dbPath = path.join(dbDir, "documents.db");
-      logger.debug(`💾 Using database directory from DOCS_MCP_STORE_PATH: ${dbDir}`);
+    const databaseUrl = process.env.DOCS_MCP_DATABASE_URL;
+    if (databaseUrl) {
+      logger.debug("💾 Using PostgreSQL database from DOCS_MCP_DATABASE_URL");
+      this.store = new PostgresDocumentStore(databaseUrl);
     } else {
-      // 2. Check Old Local Path
-      const projectRoot = path.resolve(import.meta.dirname, "..");
-      const oldDbDir = path.join(projectRoot, ".store");
-      const oldDbPath = path.join(oldDbDir, "documents.db");
-      const oldDbExists = existsSync(oldDbPath); // Check file existence specifically
-
-      if (oldDbExists) {
-        dbPath = oldDbPath;
-        dbDir = oldDbDir;
-        logger.debug(`💾 Using legacy database path: ${dbPath}`);
-      } else {
-        // 3. Use Standard Path
-        const standardPaths = envPaths("docs-mcp-server", { suffix: "" });
-        dbDir = standardPaths.data;
-        dbPath = path.join(dbDir, "documents.db");
-        logger.debug(`💾 Using standard database directory: ${dbDir}`);
-      }
+      this.store = new DocumentStore(resolveSqliteDbPath());
     }
-
-    // Ensure the chosen directory exists
-    try {
-      mkdirSync(dbDir, { recursive: true });
-    } catch (error) {
-      // Log potential error during directory creation but proceed
-      // The DocumentStore constructor might handle DB file creation errors
-      logger.error(`⚠️ Failed to create database directory ${dbDir}: ${error}`);
+    const reranker = LlmReranker.fromEnv();
+    if (reranker) {
+      logger.debug(`🔀 Re-ranking search results with ${reranker.model}`);
     }
-
-    this.store = new DocumentStore(dbPath);
-    this.documentRetriever = new DocumentRetrieverService(this.store);
+    this.documentRetriever = new DocumentRetrieverService(this.store, {
+      reranker,
+      expander: LlmQueryExpander.fromEnv(),
+    });
 
     const minChunkSize = 500;
     const maxChunkSize = 1500;
@@ -90,6 +148,39 @@ export class DocumentManagementService {
     await this.store.initialize();
   }
 
+  /**
+   * Applies pending database schema migrations, or lists them when `dryRun` is set.
+   * Unlike `initialize()`, this does not set up the embedding model.
+   */
+  async migrate(options: { dryRun?: boolean } = {}): Promise<MigrationResult> {
+    return this.store.migrate(options);
+  }
+
+  /**
+   * Reports orphaned vectors, full-text index drift and duplicate chunks. Brings the
+   * schema up to date first, but does not set up the embedding model.
+   */
+  async checkConsistency(): Promise<ConsistencyReport> {
+    await this.store.migrate();
+    return this.store.checkConsistency();
+  }
+
+  /**
+   * Repairs the inconsistencies reported by `checkConsistency()`, then compacts and
+   * optimizes the database. Brings the schema up to date first, but does not set up the
+   * embedding model.
+   */
+  async collectGarbage(): Promise<GarbageCollectionResult> {
+    await this.store.migrate();
+    logger.info("🧹 Collecting garbage in the store");
+    const result = await this.store.collectGarbage();
+    const { orphanedVectors, ftsDrift, duplicateChunks } = result.repaired;
+    logger.info(
+      `✅ Removed ${orphanedVectors} orphaned vectors and ${duplicateChunks} duplicate chunks, repaired ${ftsDrift} full-text index entries`,
+    );
+    return result;
+  }
+
   /**
    * Shuts down the underlying document store.
    */
@@ -141,16 +232,15 @@ export class DocumentManagementService {
   }
 
   /**
-   * Returns a list of all available semantic versions for a library.
+   * Returns all indexed versions of a library, including calendar versions and labels
+   * such as branch names, ordered from oldest to newest (labels first).
    */
   async listVersions(library: string): Promise<LibraryVersion[]> {
     const versions = await this.store.queryUniqueVersions(library);
-    return versions
-      .filter((v) => semver.valid(v))
-      .map((version) => ({
-        version,
-        indexed: true,
-      }));
+    return sortVersions(versions.filter((v) => v !== "")).map((version) => ({
+      version,
+      indexed: true,
+    }));
   }
 
   /**
@@ -167,77 +257,61 @@ export class DocumentManagementService {
    * When no target version is specified, returns the latest version.
    *
    * Version matching behavior:
-   * - Exact versions (e.g., "18.0.0"): Matches that version or any earlier version
-   * - X-Range patterns (e.g., "5.x", "5.2.x"): Matches within the specified range
-   * - "latest" or no version: Returns the latest available version
+   * - Indexed versions and labels (e.g., "main", "2024-05"): Match themselves
+   * - Exact versions (e.g., "18.0.0", "2024-06"): Match that version or any earlier version
+   * - Ranges (e.g., "5.x", "^5.2", "1.2"): Match the latest version within the range
+   * - "latest" or no version: Returns the latest available version, or a default branch
+   *   such as "main" if the library has no numbered versions
+   * - Aliases (e.g., "stable"): Resolved to the version they point at, then matched
+   *   like an exact version. An alias named "latest" takes precedence over the built-in
    *
+   * Prerelease versions are only matched by ranges and "latest" with `includePrerelease`.
    * For documentation, we prefer matching older versions over no match at all,
    * since older docs are often still relevant and useful.
    * Also checks if unversioned documents exist for the library.
    */
   async findBestVersion(
     library: string,
-    targetVersion?: string,
+    requestedVersion?: string,
+    options: VersionMatchOptions = {},
   ): Promise<FindVersionResult> {
     logger.info(
-      `🔍 Finding best version for ${library}${targetVersion ? `@${targetVersion}` : ""}`,
+      `🔍 Finding best version for ${library}${requestedVersion ? `@${requestedVersion}` : ""}`,
     );
+    const targetVersion = await this.resolveVersion(library, requestedVersion);
 
-    // Check if unversioned documents exist *before* filtering for valid semver
     const hasUnversioned = await this.store.checkDocumentExists(library, "");
+    const versions = await this.listVersions(library);
 
-    const validSemverVersions = (await this.listVersions(library)).filter(
-      (v) => v.indexed,
-    ); // listVersions already filters for semver
-
-    if (validSemverVersions.length === 0) {
+    if (versions.length === 0) {
       if (hasUnversioned) {
         logger.info(`ℹ️ Unversioned documents exist for ${library}`);
         return { bestMatch: null, hasUnversioned: true };
       }
-      // Throw error only if NO versions (semver or unversioned) exist
+      // Throw error only if NO versions (versioned or unversioned) exist
       logger.warn(`⚠️ No valid versions found for ${library}`);
       throw new VersionNotFoundError(library, targetVersion ?? "", []);
     }
 
-    const versionStrings = validSemverVersions.map((v) => v.version);
-    let bestMatch: string | null = null;
-
-    if (!targetVersion || targetVersion === "latest") {
-      bestMatch = semver.maxSatisfying(versionStrings, "*");
-    } else {
-      const versionRegex = /^(\d+)(?:\.(?:x(?:\.x)?|\d+(?:\.(?:x|\d+))?))?$|^$/;
-      if (!versionRegex.test(targetVersion)) {
-        logger.warn(`⚠️ Invalid target version format: ${targetVersion}`);
-        // Don't throw yet, maybe unversioned exists
-      } else {
-        // Restore the previous logic with fallback
-        let range = targetVersion;
-        if (!semver.validRange(targetVersion)) {
-          // If it's not a valid range (like '1.2' or '1'), treat it like a tilde range
-          range = `~${targetVersion}`;
-        } else if (semver.valid(targetVersion)) {
-          // If it's an exact version, allow matching it OR any older version
-          range = `${range} || <=${targetVersion}`;
-        }
-        // If it was already a valid range (like '1.x'), use it directly
-        bestMatch = semver.maxSatisfying(versionStrings, range);
-      }
-    }
+    const bestMatch = findMatchingVersion(
+      versions.map((v) => v.version),
+      targetVersion,
+      options,
+    );
 
     if (bestMatch) {
       logger.info(
         `✅ Found best match version ${bestMatch} for ${library}@${targetVersion}`,
       );
     } else {
-      logger.warn(`⚠️ No matching semver version found for ${library}@${targetVersion}`);
+      logger.warn(`⚠️ No matching version found for ${library}@${targetVersion}`);
     }
 
-    // If no semver match found, but unversioned exists, return that info.
-    // If a semver match was found, return it along with unversioned status.
-    // If no semver match AND no unversioned, throw error.
+    // If no match found, but unversioned exists, return that info.
+    // If a match was found, return it along with unversioned status.
+    // If no match AND no unversioned, throw error.
     if (!bestMatch && !hasUnversioned) {
-      throw new VersionNotFoundError(library, targetVersion ?? "", validSemverVersions);
+      throw new VersionNotFoundError(library, targetVersion ?? "", versions);
     }
 
     return { bestMatch, hasUnversioned };
@@ -256,11 +330,13 @@ export class DocumentManagementService {
   }
 
   /**
-   * Removes all documents for a specific library and optional version.
+   * Removes all documents for a specific library and optional version or alias.
    * If version is omitted, removes documents without a specific version.
    */
   async removeAllDocuments(library: string, version?: string | null): Promise<void> {
-    const normalizedVersion = this.normalizeVersion(version);
+    const normalizedVersion = this.normalizeVersion(
+      await this.resolveVersion(library, version),
+    );
     logger.info(
       `🗑️ Removing all documents from ${library}@${normalizedVersion || "[no version]"} store`,
     );
@@ -280,13 +356,23 @@ export class DocumentManagementService {
     document: Document,
   ): Promise<void> {
     const normalizedVersion = this.normalizeVersion(version);
+    logger.info(`📚 Adding document: ${document.metadata.title}`);
+    const splitDocs = await this.splitDocument(document);
+
+    // Add split documents to store
+    await this.store.addDocuments(library, normalizedVersion, splitDocs);
+  }
+
+  /**
+   * Splits a document into semantic chunks that carry the document's metadata and
+   * their section's level, heading path and content types.
+   */
+  private async splitDocument(document: Document): Promise<Document[]> {
     const url = document.metadata.url as string;
     if (!url || typeof url !== "string" || !url.trim()) {
       throw new StoreError("Document metadata must include a valid URL");
     }
 
-    logger.info(`📚 Adding document: ${document.metadata.title}`);
-
     if (!document.pageContent.trim()) {
       throw new Error("Document content cannot be empty");
     }
@@ -301,17 +387,315 @@ export class DocumentManagementService {
         ...document.metadata,
         level: chunk.section.level,
         path: chunk.section.path,
+        types: chunk.types,
       },
     }));
     logger.info(`📄 Split document into ${splitDocs.length} chunks`);
+    return splitDocs;
+  }
 
-    // Add split documents to store
-    await this.store.addDocuments(library, normalizedVersion, splitDocs);
+  /**
+   * Returns the recorded state of every scraped page of a library version, keyed by URL.
+   * If version is omitted, returns the pages of the unversioned documents.
+   */
+  async getPageStates(
+    library: string,
+    version?: string | null,
+  ): Promise<Map<string, PageState>> {
+    return this.store.getPageStates(library, this.normalizeVersion(version));
+  }
+
+  /**
+   * Records the state of a scraped page without touching its documents, e.g. after
+   * an incremental scrape found the content unchanged but with new HTTP validators.
+   */
+  async savePageState(
+    library: string,
+    version: string | null | undefined,
+    page: PageState,
+  ): Promise<void> {
+    await this.store.upsertPageState(library, this.normalizeVersion(version), page);
+  }
+
+  /**
+   * Replaces all chunks of a page with the given (changed) document and records the
+   * new page state. Used by incremental scrapes instead of `addDocument`. The old
+   * chunks stay searchable until the new ones are embedded and stored, and are kept
+   * if that fails.
+   */
+  async replacePage(
+    library: string,
+    version: string | null | undefined,
+    document: Document,
+    page: PageState,
+  ): Promise<void> {
+    const normalizedVersion = this.normalizeVersion(version);
+    logger.info(`📚 Replacing document: ${document.metadata.title}`);
+    const splitDocs = await this.splitDocument(document);
+    const removed = await this.store.replacePage(
+      library,
+      normalizedVersion,
+      splitDocs,
+      page,
+    );
+    if (removed > 0) {
+      logger.debug(`🗑️ Replaced ${removed} outdated chunks of ${page.url}`);
+    }
+  }
+
+  /**
+   * Removes every page of a library version whose URL is not in `keepUrls`, i.e. pages
+   * that were no longer reached by the latest crawl.
+   * @returns URLs of the removed pages
+   */
+  async removePagesNotIn(
+    library: string,
+    version: string | null | undefined,
+    keepUrls: Set<string>,
+  ): Promise<string[]> {
+    const normalizedVersion = this.normalizeVersion(version);
+    const urls = await this.store.queryUrls(library, normalizedVersion);
+    const vanished = urls.filter((url) => !keepUrls.has(url));
+    for (const url of vanished) {
+      await this.store.deletePage(library, normalizedVersion, url);
+      logger.debug(`🗑️ Removed page no longer found by the crawl: ${url}`);
+    }
+    return vanished;
+  }
+
+  /**
+   * Removes the given pages of a library version, e.g. pages the latest crawl found
+   * to no longer exist. URLs that are not indexed are ignored.
+   * @returns URLs of the removed pages
+   */
+  async removePages(
+    library: string,
+    version: string | null | undefined,
+    urls: Set<string>,
+  ): Promise<string[]> {
+    const normalizedVersion = this.normalizeVersion(version);
+    const indexed = await this.store.queryUrls(library, normalizedVersion);
+    const gone = indexed.filter((url) => urls.has(url));
+    for (const url of gone) {
+      await this.store.deletePage(library, normalizedVersion, url);
+      logger.debug(`🗑️ Removed page that no longer exists: ${url}`);
+    }
+    return gone;
+  }
+
+  /**
+   * Returns the library key under which a scrape job stages its documents. Staged
+   * documents are not visible to searches or listings until `commitStaging` is called.
+   */
+  getStagingLibrary(jobId: string): string {
+    return this.store.getStagingLibrary(jobId);
+  }
+
+  /**
+   * Atomically replaces a library version with the documents staged under
+   * `stagingLibrary`. If version is omitted, replaces the unversioned documents.
+   * @returns Number of documents swapped in
+   * @throws {StoreError} If nothing was staged; the existing documents are kept.
+   */
+  async commitStaging(
+    stagingLibrary: string,
+    library: string,
+    version: string | null | undefined,
+  ): Promise<number> {
+    const normalizedVersion = this.normalizeVersion(version);
+    const count = await this.store.swapStagedDocuments(
+      stagingLibrary,
+      library,
+      normalizedVersion,
+    );
+    if (count === 0) {
+      throw new StoreError(
+        `No documents were scraped for ${library}@${normalizedVersion || "[no version]"}; keeping the existing documents`,
+      );
+    }
+    logger.info(
+      `🔀 Swapped ${count} documents into ${library}@${normalizedVersion || "[no version]"}`,
+    );
+    return count;
+  }
+
+  /**
+   * Discards the documents staged under `stagingLibrary`, leaving the live version untouched.
+   */
+  async discardStaging(
+    stagingLibrary: string,
+    version: string | null | undefined,
+  ): Promise<void> {
+    const count = await this.store.deleteStagedDocuments(
+      stagingLibrary,
+      this.normalizeVersion(version),
+    );
+    logger.debug(`🗑️ Discarded ${count} staged documents of ${stagingLibrary}`);
+  }
+
+  /**
+   * Returns the search mode of the underlying store: "hybrid" when an embedding
+   * model is configured, "fts" for keyword-only search.
+   */
+  getSearchMode(): SearchMode {
+    return this.store.getSearchMode();
+  }
+
+  /**
+   * Returns the configured embedding model, or null in full-text-only mode.
+   */
+  getEmbeddingModelInfo(): EmbeddingModelInfo | null {
+    return this.store.getEmbeddingModelInfo();
+  }
+
+  /**
+   * Regenerates the vectors of a library version with the currently configured
+   * embedding model, reusing the stored chunks instead of scraping again.
+   * If version is omitted, re-embeds documents without a specific version.
+   * @returns Number of documents re-embedded
+   * @throws {LibraryNotFoundError} If the library does not exist.
+   */
+  async reembedLibrary(library: string, version?: string | null): Promise<number> {
+    const normalizedVersion = this.normalizeVersion(
+      await this.resolveVersion(library, version),
+    );
+    await this.validateLibraryExists(library);
+
+    logger.info(
+      `🔄 Re-embedding ${library}@${normalizedVersion || "[no version]"} with ${this.store.getEmbeddingModelInfo()?.model ?? "no model"}`,
+    );
+    const count = await this.store.reembedDocuments(
+      library,
+      normalizedVersion,
+      (processed, total) =>
+        logger.debug(`📊 Re-embedded ${processed}/${total} documents`),
+    );
+    logger.info(`📊 Re-embedded ${count} documents`);
+    return count;
+  }
+
+  /**
+   * Exports an indexed library version to a bundle file that can be imported into
+   * another store, e.g. on a machine without network access.
+   * If version is omitted, exports the unversioned documents.
+   * @returns Number of documents exported
+   * @throws {LibraryNotFoundError} If the library does not exist.
+   * @throws {VersionNotFoundError} If the version is not indexed.
+   */
+  async exportBundle(
+    library: string,
+    version: string | null | undefined,
+    filePath: string,
+  ): Promise<number> {
+    const normalizedVersion = await this.resolveIndexedVersion(library, version);
+    const bundle = await this.store.exportDocuments(library, normalizedVersion);
+    await writeBundle(filePath, bundle);
+    logger.info(
+      `📦 Exported ${bundle.documents.length} documents of ${library}@${normalizedVersion || "[no version]"} to ${filePath}`,
+    );
+    return bundle.documents.length;
+  }
+
+  /**
+   * Imports a bundle file written by `exportBundle`, replacing the library version it
+   * contains if that version is already indexed.
+   * @throws {BundleError} If the bundle is corrupted or was embedded with a model that
+   *   conflicts with the configured one.
+   */
+  async importBundle(filePath: string): Promise<BundleImportResult> {
+    const bundle = await readBundle(filePath);
+    const documentCount = await this.store.importDocuments(bundle);
+    const importedAt = new Date().toISOString();
+    await this.saveVersionRecord(bundle.library, bundle.version, {
+      sourceUrl: null,
+      scraperOptions: null,
+      jobId: null,
+      description: null,
+      startedAt: importedAt,
+      finishedAt: importedAt,
+    });
+    logger.info(
+      `📦 Imported ${documentCount} documents of ${bundle.library}@${bundle.version || "[no version]"} from ${filePath}`,
+    );
+    if (!bundle.embeddingModel && this.getSearchMode() === "hybrid") {
+      logger.warn(
+        `⚠️ The bundle contains no embeddings. Run "docs-cli reembed ${bundle.library}${bundle.version ? ` --version ${bundle.version}` : ""}" to enable vector search for it.`,
+      );
+    }
+    return { library: bundle.library, version: bundle.version, documentCount };
+  }
+
+  /**
+   * Compares two indexed versions of a library section by section, matching sections
+   * by the path of their page's URL and their heading path. Versions may be aliases;
+   * an empty or omitted version denotes the unversioned documents.
+   * @throws {LibraryNotFoundError} If the library does not exist.
+   * @throws {VersionNotFoundError} If either version is not indexed.
+   */
+  async diffVersions(
+    library: string,
+    fromVersion: string | null | undefined,
+    toVersion: string | null | undefined,
+  ): Promise<VersionDiff> {
+    const from = await this.resolveIndexedVersion(library, fromVersion);
+    const to = await this.resolveIndexedVersion(library, toVersion);
+    const diff = diffDocuments(
+      library.toLowerCase(),
+      from,
+      to,
+      await this.store.queryDocuments(library, from),
+      await this.store.queryDocuments(library, to),
+    );
+    logger.info(
+      `🔀 Compared ${library}@${from || "[no version]"} with ${to || "[no version]"}: ${diff.changes.length} sections changed, ${diff.unchanged} unchanged`,
+    );
+    return diff;
+  }
+
+  /**
+   * Resolves an alias and normalizes the version, making sure it is indexed.
+   * @throws {LibraryNotFoundError} If the library does not exist.
+   * @throws {VersionNotFoundError} If the version is not indexed.
+   */
+  private async resolveIndexedVersion(
+    library: string,
+    version: string | null | undefined,
+  ): Promise<string> {
+    const normalizedVersion = this.normalizeVersion(
+      await this.resolveVersion(library, version),
+    );
+    await this.validateLibraryExists(library);
+    if (!(await this.exists(library, normalizedVersion))) {
+      throw new VersionNotFoundError(
+        library,
+        normalizedVersion || "[no version]",
+        await this.listVersions(library),
+      );
+    }
+    return normalizedVersion;
+  }
+
+  /**
+   * Checks the ranking overrides and budgets of a search.
+   * @throws {StoreError} If an option is out of range
+   */
+  private validateSearchOptions(options: SearchOptions = {}): void {
+    if (options.ranking) {
+      validateRankingOptions(options.ranking);
+    }
+    for (const name of ["maxTokens", "maxChars"] as const) {
+      const value = options[name];
+      if (value !== undefined && !(Number.isInteger(value) && value > 0)) {
+        throw new StoreError(
+          `Invalid search option ${name}=${value}: must be a positive integer`,
+        );
+      }
+    }
   }
 
   /**
    * Searches for documentation content across versions.
-   * Uses hybrid search (vector + FTS).
+   * Uses hybrid search (vector + FTS), or FTS only when no embedding model is configured.
    * If version is omitted, searches documents without a specific version.
    */
   async searchStore(
@@ -319,27 +703,198 @@ export class DocumentManagementService {
     version: string | null | undefined,
     query: string,
     limit = 5,
+    options?: SearchOptions,
+  ): Promise<StoreSearchResult[]> {
+    this.validateSearchOptions(options);
+    const normalizedVersion = this.normalizeVersion(version);
+    return this.documentRetriever.search(
+      library,
+      normalizedVersion,
+      query,
+      limit,
+      options,
+    );
+  }
+
+  /**
+   * Searches several library versions at once. Results are fused across libraries with
+   * Reciprocal Rank Fusion and tagged with the library and version they came from.
+   */
+  async searchLibraries(
+    targets: SearchTarget[],
+    query: string,
+    limit = 5,
+    options?: SearchOptions,
   ): Promise<StoreSearchResult[]> {
+    this.validateSearchOptions(options);
+    const normalizedTargets = targets.map((target) => ({
+      library: target.library.toLowerCase(),
+      version: this.normalizeVersion(target.version),
+    }));
+    return this.documentRetriever.searchMultiple(
+      normalizedTargets,
+      query,
+      limit,
+      options,
+    );
+  }
+
+  /**
+   * Retrieves the ranking options configured for a library (null if none) together
+   * with the settings its searches use by default.
+   */
+  async getLibraryRanking(
+    library: string,
+  ): Promise<{ options: RankingOptions | null; settings: RankingSettings }> {
+    const options = await this.store.getRankingOptions(library);
+    return { options, settings: mergeRankingOptions(DEFAULT_RANKING, options) };
+  }
+
+  /**
+   * Configures the ranking of a library's searches. The options are merged into those
+   * already configured, so single parameters can be changed one at a time.
+   * @returns The settings the library's searches use from now on
+   * @throws {LibraryNotFoundError} If the library is not indexed
+   * @throws {StoreError} If an option is out of range
+   */
+  async setLibraryRanking(
+    library: string,
+    options: RankingOptions,
+  ): Promise<RankingSettings> {
+    await this.validateLibraryExists(library);
+    const current = await this.store.getRankingOptions(library);
+    const merged = combineRankingOptions(current, options);
+    validateRankingOptions(merged);
+    await this.store.setRankingOptions(library, merged);
+    logger.info(`⚖️ Updated ranking of ${library}`);
+    return mergeRankingOptions(DEFAULT_RANKING, merged);
+  }
+
+  /**
+   * Removes the ranking options of a library, so its searches use the defaults again.
+   */
+  async resetLibraryRanking(library: string): Promise<void> {
+    await this.store.setRankingOptions(library, null);
+    logger.info(`⚖️ Reset ranking of ${library} to the defaults`);
+  }
+
+  /**
+   * Resolves a version alias of a library to the version it points at. Versions,
+   * ranges and undefined aliases (including the built-in "latest") are returned as is.
+   * @throws {VersionNotFoundError} If the alias points at a version that is no longer indexed
+   */
+  async resolveVersion(
+    library: string,
+    version?: string | null,
+  ): Promise<string | undefined> {
+    // Aliases cannot look like versions or ranges, so those need no lookup
+    if (!version || semver.validRange(version)) {
+      return version ?? undefined;
+    }
+    const aliases = await this.store.queryVersionAliases(library);
+    const alias = aliases.find((entry) => entry.alias === version.toLowerCase());
+    if (!alias) {
+      return version;
+    }
+    if (!(await this.exists(library, alias.version))) {
+      throw new VersionNotFoundError(library, version, await this.listVersions(library));
+    }
+    logger.info(`🏷️ Resolved ${library}@${version} to ${alias.version}`);
+    return alias.version;
+  }
+
+  /**
+   * Lists the version aliases of a library, or of all libraries if none is given.
+   */
+  async listVersionAliases(library?: string): Promise<VersionAlias[]> {
+    return this.store.queryVersionAliases(library);
+  }
+
+  /**
+   * Points an alias such as "stable" at an indexed version of a library, replacing its
+   * previous target.
+   * @throws {StoreError} If the alias name is invalid or could be mistaken for a version
+   * @throws {LibraryNotFoundError} If the library is not indexed
+   * @throws {VersionNotFoundError} If the version is not indexed
+   */
+  async setVersionAlias(library: string, alias: string, version: string): Promise<void> {
+    if (!VERSION_ALIAS_PATTERN.test(alias) || semver.validRange(alias)) {
+      throw new StoreError(
+        `Invalid alias '${alias}': must start with a letter, contain only letters, digits, '.', '_' and '-', and not be a version or range`,
+      );
+    }
+    await this.validateLibraryExists(library);
+    if (!version || !(await this.exists(library, version))) {
+      throw new VersionNotFoundError(
+        library,
+        version || "[no version]",
+        await this.listVersions(library),
+      );
+    }
+    await this.store.setVersionAlias(library, alias, version);
+    logger.info(`🏷️ Set alias ${library}@${alias} to ${version}`);
+  }
+
+  /**
+   * Removes a version alias of a library.
+   * @throws {StoreError} If the alias is not defined
+   */
+  async removeVersionAlias(library: string, alias: string): Promise<void> {
+    const aliases = await this.store.queryVersionAliases(library);
+    if (!aliases.some((entry) => entry.alias === alias.toLowerCase())) {
+      throw new StoreError(`Alias '${alias}' is not defined for ${library}`);
+    }
+    await this.store.setVersionAlias(library, alias, null);
+    logger.info(`🏷️ Removed alias ${library}@${alias}`);
+  }
+
+  /**
+   * Reports the size and embedding coverage of every indexed library version and the
+   * size of the database.
+   */
+  async getStatistics(): Promise<StoreStats> {
+    return this.store.getStatistics();
+  }
+
+  /**
+   * Records where and how a version was indexed, e.g. when a scrape job completes.
+   * Page and chunk counts are taken from the stored documents.
+   */
+  async saveVersionRecord(
+    library: string,
+    version: string | null | undefined,
+    provenance: VersionProvenance,
+  ): Promise<void> {
     const normalizedVersion = this.normalizeVersion(version);
-    return this.documentRetriever.search(library, normalizedVersion, query, limit);
+    await this.store.saveVersionRecord(library, normalizedVersion, provenance);
+    logger.debug(`🗂️ Registered ${library}@${normalizedVersion || "[no version]"}`);
   }
 
-  async listLibraries(): Promise<
-    Array<{
-      library: string;
-      versions: Array<{ version: string; indexed: boolean }>;
-    }>
-  > {
+  /**
+   * Lists the registry entries of a library, or of all libraries if none is given.
+   */
+  async listVersionRecords(library?: string): Promise<VersionRecord[]> {
+    return this.store.queryVersionRecords(library?.toLowerCase());
+  }
+
+  /**
+   * Lists all libraries with their versions, ordered from oldest to newest, each with
+   * its registry entry if it has one.
+   */
+  async listLibraries(): Promise<Array<{ library: string; versions: LibraryVersion[] }>> {
     const libraryMap = await this.store.queryLibraryVersions();
+    const records = await this.store.queryVersionRecords();
+    const findRecord = (library: string, version: string) =>
+      records.find((record) => record.library === library && record.version === version);
     return Array.from(libraryMap.entries()).map(([library, versions]) => ({
       library,
       // Filter out the internal empty string version before mapping
-      versions: Array.from(versions)
-        .filter((v) => v !== "")
-        .map((version) => ({
-          version,
-          indexed: true,
-        })),
+      versions: sortVersions(Array.from(versions).filter((v) => v !== "")).map(
+        (version) => {
+          const record = findRecord(library, version);
+          return { version, indexed: true, ...(record && { record }) };
+        },
+      ),
     }));
   }
 }
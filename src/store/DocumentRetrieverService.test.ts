@@ -1,6 +1,10 @@
 import { Document } from "@langchain/core/documents";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
-import { DocumentRetrieverService } from "./DocumentRetrieverService";
+import {
+  DocumentRetrieverService,
+  RANGE_SEPARATOR,
+  TRUNCATION_MARKER,
+} from "./DocumentRetrieverService";
 import { DocumentStore } from "./DocumentStore";
 
 vi.mock("./DocumentStore");
@@ -34,28 +38,28 @@ describe("DocumentRetrieverService", () => {
     const initialResult = new Document({
       id: "doc1",
       pageContent: "Initial content",
-      metadata: { url: "url" },
+      metadata: { url: "url", sort_order: 2 },
     });
 
     const parent = new Document({
       id: "parent1",
       pageContent: "Parent content",
-      metadata: { url: "url" },
+      metadata: { url: "url", sort_order: 0 },
     });
     const precedingSibling1 = new Document({
       id: "sibling1",
       pageContent: "Preceding sibling 1",
-      metadata: { url: "url" },
+      metadata: { url: "url", sort_order: 1 },
     });
     const child1 = new Document({
       id: "child1",
       pageContent: "Child 1 content",
-      metadata: { url: "url" },
+      metadata: { url: "url", sort_order: 3 },
     });
     const subsequentSibling1 = new Document({
       id: "sibling2",
       pageContent: "Subsequent sibling 1",
-      metadata: { url: "url" },
+      metadata: { url: "url", sort_order: 4 },
     });
 
     vi.spyOn(mockDocumentStore, "findByContent").mockResolvedValue([initialResult]);
@@ -75,6 +79,8 @@ describe("DocumentRetrieverService", () => {
       version,
       query,
       10,
+      undefined,
+      undefined,
     );
     expect(mockDocumentStore.findParentChunk).toHaveBeenCalledWith(
       library,
@@ -104,6 +110,8 @@ describe("DocumentRetrieverService", () => {
       {
         content:
           "Parent content\n\nPreceding sibling 1\n\nInitial content\n\nChild 1 content\n\nSubsequent sibling 1",
+        library,
+        version,
         url: "url",
         score: undefined,
       },
@@ -117,23 +125,23 @@ describe("DocumentRetrieverService", () => {
     const initialResult = new Document({
       id: "doc1",
       pageContent: "Initial content",
-      metadata: { url: "url" },
+      metadata: { url: "url", sort_order: 2 },
     });
 
     const precedingSibling1 = new Document({
       id: "sibling1",
       pageContent: "Preceding sibling 1",
-      metadata: { url: "url" },
+      metadata: { url: "url", sort_order: 1 },
     });
     const child1 = new Document({
       id: "child1",
       pageContent: "Child 1 content",
-      metadata: { url: "url" },
+      metadata: { url: "url", sort_order: 3 },
     });
     const subsequentSibling1 = new Document({
       id: "sibling2",
       pageContent: "Subsequent sibling 1",
-      metadata: { url: "url" },
+      metadata: { url: "url", sort_order: 4 },
     });
 
     vi.spyOn(mockDocumentStore, "findByContent").mockResolvedValue([initialResult]);
@@ -152,6 +160,8 @@ describe("DocumentRetrieverService", () => {
       {
         content:
           "Preceding sibling 1\n\nInitial content\n\nChild 1 content\n\nSubsequent sibling 1",
+        library,
+        version,
         url: "url",
         score: undefined,
       },
@@ -165,23 +175,23 @@ describe("DocumentRetrieverService", () => {
     const initialResult = new Document({
       id: "doc1",
       pageContent: "Initial content",
-      metadata: { url: "url" },
+      metadata: { url: "url", sort_order: 2 },
     });
 
     const parent = new Document({
       id: "parent1",
       pageContent: "Parent content",
-      metadata: { url: "url" },
+      metadata: { url: "url", sort_order: 1 },
     });
     const child1 = new Document({
       id: "child1",
       pageContent: "Child 1 content",
-      metadata: { url: "url" },
+      metadata: { url: "url", sort_order: 3 },
     });
     const subsequentSibling1 = new Document({
       id: "sibling2",
       pageContent: "Subsequent sibling 1",
-      metadata: { url: "url" },
+      metadata: { url: "url", sort_order: 4 },
     });
 
     vi.spyOn(mockDocumentStore, "findByContent").mockResolvedValue([initialResult]);
@@ -198,6 +208,8 @@ describe("DocumentRetrieverService", () => {
       {
         content:
           "Parent content\n\nInitial content\n\nChild 1 content\n\nSubsequent sibling 1",
+        library,
+        version,
         url: "url",
         score: undefined,
       },
@@ -211,23 +223,23 @@ describe("DocumentRetrieverService", () => {
     const initialResult = new Document({
       id: "doc1",
       pageContent: "Initial content",
-      metadata: { url: "url" },
+      metadata: { url: "url", sort_order: 2 },
     });
 
     const parent = new Document({
       id: "parent1",
       pageContent: "Parent content",
-      metadata: { url: "url" },
+      metadata: { url: "url", sort_order: 0 },
     });
     const precedingSibling1 = new Document({
       id: "sibling1",
       pageContent: "Preceding sibling 1",
-      metadata: { url: "url" },
+      metadata: { url: "url", sort_order: 1 },
     });
     const subsequentSibling1 = new Document({
       id: "sibling2",
       pageContent: "Subsequent sibling 1",
-      metadata: { url: "url" },
+      metadata: { url: "url", sort_order: 3 },
     });
 
     vi.spyOn(mockDocumentStore, "findByContent").mockResolvedValue([initialResult]);
@@ -246,6 +258,8 @@ describe("DocumentRetrieverService", () => {
       {
         content:
           "Parent content\n\nPreceding sibling 1\n\nInitial content\n\nSubsequent sibling 1",
+        library,
+        version,
         url: "url",
         score: undefined,
       },
@@ -259,23 +273,23 @@ describe("DocumentRetrieverService", () => {
     const initialResult = new Document({
       id: "doc1",
       pageContent: "Initial content",
-      metadata: { url: "url" },
+      metadata: { url: "url", sort_order: 2 },
     });
 
     const parent = new Document({
       id: "parent1",
       pageContent: "Parent content",
-      metadata: { url: "url" },
+      metadata: { url: "url", sort_order: 0 },
     });
     const precedingSibling1 = new Document({
       id: "sibling1",
       pageContent: "Preceding sibling 1",
-      metadata: { url: "url" },
+      metadata: { url: "url", sort_order: 1 },
     });
     const child1 = new Document({
       id: "child1",
       pageContent: "Child 1 content",
-      metadata: { url: "url" },
+      metadata: { url: "url", sort_order: 3 },
     });
 
     vi.spyOn(mockDocumentStore, "findByContent").mockResolvedValue([initialResult]);
@@ -292,6 +306,8 @@ describe("DocumentRetrieverService", () => {
       {
         content:
           "Parent content\n\nPreceding sibling 1\n\nInitial content\n\nChild 1 content",
+        library,
+        version,
         url: "url",
         score: undefined,
       },
@@ -305,12 +321,12 @@ describe("DocumentRetrieverService", () => {
     const initialResult1 = new Document({
       id: "doc1",
       pageContent: "Initial content 1",
-      metadata: { url: "url" },
+      metadata: { url: "url1", sort_order: 2 },
     });
     const initialResult2 = new Document({
       id: "doc2",
       pageContent: "Initial content 2",
-      metadata: { url: "url" },
+      metadata: { url: "url2", sort_order: 0 },
     });
 
     vi.spyOn(mockDocumentStore, "findByContent").mockResolvedValue([
@@ -326,18 +342,68 @@ describe("DocumentRetrieverService", () => {
 
     expect(results).toEqual([
       {
+        library,
+        version,
         content: "Initial content 1",
-        url: "url",
+        url: "url1",
         score: undefined,
       },
       {
+        library,
+        version,
         content: "Initial content 2",
-        url: "url",
+        url: "url2",
         score: undefined,
       },
     ]);
   });
 
+  it("should merge the context windows of hits on the same page", async () => {
+    const chunk = (id: string, url = "page", score?: number) =>
+      new Document({
+        id,
+        pageContent: id,
+        metadata: { url, sort_order: Number(id.slice(1)), score },
+      });
+    const byId = (...ids: string[]) => ids.map((id) => chunk(id));
+    vi.spyOn(mockDocumentStore, "findByContent").mockResolvedValue([
+      chunk("c3", "page", 0.03),
+      chunk("c8", "page", 0.025),
+      chunk("c4", "page", 0.02),
+      chunk("q1", "other", 0.01),
+    ]);
+    vi.spyOn(mockDocumentStore, "findParentChunk").mockImplementation(
+      async (_l, _v, id) => (id === "c3" || id === "c4" ? chunk("c0") : null),
+    );
+    vi.spyOn(mockDocumentStore, "findPrecedingSiblingChunks").mockImplementation(
+      async (_l, _v, id) =>
+        ({ c3: byId("c2"), c4: byId("c3"), c8: byId("c7") })[id] ?? [],
+    );
+    vi.spyOn(mockDocumentStore, "findChildChunks").mockResolvedValue([]);
+    vi.spyOn(mockDocumentStore, "findSubsequentSiblingChunks").mockImplementation(
+      async (_l, _v, id) => ({ c3: byId("c4"), c4: byId("c5") })[id] ?? [],
+    );
+
+    const results = await retrieverService.search("test-lib", "1.0.0", "query");
+
+    expect(results).toEqual([
+      {
+        library: "test-lib",
+        version: "1.0.0",
+        url: "page",
+        content: `c0${RANGE_SEPARATOR}c2\n\nc3\n\nc4\n\nc5${RANGE_SEPARATOR}c7\n\nc8`,
+        score: 0.03,
+      },
+      {
+        library: "test-lib",
+        version: "1.0.0",
+        url: "other",
+        content: "q1",
+        score: 0.01,
+      },
+    ]);
+  });
+
   it("should use the provided limit", async () => {
     const library = "test-lib";
     const version = "1.0.0";
@@ -346,28 +412,28 @@ describe("DocumentRetrieverService", () => {
     const initialResult = new Document({
       id: "doc1",
       pageContent: "Initial content",
-      metadata: { url: "url" },
+      metadata: { url: "url", sort_order: 2 },
     });
 
     const parent = new Document({
       id: "parent1",
       pageContent: "Parent content",
-      metadata: { url: "url" },
+      metadata: { url: "url", sort_order: 0 },
     });
     const precedingSibling1 = new Document({
       id: "sibling1",
       pageContent: "Preceding sibling 1",
-      metadata: { url: "url" },
+      metadata: { url: "url", sort_order: 1 },
     });
     const child1 = new Document({
       id: "child1",
       pageContent: "Child 1 content",
-      metadata: { url: "url" },
+      metadata: { url: "url", sort_order: 3 },
     });
     const subsequentSibling1 = new Document({
       id: "sibling2",
       pageContent: "Subsequent sibling 1",
-      metadata: { url: "url" },
+      metadata: { url: "url", sort_order: 4 },
     });
 
     vi.spyOn(mockDocumentStore, "findByContent").mockResolvedValue([initialResult]);
@@ -387,17 +453,239 @@ describe("DocumentRetrieverService", () => {
       version,
       query,
       limit,
+      undefined,
+      undefined,
     ); // Verify limit is passed to findByContent
     expect(results).toEqual([
       {
         content:
           "Parent content\n\nPreceding sibling 1\n\nInitial content\n\nChild 1 content\n\nSubsequent sibling 1",
+        library,
+        version,
         url: "url",
         score: undefined,
       },
     ]);
   });
 
+  it("should pass ranking options to the store and explain the ranking", async () => {
+    const ranking = { rrfK: 10, bm25Weights: { title: 3 } };
+    vi.spyOn(mockDocumentStore, "findByContent").mockResolvedValue([
+      new Document({
+        id: "doc1",
+        pageContent: "Keyword match",
+        metadata: {
+          url: "url",
+          score: 1 / 11,
+          vec_score: null,
+          fts_score: -4.2,
+          vec_rank: undefined,
+          fts_rank: 1,
+        },
+      }),
+    ]);
+    vi.spyOn(mockDocumentStore, "findParentChunk").mockResolvedValue(null);
+    vi.spyOn(mockDocumentStore, "findPrecedingSiblingChunks").mockResolvedValue([]);
+    vi.spyOn(mockDocumentStore, "findChildChunks").mockResolvedValue([]);
+    vi.spyOn(mockDocumentStore, "findSubsequentSiblingChunks").mockResolvedValue([]);
+
+    const [explained] = await retrieverService.search("test-lib", "1.0.0", "query", 5, {
+      ranking,
+      explain: true,
+    });
+    const [plain] = await retrieverService.search("test-lib", "1.0.0", "query", 5);
+
+    expect(mockDocumentStore.findByContent).toHaveBeenCalledWith(
+      "test-lib",
+      "1.0.0",
+      "query",
+      5,
+      undefined,
+      ranking,
+    );
+    expect(explained.explain).toEqual({
+      vectorDistance: null,
+      vectorRank: null,
+      textScore: -4.2,
+      textRank: 1,
+      fusedScore: 1 / 11,
+    });
+    expect(plain).not.toHaveProperty("explain");
+  });
+
+  it("should re-rank the hits unless disabled for the search", async () => {
+    const hit = (id: string, score: number) =>
+      new Document({ id, pageContent: id, metadata: { url: id, score, sort_order: 0 } });
+    const reranker = {
+      rerank: vi.fn(async (_query: string, documents: Document[]) =>
+        [...documents].reverse().map((document, index) => ({
+          ...document,
+          metadata: { ...document.metadata, rerank_score: 10 - index },
+        })),
+      ),
+    };
+    const rerankingService = new DocumentRetrieverService(mockDocumentStore, {
+      reranker,
+    });
+    vi.spyOn(mockDocumentStore, "findByContent").mockResolvedValue([
+      hit("first", 0.03),
+      hit("second", 0.02),
+    ]);
+    vi.spyOn(mockDocumentStore, "findParentChunk").mockResolvedValue(null);
+    vi.spyOn(mockDocumentStore, "findPrecedingSiblingChunks").mockResolvedValue([]);
+    vi.spyOn(mockDocumentStore, "findChildChunks").mockResolvedValue([]);
+    vi.spyOn(mockDocumentStore, "findSubsequentSiblingChunks").mockResolvedValue([]);
+
+    const reranked = await rerankingService.search("test-lib", "1.0.0", "query", 5, {
+      explain: true,
+    });
+    const hybrid = await rerankingService.search("test-lib", "1.0.0", "query", 5, {
+      rerank: false,
+    });
+
+    expect(reranker.rerank).toHaveBeenCalledTimes(1);
+    expect(reranked.map((r) => [r.url, r.score, r.explain?.rerankScore])).toEqual([
+      ["second", 10, 10],
+      ["first", 9, 9],
+    ]);
+    expect(hybrid.map((r) => [r.url, r.score])).toEqual([
+      ["first", 0.03],
+      ["second", 0.02],
+    ]);
+  });
+
+  it("should report scores that fall with the rank after re-ranking", async () => {
+    const hit = (id: string, score: number) =>
+      new Document({ id, pageContent: id, metadata: { url: id, score, sort_order: 0 } });
+    // Re-ranks only the first three hits, like a reranker with topN = 3
+    const reranker = {
+      rerank: vi.fn(async (_query: string, documents: Document[]) => [
+        ...documents
+          .slice(0, 3)
+          .map((document, index) => ({
+            ...document,
+            metadata: { ...document.metadata, rerank_score: [2, 7, 0][index] },
+          }))
+          .sort((a, b) => b.metadata.rerank_score - a.metadata.rerank_score),
+        ...documents.slice(3),
+      ]),
+    };
+    const rerankingService = new DocumentRetrieverService(mockDocumentStore, {
+      reranker,
+    });
+    vi.spyOn(mockDocumentStore, "findByContent").mockResolvedValue([
+      hit("a", 0.04),
+      hit("b", 0.03),
+      hit("c", 0.02),
+      hit("d", 0.01),
+    ]);
+    vi.spyOn(mockDocumentStore, "findParentChunk").mockResolvedValue(null);
+    vi.spyOn(mockDocumentStore, "findPrecedingSiblingChunks").mockResolvedValue([]);
+    vi.spyOn(mockDocumentStore, "findChildChunks").mockResolvedValue([]);
+    vi.spyOn(mockDocumentStore, "findSubsequentSiblingChunks").mockResolvedValue([]);
+
+    const results = await rerankingService.search("test-lib", "1.0.0", "query", 5);
+
+    expect(results.map((r) => [r.url, r.score])).toEqual([
+      ["b", 7],
+      ["a", 2],
+      ["c", 0],
+      // Not re-ranked, so its hybrid score is not comparable to the re-ranking scores
+      ["d", null],
+    ]);
+  });
+
+  it("should fuse the results of the query variants when expanding", async () => {
+    const hit = (id: string) =>
+      new Document({ id, pageContent: id, metadata: { url: id, sort_order: 0 } });
+    const expander = { expand: vi.fn(async () => ["variant", "passage"]) };
+    const expandingService = new DocumentRetrieverService(mockDocumentStore, {
+      expander,
+    });
+    vi.spyOn(mockDocumentStore, "findByContent").mockImplementation(
+      async (_l, _v, query) =>
+        ({
+          auth: [hit("a"), hit("b")],
+          variant: [hit("c"), hit("b")],
+          passage: [hit("b"), hit("d")],
+        })[query] ?? [],
+    );
+    vi.spyOn(mockDocumentStore, "findParentChunk").mockResolvedValue(null);
+    vi.spyOn(mockDocumentStore, "findPrecedingSiblingChunks").mockResolvedValue([]);
+    vi.spyOn(mockDocumentStore, "findChildChunks").mockResolvedValue([]);
+    vi.spyOn(mockDocumentStore, "findSubsequentSiblingChunks").mockResolvedValue([]);
+
+    const expanded = await expandingService.search("test-lib", "1.0.0", "auth", 3, {
+      expand: true,
+    });
+    const plain = await expandingService.search("test-lib", "1.0.0", "auth", 3);
+
+    expect(expander.expand).toHaveBeenCalledTimes(1);
+    expect(expander.expand).toHaveBeenCalledWith("auth");
+    expect(expanded.map((r) => [r.url, r.score])).toEqual([
+      // Found by all three searches: twice at rank 2, once at rank 1
+      ["b", 2 / 62 + 1 / 61],
+      ["a", 1 / 61],
+      ["c", 1 / 61],
+    ]);
+    expect(plain.map((r) => r.url)).toEqual(["a", "b"]);
+  });
+
+  describe("Budget", () => {
+    // Every chunk costs its length plus a range separator
+    const chunk = (id: string, url: string, sortOrder: number, length = 41) =>
+      new Document({
+        id,
+        pageContent: id.padEnd(length, "."),
+        metadata: { url, sort_order: sortOrder },
+      });
+
+    beforeEach(() => {
+      vi.spyOn(mockDocumentStore, "findPrecedingSiblingChunks").mockResolvedValue([]);
+      vi.spyOn(mockDocumentStore, "findChildChunks").mockResolvedValue([]);
+      vi.spyOn(mockDocumentStore, "findSubsequentSiblingChunks").mockResolvedValue([]);
+    });
+
+    it("should include all hits before expanding their context by score", async () => {
+      const cost = 41 + RANGE_SEPARATOR.length;
+      vi.spyOn(mockDocumentStore, "findByContent").mockResolvedValue([
+        chunk("hitA", "a", 1),
+        chunk("hitB", "b", 1),
+      ]);
+      vi.spyOn(mockDocumentStore, "findParentChunk").mockImplementation(
+        async (_l, _v, id) => chunk(`parent-${id}`, id === "hitA" ? "a" : "b", 0),
+      );
+
+      const results = await retrieverService.search("test-lib", "1.0.0", "query", 5, {
+        maxChars: 3 * cost,
+      });
+
+      expect(results.map((r) => [r.url, r.content.length, r.truncated])).toEqual([
+        ["a", 41 + 2 + 41, undefined],
+        ["b", 41, true],
+      ]);
+    });
+
+    it("should cut off the hit that no longer fits and drop the rest", async () => {
+      vi.spyOn(mockDocumentStore, "findByContent").mockResolvedValue([
+        chunk("hitA", "a", 1, 500),
+        chunk("hitB", "b", 1),
+      ]);
+      vi.spyOn(mockDocumentStore, "findParentChunk").mockResolvedValue(null);
+
+      const results = await retrieverService.search("test-lib", "1.0.0", "query", 5, {
+        maxTokens: 75,
+        maxChars: 1000,
+      });
+
+      expect(results).toHaveLength(1);
+      expect(results[0].truncated).toBe(true);
+      expect(results[0].content).toBe(
+        `${"hitA".padEnd(300 - RANGE_SEPARATOR.length - TRUNCATION_MARKER.length, ".")}${TRUNCATION_MARKER}`,
+      );
+    });
+  });
+
   // Test for optional version handling
   describe("Optional Version Handling", () => {
     const library = "opt-lib";
@@ -422,20 +710,80 @@ describe("DocumentRetrieverService", () => {
 
       // Test with null version
       await retrieverService.search(library, null, query, limit);
-      expect(findByContentSpy).toHaveBeenCalledWith(library, "", query, limit);
+      expect(findByContentSpy).toHaveBeenCalledWith(
+        library,
+        "",
+        query,
+        limit,
+        undefined,
+        undefined,
+      );
       // We don't need to check other methods if findByContent returns empty,
       // but if it returned results, we'd check those calls too, e.g.:
       // expect(findParentChunkSpy).toHaveBeenCalledWith(library, "", expect.any(String));
 
       // Test with undefined version
       await retrieverService.search(library, undefined, query, limit);
-      expect(findByContentSpy).toHaveBeenCalledWith(library, "", query, limit);
+      expect(findByContentSpy).toHaveBeenCalledWith(
+        library,
+        "",
+        query,
+        limit,
+        undefined,
+        undefined,
+      );
 
       // Test with empty string version
       await retrieverService.search(library, "", query, limit);
-      expect(findByContentSpy).toHaveBeenCalledWith(library, "", query, limit);
+      expect(findByContentSpy).toHaveBeenCalledWith(
+        library,
+        "",
+        query,
+        limit,
+        undefined,
+        undefined,
+      );
 
       // Restore mocks if necessary, though clearAllMocks in beforeEach handles it
     });
   });
+
+  describe("Cross-library search", () => {
+    it("should interleave results of several libraries by rank and tag them", async () => {
+      const doc = (id: string, score: number) =>
+        new Document({
+          id,
+          pageContent: id,
+          metadata: { url: `https://x/${id}`, score },
+        });
+      vi.spyOn(mockDocumentStore, "findByContent").mockImplementation(
+        async (library: string) =>
+          library === "react"
+            ? [doc("react-1", 0.03), doc("react-2", 0.01)]
+            : [doc("next-1", 0.02)],
+      );
+      vi.spyOn(mockDocumentStore, "findParentChunk").mockResolvedValue(null);
+      vi.spyOn(mockDocumentStore, "findPrecedingSiblingChunks").mockResolvedValue([]);
+      vi.spyOn(mockDocumentStore, "findChildChunks").mockResolvedValue([]);
+      vi.spyOn(mockDocumentStore, "findSubsequentSiblingChunks").mockResolvedValue([]);
+
+      const results = await retrieverService.searchMultiple(
+        [
+          { library: "next", version: "14.0.0" },
+          { library: "react", version: "18.2.0" },
+        ],
+        "query",
+        3,
+      );
+
+      // Both first-ranked results score 1/61; the higher original score wins the tie
+      expect(results.map((r) => [r.content, r.library, r.version])).toEqual([
+        ["react-1", "react", "18.2.0"],
+        ["next-1", "next", "14.0.0"],
+        ["react-2", "react", "18.2.0"],
+      ]);
+      expect(results[0].score).toBeCloseTo(1 / 61);
+      expect(results[2].score).toBeCloseTo(1 / 62);
+    });
+  });
 });
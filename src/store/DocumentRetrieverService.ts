@@ -1,101 +1,432 @@
-import type { DocumentStore } from "./DocumentStore";
-import type { StoreSearchResult } from "./types";
+import type { Document } from "@langchain/core/documents";
+import { DEFAULT_RRF_K } from "./ranking";
+import type {
+  DocumentStorage,
+  QueryExpander,
+  RankingExplanation,
+  Reranker,
+  SearchOptions,
+  SearchTarget,
+  StoreSearchResult,
+} from "./types";
 
 const CHILD_LIMIT = 5;
 const SIBLING_LIMIT = 2;
 
+/** Rough number of characters per token, used to turn a token budget into characters */
+const CHARS_PER_TOKEN = 4;
+
+/** A hit is only truncated to fit the budget if at least this many characters remain */
+const MIN_TRUNCATED_CHARS = 200;
+
+/** Marks omitted content between two separate ranges of a page in a merged excerpt */
+export const RANGE_SEPARATOR = "\n\n[...]\n\n";
+
+/** Marks the end of a chunk that was cut off to fit the budget */
+export const TRUNCATION_MARKER = " [... truncated]";
+
+/**
+ * A page found by a search: its hits in score order, each with its context chunks in
+ * order of priority.
+ */
+interface PageMatch {
+  library: string;
+  version: string;
+  url: string;
+  score: number | null;
+  /** Hit with the highest score, whose ranking is explained */
+  best: Document;
+  hits: Array<{ hit: Document; context: Document[] }>;
+}
+
+/** Optional stages around the store search */
+export interface DocumentRetrieverOptions {
+  /** Reorders the hits of every search, unless disabled per search */
+  reranker?: Reranker;
+  /** Generates query variants for searches run with `expand` */
+  expander?: QueryExpander;
+}
+
 export class DocumentRetrieverService {
-  private documentStore: DocumentStore;
+  private documentStore: DocumentStorage;
+  private reranker?: Reranker;
+  private expander?: QueryExpander;
 
-  constructor(documentStore: DocumentStore) {
+  constructor(documentStore: DocumentStorage, options: DocumentRetrieverOptions = {}) {
     this.documentStore = documentStore;
+    this.reranker = options.reranker;
+    this.expander = options.expander;
   }
 
   /**
-   * Searches for documents and expands the context around the matches.
+   * Searches for documents and expands the context around the matches. Hits on the same
+   * page are merged: their context windows (parent, siblings and children) are combined
+   * into one excerpt per URL, ordered by position in the page, and the page keeps the
+   * score of its best hit. Separate ranges of the page are joined by `RANGE_SEPARATOR`.
+   * With a `maxTokens` or `maxChars` budget, the excerpts are filled greedily by score
+   * (see `selectWithinBudget`). If a reranker is configured, it reorders the hits before
+   * they are grouped, unless the search is run with `rerank: false`. With `expand`, the
+   * query variants of the expander are searched as well (see `findHits`).
    * @param library The library name.
-   * @param version The library version.
-   * @param query The search query.
    * @param version The library version (optional, defaults to searching documents without a version).
    * @param query The search query.
    * @param limit The optional limit for the initial search results.
-   * @returns An array of strings representing the aggregated content of the retrieved chunks.
+   * @param options Optional filters, ranking overrides, budget and whether to explain the ranking.
+   * @returns One result per matching page, ordered by score.
    */
   async search(
     library: string,
     version: string | null | undefined,
     query: string,
     limit?: number,
+    options: SearchOptions = {},
   ): Promise<StoreSearchResult[]> {
+    const pages = await this.findPages(library, version, query, limit ?? 10, options);
+    return this.assembleResults(pages, options);
+  }
+
+  /**
+   * Searches several library versions with the same query and fuses their results with
+   * Reciprocal Rank Fusion. Scores of different libraries are not comparable, so each
+   * result is scored by its rank within its own library (1 / (k + rank)); ties between
+   * libraries are broken by the original score. Results keep their library and version tag.
+   * With `explain`, the explanation describes the ranking within the result's library.
+   * A budget applies to the fused results as a whole.
+   * @param targets The library versions to search.
+   * @param query The search query.
+   * @param limit The maximum number of fused results.
+   * @param options Optional filters, ranking overrides, budget and whether to explain the ranking.
+   */
+  async searchMultiple(
+    targets: SearchTarget[],
+    query: string,
+    limit = 10,
+    options: SearchOptions = {},
+  ): Promise<StoreSearchResult[]> {
+    const perTarget = await Promise.all(
+      targets.map((target) =>
+        this.findPages(target.library, target.version, query, limit, options),
+      ),
+    );
+
+    const fused = perTarget
+      .flatMap((pages) =>
+        pages.map((page, index) => ({
+          page,
+          fusedScore: 1 / (DEFAULT_RRF_K + index + 1),
+        })),
+      )
+      .sort(
+        (a, b) =>
+          b.fusedScore - a.fusedScore || (b.page.score ?? 0) - (a.page.score ?? 0),
+      )
+      .slice(0, limit)
+      .map(({ page, fusedScore }) => ({ ...page, score: fusedScore }));
+    return this.assembleResults(fused, options);
+  }
+
+  /**
+   * Finds the hits, re-ranks them if enabled and groups them with their context windows
+   * by page. Pages are ordered by their best hit.
+   */
+  private async findPages(
+    library: string,
+    version: string | null | undefined,
+    query: string,
+    limit: number,
+    options: SearchOptions,
+  ): Promise<PageMatch[]> {
     // Normalize version: null/undefined becomes empty string, then lowercase
     const normalizedVersion = (version ?? "").toLowerCase();
 
-    const initialResults = await this.documentStore.findByContent(
+    const initialResults = await this.findHits(
       library,
       normalizedVersion,
       query,
-      limit ?? 10,
+      limit,
+      options,
     );
+    const hits =
+      this.reranker && options.rerank !== false
+        ? await this.reranker.rerank(query, initialResults)
+        : initialResults;
+    const isReranked = hits.some((doc) => typeof doc.metadata.rerank_score === "number");
 
-    const results: StoreSearchResult[] = [];
+    // Hits arrive best first, so each page's first hit is its best one and Map
+    // insertion order keeps the pages ordered by it
+    const pages = new Map<string, PageMatch>();
+    for (const doc of hits) {
+      const url = doc.metadata.url as string;
+      const page: PageMatch = pages.get(url) ?? {
+        library: library.toLowerCase(),
+        version: normalizedVersion,
+        url,
+        score: this.getRankingScore(doc, isReranked),
+        best: doc,
+        hits: [],
+      };
+      pages.set(url, page);
+      const context = await this.getContextWindow(library, normalizedVersion, doc);
+      page.hits.push({ hit: doc, context });
+    }
+    return Array.from(pages.values());
+  }
 
-    for (const doc of initialResults) {
-      const id = doc.id as string;
-      let content = "";
+  /**
+   * Returns the score a hit was ordered by: the re-ranking score if the hits were
+   * re-ranked, else the fused score of the query variants or the store's hybrid score.
+   * Hits beyond the re-ranked candidates are not comparable to those and score null.
+   */
+  private getRankingScore(doc: Document, isReranked: boolean): number | null {
+    const { rerank_score, expansion_score, score } = doc.metadata;
+    if (isReranked) {
+      return typeof rerank_score === "number" ? rerank_score : null;
+    }
+    return expansion_score ?? score;
+  }
 
-      // Parent
-      const parent = await this.documentStore.findParentChunk(
-        library,
-        normalizedVersion,
-        id,
-      );
-      if (parent) {
-        content += `${parent.pageContent}\n\n`;
+  /**
+   * Searches the store for the query. With `expand`, the variants generated by the
+   * expander are searched too, and the result lists are fused with Reciprocal Rank
+   * Fusion: a chunk found by several variants ranks higher. Each hit keeps the metadata
+   * of the first search that found it, the original query's coming first, and gets
+   * its fused score as `expansion_score`.
+   */
+  private async findHits(
+    library: string,
+    version: string,
+    query: string,
+    limit: number,
+    options: SearchOptions,
+  ): Promise<Document[]> {
+    const variants =
+      options.expand && this.expander ? await this.expander.expand(query) : [];
+    const resultLists = await Promise.all(
+      [query, ...variants].map((variant) =>
+        this.documentStore.findByContent(
+          library,
+          version,
+          variant,
+          limit,
+          options.filters,
+          options.ranking,
+        ),
+      ),
+    );
+    if (resultLists.length === 1) {
+      return resultLists[0];
+    }
+
+    const fused = new Map<string, { doc: Document; score: number }>();
+    for (const results of resultLists) {
+      for (const [index, doc] of results.entries()) {
+        const entry = fused.get(doc.id as string) ?? { doc, score: 0 };
+        entry.score += 1 / (DEFAULT_RRF_K + index + 1);
+        fused.set(doc.id as string, entry);
       }
+    }
+    return Array.from(fused.values())
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(({ doc, score }) => ({
+        ...doc,
+        metadata: { ...doc.metadata, expansion_score: score },
+      }));
+  }
+
+  /**
+   * Collects the context of a hit in order of priority: its parent, its first children,
+   * then its closest preceding and subsequent siblings, nearest first.
+   */
+  private async getContextWindow(
+    library: string,
+    version: string,
+    doc: Document,
+  ): Promise<Document[]> {
+    const id = doc.id as string;
+    const [parent, precedingSiblings, childChunks, subsequentSiblings] =
+      await Promise.all([
+        this.documentStore.findParentChunk(library, version, id),
+        this.documentStore.findPrecedingSiblingChunks(
+          library,
+          version,
+          id,
+          SIBLING_LIMIT,
+        ),
+        this.documentStore.findChildChunks(library, version, id, CHILD_LIMIT),
+        this.documentStore.findSubsequentSiblingChunks(
+          library,
+          version,
+          id,
+          SIBLING_LIMIT,
+        ),
+      ]);
 
-      // Preceding Siblings
-      const precedingSiblings = await this.documentStore.findPrecedingSiblingChunks(
-        library,
-        normalizedVersion,
-        id,
-        SIBLING_LIMIT,
+    // Preceding siblings are returned in page order, so the nearest one is last
+    const nearestPreceding = [...precedingSiblings].reverse();
+    const siblings: Document[] = [];
+    for (
+      let i = 0;
+      i < Math.max(nearestPreceding.length, subsequentSiblings.length);
+      i++
+    ) {
+      siblings.push(
+        ...(nearestPreceding[i] ? [nearestPreceding[i]] : []),
+        ...(subsequentSiblings[i] ? [subsequentSiblings[i]] : []),
       );
-      if (precedingSiblings.length > 0) {
-        content += `${precedingSiblings.map((d) => d.pageContent).join("\n\n")}\n\n`;
+    }
+    return [...(parent ? [parent] : []), ...childChunks, ...siblings];
+  }
+
+  /**
+   * Turns the pages into search results, limiting their content to the budget if one
+   * is set. Pages left without content are dropped.
+   */
+  private assembleResults(
+    pages: PageMatch[],
+    options: SearchOptions,
+  ): StoreSearchResult[] {
+    const budget = this.getCharBudget(options);
+    const selections =
+      budget === undefined
+        ? pages.map((page) => ({
+            chunks: page.hits.flatMap(({ hit, context }) => [hit, ...context]),
+            truncated: false,
+          }))
+        : this.selectWithinBudget(pages, budget);
+
+    return pages.flatMap((page, index) => {
+      const { chunks, truncated } = selections[index];
+      if (chunks.length === 0) {
+        return [];
       }
+      return [
+        {
+          library: page.library,
+          version: page.version,
+          url: page.url,
+          content: this.mergeChunks(chunks),
+          score: page.score,
+          ...(truncated && { truncated }),
+          ...(options.explain && { explain: this.explainRanking(page.best.metadata) }),
+        },
+      ];
+    });
+  }
 
-      // Initial Result
-      content += `${doc.pageContent}`;
+  /**
+   * Determines the content budget in characters, or undefined if the search is
+   * unlimited. Tokens are estimated at `CHARS_PER_TOKEN` characters each; if both
+   * budgets are given, the smaller one applies.
+   */
+  private getCharBudget({ maxChars, maxTokens }: SearchOptions): number | undefined {
+    const tokenBudget = maxTokens === undefined ? undefined : maxTokens * CHARS_PER_TOKEN;
+    const budgets = [maxChars, tokenBudget].filter(
+      (budget): budget is number => budget !== undefined,
+    );
+    return budgets.length > 0 ? Math.min(...budgets) : undefined;
+  }
 
-      // Child Chunks
-      const childChunks = await this.documentStore.findChildChunks(
-        library,
-        normalizedVersion,
-        id,
-        CHILD_LIMIT,
-      );
-      if (childChunks.length > 0) {
-        content += `\n\n${childChunks.map((d) => d.pageContent).join("\n\n")}`;
+  /**
+   * Chooses the chunks of each page within a character budget. The hits themselves
+   * come first, in score order; the first hit that no longer fits is cut off and marked
+   * with `TRUNCATION_MARKER`. The remaining budget then expands the context of the hits
+   * in score order and priority order, so lower-ranked hits get less context as the
+   * budget runs out. Every chunk is counted with the length of a range separator.
+   */
+  private selectWithinBudget(
+    pages: PageMatch[],
+    budget: number,
+  ): Array<{ chunks: Document[]; truncated: boolean }> {
+    let remaining = budget;
+    const selections = pages.map(() => ({
+      chunks: new Map<string, Document>(),
+      truncated: false,
+    }));
+    const take = (pageIndex: number, chunk: Document): boolean => {
+      const { chunks } = selections[pageIndex];
+      const cost = chunk.pageContent.length + RANGE_SEPARATOR.length;
+      if (chunks.has(chunk.id as string)) {
+        return true;
       }
+      if (cost > remaining) {
+        return false;
+      }
+      chunks.set(chunk.id as string, chunk);
+      remaining -= cost;
+      return true;
+    };
 
-      // Subsequent Siblings
-      const subsequentSiblings = await this.documentStore.findSubsequentSiblingChunks(
-        library,
-        normalizedVersion,
-        id,
-        SIBLING_LIMIT,
-      );
-      if (subsequentSiblings.length > 0) {
-        content += `\n\n${subsequentSiblings.map((d) => d.pageContent).join("\n\n")}`;
+    hits: for (const [pageIndex, page] of pages.entries()) {
+      for (const { hit } of page.hits) {
+        if (!take(pageIndex, hit)) {
+          const available = remaining - RANGE_SEPARATOR.length - TRUNCATION_MARKER.length;
+          if (available >= MIN_TRUNCATED_CHARS) {
+            selections[pageIndex].chunks.set(hit.id as string, {
+              ...hit,
+              pageContent: `${hit.pageContent.slice(0, available)}${TRUNCATION_MARKER}`,
+            });
+            selections[pageIndex].truncated = true;
+          }
+          remaining = 0;
+          break hits;
+        }
       }
+    }
 
-      results.push({
-        url: doc.metadata.url,
-        content,
-        score: doc.metadata.score,
-      });
+    for (const [pageIndex, page] of pages.entries()) {
+      for (const { context } of page.hits) {
+        for (const chunk of context) {
+          if (selections[pageIndex].chunks.size > 0 && !take(pageIndex, chunk)) {
+            selections[pageIndex].truncated = true;
+          }
+        }
+      }
     }
 
-    return results;
+    return selections.map(({ chunks, truncated }) => ({
+      chunks: Array.from(chunks.values()),
+      truncated,
+    }));
+  }
+
+  /**
+   * Joins the chunks of one page in page order, each chunk once. Chunks whose positions
+   * are adjacent form a continuous range; ranges are separated by `RANGE_SEPARATOR`.
+   */
+  private mergeChunks(chunks: Document[]): string {
+    const position = (chunk: Document) => chunk.metadata.sort_order as number;
+    const unique = new Map(chunks.map((chunk) => [chunk.id as string, chunk]));
+    const sorted = Array.from(unique.values()).sort((a, b) => position(a) - position(b));
+
+    return sorted
+      .map((chunk, index) => {
+        if (index === 0) {
+          return chunk.pageContent;
+        }
+        const isContinuous = position(chunk) === position(sorted[index - 1]) + 1;
+        return `${isContinuous ? "\n\n" : RANGE_SEPARATOR}${chunk.pageContent}`;
+      })
+      .join("");
+  }
+
+  /**
+   * Collects the per-leg scores and ranks the store attached to a result's metadata.
+   */
+  private explainRanking(metadata: Record<string, unknown>): RankingExplanation {
+    const numberOrNull = (value: unknown) => (typeof value === "number" ? value : null);
+    return {
+      vectorDistance: numberOrNull(metadata.vec_score),
+      vectorRank: numberOrNull(metadata.vec_rank),
+      textScore: numberOrNull(metadata.fts_score),
+      textRank: numberOrNull(metadata.fts_rank),
+      fusedScore: numberOrNull(metadata.score) ?? 0,
+      ...(typeof metadata.expansion_score === "number" && {
+        expansionScore: metadata.expansion_score,
+      }),
+      ...(typeof metadata.rerank_score === "number" && {
+        rerankScore: metadata.rerank_score,
+      }),
+    };
   }
 }
@@ -1,4 +1,14 @@
-import { type Mock, afterAll, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  type Mock,
+  afterAll,
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import { BundleError, EmbeddingModelMismatchError, StoreError } from "./errors";
 import { VECTOR_DIMENSION } from "./schema";
 
 // --- Mocking Setup ---
@@ -10,11 +20,15 @@ vi.mock("./embeddings/EmbeddingFactory");
 const mockEmbedQuery = vi.fn().mockResolvedValue([0.1, 0.2, 0.3]);
 const mockEmbedDocuments = vi.fn().mockResolvedValue([[0.1, 0.2, 0.3]]);
 
-import { createEmbeddingModel } from "./embeddings/EmbeddingFactory";
+import { createEmbeddingModel, parseEmbeddingModel } from "./embeddings/EmbeddingFactory";
 (createEmbeddingModel as Mock).mockReturnValue({
   embedQuery: vi.fn(),
   embedDocuments: vi.fn(),
 });
+(parseEmbeddingModel as Mock).mockImplementation((spec: string) => {
+  const [provider, model] = spec.split(":");
+  return { provider, model };
+});
 
 // Mock better-sqlite3
 const mockStatementAll = vi.fn().mockReturnValue([]);
@@ -44,6 +58,9 @@ vi.mock("sqlite-vec", () => ({
   load: vi.fn(),
 }));
 
+// Schema migrations are covered by migrations.test.ts against a real database
+vi.mock("./migrations");
+
 // --- Test Suite ---
 
 // Import DocumentStore AFTER mocks are defined
@@ -65,6 +82,9 @@ describe("DocumentStore", () => {
     // Reset embedQuery to handle initialization vector
     mockEmbedQuery.mockResolvedValue(new Array(VECTOR_DIMENSION).fill(0.1));
 
+    // Configure an embedding model so the store runs in hybrid mode
+    vi.stubEnv("DOCS_MCP_EMBEDDING_MODEL", "openai:text-embedding-3-small");
+
     // Now create the store and initialize.
     // initialize() will call 'new OpenAIEmbeddings()', which uses our fresh mock implementation.
     documentStore = new DocumentStore(":memory:");
@@ -73,6 +93,7 @@ describe("DocumentStore", () => {
 
   afterAll(() => {
     vi.restoreAllMocks();
+    vi.unstubAllEnvs();
   });
 
   describe("findByContent", () => {
@@ -106,6 +127,10 @@ describe("DocumentStore", () => {
         version.toLowerCase(),
         expect.any(String), // Embedding JSON
         limit,
+        10, // Default BM25 column weights: content, title, url, path
+        1,
+        5,
+        1,
         library.toLowerCase(),
         version.toLowerCase(),
         expectedFtsQuery, // Check the escaped query string
@@ -119,7 +144,7 @@ describe("DocumentStore", () => {
       await documentStore.findByContent(library, version, query, limit);
       expect(mockStatementAll).toHaveBeenCalledTimes(1);
       const lastCallArgs = mockStatementAll.mock.lastCall;
-      expect(lastCallArgs?.[6]).toBe(expectedFtsQuery); // Check only the FTS query argument
+      expect(lastCallArgs?.[10]).toBe(expectedFtsQuery); // Check only the FTS query argument
     });
 
     it("should correctly escape parentheses", async () => {
@@ -128,7 +153,7 @@ describe("DocumentStore", () => {
       await documentStore.findByContent(library, version, query, limit);
       expect(mockStatementAll).toHaveBeenCalledTimes(1);
       const lastCallArgs = mockStatementAll.mock.lastCall;
-      expect(lastCallArgs?.[6]).toBe(expectedFtsQuery);
+      expect(lastCallArgs?.[10]).toBe(expectedFtsQuery);
     });
 
     it("should correctly escape asterisks", async () => {
@@ -137,7 +162,7 @@ describe("DocumentStore", () => {
       await documentStore.findByContent(library, version, query, limit);
       expect(mockStatementAll).toHaveBeenCalledTimes(1);
       const lastCallArgs = mockStatementAll.mock.lastCall;
-      expect(lastCallArgs?.[6]).toBe(expectedFtsQuery);
+      expect(lastCallArgs?.[10]).toBe(expectedFtsQuery);
     });
 
     it("should correctly escape already quoted strings", async () => {
@@ -146,7 +171,7 @@ describe("DocumentStore", () => {
       await documentStore.findByContent(library, version, query, limit);
       expect(mockStatementAll).toHaveBeenCalledTimes(1);
       const lastCallArgs = mockStatementAll.mock.lastCall;
-      expect(lastCallArgs?.[6]).toBe(expectedFtsQuery);
+      expect(lastCallArgs?.[10]).toBe(expectedFtsQuery);
     });
 
     it("should correctly handle empty string", async () => {
@@ -155,7 +180,41 @@ describe("DocumentStore", () => {
       await documentStore.findByContent(library, version, query, limit);
       expect(mockStatementAll).toHaveBeenCalledTimes(1);
       const lastCallArgs = mockStatementAll.mock.lastCall;
-      expect(lastCallArgs?.[6]).toBe(expectedFtsQuery);
+      expect(lastCallArgs?.[10]).toBe(expectedFtsQuery);
+    });
+
+    it("should apply filters to both the vector and the full-text leg", async () => {
+      await documentStore.findByContent(library, version, "query", limit, {
+        urlPrefix: "https://x.dev/api/",
+        contentType: "code",
+        minLevel: 2,
+      });
+
+      const sql = mockPrepare.mock.calls.find((call) =>
+        call[0].includes("WITH vec_scores AS"),
+      )?.[0] as string;
+      expect(sql).toContain("AND rowid IN (SELECT d.id FROM documents d");
+      expect(sql.match(/substr\(d\.url, 1, \?\) = \?/g)).toHaveLength(2);
+      expect(sql.match(/json_each\(d\.metadata, '\$\.types'\)/g)).toHaveLength(2);
+      const filterParams = [18, "https://x.dev/api/", "code", 2];
+      expect(mockStatementAll.mock.lastCall).toEqual([
+        library,
+        version,
+        expect.any(String), // Embedding JSON
+        library,
+        version,
+        ...filterParams,
+        limit,
+        10,
+        1,
+        5,
+        1,
+        library,
+        version,
+        '"query"',
+        ...filterParams,
+        limit,
+      ]);
     });
   });
 
@@ -233,4 +292,630 @@ describe("DocumentStore", () => {
       expect(searchVector.length).toBe(VECTOR_DIMENSION);
     });
   });
+
+  describe("Full-text search mode", () => {
+    afterEach(() => {
+      vi.unstubAllEnvs();
+    });
+
+    const createFtsStore = async () => {
+      vi.clearAllMocks();
+      mockPrepare.mockReturnValue(mockStatement);
+      const store = new DocumentStore(":memory:");
+      await store.initialize();
+      return store;
+    };
+
+    it("should run in hybrid mode when an embedding model is configured", () => {
+      expect(documentStore.getSearchMode()).toBe("hybrid");
+    });
+
+    it("should disable embeddings when DOCS_MCP_EMBEDDING_MODEL is 'none'", async () => {
+      vi.stubEnv("DOCS_MCP_EMBEDDING_MODEL", "none");
+      const store = await createFtsStore();
+
+      expect(store.getSearchMode()).toBe("fts");
+      expect(createEmbeddingModel).not.toHaveBeenCalled();
+    });
+
+    it("should disable embeddings when no model or OpenAI endpoint is configured", async () => {
+      vi.stubEnv("DOCS_MCP_EMBEDDING_MODEL", "");
+      vi.stubEnv("OPENAI_API_KEY", "");
+      vi.stubEnv("OPENAI_API_BASE", "");
+      const store = await createFtsStore();
+
+      expect(store.getSearchMode()).toBe("fts");
+    });
+
+    it("should rank by BM25 only without calling the embedding model", async () => {
+      vi.stubEnv("DOCS_MCP_EMBEDDING_MODEL", "none");
+      const store = await createFtsStore();
+      mockStatementAll.mockReturnValueOnce([
+        {
+          id: "2",
+          content: "b",
+          metadata: '{"url":"u2"}',
+          vec_score: null,
+          fts_score: -1,
+        },
+        {
+          id: "1",
+          content: "a",
+          metadata: '{"url":"u1"}',
+          vec_score: null,
+          fts_score: -5,
+        },
+      ]);
+
+      const results = await store.findByContent("test-lib", "1.0.0", "query", 10);
+
+      expect(mockEmbedQuery).not.toHaveBeenCalled();
+      const prepareCall = mockPrepare.mock.calls.find((call) =>
+        call[0].includes("bm25("),
+      );
+      expect(prepareCall?.[0]).not.toContain("documents_vec");
+      expect(mockStatementAll.mock.lastCall).toEqual([
+        10, // Default BM25 column weights: content, title, url, path
+        1,
+        5,
+        1,
+        "test-lib",
+        "1.0.0",
+        '"query"',
+        10,
+      ]);
+      expect(results.map((r) => r.id)).toEqual(["1", "2"]);
+      expect(results[0].metadata.fts_rank).toBe(1);
+    });
+
+    it("should rank with the library's options overridden by the query's", async () => {
+      vi.stubEnv("DOCS_MCP_EMBEDDING_MODEL", "none");
+      const store = await createFtsStore();
+      mockStatement.get.mockReturnValueOnce({
+        options: JSON.stringify({ rrfK: 1, bm25Weights: { url: 0 } }),
+      });
+      mockStatementAll.mockReturnValueOnce([
+        {
+          id: "1",
+          content: "a",
+          metadata: '{"url":"u1"}',
+          vec_score: null,
+          fts_score: -5,
+        },
+      ]);
+
+      const results = await store.findByContent(
+        "test-lib",
+        "1.0.0",
+        "query",
+        10,
+        undefined,
+        {
+          textWeight: 2,
+          bm25Weights: { title: 3 },
+        },
+      );
+
+      expect(mockStatementAll.mock.lastCall?.slice(0, 4)).toEqual([10, 3, 0, 1]);
+      expect(results[0].metadata).toMatchObject({
+        score: 1, // 2 / (1 + 1)
+        fts_score: -5,
+        fts_rank: 1,
+        vec_score: null,
+      });
+    });
+
+    it("should store ranking options and remove them on reset", async () => {
+      await documentStore.setRankingOptions("Test-Lib", { rrfK: 20 });
+      expect(mockStatement.run).toHaveBeenLastCalledWith("test-lib", '{"rrfK":20}');
+
+      await documentStore.setRankingOptions("Test-Lib", null);
+      expect(mockStatement.run).toHaveBeenLastCalledWith("test-lib");
+    });
+
+    it("should store documents without vectors", async () => {
+      vi.stubEnv("DOCS_MCP_EMBEDDING_MODEL", "none");
+      const store = await createFtsStore();
+
+      await store.addDocuments("test-lib", "1.0.0", [
+        {
+          pageContent: "test content",
+          metadata: { title: "test", url: "http://test.com", path: ["test"] },
+        },
+      ]);
+
+      expect(mockEmbedDocuments).not.toHaveBeenCalled();
+      // Only the documents insert runs, not the vector insert
+      expect(mockStatement.run).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("Embedding model tracking", () => {
+    const doc = {
+      pageContent: "test content",
+      metadata: { title: "test", url: "http://test.com", path: ["test"] },
+    };
+
+    afterEach(() => {
+      vi.unstubAllEnvs();
+    });
+
+    it("should expose the normalized model identity", () => {
+      expect(documentStore.getEmbeddingModelInfo()).toEqual({
+        model: "openai:text-embedding-3-small",
+        dimension: VECTOR_DIMENSION,
+      });
+    });
+
+    it("should record the model when adding documents", async () => {
+      mockEmbedDocuments.mockResolvedValueOnce([new Array(VECTOR_DIMENSION).fill(0.1)]);
+
+      await documentStore.addDocuments("Test-Lib", "1.0.0", [doc]);
+
+      expect(mockStatement.run).toHaveBeenCalledWith(
+        "test-lib",
+        "1.0.0",
+        "openai:text-embedding-3-small",
+        VECTOR_DIMENSION,
+      );
+    });
+
+    it("should reject adding documents to a version embedded with another model", async () => {
+      mockStatement.get.mockReturnValueOnce({
+        model: "local:hash",
+        dimension: VECTOR_DIMENSION,
+      });
+
+      await expect(
+        documentStore.addDocuments("test-lib", "1.0.0", [doc]),
+      ).rejects.toThrow(EmbeddingModelMismatchError);
+      expect(mockEmbedDocuments).not.toHaveBeenCalled();
+      expect(mockStatement.run).not.toHaveBeenCalled();
+    });
+
+    it("should fall back to full-text search when the stored model differs", async () => {
+      mockStatement.get.mockReturnValueOnce({
+        model: "local:hash",
+        dimension: VECTOR_DIMENSION,
+      });
+      mockEmbedQuery.mockClear();
+
+      await documentStore.findByContent("test-lib", "1.0.0", "query", 5);
+
+      expect(mockEmbedQuery).not.toHaveBeenCalled();
+      const searchSql = mockPrepare.mock.lastCall?.[0] as string;
+      expect(searchSql).toContain("bm25(");
+      expect(searchSql).not.toContain("documents_vec");
+    });
+
+    it("should re-embed stored documents and update the model record", async () => {
+      mockStatementAll.mockReturnValueOnce([
+        { id: 7, content: "first", metadata: JSON.stringify(doc.metadata) },
+        { id: 9, content: "second", metadata: JSON.stringify(doc.metadata) },
+      ]);
+      mockEmbedDocuments.mockResolvedValueOnce([
+        [0.1, 0.2],
+        [0.3, 0.4],
+      ]);
+
+      const count = await documentStore.reembedDocuments("test-lib", "1.0.0");
+
+      expect(count).toBe(2);
+      const texts = mockEmbedDocuments.mock.lastCall?.[0] as string[];
+      expect(texts[0]).toContain("<url>http://test.com</url>");
+      expect(texts[1]).toMatch(/second$/);
+      // Each vector row is replaced: delete by rowid, then insert the padded vector
+      const runCalls = mockStatement.run.mock.calls;
+      expect(runCalls[0]).toEqual([BigInt(7)]);
+      expect(runCalls[1][0]).toBe(BigInt(7));
+      expect(JSON.parse(runCalls[1][3]).length).toBe(VECTOR_DIMENSION);
+      expect(runCalls[2]).toEqual([BigInt(9)]);
+      expect(runCalls.at(-1)).toEqual([
+        "test-lib",
+        "1.0.0",
+        "openai:text-embedding-3-small",
+        VECTOR_DIMENSION,
+      ]);
+    });
+
+    it("should refuse to re-embed without an embedding model", async () => {
+      vi.stubEnv("DOCS_MCP_EMBEDDING_MODEL", "none");
+      const store = new DocumentStore(":memory:");
+      await store.initialize();
+
+      await expect(store.reembedDocuments("test-lib", "1.0.0")).rejects.toThrow(
+        StoreError,
+      );
+    });
+  });
+
+  describe("Staging", () => {
+    const stagingLibrary = "__staging__/job-1";
+
+    it("should derive a reserved staging library from the job ID", () => {
+      expect(documentStore.getStagingLibrary("Job-1")).toBe(stagingLibrary);
+    });
+
+    it("should refuse to swap or delete libraries outside the staging area", async () => {
+      await expect(
+        documentStore.swapStagedDocuments("react", "vue", "1.0.0"),
+      ).rejects.toThrow(StoreError);
+      await expect(documentStore.deleteStagedDocuments("react", "1.0.0")).rejects.toThrow(
+        StoreError,
+      );
+      expect(mockStatement.run).not.toHaveBeenCalled();
+    });
+
+    it("should keep the live version when nothing was staged", async () => {
+      mockStatement.get.mockReturnValueOnce({ count: 0 });
+
+      const count = await documentStore.swapStagedDocuments(
+        stagingLibrary,
+        "React",
+        "18.0.0",
+      );
+
+      expect(count).toBe(0);
+      expect(mockStatement.run).not.toHaveBeenCalled();
+    });
+
+    it("should replace the live version with the staged documents", async () => {
+      mockStatement.get.mockReturnValueOnce({ count: 3 });
+
+      const count = await documentStore.swapStagedDocuments(
+        stagingLibrary,
+        "React",
+        "18.0.0",
+      );
+
+      expect(count).toBe(3);
+      expect(mockDb.transaction).toHaveBeenCalledTimes(1);
+      // Live rows are deleted first, then the staged rows are renamed
+      const runCalls = mockStatement.run.mock.calls;
+      expect(runCalls.slice(0, 4)).toEqual(new Array(4).fill(["react", "18.0.0"]));
+      expect(runCalls.slice(4)).toEqual(
+        new Array(4).fill(["react", stagingLibrary, "18.0.0"]),
+      );
+    });
+
+    it("should hide staged libraries from library listings", async () => {
+      const listSql = mockPrepare.mock.calls
+        .map((call) => call[0] as string)
+        .find((sql) => sql.includes("SELECT DISTINCT library, version"));
+      expect(listSql).toContain("NOT GLOB '__staging__/*'");
+    });
+  });
+
+  describe("Incremental pages", () => {
+    const page = {
+      url: "http://test.com",
+      contentHash: "abc",
+      etag: '"v2"',
+      links: [],
+    };
+    const doc = {
+      pageContent: "new content",
+      metadata: { title: "test", url: "http://test.com", path: ["test"] },
+    };
+
+    it("should keep the old chunks of a page if embedding its replacement fails", async () => {
+      mockEmbedDocuments.mockRejectedValueOnce(new Error("Rate limited"));
+
+      await expect(
+        documentStore.replacePage("test-lib", "1.0.0", [doc], page),
+      ).rejects.toThrow("Failed to replace page http://test.com");
+
+      expect(mockDb.transaction).not.toHaveBeenCalled();
+      expect(mockStatement.run).not.toHaveBeenCalled();
+    });
+
+    it("should replace the chunks and state of a page in one transaction", async () => {
+      mockEmbedDocuments.mockResolvedValueOnce([new Array(VECTOR_DIMENSION).fill(0.1)]);
+      mockStatementAll.mockReturnValueOnce([{ id: 4 }]);
+      mockStatement.run.mockReturnValueOnce({ changes: 1, lastInsertRowid: 0 });
+      mockStatement.run.mockReturnValueOnce({ changes: 2, lastInsertRowid: 0 });
+
+      const replaced = await documentStore.replacePage("Test-Lib", "1.0.0", [doc], page);
+
+      expect(replaced).toBe(2);
+      expect(mockDb.transaction).toHaveBeenCalledTimes(1);
+      const runCalls = mockStatement.run.mock.calls;
+      expect(runCalls[0]).toEqual([BigInt(4)]);
+      expect(runCalls[1]).toEqual(["test-lib", "1.0.0", "http://test.com"]);
+      expect(runCalls[2]).toEqual([
+        "test-lib",
+        "1.0.0",
+        "http://test.com",
+        "new content",
+        JSON.stringify(doc.metadata),
+        0,
+      ]);
+      expect(runCalls.at(-1)).toEqual([
+        "test-lib",
+        "1.0.0",
+        "http://test.com",
+        "abc",
+        '"v2"',
+        null,
+        "[]",
+      ]);
+    });
+  });
+
+  describe("Statistics", () => {
+    it("should report per-version statistics without staged libraries", async () => {
+      mockStatement.all.mockReturnValueOnce([
+        {
+          library: "react",
+          version: "18.0.0",
+          pages: 2,
+          chunks: 3,
+          content_size: 1000,
+          missing_embeddings: 1,
+          indexed_at: "2025-01-02 03:04:05",
+        },
+      ]);
+      mockStatement.get.mockReturnValueOnce({ size: 8192 });
+
+      const stats = await documentStore.getStatistics();
+
+      expect(stats).toEqual({
+        versions: [
+          {
+            library: "react",
+            version: "18.0.0",
+            pages: 2,
+            chunks: 3,
+            contentSize: 1000,
+            averageChunkSize: 333,
+            missingEmbeddings: 1,
+            indexedAt: "2025-01-02T03:04:05.000Z",
+          },
+        ],
+        databaseSize: 8192,
+      });
+      const statsSql = mockPrepare.mock.calls
+        .map((call) => call[0] as string)
+        .find((sql) => sql.includes("missing_embeddings"));
+      expect(statsSql).toContain("NOT GLOB '__staging__/*'");
+    });
+  });
+
+  describe("Version registry", () => {
+    it("should save the provenance of a version and count its pages and chunks", async () => {
+      await documentStore.saveVersionRecord("React", "18.0.0", {
+        sourceUrl: "https://react.dev",
+        scraperOptions: { url: "https://react.dev", library: "react", version: "18.0.0" },
+        jobId: "job-1",
+        description: null,
+        startedAt: "2025-01-02T03:00:00.000Z",
+        finishedAt: "2025-01-02T03:04:05.000Z",
+      });
+
+      expect(mockStatement.run).toHaveBeenCalledWith(
+        "react",
+        "18.0.0",
+        "https://react.dev",
+        '{"url":"https://react.dev","library":"react","version":"18.0.0"}',
+        "job-1",
+        null,
+        "2025-01-02T03:00:00.000Z",
+        "2025-01-02T03:04:05.000Z",
+        "react",
+        "18.0.0",
+        "react",
+        "18.0.0",
+      );
+      const upsertSql = mockPrepare.mock.calls
+        .map((call) => call[0] as string)
+        .find((sql) => sql.includes("INSERT INTO library_versions"));
+      expect(upsertSql).toContain(
+        "description = COALESCE(excluded.description, library_versions.description)",
+      );
+    });
+
+    it("should map the registry entries of a library", async () => {
+      mockStatement.all.mockReturnValueOnce([
+        {
+          library: "react",
+          version: "18.0.0",
+          source_url: "https://react.dev",
+          scraper_options: '{"url":"https://react.dev","maxDepth":2}',
+          job_id: "job-1",
+          description: "API reference",
+          started_at: null,
+          finished_at: "2025-01-02T03:04:05.000Z",
+          page_count: 2,
+          chunk_count: 3,
+        },
+      ]);
+
+      expect(await documentStore.queryVersionRecords("React")).toEqual([
+        {
+          library: "react",
+          version: "18.0.0",
+          sourceUrl: "https://react.dev",
+          scraperOptions: { url: "https://react.dev", maxDepth: 2 },
+          jobId: "job-1",
+          description: "API reference",
+          startedAt: null,
+          finishedAt: "2025-01-02T03:04:05.000Z",
+          pages: 2,
+          chunks: 3,
+        },
+      ]);
+      expect(mockStatement.all).toHaveBeenCalledWith("react");
+    });
+  });
+
+  describe("queryDocuments", () => {
+    it("should list the chunks of a version ordered by page and position", async () => {
+      mockStatement.all.mockReturnValueOnce([
+        {
+          id: "1",
+          library: "react",
+          version: "18.0.0",
+          url: "https://react.dev/learn",
+          content: "Hooks",
+          metadata: '{"url":"https://react.dev/learn","path":["Learn","Hooks"]}',
+          sort_order: 0,
+        },
+      ]);
+
+      expect(await documentStore.queryDocuments("React", "18.0.0")).toEqual([
+        {
+          id: "1",
+          pageContent: "Hooks",
+          metadata: {
+            url: "https://react.dev/learn",
+            path: ["Learn", "Hooks"],
+            sort_order: 0,
+          },
+        },
+      ]);
+      expect(mockStatement.all).toHaveBeenCalledWith("react", "18.0.0");
+      expect(
+        mockPrepare.mock.calls.some((call) =>
+          (call[0] as string).includes("ORDER BY url, sort_order, id"),
+        ),
+      ).toBe(true);
+    });
+  });
+
+  describe("Maintenance", () => {
+    it("should delete the vectors and aliases of a version together with its documents", async () => {
+      await documentStore.deleteDocuments("React", "18.0.0");
+
+      expect(mockDb.transaction).toHaveBeenCalledTimes(1);
+      expect(mockStatement.run.mock.calls).toEqual(
+        new Array(6).fill(["react", "18.0.0"]),
+      );
+      expect(mockPrepare.mock.calls.map((call) => call[0])).toEqual(
+        expect.arrayContaining([
+          "DELETE FROM documents_vec WHERE library = ? AND version = ?",
+          "DELETE FROM version_aliases WHERE library = ? AND version = ?",
+        ]),
+      );
+    });
+
+    it("should report orphaned vectors, index drift and duplicate chunks", async () => {
+      mockStatement.all
+        .mockReturnValueOnce([{ id: 7 }])
+        .mockReturnValueOnce([{ id: 9 }, { id: 10 }]);
+      mockStatement.get
+        .mockReturnValueOnce({ count: 1 })
+        .mockReturnValueOnce({ count: 2 });
+
+      expect(await documentStore.checkConsistency()).toEqual({
+        orphanedVectors: 1,
+        ftsDrift: 3,
+        duplicateChunks: 2,
+      });
+    });
+
+    it("should repair inconsistencies and compact the database", async () => {
+      mockStatement.all.mockReturnValueOnce([{ id: 7 }]).mockReturnValueOnce([{ id: 9 }]);
+      mockStatement.get
+        .mockReturnValueOnce({ size: 8192 })
+        .mockReturnValueOnce({ count: 0 })
+        .mockReturnValueOnce({ count: 0 })
+        .mockReturnValueOnce({ size: 4096 });
+
+      const result = await documentStore.collectGarbage();
+
+      expect(result).toEqual({
+        repaired: { orphanedVectors: 1, ftsDrift: 0, duplicateChunks: 1 },
+        sizeBefore: 8192,
+        sizeAfter: 4096,
+      });
+      // Vectors of orphans and duplicates first, then the duplicate documents
+      expect(mockStatement.run.mock.calls).toEqual([[7n], [9n], [9]]);
+      const executed = mockDb.exec.mock.calls.map((call) => call[0] as string);
+      expect(executed.some((sql) => sql.includes("delete-all"))).toBe(false);
+      expect(executed).toContain("VACUUM");
+    });
+
+    it("should rebuild the full-text index when it drifted", async () => {
+      mockStatement.get
+        .mockReturnValueOnce({ size: 0 })
+        .mockReturnValueOnce({ count: 1 })
+        .mockReturnValueOnce({ count: 1 })
+        .mockReturnValueOnce({ size: 0 });
+
+      const result = await documentStore.collectGarbage();
+
+      expect(result.repaired.ftsDrift).toBe(2);
+      const executed = mockDb.exec.mock.calls.map((call) => call[0] as string);
+      expect(executed.some((sql) => sql.includes("delete-all"))).toBe(true);
+    });
+  });
+
+  describe("Bundles", () => {
+    const bundle = {
+      library: "React",
+      version: "18.0.0",
+      createdAt: "2025-01-01T00:00:00.000Z",
+      embeddingModel: { model: "openai:text-embedding-3-small", dimension: 3 },
+      documents: [
+        {
+          url: "http://test.com",
+          content: "test content",
+          metadata: {
+            url: "http://test.com",
+            title: "test",
+            library: "react",
+            version: "18.0.0",
+          },
+          sortOrder: 4,
+          embedding: [0.1, 0.2, 0.3],
+        },
+      ],
+      pages: [],
+    };
+
+    afterEach(() => {
+      vi.unstubAllEnvs();
+    });
+
+    it("should reject bundles embedded with a different model", async () => {
+      await expect(
+        documentStore.importDocuments({
+          ...bundle,
+          embeddingModel: { model: "local:hash", dimension: 3 },
+        }),
+      ).rejects.toThrow(BundleError);
+      expect(mockDb.transaction).not.toHaveBeenCalled();
+    });
+
+    it("should replace the version with the bundled documents and padded vectors", async () => {
+      const count = await documentStore.importDocuments(bundle);
+
+      expect(count).toBe(1);
+      expect(mockStatement.run).toHaveBeenCalledWith(
+        "react",
+        "18.0.0",
+        "http://test.com",
+        "test content",
+        JSON.stringify(bundle.documents[0].metadata),
+        4,
+      );
+      const vectorInsert = mockStatement.run.mock.calls.find(
+        (call) => typeof call[0] === "bigint",
+      );
+      expect(JSON.parse(vectorInsert?.[3]).length).toBe(VECTOR_DIMENSION);
+    });
+
+    it("should accept any bundle in full-text-only mode", async () => {
+      vi.stubEnv("DOCS_MCP_EMBEDDING_MODEL", "none");
+      const store = new DocumentStore(":memory:");
+      await store.initialize();
+
+      await expect(
+        store.importDocuments({
+          ...bundle,
+          embeddingModel: { model: "local:hash", dimension: 3 },
+        }),
+      ).resolves.toBe(1);
+    });
+  });
 });
@@ -3,20 +3,39 @@ import type { Embeddings } from "@langchain/core/embeddings";
 import Database, { type Database as DatabaseType } from "better-sqlite3";
 import * as sqliteVec from "sqlite-vec";
 import type { DocumentMetadata } from "../types";
-import { ConnectionError, DimensionError, StoreError } from "./errors";
-import { VECTOR_DIMENSION, createTablesSQL } from "./schema";
-import { type DbDocument, type DbQueryResult, mapDbDocumentToDocument } from "./types";
-
-interface RawSearchResult extends DbDocument {
-  vec_score?: number;
-  fts_score?: number;
-}
-
-interface RankedResult extends RawSearchResult {
-  vec_rank?: number;
-  fts_rank?: number;
-  rrf_score: number;
-}
+import {
+  BaseDocumentStore,
+  REEMBED_BATCH_SIZE,
+  type RawSearchResult,
+  STAGING_LIBRARY_PREFIX,
+} from "./BaseDocumentStore";
+import { ConnectionError, EmbeddingModelMismatchError, StoreError } from "./errors";
+import { applyMigrations } from "./migrations";
+import { BM25_COLUMNS } from "./ranking";
+import {
+  type Bundle,
+  type BundleDocument,
+  type ConsistencyReport,
+  type DbDocument,
+  type DbQueryResult,
+  type DbVersionRecord,
+  type DbVersionStats,
+  type DocumentStorage,
+  type EmbeddingModelInfo,
+  type GarbageCollectionResult,
+  type MigrationResult,
+  type PageState,
+  type RankingOptions,
+  type RankingSettings,
+  type SearchFilters,
+  type StoreStats,
+  type VersionAlias,
+  type VersionProvenance,
+  type VersionRecord,
+  mapDbDocumentToDocument,
+  mapDbVersionRecord,
+  mapDbVersionStats,
+} from "./types";
 
 /**
  * Manages document storage and retrieval using SQLite with vector and full-text search capabilities.
@@ -24,76 +43,59 @@ interface RankedResult extends RawSearchResult {
  * embeddings along with their metadata. Supports versioned storage of documents for different
  * libraries, enabling version-specific document retrieval and searches.
  */
-export class DocumentStore {
+export class DocumentStore extends BaseDocumentStore implements DocumentStorage {
   private readonly db: DatabaseType;
-  private embeddings!: Embeddings;
-  private readonly dbDimension: number = VECTOR_DIMENSION;
-  private modelDimension!: number;
+  private extensionsLoaded = false;
   private statements!: {
     getById: Database.Statement;
     insertDocument: Database.Statement;
     insertEmbedding: Database.Statement;
     deleteDocuments: Database.Statement;
+    deleteEmbedding: Database.Statement;
+    deleteEmbeddings: Database.Statement;
+    countDocuments: Database.Statement;
+    moveDocuments: Database.Statement;
+    moveEmbeddings: Database.Statement;
+    moveEmbeddingModel: Database.Statement;
+    movePages: Database.Statement;
+    getEmbeddingModel: Database.Statement;
+    upsertEmbeddingModel: Database.Statement;
+    deleteEmbeddingModel: Database.Statement;
+    queryDocumentsByVersion: Database.Statement;
+    queryDocumentsForExport: Database.Statement;
+    queryDocumentsByUrl: Database.Statement;
+    queryEmbeddings: Database.Statement;
+    queryDocumentIdsByUrl: Database.Statement;
+    deleteDocumentsByUrl: Database.Statement;
+    queryUrls: Database.Statement;
+    queryPages: Database.Statement;
+    upsertPage: Database.Statement;
+    deletePage: Database.Statement;
+    deletePages: Database.Statement;
+    getRankingOptions: Database.Statement;
+    upsertRankingOptions: Database.Statement;
+    deleteRankingOptions: Database.Statement;
+    queryVersionAliases: Database.Statement;
+    queryAllVersionAliases: Database.Statement;
+    upsertVersionAlias: Database.Statement;
+    deleteVersionAlias: Database.Statement;
+    deleteVersionAliasesOf: Database.Statement;
+    queryVersionRecords: Database.Statement;
+    queryAllVersionRecords: Database.Statement;
+    upsertVersionRecord: Database.Statement;
+    deleteVersionRecord: Database.Statement;
     queryVersions: Database.Statement;
     checkExists: Database.Statement;
     queryLibraryVersions: Database.Statement;
+    queryVersionStats: Database.Statement;
     getChildChunks: Database.Statement;
     getPrecedingSiblings: Database.Statement;
     getSubsequentSiblings: Database.Statement;
     getParentChunk: Database.Statement;
   };
 
-  /**
-   * Calculates Reciprocal Rank Fusion score for a result
-   */
-  private calculateRRF(vecRank?: number, ftsRank?: number, k = 60): number {
-    let rrf = 0;
-    if (vecRank !== undefined) {
-      rrf += 1 / (k + vecRank);
-    }
-    if (ftsRank !== undefined) {
-      rrf += 1 / (k + ftsRank);
-    }
-    return rrf;
-  }
-
-  /**
-   * Assigns ranks to search results based on their scores
-   */
-  private assignRanks(results: RawSearchResult[]): RankedResult[] {
-    // Create maps to store ranks
-    const vecRanks = new Map<number, number>();
-    const ftsRanks = new Map<number, number>();
-
-    // Sort by vector scores and assign ranks
-    results
-      .filter((r) => r.vec_score !== undefined)
-      .sort((a, b) => (a.vec_score ?? 0) - (b.vec_score ?? 0))
-      .forEach((result, index) => {
-        vecRanks.set(Number(result.id), index + 1);
-      });
-
-    // Sort by BM25 scores and assign ranks
-    results
-      .filter((r) => r.fts_score !== undefined)
-      .sort((a, b) => (a.fts_score ?? 0) - (b.fts_score ?? 0))
-      .forEach((result, index) => {
-        ftsRanks.set(Number(result.id), index + 1);
-      });
-
-    // Combine results with ranks and calculate RRF
-    return results.map((result) => ({
-      ...result,
-      vec_rank: vecRanks.get(Number(result.id)),
-      fts_rank: ftsRanks.get(Number(result.id)),
-      rrf_score: this.calculateRRF(
-        vecRanks.get(Number(result.id)),
-        ftsRanks.get(Number(result.id)),
-      ),
-    }));
-  }
-
   constructor(dbPath: string) {
+    super();
     if (!dbPath) {
       throw new StoreError("Missing required database path");
     }
@@ -117,6 +119,137 @@ export class DocumentStore {
       deleteDocuments: this.db.prepare(
         "DELETE FROM documents WHERE library = ? AND version = ?",
       ),
+      deleteEmbedding: this.db.prepare("DELETE FROM documents_vec WHERE rowid = ?"),
+      deleteEmbeddings: this.db.prepare(
+        "DELETE FROM documents_vec WHERE library = ? AND version = ?",
+      ),
+      countDocuments: this.db.prepare(
+        "SELECT COUNT(*) AS count FROM documents WHERE library = ? AND version = ?",
+      ),
+      moveDocuments: this.db.prepare(
+        "UPDATE documents SET library = ? WHERE library = ? AND version = ?",
+      ),
+      moveEmbeddings: this.db.prepare(
+        "UPDATE documents_vec SET library = ? WHERE library = ? AND version = ?",
+      ),
+      moveEmbeddingModel: this.db.prepare(
+        "UPDATE embedding_models SET library = ? WHERE library = ? AND version = ?",
+      ),
+      movePages: this.db.prepare(
+        "UPDATE pages SET library = ? WHERE library = ? AND version = ?",
+      ),
+      getEmbeddingModel: this.db.prepare(
+        "SELECT model, dimension FROM embedding_models WHERE library = ? AND version = ?",
+      ),
+      upsertEmbeddingModel: this.db.prepare(`
+        INSERT INTO embedding_models (library, version, model, dimension)
+        VALUES (?, ?, ?, ?)
+        ON CONFLICT(library, version) DO UPDATE SET
+          model = excluded.model,
+          dimension = excluded.dimension,
+          updated_at = CURRENT_TIMESTAMP
+      `),
+      deleteEmbeddingModel: this.db.prepare(
+        "DELETE FROM embedding_models WHERE library = ? AND version = ?",
+      ),
+      queryDocumentIdsByUrl: this.db.prepare(
+        "SELECT id FROM documents WHERE library = ? AND version = ? AND url = ?",
+      ),
+      deleteDocumentsByUrl: this.db.prepare(
+        "DELETE FROM documents WHERE library = ? AND version = ? AND url = ?",
+      ),
+      queryUrls: this.db.prepare(`
+        SELECT url FROM documents WHERE library = ? AND version = ?
+        UNION
+        SELECT url FROM pages WHERE library = ? AND version = ?
+      `),
+      queryPages: this.db.prepare(
+        "SELECT url, content_hash, etag, last_modified, links FROM pages WHERE library = ? AND version = ?",
+      ),
+      upsertPage: this.db.prepare(`
+        INSERT INTO pages (library, version, url, content_hash, etag, last_modified, links)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(library, version, url) DO UPDATE SET
+          content_hash = excluded.content_hash,
+          etag = excluded.etag,
+          last_modified = excluded.last_modified,
+          links = excluded.links,
+          updated_at = CURRENT_TIMESTAMP
+      `),
+      deletePage: this.db.prepare(
+        "DELETE FROM pages WHERE library = ? AND version = ? AND url = ?",
+      ),
+      deletePages: this.db.prepare("DELETE FROM pages WHERE library = ? AND version = ?"),
+      getRankingOptions: this.db.prepare(
+        "SELECT options FROM library_ranking WHERE library = ?",
+      ),
+      upsertRankingOptions: this.db.prepare(`
+        INSERT INTO library_ranking (library, options) VALUES (?, ?)
+        ON CONFLICT(library) DO UPDATE SET
+          options = excluded.options,
+          updated_at = CURRENT_TIMESTAMP
+      `),
+      deleteRankingOptions: this.db.prepare(
+        "DELETE FROM library_ranking WHERE library = ?",
+      ),
+      queryVersionAliases: this.db.prepare(
+        "SELECT library, alias, version FROM version_aliases WHERE library = ? ORDER BY alias",
+      ),
+      queryAllVersionAliases: this.db.prepare(
+        "SELECT library, alias, version FROM version_aliases ORDER BY library, alias",
+      ),
+      upsertVersionAlias: this.db.prepare(`
+        INSERT INTO version_aliases (library, alias, version) VALUES (?, ?, ?)
+        ON CONFLICT(library, alias) DO UPDATE SET
+          version = excluded.version,
+          updated_at = CURRENT_TIMESTAMP
+      `),
+      deleteVersionAlias: this.db.prepare(
+        "DELETE FROM version_aliases WHERE library = ? AND alias = ?",
+      ),
+      deleteVersionAliasesOf: this.db.prepare(
+        "DELETE FROM version_aliases WHERE library = ? AND version = ?",
+      ),
+      queryVersionRecords: this.db.prepare(
+        "SELECT * FROM library_versions WHERE library = ? ORDER BY version",
+      ),
+      queryAllVersionRecords: this.db.prepare(
+        "SELECT * FROM library_versions ORDER BY library, version",
+      ),
+      upsertVersionRecord: this.db.prepare(`
+        INSERT INTO library_versions (
+          library, version, source_url, scraper_options, job_id, description,
+          started_at, finished_at, page_count, chunk_count
+        )
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?,
+          (SELECT COUNT(DISTINCT url) FROM documents WHERE library = ? AND version = ?),
+          (SELECT COUNT(*) FROM documents WHERE library = ? AND version = ?))
+        ON CONFLICT(library, version) DO UPDATE SET
+          source_url = excluded.source_url,
+          scraper_options = excluded.scraper_options,
+          job_id = excluded.job_id,
+          description = COALESCE(excluded.description, library_versions.description),
+          started_at = excluded.started_at,
+          finished_at = excluded.finished_at,
+          page_count = excluded.page_count,
+          chunk_count = excluded.chunk_count,
+          updated_at = CURRENT_TIMESTAMP
+      `),
+      deleteVersionRecord: this.db.prepare(
+        "DELETE FROM library_versions WHERE library = ? AND version = ?",
+      ),
+      queryDocumentsByVersion: this.db.prepare(
+        "SELECT id, content, metadata FROM documents WHERE library = ? AND version = ? ORDER BY id",
+      ),
+      queryDocumentsForExport: this.db.prepare(
+        "SELECT id, url, content, metadata, sort_order FROM documents WHERE library = ? AND version = ? ORDER BY id",
+      ),
+      queryDocumentsByUrl: this.db.prepare(
+        "SELECT id, library, version, url, content, metadata, sort_order FROM documents WHERE library = ? AND version = ? ORDER BY url, sort_order, id",
+      ),
+      queryEmbeddings: this.db.prepare(
+        "SELECT rowid, embedding FROM documents_vec WHERE library = ? AND version = ?",
+      ),
       queryVersions: this.db.prepare(
         "SELECT DISTINCT version FROM documents WHERE library = ? ORDER BY version",
       ),
@@ -124,7 +257,26 @@ export class DocumentStore {
         "SELECT id FROM documents WHERE library = ? AND version = ? LIMIT 1",
       ),
       queryLibraryVersions: this.db.prepare(
-        "SELECT DISTINCT library, version FROM documents ORDER BY library, version",
+        `SELECT DISTINCT library, version FROM documents
+         WHERE library NOT GLOB '${STAGING_LIBRARY_PREFIX}*'
+         ORDER BY library, version`,
+      ),
+      queryVersionStats: this.db.prepare(
+        `SELECT d.library, d.version,
+           COUNT(DISTINCT d.url) AS pages,
+           COUNT(*) AS chunks,
+           SUM(length(d.content)) AS content_size,
+           SUM(NOT EXISTS (SELECT 1 FROM documents_vec v WHERE v.rowid = d.id)) AS missing_embeddings,
+           COALESCE(
+             (SELECT MAX(p.updated_at) FROM pages p
+              WHERE p.library = d.library AND p.version = d.version),
+             (SELECT e.updated_at FROM embedding_models e
+              WHERE e.library = d.library AND e.version = d.version)
+           ) AS indexed_at
+         FROM documents d
+         WHERE d.library NOT GLOB '${STAGING_LIBRARY_PREFIX}*'
+         GROUP BY d.library, d.version
+         ORDER BY d.library, d.version`,
       ),
       getChildChunks: this.db.prepare(`
         SELECT * FROM documents 
@@ -169,44 +321,218 @@ export class DocumentStore {
   }
 
   /**
-   * Pads a vector to the fixed database dimension by appending zeros.
-   * Throws an error if the input vector is longer than the database dimension.
+   * Escapes a user query for use in an FTS5 MATCH expression. The whole query is
+   * wrapped in double quotes so FTS operators (AND, OR, *, parentheses) are treated
+   * as literal text, and embedded double quotes are doubled.
    */
-  private padVector(vector: number[]): number[] {
-    if (vector.length > this.dbDimension) {
-      throw new Error(
-        `Vector dimension ${vector.length} exceeds database dimension ${this.dbDimension}`,
+  private escapeFtsQuery(query: string): string {
+    return `"${query.replace(/"/g, '""')}"`;
+  }
+
+  /**
+   * Translates search filters into SQL conditions on the documents table (alias `d`),
+   * each prefixed with `AND`. Returns an empty clause when no filter is set.
+   */
+  private buildFilterClause(filters: SearchFilters = {}): {
+    sql: string;
+    params: Array<string | number>;
+  } {
+    const conditions: string[] = [];
+    const params: Array<string | number> = [];
+    if (filters.urlPrefix) {
+      conditions.push("substr(d.url, 1, ?) = ?");
+      params.push(filters.urlPrefix.length, filters.urlPrefix);
+    }
+    if (filters.pathContains) {
+      conditions.push("instr(lower(json_extract(d.metadata, '$.path')), lower(?)) > 0");
+      params.push(filters.pathContains);
+    }
+    if (filters.contentType) {
+      conditions.push(
+        "EXISTS (SELECT 1 FROM json_each(d.metadata, '$.types') WHERE value = ?)",
       );
+      params.push(filters.contentType);
     }
-    if (vector.length === this.dbDimension) {
-      return vector;
+    if (filters.minLevel !== undefined) {
+      conditions.push("json_extract(d.metadata, '$.level') >= ?");
+      params.push(filters.minLevel);
     }
-    return [...vector, ...new Array(this.dbDimension - vector.length).fill(0)];
+    return {
+      sql: conditions.map((condition) => `AND ${condition}`).join(" "),
+      params,
+    };
   }
 
   /**
-   * Embedding 已禁用，无需初始化 embedding
+   * Retrieves the embedding model recorded for a library version, or null if the
+   * version has no vectors or was indexed before models were recorded.
    */
-  async initializeEmbeddings(): Promise<void> {
-    throw new Error("Embedding functionality has been disabled in this build.");
+  async getStoredEmbeddingModel(
+    library: string,
+    version: string,
+  ): Promise<EmbeddingModelInfo | null> {
+    try {
+      const row = this.statements.getEmbeddingModel.get(
+        library.toLowerCase(),
+        version.toLowerCase(),
+      ) as DbQueryResult<EmbeddingModelInfo>;
+      return row ?? null;
+    } catch (error) {
+      throw new ConnectionError("Failed to query embedding model", error);
+    }
   }
 
   /**
-   * Initializes database connection and ensures readiness
+   * Retrieves the ranking options configured for a library, or null if it uses the
+   * defaults.
    */
-  async initialize(): Promise<void> {
+  async getRankingOptions(library: string): Promise<RankingOptions | null> {
     try {
-      // 1. Load extensions
+      const row = this.statements.getRankingOptions.get(library.toLowerCase()) as
+        | { options: string }
+        | undefined;
+      return row ? (JSON.parse(row.options) as RankingOptions) : null;
+    } catch (error) {
+      throw new ConnectionError("Failed to query ranking options", error);
+    }
+  }
+
+  /**
+   * Stores the ranking options of a library, replacing previous ones, or removes them
+   * when `options` is null so the library uses the defaults again.
+   */
+  async setRankingOptions(
+    library: string,
+    options: RankingOptions | null,
+  ): Promise<void> {
+    try {
+      if (options) {
+        this.statements.upsertRankingOptions.run(
+          library.toLowerCase(),
+          JSON.stringify(options),
+        );
+      } else {
+        this.statements.deleteRankingOptions.run(library.toLowerCase());
+      }
+    } catch (error) {
+      throw new ConnectionError(`Failed to store ranking options of ${library}`, error);
+    }
+  }
+
+  /**
+   * Lists the version aliases of a library, or of all libraries if none is given.
+   */
+  async queryVersionAliases(library?: string): Promise<VersionAlias[]> {
+    try {
+      const rows = library
+        ? this.statements.queryVersionAliases.all(library.toLowerCase())
+        : this.statements.queryAllVersionAliases.all();
+      return rows as VersionAlias[];
+    } catch (error) {
+      throw new ConnectionError("Failed to query version aliases", error);
+    }
+  }
+
+  /**
+   * Points an alias of a library at a version, replacing its previous target, or
+   * removes the alias when `version` is null.
+   */
+  async setVersionAlias(
+    library: string,
+    alias: string,
+    version: string | null,
+  ): Promise<void> {
+    try {
+      if (version !== null) {
+        this.statements.upsertVersionAlias.run(
+          library.toLowerCase(),
+          alias.toLowerCase(),
+          version.toLowerCase(),
+        );
+      } else {
+        this.statements.deleteVersionAlias.run(
+          library.toLowerCase(),
+          alias.toLowerCase(),
+        );
+      }
+    } catch (error) {
+      throw new ConnectionError(
+        `Failed to store version alias ${alias} of ${library}`,
+        error,
+      );
+    }
+  }
+  /**
+   * Lists the registry entries of a library, or of all libraries if none is given.
+   */
+  async queryVersionRecords(library?: string): Promise<VersionRecord[]> {
+    try {
+      const rows = library
+        ? this.statements.queryVersionRecords.all(library.toLowerCase())
+        : this.statements.queryAllVersionRecords.all();
+      return (rows as DbVersionRecord[]).map(mapDbVersionRecord);
+    } catch (error) {
+      throw new ConnectionError("Failed to query the version registry", error);
+    }
+  }
+
+  /**
+   * Records the provenance of an indexed version, replacing the previous entry but
+   * keeping its description if none is given, and counts its pages and chunks.
+   */
+  async saveVersionRecord(
+    library: string,
+    version: string,
+    provenance: VersionProvenance,
+  ): Promise<void> {
+    try {
+      const args = [library.toLowerCase(), version.toLowerCase()] as const;
+      this.statements.upsertVersionRecord.run(
+        ...args,
+        provenance.sourceUrl,
+        provenance.scraperOptions ? JSON.stringify(provenance.scraperOptions) : null,
+        provenance.jobId,
+        provenance.description,
+        provenance.startedAt,
+        provenance.finishedAt,
+        ...args,
+        ...args,
+      );
+    } catch (error) {
+      throw new ConnectionError(
+        `Failed to register ${library}@${version || "[no version]"}`,
+        error,
+      );
+    }
+  }
+
+  /**
+   * Applies pending schema migrations, or only reports them when `dryRun` is set.
+   * Called by `initialize()`, but can also be used on its own (e.g. by the CLI)
+   * without initializing the embedding model.
+   * @throws {MigrationError} If a migration fails or the database schema is newer than supported
+   */
+  async migrate(options: { dryRun?: boolean } = {}): Promise<MigrationResult> {
+    if (!this.extensionsLoaded) {
       sqliteVec.load(this.db);
+      this.extensionsLoaded = true;
+    }
+    return applyMigrations(this.db, options);
+  }
 
-      // 2. Create schema
-      this.db.exec(createTablesSQL);
+  /**
+   * Initializes database connection and ensures readiness
+   */
+  async initialize(): Promise<void> {
+    try {
+      // 1. Load extensions and bring the schema up to date
+      await this.migrate();
 
-      // 3. Initialize prepared statements
+      // 2. Initialize prepared statements
       this.prepareStatements();
 
-      // 4. 跳过 embedding 初始化，兼容无 embedding 纯检索/大模型场景
-      // await this.initializeEmbeddings();
+      // 3. Initialize embeddings client
+      await this.initializeEmbeddings();
     } catch (error) {
       // Re-throw StoreError directly, wrap others in ConnectionError
       if (error instanceof StoreError) {
@@ -252,6 +578,145 @@ export class DocumentStore {
     }
   }
 
+  /**
+   * Collects the size and embedding coverage of every library version. The index date
+   * is the last update of a page state, or of the embedding model record for versions
+   * without page states.
+   */
+  async getStatistics(): Promise<StoreStats> {
+    try {
+      const rows = this.statements.queryVersionStats.all() as DbVersionStats[];
+      return {
+        versions: rows.map(mapDbVersionStats),
+        databaseSize: this.getDatabaseSize(),
+      };
+    } catch (error) {
+      throw new ConnectionError("Failed to collect store statistics", error);
+    }
+  }
+
+  /**
+   * Reports orphaned vectors, full-text index drift and duplicate chunks. Does not need
+   * the store to be initialized, only migrated.
+   */
+  async checkConsistency(): Promise<ConsistencyReport> {
+    try {
+      const found = this.findInconsistencies();
+      return {
+        orphanedVectors: found.orphanedVectorIds.length,
+        ftsDrift: found.ftsDrift,
+        duplicateChunks: found.duplicateIds.length,
+      };
+    } catch (error) {
+      throw new ConnectionError("Failed to check store consistency", error);
+    }
+  }
+
+  /**
+   * Removes orphaned vectors and duplicate chunks (with their vectors), and rebuilds the
+   * full-text index if it drifted from the documents, all in one transaction. Then merges
+   * the full-text index segments, reclaims free pages with `VACUUM` and refreshes the
+   * query planner statistics. Does not need the store to be initialized, only migrated.
+   */
+  async collectGarbage(): Promise<GarbageCollectionResult> {
+    try {
+      const sizeBefore = this.getDatabaseSize();
+      const deleteEmbedding = this.db.prepare(
+        "DELETE FROM documents_vec WHERE rowid = ?",
+      );
+      const deleteDocument = this.db.prepare("DELETE FROM documents WHERE id = ?");
+      const transaction = this.db.transaction(() => {
+        const found = this.findInconsistencies();
+        for (const id of [...found.orphanedVectorIds, ...found.duplicateIds]) {
+          deleteEmbedding.run(BigInt(id));
+        }
+        for (const id of found.duplicateIds) {
+          deleteDocument.run(id);
+        }
+        // Deleting a chunk missing from the index corrupts it further, so rebuild last.
+        // The built-in 'rebuild' cannot be used: title and path come from the metadata.
+        if (found.ftsDrift > 0) {
+          this.db.exec(`
+            INSERT INTO documents_fts(documents_fts) VALUES('delete-all');
+            INSERT INTO documents_fts(rowid, content, title, url, path)
+            SELECT id, content, json_extract(metadata, '$.title'), url,
+              json_extract(metadata, '$.path')
+            FROM documents;
+          `);
+        }
+        return found;
+      });
+      const found = transaction();
+
+      this.db.exec("INSERT INTO documents_fts(documents_fts) VALUES('optimize')");
+      this.db.exec("VACUUM");
+      this.db.exec("PRAGMA optimize");
+      return {
+        repaired: {
+          orphanedVectors: found.orphanedVectorIds.length,
+          ftsDrift: found.ftsDrift,
+          duplicateChunks: found.duplicateIds.length,
+        },
+        sizeBefore,
+        sizeAfter: this.getDatabaseSize(),
+      };
+    } catch (error) {
+      throw new ConnectionError("Failed to collect garbage", error);
+    }
+  }
+
+  /**
+   * Finds vectors without a document, chunks that repeat an earlier chunk of the same
+   * page, and documents and full-text index entries that lack their counterpart. The
+   * FTS5 `docsize` shadow table holds one row per indexed document.
+   */
+  private findInconsistencies(): {
+    orphanedVectorIds: number[];
+    duplicateIds: number[];
+    ftsDrift: number;
+  } {
+    const ids = (sql: string) =>
+      (this.db.prepare(sql).all() as Array<{ id: number }>).map((row) => row.id);
+    const count = (sql: string) =>
+      (this.db.prepare(sql).get() as { count: number }).count;
+
+    return {
+      orphanedVectorIds: ids(
+        `SELECT v.rowid AS id FROM documents_vec v
+         WHERE NOT EXISTS (SELECT 1 FROM documents d WHERE d.id = v.rowid)`,
+      ),
+      duplicateIds: ids(
+        `SELECT d.id FROM documents d
+         WHERE EXISTS (
+           SELECT 1 FROM documents o
+           WHERE o.library = d.library AND o.version = d.version AND o.url = d.url
+             AND o.content IS d.content AND o.metadata IS d.metadata AND o.id < d.id
+         )`,
+      ),
+      ftsDrift:
+        count(
+          `SELECT COUNT(*) AS count FROM documents d
+           WHERE NOT EXISTS (SELECT 1 FROM documents_fts_docsize f WHERE f.id = d.id)`,
+        ) +
+        count(
+          `SELECT COUNT(*) AS count FROM documents_fts_docsize f
+           WHERE NOT EXISTS (SELECT 1 FROM documents d WHERE d.id = f.id)`,
+        ),
+    };
+  }
+
+  /**
+   * Returns the size of the database file in bytes, derived from its page count.
+   */
+  private getDatabaseSize(): number {
+    const { size } = this.db
+      .prepare(
+        "SELECT page_count * page_size AS size FROM pragma_page_count(), pragma_page_size()",
+      )
+      .get() as { size: number };
+    return size;
+  }
+
   /**
    * Retrieves a mapping of all libraries to their available versions
    */
@@ -275,7 +740,9 @@ export class DocumentStore {
 
   /**
    * Stores documents with library and version metadata, generating embeddings
-   * for vector similarity search
+   * for vector similarity search. In full-text-only mode the vector table is
+   * skipped and documents are only indexed by FTS.
+   * @throws {EmbeddingModelMismatchError} If the version already holds vectors of another model
    */
   async addDocuments(
     library: string,
@@ -284,62 +751,430 @@ export class DocumentStore {
   ): Promise<void> {
     try {
       // Generate embeddings in batch
-      const texts = documents.map((doc) => {
-        const header = `<title>${doc.metadata.title}</title>\n<url>${doc.metadata.url}</url>\n<path>${doc.metadata.path.join(" / ")}</path>\n`;
-        return `${header}${doc.pageContent}`;
-      });
-      const rawEmbeddings = await this.embeddings.embedDocuments(texts);
-      const paddedEmbeddings = rawEmbeddings.map((vector) => this.padVector(vector));
+      const paddedEmbeddings = await this.embedDocuments(library, version, documents);
 
       // Insert documents in a transaction
-      const transaction = this.db.transaction((docs: typeof documents) => {
-        for (let i = 0; i < docs.length; i++) {
-          const doc = docs[i];
-          const url = doc.metadata.url as string;
-          if (!url || typeof url !== "string" || !url.trim()) {
-            throw new StoreError("Document metadata must include a valid URL");
-          }
-
-          // Insert into main documents table
-          const result = this.statements.insertDocument.run(
-            library.toLowerCase(),
-            version.toLowerCase(),
-            url,
-            doc.pageContent,
-            JSON.stringify(doc.metadata),
-            i,
-          );
-          const rowId = result.lastInsertRowid;
-
-          // Insert into vector table
-          this.statements.insertEmbedding.run(
-            BigInt(rowId),
-            library.toLowerCase(),
-            version.toLowerCase(),
-            JSON.stringify(paddedEmbeddings[i]),
-          );
-        }
+      const transaction = this.db.transaction(() => {
+        this.insertDocuments(library, version, documents, paddedEmbeddings);
       });
 
-      transaction(documents);
+      transaction();
     } catch (error) {
+      if (error instanceof EmbeddingModelMismatchError) {
+        throw error;
+      }
       throw new ConnectionError("Failed to add documents to store", error);
     }
   }
 
   /**
-   * Removes documents matching specified library and version
+   * Inserts documents and their vectors and records the embedding model of the
+   * version. Must run inside a transaction.
+   */
+  private insertDocuments(
+    library: string,
+    version: string,
+    documents: Document[],
+    paddedEmbeddings: number[][] | null,
+  ): void {
+    for (let i = 0; i < documents.length; i++) {
+      const doc = documents[i];
+      const url = doc.metadata.url as string;
+      if (!url || typeof url !== "string" || !url.trim()) {
+        throw new StoreError("Document metadata must include a valid URL");
+      }
+
+      // Insert into main documents table
+      const result = this.statements.insertDocument.run(
+        library.toLowerCase(),
+        version.toLowerCase(),
+        url,
+        doc.pageContent,
+        JSON.stringify(doc.metadata),
+        i,
+      );
+      const rowId = result.lastInsertRowid;
+
+      // Insert into vector table
+      if (paddedEmbeddings) {
+        this.statements.insertEmbedding.run(
+          BigInt(rowId),
+          library.toLowerCase(),
+          version.toLowerCase(),
+          JSON.stringify(paddedEmbeddings[i]),
+        );
+      }
+    }
+
+    // Record which model produced the vectors of this version
+    if (paddedEmbeddings && this.modelName) {
+      this.statements.upsertEmbeddingModel.run(
+        library.toLowerCase(),
+        version.toLowerCase(),
+        this.modelName,
+        this.modelDimension,
+      );
+    }
+  }
+
+  /**
+   * Removes documents matching specified library and version, together with their
+   * vectors, page states, embedding model record, registry entry and the aliases
+   * pointing at the version, in a single transaction
    * @returns Number of documents deleted
    */
   async deleteDocuments(library: string, version: string): Promise<number> {
     try {
-      const result = this.statements.deleteDocuments.run(
+      const args = [library.toLowerCase(), version.toLowerCase()] as const;
+      const transaction = this.db.transaction(() => {
+        this.statements.deleteEmbeddings.run(...args);
+        const result = this.statements.deleteDocuments.run(...args);
+        this.statements.deleteEmbeddingModel.run(...args);
+        this.statements.deletePages.run(...args);
+        this.statements.deleteVersionRecord.run(...args);
+        this.statements.deleteVersionAliasesOf.run(...args);
+        return result.changes;
+      });
+      return transaction();
+    } catch (error) {
+      throw new ConnectionError("Failed to delete documents", error);
+    }
+  }
+
+  /**
+   * Replaces the documents of a library version with the ones staged under
+   * `stagingLibrary`, together with their vectors, page states and embedding model
+   * record. Runs in a single transaction, so searches see either the old or the new
+   * documents. Nothing is changed if the staging area is empty.
+   * @returns Number of documents swapped in
+   */
+  async swapStagedDocuments(
+    stagingLibrary: string,
+    library: string,
+    version: string,
+  ): Promise<number> {
+    this.assertStagingLibrary(stagingLibrary);
+    try {
+      const staged = [stagingLibrary, version.toLowerCase()] as const;
+      const live = [library.toLowerCase(), version.toLowerCase()] as const;
+      const transaction = this.db.transaction(() => {
+        const { count } = this.statements.countDocuments.get(...staged) as {
+          count: number;
+        };
+        if (count === 0) {
+          return 0;
+        }
+
+        this.statements.deleteEmbeddings.run(...live);
+        this.statements.deleteDocuments.run(...live);
+        this.statements.deleteEmbeddingModel.run(...live);
+        this.statements.deletePages.run(...live);
+
+        this.statements.moveDocuments.run(live[0], ...staged);
+        this.statements.moveEmbeddings.run(live[0], ...staged);
+        this.statements.moveEmbeddingModel.run(live[0], ...staged);
+        this.statements.movePages.run(live[0], ...staged);
+        return count;
+      });
+      return transaction();
+    } catch (error) {
+      throw new ConnectionError(
+        `Failed to swap staged documents into ${library}@${version}`,
+        error,
+      );
+    }
+  }
+
+  /**
+   * Removes everything staged under `stagingLibrary` for a version, e.g. after the
+   * job that staged it failed or was cancelled.
+   * @returns Number of documents deleted
+   */
+  async deleteStagedDocuments(stagingLibrary: string, version: string): Promise<number> {
+    this.assertStagingLibrary(stagingLibrary);
+    try {
+      const staged = [stagingLibrary, version.toLowerCase()] as const;
+      const transaction = this.db.transaction(() => {
+        this.statements.deleteEmbeddings.run(...staged);
+        const result = this.statements.deleteDocuments.run(...staged);
+        this.statements.deleteEmbeddingModel.run(...staged);
+        this.statements.deletePages.run(...staged);
+        return result.changes;
+      });
+      return transaction();
+    } catch (error) {
+      throw new ConnectionError("Failed to delete staged documents", error);
+    }
+  }
+
+  /**
+   * Replaces all chunks of a single page with new ones and records its new state. The
+   * new chunks are embedded first; removing the old chunks and vectors, inserting the
+   * new ones and updating the page state then happen in a single transaction, so the
+   * old chunks stay searchable until the replacement is stored, and remain if
+   * embedding fails.
+   * @returns Number of old documents replaced
+   * @throws {EmbeddingModelMismatchError} If the version already holds vectors of another model
+   */
+  async replacePage(
+    library: string,
+    version: string,
+    documents: Document[],
+    page: PageState,
+  ): Promise<number> {
+    try {
+      const paddedEmbeddings = await this.embedDocuments(library, version, documents);
+
+      const args = [library.toLowerCase(), version.toLowerCase(), page.url] as const;
+      const transaction = this.db.transaction(() => {
+        const rows = this.statements.queryDocumentIdsByUrl.all(...args) as Array<
+          Pick<DbDocument, "id">
+        >;
+        for (const row of rows) {
+          this.statements.deleteEmbedding.run(BigInt(row.id));
+        }
+        const result = this.statements.deleteDocumentsByUrl.run(...args);
+        this.insertDocuments(library, version, documents, paddedEmbeddings);
+        this.statements.upsertPage.run(
+          ...args,
+          page.contentHash,
+          page.etag ?? null,
+          page.lastModified ?? null,
+          JSON.stringify(page.links),
+        );
+        return result.changes;
+      });
+      return transaction();
+    } catch (error) {
+      if (error instanceof EmbeddingModelMismatchError) {
+        throw error;
+      }
+      throw new ConnectionError(`Failed to replace page ${page.url}`, error);
+    }
+  }
+
+  /**
+   * Removes all chunks of a single page, including their vectors, together with the
+   * stored page state.
+   * @returns Number of documents deleted
+   */
+  async deletePage(library: string, version: string, url: string): Promise<number> {
+    try {
+      const args = [library.toLowerCase(), version.toLowerCase(), url] as const;
+      const transaction = this.db.transaction(() => {
+        const rows = this.statements.queryDocumentIdsByUrl.all(...args) as Array<
+          Pick<DbDocument, "id">
+        >;
+        for (const row of rows) {
+          this.statements.deleteEmbedding.run(BigInt(row.id));
+        }
+        const result = this.statements.deleteDocumentsByUrl.run(...args);
+        this.statements.deletePage.run(...args);
+        return result.changes;
+      });
+      return transaction();
+    } catch (error) {
+      throw new ConnectionError(`Failed to delete page ${url}`, error);
+    }
+  }
+
+  /**
+   * Retrieves the URLs of all pages stored for a library version, including pages
+   * indexed before page states were recorded.
+   */
+  async queryUrls(library: string, version: string): Promise<string[]> {
+    try {
+      const rows = this.statements.queryUrls.all(
+        library.toLowerCase(),
+        version.toLowerCase(),
+        library.toLowerCase(),
+        version.toLowerCase(),
+      ) as Array<{ url: string }>;
+      return rows.map((row) => row.url);
+    } catch (error) {
+      throw new ConnectionError("Failed to query page URLs", error);
+    }
+  }
+
+  /**
+   * Retrieves the recorded state of every scraped page of a library version, keyed by URL.
+   */
+  async getPageStates(library: string, version: string): Promise<Map<string, PageState>> {
+    try {
+      const rows = this.statements.queryPages.all(
         library.toLowerCase(),
         version.toLowerCase(),
+      ) as Array<{
+        url: string;
+        content_hash: string;
+        etag: string | null;
+        last_modified: string | null;
+        links: string;
+      }>;
+      return new Map(
+        rows.map((row) => [
+          row.url,
+          {
+            url: row.url,
+            contentHash: row.content_hash,
+            etag: row.etag ?? undefined,
+            lastModified: row.last_modified ?? undefined,
+            links: JSON.parse(row.links),
+          },
+        ]),
       );
-      return result.changes;
     } catch (error) {
-      throw new ConnectionError("Failed to delete documents", error);
+      throw new ConnectionError("Failed to query page states", error);
+    }
+  }
+
+  /**
+   * Records or updates the state of a scraped page.
+   */
+  async upsertPageState(
+    library: string,
+    version: string,
+    page: PageState,
+  ): Promise<void> {
+    try {
+      this.statements.upsertPage.run(
+        library.toLowerCase(),
+        version.toLowerCase(),
+        page.url,
+        page.contentHash,
+        page.etag ?? null,
+        page.lastModified ?? null,
+        JSON.stringify(page.links),
+      );
+    } catch (error) {
+      throw new ConnectionError(`Failed to store page state for ${page.url}`, error);
+    }
+  }
+
+  /**
+   * Collects everything stored for a library version into a portable bundle: the
+   * documents with their sort order and unpadded vectors, the embedding model record
+   * and the page states. Vectors of versions indexed before embedding models were
+   * recorded are left out, since their native dimension is unknown.
+   */
+  async exportDocuments(library: string, version: string): Promise<Bundle> {
+    try {
+      const args = [library.toLowerCase(), version.toLowerCase()] as const;
+      const embeddingModel = await this.getStoredEmbeddingModel(...args);
+      const rows = this.statements.queryDocumentsForExport.all(...args) as Array<
+        Pick<DbDocument, "id" | "url" | "content" | "metadata" | "sort_order">
+      >;
+      const vectors = new Map<number, Buffer>();
+      if (embeddingModel) {
+        for (const row of this.statements.queryEmbeddings.all(...args) as Array<{
+          rowid: number;
+          embedding: Buffer;
+        }>) {
+          vectors.set(Number(row.rowid), row.embedding);
+        }
+      }
+
+      const documents = rows.map((row): BundleDocument => {
+        const vector = vectors.get(Number(row.id));
+        return {
+          url: row.url,
+          content: row.content,
+          metadata: JSON.parse(row.metadata),
+          sortOrder: row.sort_order,
+          // Copy the blob first, it is not guaranteed to be aligned for Float32Array
+          embedding:
+            vector && embeddingModel
+              ? Array.from(
+                  new Float32Array(
+                    new Uint8Array(vector).buffer,
+                    0,
+                    embeddingModel.dimension,
+                  ),
+                )
+              : null,
+        };
+      });
+
+      return {
+        library: args[0],
+        version: args[1],
+        createdAt: new Date().toISOString(),
+        embeddingModel,
+        documents,
+        pages: Array.from((await this.getPageStates(...args)).values()),
+      };
+    } catch (error) {
+      throw new ConnectionError(`Failed to export ${library}@${version}`, error);
+    }
+  }
+
+  /**
+   * Stores the contents of a bundle as its library version in a single transaction,
+   * replacing any documents already indexed for it. Vectors are imported as they are,
+   * so a bundle embedded with a different model than the configured one is rejected.
+   * In full-text-only mode any bundle is accepted.
+   * @returns Number of documents imported
+   * @throws {BundleError} If the bundle was embedded with a different model
+   */
+  async importDocuments(bundle: Bundle): Promise<number> {
+    this.assertImportableBundle(bundle);
+    const { embeddingModel } = bundle;
+
+    try {
+      const library = bundle.library.toLowerCase();
+      const version = bundle.version.toLowerCase();
+      const transaction = this.db.transaction(() => {
+        this.statements.deleteEmbeddings.run(library, version);
+        this.statements.deleteDocuments.run(library, version);
+        this.statements.deleteEmbeddingModel.run(library, version);
+        this.statements.deletePages.run(library, version);
+
+        for (const doc of bundle.documents) {
+          const result = this.statements.insertDocument.run(
+            library,
+            version,
+            doc.url,
+            doc.content,
+            JSON.stringify(doc.metadata),
+            doc.sortOrder,
+          );
+          if (doc.embedding) {
+            this.statements.insertEmbedding.run(
+              BigInt(result.lastInsertRowid),
+              library,
+              version,
+              JSON.stringify(this.padVector(doc.embedding)),
+            );
+          }
+        }
+
+        if (embeddingModel) {
+          this.statements.upsertEmbeddingModel.run(
+            library,
+            version,
+            embeddingModel.model,
+            embeddingModel.dimension,
+          );
+        }
+        for (const page of bundle.pages) {
+          this.statements.upsertPage.run(
+            library,
+            version,
+            page.url,
+            page.contentHash,
+            page.etag ?? null,
+            page.lastModified ?? null,
+            JSON.stringify(page.links),
+          );
+        }
+      });
+      transaction();
+      return bundle.documents.length;
+    } catch (error) {
+      throw new ConnectionError(
+        `Failed to import ${bundle.library}@${bundle.version || "[no version]"}`,
+        error,
+      );
     }
   }
 
@@ -361,88 +1196,255 @@ export class DocumentStore {
     }
   }
 
+  /**
+   * Lists all chunks of a library version without their vectors, ordered by page URL
+   * and position within the page.
+   */
+  async queryDocuments(library: string, version: string): Promise<Document[]> {
+    try {
+      const rows = this.statements.queryDocumentsByUrl.all(
+        library.toLowerCase(),
+        version.toLowerCase(),
+      ) as DbDocument[];
+      return rows.map((row) => mapDbDocumentToDocument(row));
+    } catch (error) {
+      throw new ConnectionError(
+        `Failed to query documents of ${library}@${version || "[no version]"}`,
+        error,
+      );
+    }
+  }
+
   /**
    * Finds documents matching a text query using hybrid search.
    * Combines vector similarity search with full-text search using Reciprocal Rank Fusion.
+   * Without an embedding model, or when the stored vectors were produced by a different
+   * model than the configured one, results are ranked purely by BM25.
+   * Filters restrict both legs of the search before ranking. The ranking options
+   * override those configured for the library.
    */
   async findByContent(
     library: string,
     version: string,
     query: string,
     limit: number,
+    filters?: SearchFilters,
+    ranking?: RankingOptions,
   ): Promise<Document[]> {
     try {
-      const rawEmbedding = await this.embeddings.embedQuery(query);
-      const embedding = this.padVector(rawEmbedding);
       const ftsQuery = this.escapeFtsQuery(query); // Escape the query for FTS
+      const useVectors =
+        this.embeddings !== null && (await this.hasCompatibleVectors(library, version));
+      const settings = await this.resolveRanking(library, ranking);
+      const rawResults =
+        this.embeddings && useVectors
+          ? await this.queryHybrid(
+              this.embeddings,
+              library,
+              version,
+              query,
+              ftsQuery,
+              limit,
+              settings,
+              filters,
+            )
+          : this.queryFullText(library, version, ftsQuery, limit, settings, filters);
 
-      const stmt = this.db.prepare(`
-        WITH vec_scores AS (
-          SELECT
-            rowid as id,
-            distance as vec_score
-          FROM documents_vec
-          WHERE library = ?
-            AND version = ?
-            AND embedding MATCH ?
-          ORDER BY vec_score
-          LIMIT ?
-        ),
-        fts_scores AS (
-          SELECT
-            f.rowid as id,
-            bm25(documents_fts, 10.0, 1.0, 5.0, 1.0) as fts_score
-          FROM documents_fts f
-          JOIN documents d ON f.rowid = d.rowid
-          WHERE d.library = ?
-            AND d.version = ?
-            AND documents_fts MATCH ?
-          ORDER BY fts_score
-          LIMIT ?
-        )
+      return this.rankResults(rawResults, limit, settings);
+    } catch (error) {
+      throw new ConnectionError(
+        `Failed to find documents by content with query "${query}"`,
+        error,
+      );
+    }
+  }
+
+  /**
+   * Runs the vector and full-text legs of a hybrid search in a single query.
+   */
+  private async queryHybrid(
+    embeddings: Embeddings,
+    library: string,
+    version: string,
+    query: string,
+    ftsQuery: string,
+    limit: number,
+    ranking: RankingSettings,
+    filters?: SearchFilters,
+  ): Promise<RawSearchResult[]> {
+    const rawEmbedding = await embeddings.embedQuery(query);
+    const embedding = this.padVector(rawEmbedding);
+    const filter = this.buildFilterClause(filters);
+    // The vector table only knows library and version, so other filters select rowids
+    const vecFilter = filter.sql
+      ? `AND rowid IN (SELECT d.id FROM documents d WHERE d.library = ? AND d.version = ? ${filter.sql})`
+      : "";
+    const vecFilterParams = filter.sql
+      ? [library.toLowerCase(), version.toLowerCase(), ...filter.params]
+      : [];
+
+    const stmt = this.db.prepare(`
+      WITH vec_scores AS (
         SELECT
-          d.id,
-          d.content,
-          d.metadata,
-          COALESCE(1 / (1 + v.vec_score), 0) as vec_score,
-          COALESCE(1 / (1 + f.fts_score), 0) as fts_score
-        FROM documents d
-        LEFT JOIN vec_scores v ON d.id = v.id
-        LEFT JOIN fts_scores f ON d.id = f.id
-        WHERE v.id IS NOT NULL OR f.id IS NOT NULL
-      `);
-
-      const rawResults = stmt.all(
-        library.toLowerCase(),
-        version.toLowerCase(),
-        JSON.stringify(embedding),
-        limit,
+          rowid as id,
+          distance as vec_score
+        FROM documents_vec
+        WHERE library = ?
+          AND version = ?
+          AND embedding MATCH ?
+          ${vecFilter}
+        ORDER BY vec_score
+        LIMIT ?
+      ),
+      fts_scores AS (
+        SELECT
+          f.rowid as id,
+          bm25(documents_fts, ?, ?, ?, ?) as fts_score
+        FROM documents_fts f
+        JOIN documents d ON f.rowid = d.rowid
+        WHERE d.library = ?
+          AND d.version = ?
+          AND documents_fts MATCH ?
+          ${filter.sql}
+        ORDER BY fts_score
+        LIMIT ?
+      )
+      SELECT
+        d.id,
+        d.content,
+        d.metadata,
+        d.sort_order,
+        v.vec_score,
+        f.fts_score
+      FROM documents d
+      LEFT JOIN vec_scores v ON d.id = v.id
+      LEFT JOIN fts_scores f ON d.id = f.id
+      WHERE v.id IS NOT NULL OR f.id IS NOT NULL
+    `);
+
+    return stmt.all(
+      library.toLowerCase(),
+      version.toLowerCase(),
+      JSON.stringify(embedding),
+      ...vecFilterParams,
+      limit,
+      ...this.bm25Weights(ranking),
+      library.toLowerCase(),
+      version.toLowerCase(),
+      ftsQuery, // Use the escaped query
+      ...filter.params,
+      limit,
+    ) as RawSearchResult[];
+  }
+
+  /**
+   * Runs a keyword-only search ranked by BM25, used when no embedding model is configured.
+   */
+  private queryFullText(
+    library: string,
+    version: string,
+    ftsQuery: string,
+    limit: number,
+    ranking: RankingSettings,
+    filters?: SearchFilters,
+  ): RawSearchResult[] {
+    const filter = this.buildFilterClause(filters);
+    const stmt = this.db.prepare(`
+      SELECT
+        d.id,
+        d.content,
+        d.metadata,
+        d.sort_order,
+        NULL as vec_score,
+        bm25(documents_fts, ?, ?, ?, ?) as fts_score
+      FROM documents_fts f
+      JOIN documents d ON f.rowid = d.rowid
+      WHERE d.library = ?
+        AND d.version = ?
+        AND documents_fts MATCH ?
+        ${filter.sql}
+      ORDER BY fts_score
+      LIMIT ?
+    `);
+
+    return stmt.all(
+      ...this.bm25Weights(ranking),
+      library.toLowerCase(),
+      version.toLowerCase(),
+      ftsQuery,
+      ...filter.params,
+      limit,
+    ) as RawSearchResult[];
+  }
+
+  /**
+   * Lists the BM25 column weights in the column order of the FTS5 table, as passed to
+   * `bm25()`.
+   */
+  private bm25Weights(ranking: RankingSettings): number[] {
+    return BM25_COLUMNS.map((column) => ranking.bm25Weights[column]);
+  }
+
+  /**
+   * Regenerates the vectors of a library version from the stored chunk content using
+   * the configured embedding model, without re-scraping. Documents are processed in
+   * batches, each written in its own transaction; the model record is only updated
+   * after all batches succeeded, so an interrupted run can simply be repeated.
+   * @returns Number of documents re-embedded
+   */
+  async reembedDocuments(
+    library: string,
+    version: string,
+    onProgress?: (processed: number, total: number) => void,
+  ): Promise<number> {
+    const { embeddings, modelName } = this.requireEmbeddings();
+
+    try {
+      const rows = this.statements.queryDocumentsByVersion.all(
         library.toLowerCase(),
         version.toLowerCase(),
-        ftsQuery, // Use the escaped query
-        limit,
-      ) as RawSearchResult[];
-
-      // Apply RRF ranking
-      const rankedResults = this.assignRanks(rawResults);
-
-      // Sort by RRF score and take top results
-      const topResults = rankedResults
-        .sort((a, b) => b.rrf_score - a.rrf_score)
-        .slice(0, limit);
-
-      return topResults.map((row) => ({
-        ...mapDbDocumentToDocument(row),
-        metadata: {
-          ...JSON.parse(row.metadata),
-          score: row.rrf_score,
-          vec_rank: row.vec_rank,
-          fts_rank: row.fts_rank,
+      ) as Array<Pick<DbDocument, "id" | "content" | "metadata">>;
+
+      const replaceBatch = this.db.transaction(
+        (batch: typeof rows, vectors: number[][]) => {
+          for (let i = 0; i < batch.length; i++) {
+            const rowId = BigInt(batch[i].id);
+            this.statements.deleteEmbedding.run(rowId);
+            this.statements.insertEmbedding.run(
+              rowId,
+              library.toLowerCase(),
+              version.toLowerCase(),
+              JSON.stringify(vectors[i]),
+            );
+          }
         },
-      }));
+      );
+
+      for (let start = 0; start < rows.length; start += REEMBED_BATCH_SIZE) {
+        const batch = rows.slice(start, start + REEMBED_BATCH_SIZE);
+        const texts = batch.map((row) =>
+          this.formatEmbeddingText(row.content, JSON.parse(row.metadata)),
+        );
+        const rawEmbeddings = await embeddings.embedDocuments(texts);
+        replaceBatch(
+          batch,
+          rawEmbeddings.map((vector) => this.padVector(vector)),
+        );
+        onProgress?.(start + batch.length, rows.length);
+      }
+
+      if (rows.length > 0) {
+        this.statements.upsertEmbeddingModel.run(
+          library.toLowerCase(),
+          version.toLowerCase(),
+          modelName,
+          this.modelDimension,
+        );
+      }
+      return rows.length;
     } catch (error) {
       throw new ConnectionError(
-        `Failed to find documents by content with query "${query}"`,
+        `Failed to re-embed documents for ${library}@${version || "[no version]"}`,
         error,
       );
     }
@@ -0,0 +1,79 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { openrouterChat } from "../utils/openrouter";
+import { LlmQueryExpander } from "./LlmQueryExpander";
+
+vi.mock("../utils/logger");
+vi.mock("../utils/openrouter", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../utils/openrouter")>()),
+  openrouterChat: vi.fn(),
+}));
+
+const mockChat = vi.mocked(openrouterChat);
+
+const reply = (content: string) => ({ choices: [{ message: { content } }] });
+
+describe("LlmQueryExpander", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it("should return the rewritten queries followed by the hypothetical passage", async () => {
+    mockChat.mockResolvedValue(
+      reply(
+        '```json\n{"queries": ["authentication", "login session", "auth", "sign in"], "passage": "Configure the auth provider."}\n```',
+      ),
+    );
+    const expander = new LlmQueryExpander({ model: "test-model", variants: 3 });
+
+    const expansions = await expander.expand("auth");
+
+    expect(expansions).toEqual([
+      "authentication",
+      "login session",
+      "Configure the auth provider.",
+    ]);
+    expect(mockChat).toHaveBeenCalledWith(
+      expect.objectContaining({
+        model: "test-model",
+        messages: [
+          expect.objectContaining({ role: "system" }),
+          { role: "user", content: "auth" },
+        ],
+      }),
+    );
+  });
+
+  it("should cache expansions per query and evict the least recently used", async () => {
+    mockChat.mockImplementation(async ({ messages }) =>
+      reply(JSON.stringify({ queries: [`${messages[1].content} variant`] })),
+    );
+    const expander = new LlmQueryExpander({ cacheSize: 2 });
+
+    await expander.expand("hooks");
+    await expander.expand("routing");
+    expect(await expander.expand(" Hooks ")).toEqual(["hooks variant"]);
+    await expander.expand("auth");
+    await expander.expand("hooks");
+    await expander.expand("routing");
+
+    expect(mockChat.mock.calls.map(([{ messages }]) => messages[1].content)).toEqual([
+      "hooks",
+      "routing",
+      "auth",
+      "routing",
+    ]);
+  });
+
+  it.each([
+    ["a failed request", () => mockChat.mockRejectedValue(new Error("timeout"))],
+    ["an answer without JSON", () => mockChat.mockResolvedValue(reply("auth, login"))],
+    ["empty expansions", () => mockChat.mockResolvedValue(reply('{"queries": []}'))],
+  ])("should return no variants on %s and not cache them", async (_, setUp) => {
+    setUp();
+    const expander = new LlmQueryExpander();
+
+    expect(await expander.expand("auth")).toEqual([]);
+    expect(await expander.expand("auth")).toEqual([]);
+    expect(mockChat).toHaveBeenCalledTimes(2);
+  });
+});
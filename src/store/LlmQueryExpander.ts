@@ -0,0 +1,126 @@
+import { logger } from "../utils/logger";
+import { openrouterChat, readChatContent } from "../utils/openrouter";
+import type { QueryExpander } from "./types";
+
+/** Number of rewritten queries requested from the model */
+const DEFAULT_VARIANTS = 3;
+
+/** Number of queries whose expansions are kept in memory */
+const DEFAULT_CACHE_SIZE = 256;
+
+/** Default request timeout in milliseconds for generating the expansions */
+const DEFAULT_TIMEOUT = 10_000;
+
+export interface LlmQueryExpanderOptions {
+  /** Chat model; defaults to the OpenRouter default model (`MODEL_ID`) */
+  model?: string;
+  /** Base URL of the OpenAI-compatible API; defaults to `OPENAI_API_BASE` */
+  baseURL?: string;
+  /** Bearer token; defaults to `OPENAI_API_KEY` */
+  apiKey?: string;
+  /** Maximum number of rewritten queries, in addition to the hypothetical passage */
+  variants?: number;
+  cacheSize?: number;
+  /** Request timeout in milliseconds */
+  timeout?: number;
+}
+
+/**
+ * Expands search queries with a chat model: it rewrites the query using synonyms and
+ * more specific sub-questions, and writes a short hypothetical documentation passage
+ * answering it (HyDE), which tends to lie close to real answers in embedding space.
+ * Expansions are cached per query (least recently used ones are evicted), so repeated
+ * searches cost a single model call. Failures are logged and yield no variants; they
+ * are not cached.
+ */
+export class LlmQueryExpander implements QueryExpander {
+  readonly model?: string;
+  private readonly baseURL?: string;
+  private readonly apiKey?: string;
+  private readonly variants: number;
+  private readonly cacheSize: number;
+  private readonly timeout: number;
+  private readonly cache = new Map<string, string[]>();
+
+  constructor(options: LlmQueryExpanderOptions = {}) {
+    this.model = options.model;
+    this.baseURL = options.baseURL?.replace(/\/+$/, "");
+    this.apiKey = options.apiKey;
+    this.variants = options.variants ?? DEFAULT_VARIANTS;
+    this.cacheSize = options.cacheSize ?? DEFAULT_CACHE_SIZE;
+    this.timeout = options.timeout ?? DEFAULT_TIMEOUT;
+  }
+
+  /**
+   * Creates an expander using the chat model `DOCS_MCP_EXPANSION_MODEL`, falling back
+   * to the OpenRouter default model.
+   */
+  static fromEnv(): LlmQueryExpander {
+    return new LlmQueryExpander({
+      model: process.env.DOCS_MCP_EXPANSION_MODEL?.trim() || undefined,
+    });
+  }
+
+  async expand(query: string): Promise<string[]> {
+    const key = query.trim().toLowerCase();
+    const cached = this.cache.get(key);
+    if (cached) {
+      // Re-insert to mark the entry as recently used
+      this.cache.delete(key);
+      this.cache.set(key, cached);
+      return cached;
+    }
+
+    try {
+      const expansions = await this.generateExpansions(query);
+      this.cache.set(key, expansions);
+      if (this.cache.size > this.cacheSize) {
+        const [oldest] = this.cache.keys();
+        this.cache.delete(oldest);
+      }
+      logger.debug(`🪄 Expanded "${query}" into ${expansions.length} queries`);
+      return expansions;
+    } catch (error) {
+      logger.warn(
+        `⚠️ Query expansion failed, searching for the query only: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      );
+      return [];
+    }
+  }
+
+  /**
+   * Asks the model for rewritten queries and a hypothetical answer passage.
+   * @throws {Error} If the request fails or the answer cannot be parsed
+   */
+  private async generateExpansions(query: string): Promise<string[]> {
+    const response = await openrouterChat({
+      model: this.model,
+      baseURL: this.baseURL,
+      apiKey: this.apiKey,
+      timeout: this.timeout,
+      messages: [
+        {
+          role: "system",
+          content: `You improve search queries for software documentation.
+Respond only with a JSON object {"queries": [...], "passage": "..."} containing up to ${this.variants} alternative search queries, using synonyms, the exact API or concept names and more specific sub-questions, and a short passage of documentation that would answer the query.`,
+        },
+        { role: "user", content: query },
+      ],
+      extraBody: { temperature: 0 },
+    });
+    const answer = readChatContent(response);
+    const json = answer.match(/\{[\s\S]*\}/)?.[0];
+    const parsed: { queries?: unknown; passage?: unknown } = json ? JSON.parse(json) : {};
+    const queries = Array.isArray(parsed.queries) ? parsed.queries : [];
+    const expansions = [...queries.slice(0, this.variants), parsed.passage]
+      .filter((expansion): expansion is string => typeof expansion === "string")
+      .map((expansion) => expansion.trim())
+      .filter((expansion) => expansion.length > 0 && expansion !== query);
+    if (expansions.length === 0) {
+      throw new Error(`no queries or passage in the response: ${answer}`);
+    }
+    return Array.from(new Set(expansions));
+  }
+}
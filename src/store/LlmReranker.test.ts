@@ -0,0 +1,146 @@
+// @vitest-environment node
+import { type IncomingMessage, type Server, createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { Document } from "@langchain/core/documents";
+import { afterAll, beforeAll, beforeEach, describe, expect, test, vi } from "vitest";
+import { LlmReranker } from "./LlmReranker";
+
+vi.mock("../utils/logger");
+
+interface ChatRequest {
+  model: string;
+  messages: Array<{ role: string; content: string }>;
+  temperature?: number;
+}
+
+interface Reply {
+  answer: string;
+  delay: number;
+  status: number;
+}
+
+/**
+ * Local stand-in for an OpenAI-compatible `/chat/completions` endpoint. It answers
+ * with `reply.answer` after `reply.delay` milliseconds, or fails with `reply.status`.
+ */
+describe("LlmReranker", () => {
+  let server: Server;
+  let baseURL: string;
+  let requests: ChatRequest[];
+  let reply: Reply;
+
+  const readBody = async (req: IncomingMessage): Promise<string> => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks).toString("utf-8");
+  };
+
+  const hits = (...ids: string[]) =>
+    ids.map(
+      (id) => new Document({ id, pageContent: `Content ${id}`, metadata: { url: id } }),
+    );
+  const ids = (documents: Document[]) => documents.map((document) => document.id);
+
+  beforeAll(async () => {
+    server = createServer(async (req, res) => {
+      requests.push(JSON.parse(await readBody(req)));
+      setTimeout(() => {
+        if (res.destroyed) {
+          return;
+        }
+        if (reply.status !== 200) {
+          res.writeHead(reply.status, { "Content-Type": "application/json" });
+          res.end(JSON.stringify({ error: { message: "boom" } }));
+          return;
+        }
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(
+          JSON.stringify({
+            choices: [{ message: { role: "assistant", content: reply.answer } }],
+          }),
+        );
+      }, reply.delay);
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    reply = { answer: "[1, 2, 3]", delay: 0, status: 200 };
+  });
+
+  test("should reorder the hits by the model's ratings", async () => {
+    reply.answer = "[2, 9, 5]";
+    const reranker = new LlmReranker({ model: "test-model", baseURL, apiKey: "key" });
+
+    const result = await reranker.rerank("query", hits("a", "b", "c"));
+
+    expect(ids(result)).toEqual(["b", "c", "a"]);
+    expect(result.map((document) => document.metadata.rerank_score)).toEqual([9, 5, 2]);
+    expect(requests).toHaveLength(1);
+    expect(requests[0].model).toBe("test-model");
+    expect(requests[0].temperature).toBe(0);
+    expect(requests[0].messages[1].content).toContain("Query: query");
+    expect(requests[0].messages[1].content).toContain("Passage 3:\nContent c");
+  });
+
+  test("should only send the top hits and keep the rest after them", async () => {
+    reply.answer = "Here are the ratings:\n```json\n[1, 4]\n```";
+    const reranker = new LlmReranker({ model: "test-model", baseURL, topN: 2 });
+
+    const result = await reranker.rerank("query", hits("a", "b", "c"));
+
+    expect(ids(result)).toEqual(["b", "a", "c"]);
+    expect(requests[0].messages[1].content).not.toContain("Content c");
+  });
+
+  test("should keep the hybrid order of equally rated hits", async () => {
+    reply.answer = "[5, 5, 7]";
+    const reranker = new LlmReranker({ model: "test-model", baseURL });
+
+    expect(ids(await reranker.rerank("query", hits("a", "b", "c")))).toEqual([
+      "c",
+      "a",
+      "b",
+    ]);
+  });
+
+  test.each([
+    ["an HTTP error", { status: 500 }],
+    ["a timeout", { delay: 500 }],
+    ["an answer without ratings", { answer: "Passage 2 is the best." }],
+    ["too few ratings", { answer: "[3, 1]" }],
+  ])("should keep the original order on %s", async (_, override: Partial<Reply>) => {
+    Object.assign(reply, override);
+    const reranker = new LlmReranker({ model: "test-model", baseURL, timeout: 100 });
+    const documents = hits("a", "b", "c");
+
+    const result = await reranker.rerank("query", documents);
+
+    expect(result).toBe(documents);
+  });
+
+  test("should not call the model for a single hit", async () => {
+    const reranker = new LlmReranker({ model: "test-model", baseURL });
+
+    expect(ids(await reranker.rerank("query", hits("a")))).toEqual(["a"]);
+    expect(requests).toHaveLength(0);
+  });
+
+  test("should only be created from the environment when a model is set", () => {
+    vi.stubEnv("DOCS_MCP_RERANK_MODEL", "");
+    expect(LlmReranker.fromEnv()).toBeUndefined();
+
+    vi.stubEnv("DOCS_MCP_RERANK_MODEL", "openai/gpt-4.1-mini");
+    expect(LlmReranker.fromEnv()?.model).toBe("openai/gpt-4.1-mini");
+    vi.unstubAllEnvs();
+  });
+});
@@ -0,0 +1,144 @@
+import type { Document } from "@langchain/core/documents";
+import { logger } from "../utils/logger";
+import { openrouterChat, readChatContent } from "../utils/openrouter";
+import type { Reranker } from "./types";
+
+/** Number of top hits sent to the model by default */
+const DEFAULT_TOP_N = 20;
+
+/** Default request timeout in milliseconds; re-ranking delays every search */
+const DEFAULT_TIMEOUT = 10_000;
+
+/** Passages are cut to this many characters to keep the prompt small */
+const MAX_PASSAGE_LENGTH = 1000;
+
+const SYSTEM_PROMPT =
+  "You rate how relevant documentation passages are to a search query, from 0 " +
+  "(unrelated) to 10 (answers the query directly). Respond only with a JSON array " +
+  "containing one number per passage, in the order of the passages.";
+
+export interface LlmRerankerOptions {
+  /** Chat model identifier, e.g. "openai/gpt-4.1-mini" */
+  model: string;
+  /** Base URL of the OpenAI-compatible API; defaults to `OPENAI_API_BASE` */
+  baseURL?: string;
+  /** Bearer token; defaults to `OPENAI_API_KEY` */
+  apiKey?: string;
+  /** Number of top hits to re-rank; the remaining hits keep their order after them */
+  topN?: number;
+  /** Request timeout in milliseconds */
+  timeout?: number;
+}
+
+/**
+ * Re-ranks search hits with a chat model served by OpenRouter or any other
+ * OpenAI-compatible endpoint. The model rates the top hits in a single request; they
+ * are reordered by that rating, ties keeping their hybrid order, and the rating is
+ * attached as `rerank_score` metadata. If the request fails, times out or the answer
+ * cannot be parsed, the hits are returned in their original order.
+ */
+export class LlmReranker implements Reranker {
+  readonly model: string;
+  private readonly baseURL?: string;
+  private readonly apiKey?: string;
+  private readonly topN: number;
+  private readonly timeout: number;
+
+  constructor(options: LlmRerankerOptions) {
+    this.model = options.model;
+    this.baseURL = options.baseURL?.replace(/\/+$/, "");
+    this.apiKey = options.apiKey;
+    this.topN = options.topN ?? DEFAULT_TOP_N;
+    this.timeout = options.timeout ?? DEFAULT_TIMEOUT;
+  }
+
+  /**
+   * Creates a reranker from `DOCS_MCP_RERANK_MODEL`, `DOCS_MCP_RERANK_TOP_N` and
+   * `DOCS_MCP_RERANK_TIMEOUT`, or returns undefined if no model is configured.
+   */
+  static fromEnv(): LlmReranker | undefined {
+    const model = process.env.DOCS_MCP_RERANK_MODEL?.trim();
+    if (!model) {
+      return undefined;
+    }
+    return new LlmReranker({
+      model,
+      topN: parsePositiveInt(process.env.DOCS_MCP_RERANK_TOP_N),
+      timeout: parsePositiveInt(process.env.DOCS_MCP_RERANK_TIMEOUT),
+    });
+  }
+
+  async rerank(query: string, documents: Document[]): Promise<Document[]> {
+    const candidates = documents.slice(0, this.topN);
+    if (candidates.length < 2) {
+      return documents;
+    }
+
+    try {
+      const scores = await this.scoreRelevance(query, candidates);
+      const reranked = candidates
+        .map((document, index) => ({ document, index, score: scores[index] }))
+        .sort((a, b) => b.score - a.score || a.index - b.index)
+        .map(({ document, score }) => ({
+          ...document,
+          metadata: { ...document.metadata, rerank_score: score },
+        }));
+      logger.debug(`🔀 Re-ranked ${candidates.length} hits with ${this.model}`);
+      return [...reranked, ...documents.slice(this.topN)];
+    } catch (error) {
+      logger.warn(
+        `⚠️ Re-ranking with ${this.model} failed, keeping the original order: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      );
+      return documents;
+    }
+  }
+
+  /**
+   * Asks the model to rate every document and returns the ratings in document order.
+   * @throws {Error} If the request fails or the answer is not one number per document
+   */
+  private async scoreRelevance(query: string, documents: Document[]): Promise<number[]> {
+    const passages = documents
+      .map(
+        (document, index) =>
+          `Passage ${index + 1}:\n${document.pageContent.slice(0, MAX_PASSAGE_LENGTH)}`,
+      )
+      .join("\n\n");
+    const response = await openrouterChat({
+      model: this.model,
+      baseURL: this.baseURL,
+      apiKey: this.apiKey,
+      timeout: this.timeout,
+      messages: [
+        { role: "system", content: SYSTEM_PROMPT },
+        { role: "user", content: `Query: ${query}\n\n${passages}` },
+      ],
+      extraBody: { temperature: 0 },
+    });
+    return parseScores(readChatContent(response), documents.length);
+  }
+}
+
+/**
+ * Reads the JSON array of ratings from the model's answer, which may be wrapped in
+ * prose or a code block.
+ */
+function parseScores(answer: string, count: number): number[] {
+  const array = answer.match(/\[[^[\]]*\]/)?.[0];
+  const scores: unknown = array ? JSON.parse(array) : undefined;
+  if (
+    !Array.isArray(scores) ||
+    scores.length !== count ||
+    !scores.every((score) => typeof score === "number" && Number.isFinite(score))
+  ) {
+    throw new Error(`expected a JSON array of ${count} numbers, got: ${answer}`);
+  }
+  return scores;
+}
+
+function parsePositiveInt(value: string | undefined): number | undefined {
+  const parsed = Number.parseInt(value ?? "", 10);
+  return parsed > 0 ? parsed : undefined;
+}
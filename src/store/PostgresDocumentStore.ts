@@ -0,0 +1,1380 @@
+import type { Document } from "@langchain/core/documents";
+import type { Embeddings } from "@langchain/core/embeddings";
+import pg from "pg";
+import type { DocumentMetadata } from "../types";
+import {
+  BaseDocumentStore,
+  REEMBED_BATCH_SIZE,
+  type RawSearchResult,
+  STAGING_LIBRARY_PREFIX,
+} from "./BaseDocumentStore";
+import { ConnectionError, EmbeddingModelMismatchError, StoreError } from "./errors";
+import { applyPostgresMigrations } from "./migrations";
+import {
+  type Bundle,
+  type BundleDocument,
+  type ConsistencyReport,
+  type DbDocument,
+  type DbVersionRecord,
+  type DbVersionStats,
+  type DocumentStorage,
+  type EmbeddingModelInfo,
+  type GarbageCollectionResult,
+  type MigrationResult,
+  type PageState,
+  type RankingOptions,
+  type RankingSettings,
+  type SearchFilters,
+  type StoreStats,
+  type VersionAlias,
+  type VersionProvenance,
+  type VersionRecord,
+  mapDbDocumentToDocument,
+  mapDbVersionRecord,
+  mapDbVersionStats,
+} from "./types";
+
+/**
+ * Columns selected for document rows. `metadata` is returned as text, so rows have the
+ * same shape as those of the SQLite store and can be mapped by `mapDbDocumentToDocument`.
+ */
+const DOCUMENT_COLUMNS =
+  "id::text AS id, library, version, url, content, metadata::text AS metadata, sort_order";
+
+/** Connection pool or a single pooled connection (e.g. inside a transaction) */
+type Queryable = pg.Pool | pg.PoolClient;
+
+/** Full-text configuration used for both the indexed `tsvector` and the queries */
+const FTS_CONFIG = "english";
+
+/** Matches chunks (alias `d`) that repeat an earlier chunk of the same page */
+const DUPLICATE_CHUNK_CONDITION = `EXISTS (
+  SELECT 1 FROM documents o
+  WHERE o.library = d.library AND o.version = d.version AND o.url = d.url
+    AND o.content IS NOT DISTINCT FROM d.content
+    AND o.metadata IS NOT DISTINCT FROM d.metadata
+    AND o.id < d.id
+)`;
+
+/**
+ * Manages document storage and retrieval using PostgreSQL with the pgvector extension.
+ * Vectors live in an `embedding` column of the documents table and full-text search uses
+ * a generated `tsvector` column, so a single table backs both legs of the hybrid search.
+ * Behaves like the SQLite `DocumentStore`, which lets several server instances share
+ * one index.
+ */
+export class PostgresDocumentStore extends BaseDocumentStore implements DocumentStorage {
+  private readonly pool: pg.Pool;
+
+  constructor(connectionString: string) {
+    super();
+    if (!connectionString) {
+      throw new StoreError("Missing required database connection string");
+    }
+
+    // The pool connects lazily on the first query
+    this.pool = new pg.Pool({ connectionString });
+  }
+
+  /**
+   * Runs a callback inside a transaction on a dedicated connection, committing when it
+   * resolves and rolling back when it throws.
+   */
+  private async transaction<T>(fn: (client: pg.PoolClient) => Promise<T>): Promise<T> {
+    const client = await this.pool.connect();
+    try {
+      await client.query("BEGIN");
+      const result = await fn(client);
+      await client.query("COMMIT");
+      return result;
+    } catch (error) {
+      await client.query("ROLLBACK");
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Translates search filters into SQL conditions on the documents table (alias `d`),
+   * each prefixed with `AND`. Placeholders are numbered from `firstParam` on.
+   */
+  private buildFilterClause(
+    firstParam: number,
+    filters: SearchFilters = {},
+  ): { sql: string; params: Array<string | number> } {
+    const conditions: string[] = [];
+    const params: Array<string | number> = [];
+    const next = (value: string | number) => {
+      params.push(value);
+      return `$${firstParam + params.length - 1}`;
+    };
+    if (filters.urlPrefix) {
+      conditions.push(`starts_with(d.url, ${next(filters.urlPrefix)})`);
+    }
+    if (filters.pathContains) {
+      conditions.push(
+        `strpos(lower(d.metadata->>'path'), lower(${next(filters.pathContains)})) > 0`,
+      );
+    }
+    if (filters.contentType) {
+      conditions.push(`(d.metadata->'types') ? ${next(filters.contentType)}`);
+    }
+    if (filters.minLevel !== undefined) {
+      conditions.push(`(d.metadata->>'level')::int >= ${next(filters.minLevel)}`);
+    }
+    return {
+      sql: conditions.map((condition) => `AND ${condition}`).join(" "),
+      params,
+    };
+  }
+
+  /**
+   * Retrieves the embedding model recorded for a library version, or null if the
+   * version has no vectors.
+   */
+  async getStoredEmbeddingModel(
+    library: string,
+    version: string,
+  ): Promise<EmbeddingModelInfo | null> {
+    try {
+      const result = await this.pool.query<EmbeddingModelInfo>(
+        "SELECT model, dimension FROM embedding_models WHERE library = $1 AND version = $2",
+        [library.toLowerCase(), version.toLowerCase()],
+      );
+      return result.rows[0] ?? null;
+    } catch (error) {
+      throw new ConnectionError("Failed to query embedding model", error);
+    }
+  }
+
+  /**
+   * Retrieves the ranking options configured for a library, or null if it uses the
+   * defaults.
+   */
+  async getRankingOptions(library: string): Promise<RankingOptions | null> {
+    try {
+      const result = await this.pool.query<{ options: RankingOptions }>(
+        "SELECT options FROM library_ranking WHERE library = $1",
+        [library.toLowerCase()],
+      );
+      return result.rows[0]?.options ?? null;
+    } catch (error) {
+      throw new ConnectionError("Failed to query ranking options", error);
+    }
+  }
+
+  /**
+   * Stores the ranking options of a library, replacing previous ones, or removes them
+   * when `options` is null so the library uses the defaults again.
+   */
+  async setRankingOptions(
+    library: string,
+    options: RankingOptions | null,
+  ): Promise<void> {
+    try {
+      if (options) {
+        await this.pool.query(
+          `INSERT INTO library_ranking (library, options) VALUES ($1, $2)
+           ON CONFLICT (library) DO UPDATE SET options = excluded.options, updated_at = now()`,
+          [library.toLowerCase(), JSON.stringify(options)],
+        );
+      } else {
+        await this.pool.query("DELETE FROM library_ranking WHERE library = $1", [
+          library.toLowerCase(),
+        ]);
+      }
+    } catch (error) {
+      throw new ConnectionError(`Failed to store ranking options of ${library}`, error);
+    }
+  }
+
+  /**
+   * Lists the version aliases of a library, or of all libraries if none is given.
+   */
+  async queryVersionAliases(library?: string): Promise<VersionAlias[]> {
+    try {
+      const result = library
+        ? await this.pool.query<VersionAlias>(
+            `SELECT library, alias, version FROM version_aliases
+             WHERE library = $1 ORDER BY alias`,
+            [library.toLowerCase()],
+          )
+        : await this.pool.query<VersionAlias>(
+            "SELECT library, alias, version FROM version_aliases ORDER BY library, alias",
+          );
+      return result.rows;
+    } catch (error) {
+      throw new ConnectionError("Failed to query version aliases", error);
+    }
+  }
+
+  /**
+   * Points an alias of a library at a version, replacing its previous target, or
+   * removes the alias when `version` is null.
+   */
+  async setVersionAlias(
+    library: string,
+    alias: string,
+    version: string | null,
+  ): Promise<void> {
+    try {
+      if (version !== null) {
+        await this.pool.query(
+          `INSERT INTO version_aliases (library, alias, version) VALUES ($1, $2, $3)
+           ON CONFLICT (library, alias) DO UPDATE SET version = excluded.version, updated_at = now()`,
+          [library.toLowerCase(), alias.toLowerCase(), version.toLowerCase()],
+        );
+      } else {
+        await this.pool.query(
+          "DELETE FROM version_aliases WHERE library = $1 AND alias = $2",
+          [library.toLowerCase(), alias.toLowerCase()],
+        );
+      }
+    } catch (error) {
+      throw new ConnectionError(
+        `Failed to store version alias ${alias} of ${library}`,
+        error,
+      );
+    }
+  }
+
+  /**
+   * Lists the registry entries of a library, or of all libraries if none is given.
+   */
+  async queryVersionRecords(library?: string): Promise<VersionRecord[]> {
+    try {
+      const result = library
+        ? await this.pool.query<DbVersionRecord>(
+            "SELECT * FROM library_versions WHERE library = $1 ORDER BY version",
+            [library.toLowerCase()],
+          )
+        : await this.pool.query<DbVersionRecord>(
+            "SELECT * FROM library_versions ORDER BY library, version",
+          );
+      return result.rows.map(mapDbVersionRecord);
+    } catch (error) {
+      throw new ConnectionError("Failed to query the version registry", error);
+    }
+  }
+
+  /**
+   * Records the provenance of an indexed version, replacing the previous entry but
+   * keeping its description if none is given, and counts its pages and chunks.
+   */
+  async saveVersionRecord(
+    library: string,
+    version: string,
+    provenance: VersionProvenance,
+  ): Promise<void> {
+    try {
+      await this.pool.query(
+        `INSERT INTO library_versions (
+           library, version, source_url, scraper_options, job_id, description,
+           started_at, finished_at, page_count, chunk_count
+         )
+         SELECT $1::text, $2::text, $3::text, $4::jsonb, $5::text, $6::text,
+           $7::timestamptz, $8::timestamptz, COUNT(DISTINCT url), COUNT(*)
+         FROM documents WHERE library = $1 AND version = $2
+         ON CONFLICT (library, version) DO UPDATE SET
+           source_url = excluded.source_url,
+           scraper_options = excluded.scraper_options,
+           job_id = excluded.job_id,
+           description = COALESCE(excluded.description, library_versions.description),
+           started_at = excluded.started_at,
+           finished_at = excluded.finished_at,
+           page_count = excluded.page_count,
+           chunk_count = excluded.chunk_count,
+           updated_at = now()`,
+        [
+          library.toLowerCase(),
+          version.toLowerCase(),
+          provenance.sourceUrl,
+          provenance.scraperOptions ? JSON.stringify(provenance.scraperOptions) : null,
+          provenance.jobId,
+          provenance.description,
+          provenance.startedAt,
+          provenance.finishedAt,
+        ],
+      );
+    } catch (error) {
+      throw new ConnectionError(
+        `Failed to register ${library}@${version || "[no version]"}`,
+        error,
+      );
+    }
+  }
+
+  /**
+   * Applies pending schema migrations, or only reports them when `dryRun` is set.
+   * Called by `initialize()`, but can also be used on its own (e.g. by the CLI)
+   * without initializing the embedding model.
+   * @throws {MigrationError} If a migration fails or the database schema is newer than supported
+   */
+  async migrate(options: { dryRun?: boolean } = {}): Promise<MigrationResult> {
+    const client = await this.pool.connect();
+    try {
+      return await applyPostgresMigrations(client, options);
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Initializes database connection and ensures readiness
+   */
+  async initialize(): Promise<void> {
+    try {
+      // 1. Bring the schema up to date (also verifies the connection)
+      await this.migrate();
+
+      // 2. Initialize embeddings client
+      await this.initializeEmbeddings();
+    } catch (error) {
+      // Re-throw StoreError directly, wrap others in ConnectionError
+      if (error instanceof StoreError) {
+        throw error;
+      }
+      throw new ConnectionError("Failed to initialize database connection", error);
+    }
+  }
+
+  /**
+   * Gracefully closes database connections
+   */
+  async shutdown(): Promise<void> {
+    await this.pool.end();
+  }
+
+  /**
+   * Retrieves all unique versions for a specific library
+   */
+  async queryUniqueVersions(library: string): Promise<string[]> {
+    try {
+      const result = await this.pool.query<Pick<DbDocument, "version">>(
+        "SELECT DISTINCT version FROM documents WHERE library = $1 ORDER BY version",
+        [library.toLowerCase()],
+      );
+      return result.rows.map((row) => row.version);
+    } catch (error) {
+      throw new ConnectionError("Failed to query versions", error);
+    }
+  }
+
+  /**
+   * Verifies existence of documents for a specific library version
+   */
+  async checkDocumentExists(library: string, version: string): Promise<boolean> {
+    try {
+      const result = await this.pool.query(
+        "SELECT id FROM documents WHERE library = $1 AND version = $2 LIMIT 1",
+        [library.toLowerCase(), version.toLowerCase()],
+      );
+      return result.rows.length > 0;
+    } catch (error) {
+      throw new ConnectionError("Failed to check document existence", error);
+    }
+  }
+
+  /**
+   * Collects the size and embedding coverage of every library version. The index date
+   * is the last update of a page state, or of the embedding model record for versions
+   * without page states.
+   */
+  async getStatistics(): Promise<StoreStats> {
+    try {
+      const versions = await this.pool.query<DbVersionStats>(
+        `SELECT d.library, d.version,
+           COUNT(DISTINCT d.url) AS pages,
+           COUNT(*) AS chunks,
+           SUM(length(d.content)) AS content_size,
+           COUNT(*) FILTER (WHERE d.embedding IS NULL) AS missing_embeddings,
+           COALESCE(
+             (SELECT MAX(p.updated_at) FROM pages p
+              WHERE p.library = d.library AND p.version = d.version),
+             (SELECT e.updated_at FROM embedding_models e
+              WHERE e.library = d.library AND e.version = d.version)
+           ) AS indexed_at
+         FROM documents d
+         WHERE NOT starts_with(d.library, $1)
+         GROUP BY d.library, d.version
+         ORDER BY d.library, d.version`,
+        [STAGING_LIBRARY_PREFIX],
+      );
+      return {
+        versions: versions.rows.map(mapDbVersionStats),
+        databaseSize: await this.getDatabaseSize(),
+      };
+    } catch (error) {
+      throw new ConnectionError("Failed to collect store statistics", error);
+    }
+  }
+
+  /**
+   * Reports duplicate chunks. Vectors are stored in the document rows and the full-text
+   * vector is a generated column, so neither can drift from the documents.
+   */
+  async checkConsistency(): Promise<ConsistencyReport> {
+    try {
+      const result = await this.pool.query<{ count: string }>(
+        `SELECT COUNT(*) AS count FROM documents d WHERE ${DUPLICATE_CHUNK_CONDITION}`,
+      );
+      return {
+        orphanedVectors: 0,
+        ftsDrift: 0,
+        duplicateChunks: Number(result.rows[0].count),
+      };
+    } catch (error) {
+      throw new ConnectionError("Failed to check store consistency", error);
+    }
+  }
+
+  /**
+   * Removes duplicate chunks, then reclaims dead rows and refreshes the query planner
+   * statistics with `VACUUM ANALYZE`, which cannot run inside a transaction.
+   */
+  async collectGarbage(): Promise<GarbageCollectionResult> {
+    try {
+      const sizeBefore = await this.getDatabaseSize();
+      const result = await this.pool.query(
+        `DELETE FROM documents d WHERE ${DUPLICATE_CHUNK_CONDITION}`,
+      );
+      await this.pool.query("VACUUM ANALYZE documents");
+      return {
+        repaired: {
+          orphanedVectors: 0,
+          ftsDrift: 0,
+          duplicateChunks: result.rowCount ?? 0,
+        },
+        sizeBefore,
+        sizeAfter: await this.getDatabaseSize(),
+      };
+    } catch (error) {
+      throw new ConnectionError("Failed to collect garbage", error);
+    }
+  }
+
+  private async getDatabaseSize(): Promise<number> {
+    const result = await this.pool.query<{ size: string }>(
+      "SELECT pg_database_size(current_database()) AS size",
+    );
+    return Number(result.rows[0].size);
+  }
+
+  /**
+   * Retrieves a mapping of all libraries to their available versions
+   */
+  async queryLibraryVersions(): Promise<Map<string, Set<string>>> {
+    try {
+      const result = await this.pool.query<{ library: string; version: string }>(
+        `SELECT DISTINCT library, version FROM documents
+         WHERE NOT starts_with(library, $1)
+         ORDER BY library, version`,
+        [STAGING_LIBRARY_PREFIX],
+      );
+      const libraryMap = new Map<string, Set<string>>();
+      for (const { library, version } of result.rows) {
+        if (!libraryMap.has(library)) {
+          libraryMap.set(library, new Set());
+        }
+        libraryMap.get(library)?.add(version);
+      }
+      return libraryMap;
+    } catch (error) {
+      throw new ConnectionError("Failed to query library versions", error);
+    }
+  }
+
+  /**
+   * Stores documents with library and version metadata, generating embeddings
+   * for vector similarity search. In full-text-only mode the embedding column is
+   * left empty and documents are only indexed for full-text search.
+   * @throws {EmbeddingModelMismatchError} If the version already holds vectors of another model
+   */
+  async addDocuments(
+    library: string,
+    version: string,
+    documents: Document[],
+  ): Promise<void> {
+    try {
+      // Generate embeddings in batch
+      const paddedEmbeddings = await this.embedDocuments(library, version, documents);
+
+      await this.transaction((client) =>
+        this.insertDocuments(client, library, version, documents, paddedEmbeddings),
+      );
+    } catch (error) {
+      if (error instanceof EmbeddingModelMismatchError) {
+        throw error;
+      }
+      throw new ConnectionError("Failed to add documents to store", error);
+    }
+  }
+
+  /**
+   * Inserts documents with their vectors and records the embedding model of the
+   * version, on a client inside a transaction.
+   */
+  private async insertDocuments(
+    client: pg.PoolClient,
+    library: string,
+    version: string,
+    documents: Document[],
+    paddedEmbeddings: number[][] | null,
+  ): Promise<void> {
+    for (let i = 0; i < documents.length; i++) {
+      const doc = documents[i];
+      const url = doc.metadata.url as string;
+      if (!url || typeof url !== "string" || !url.trim()) {
+        throw new StoreError("Document metadata must include a valid URL");
+      }
+
+      await client.query(
+        `INSERT INTO documents (library, version, url, content, metadata, sort_order, embedding)
+         VALUES ($1, $2, $3, $4, $5, $6, $7::vector)`,
+        [
+          library.toLowerCase(),
+          version.toLowerCase(),
+          url,
+          doc.pageContent,
+          JSON.stringify(doc.metadata),
+          i,
+          paddedEmbeddings ? JSON.stringify(paddedEmbeddings[i]) : null,
+        ],
+      );
+    }
+
+    // Record which model produced the vectors of this version
+    if (paddedEmbeddings && this.modelName) {
+      await this.upsertEmbeddingModel(
+        client,
+        library.toLowerCase(),
+        version.toLowerCase(),
+        { model: this.modelName, dimension: this.modelDimension },
+      );
+    }
+  }
+
+  /**
+   * Removes documents matching specified library and version, together with their page
+   * states, embedding model record, registry entry and the aliases pointing at the
+   * version
+   * @returns Number of documents deleted
+   */
+  async deleteDocuments(library: string, version: string): Promise<number> {
+    try {
+      const normalizedLibrary = library.toLowerCase();
+      const normalizedVersion = version.toLowerCase();
+      return await this.transaction(async (client) => {
+        const count = await this.deleteVersion(
+          client,
+          normalizedLibrary,
+          normalizedVersion,
+        );
+        await client.query(
+          "DELETE FROM library_versions WHERE library = $1 AND version = $2",
+          [normalizedLibrary, normalizedVersion],
+        );
+        await client.query(
+          "DELETE FROM version_aliases WHERE library = $1 AND version = $2",
+          [normalizedLibrary, normalizedVersion],
+        );
+        return count;
+      });
+    } catch (error) {
+      throw new ConnectionError("Failed to delete documents", error);
+    }
+  }
+
+  /**
+   * Replaces the documents of a library version with the ones staged under
+   * `stagingLibrary`, together with their page states and embedding model record.
+   * Runs in a single transaction, so searches see either the old or the new
+   * documents. Nothing is changed if the staging area is empty.
+   * @returns Number of documents swapped in
+   */
+  async swapStagedDocuments(
+    stagingLibrary: string,
+    library: string,
+    version: string,
+  ): Promise<number> {
+    this.assertStagingLibrary(stagingLibrary);
+    try {
+      const liveLibrary = library.toLowerCase();
+      const normalizedVersion = version.toLowerCase();
+      return await this.transaction(async (client) => {
+        const { rows } = await client.query<{ count: string }>(
+          "SELECT COUNT(*) AS count FROM documents WHERE library = $1 AND version = $2",
+          [stagingLibrary, normalizedVersion],
+        );
+        const count = Number(rows[0].count);
+        if (count === 0) {
+          return 0;
+        }
+
+        await this.deleteVersion(client, liveLibrary, normalizedVersion);
+        for (const table of ["documents", "embedding_models", "pages"]) {
+          await client.query(
+            `UPDATE ${table} SET library = $1 WHERE library = $2 AND version = $3`,
+            [liveLibrary, stagingLibrary, normalizedVersion],
+          );
+        }
+        return count;
+      });
+    } catch (error) {
+      throw new ConnectionError(
+        `Failed to swap staged documents into ${library}@${version}`,
+        error,
+      );
+    }
+  }
+
+  /**
+   * Removes everything staged under `stagingLibrary` for a version, e.g. after the
+   * job that staged it failed or was cancelled.
+   * @returns Number of documents deleted
+   */
+  async deleteStagedDocuments(stagingLibrary: string, version: string): Promise<number> {
+    this.assertStagingLibrary(stagingLibrary);
+    try {
+      return await this.transaction((client) =>
+        this.deleteVersion(client, stagingLibrary, version.toLowerCase()),
+      );
+    } catch (error) {
+      throw new ConnectionError("Failed to delete staged documents", error);
+    }
+  }
+
+  /**
+   * Deletes the documents, embedding model record and page states of a version.
+   * Expects normalized keys.
+   * @returns Number of documents deleted
+   */
+  private async deleteVersion(
+    client: pg.PoolClient,
+    library: string,
+    version: string,
+  ): Promise<number> {
+    const result = await client.query(
+      "DELETE FROM documents WHERE library = $1 AND version = $2",
+      [library, version],
+    );
+    await client.query(
+      "DELETE FROM embedding_models WHERE library = $1 AND version = $2",
+      [library, version],
+    );
+    await client.query("DELETE FROM pages WHERE library = $1 AND version = $2", [
+      library,
+      version,
+    ]);
+    return result.rowCount ?? 0;
+  }
+
+  /**
+   * Records which model produced the vectors of a version. Expects normalized keys.
+   */
+  private async upsertEmbeddingModel(
+    client: Queryable,
+    library: string,
+    version: string,
+    model: EmbeddingModelInfo,
+  ): Promise<void> {
+    await client.query(
+      `INSERT INTO embedding_models (library, version, model, dimension)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (library, version) DO UPDATE SET
+         model = excluded.model,
+         dimension = excluded.dimension,
+         updated_at = now()`,
+      [library, version, model.model, model.dimension],
+    );
+  }
+
+  /**
+   * Records or updates the state of a scraped page. Expects normalized keys.
+   */
+  private async upsertPage(
+    client: Queryable,
+    library: string,
+    version: string,
+    page: PageState,
+  ): Promise<void> {
+    await client.query(
+      `INSERT INTO pages (library, version, url, content_hash, etag, last_modified, links)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       ON CONFLICT (library, version, url) DO UPDATE SET
+         content_hash = excluded.content_hash,
+         etag = excluded.etag,
+         last_modified = excluded.last_modified,
+         links = excluded.links,
+         updated_at = now()`,
+      [
+        library,
+        version,
+        page.url,
+        page.contentHash,
+        page.etag ?? null,
+        page.lastModified ?? null,
+        JSON.stringify(page.links),
+      ],
+    );
+  }
+
+  /**
+   * Replaces all chunks of a single page with new ones and records its new state. The
+   * new chunks are embedded first; removing the old chunks, inserting the new ones and
+   * updating the page state then happen in a single transaction, so the old chunks
+   * stay searchable until the replacement is stored, and remain if embedding fails.
+   * @returns Number of old documents replaced
+   * @throws {EmbeddingModelMismatchError} If the version already holds vectors of another model
+   */
+  async replacePage(
+    library: string,
+    version: string,
+    documents: Document[],
+    page: PageState,
+  ): Promise<number> {
+    try {
+      const paddedEmbeddings = await this.embedDocuments(library, version, documents);
+
+      const normalizedLibrary = library.toLowerCase();
+      const normalizedVersion = version.toLowerCase();
+      return await this.transaction(async (client) => {
+        const result = await client.query(
+          "DELETE FROM documents WHERE library = $1 AND version = $2 AND url = $3",
+          [normalizedLibrary, normalizedVersion, page.url],
+        );
+        await this.insertDocuments(client, library, version, documents, paddedEmbeddings);
+        await this.upsertPage(client, normalizedLibrary, normalizedVersion, page);
+        return result.rowCount ?? 0;
+      });
+    } catch (error) {
+      if (error instanceof EmbeddingModelMismatchError) {
+        throw error;
+      }
+      throw new ConnectionError(`Failed to replace page ${page.url}`, error);
+    }
+  }
+
+  /**
+   * Removes all chunks of a single page, including their vectors, together with the
+   * stored page state.
+   * @returns Number of documents deleted
+   */
+  async deletePage(library: string, version: string, url: string): Promise<number> {
+    try {
+      const args = [library.toLowerCase(), version.toLowerCase(), url];
+      return await this.transaction(async (client) => {
+        const result = await client.query(
+          "DELETE FROM documents WHERE library = $1 AND version = $2 AND url = $3",
+          args,
+        );
+        await client.query(
+          "DELETE FROM pages WHERE library = $1 AND version = $2 AND url = $3",
+          args,
+        );
+        return result.rowCount ?? 0;
+      });
+    } catch (error) {
+      throw new ConnectionError(`Failed to delete page ${url}`, error);
+    }
+  }
+
+  /**
+   * Retrieves the URLs of all pages stored for a library version, including pages
+   * indexed before page states were recorded.
+   */
+  async queryUrls(library: string, version: string): Promise<string[]> {
+    try {
+      const result = await this.pool.query<{ url: string }>(
+        `SELECT url FROM documents WHERE library = $1 AND version = $2
+         UNION
+         SELECT url FROM pages WHERE library = $1 AND version = $2`,
+        [library.toLowerCase(), version.toLowerCase()],
+      );
+      return result.rows.map((row) => row.url);
+    } catch (error) {
+      throw new ConnectionError("Failed to query page URLs", error);
+    }
+  }
+
+  /**
+   * Retrieves the recorded state of every scraped page of a library version, keyed by URL.
+   */
+  async getPageStates(library: string, version: string): Promise<Map<string, PageState>> {
+    try {
+      const result = await this.pool.query<{
+        url: string;
+        content_hash: string;
+        etag: string | null;
+        last_modified: string | null;
+        links: string[];
+      }>(
+        "SELECT url, content_hash, etag, last_modified, links FROM pages WHERE library = $1 AND version = $2",
+        [library.toLowerCase(), version.toLowerCase()],
+      );
+      return new Map(
+        result.rows.map((row) => [
+          row.url,
+          {
+            url: row.url,
+            contentHash: row.content_hash,
+            etag: row.etag ?? undefined,
+            lastModified: row.last_modified ?? undefined,
+            links: row.links,
+          },
+        ]),
+      );
+    } catch (error) {
+      throw new ConnectionError("Failed to query page states", error);
+    }
+  }
+
+  /**
+   * Records or updates the state of a scraped page.
+   */
+  async upsertPageState(
+    library: string,
+    version: string,
+    page: PageState,
+  ): Promise<void> {
+    try {
+      await this.upsertPage(
+        this.pool,
+        library.toLowerCase(),
+        version.toLowerCase(),
+        page,
+      );
+    } catch (error) {
+      throw new ConnectionError(`Failed to store page state for ${page.url}`, error);
+    }
+  }
+
+  /**
+   * Collects everything stored for a library version into a portable bundle: the
+   * documents with their sort order and unpadded vectors, the embedding model record
+   * and the page states.
+   */
+  async exportDocuments(library: string, version: string): Promise<Bundle> {
+    try {
+      const args = [library.toLowerCase(), version.toLowerCase()] as const;
+      const embeddingModel = await this.getStoredEmbeddingModel(...args);
+      const result = await this.pool.query<
+        Pick<DbDocument, "url" | "content" | "metadata" | "sort_order"> & {
+          embedding: string | null;
+        }
+      >(
+        `SELECT url, content, metadata::text AS metadata, sort_order, embedding::text AS embedding
+         FROM documents WHERE library = $1 AND version = $2 ORDER BY id`,
+        [...args],
+      );
+
+      const documents = result.rows.map(
+        (row): BundleDocument => ({
+          url: row.url,
+          content: row.content,
+          metadata: JSON.parse(row.metadata),
+          sortOrder: row.sort_order,
+          embedding:
+            row.embedding && embeddingModel
+              ? (JSON.parse(row.embedding) as number[]).slice(0, embeddingModel.dimension)
+              : null,
+        }),
+      );
+
+      return {
+        library: args[0],
+        version: args[1],
+        createdAt: new Date().toISOString(),
+        embeddingModel,
+        documents,
+        pages: Array.from((await this.getPageStates(...args)).values()),
+      };
+    } catch (error) {
+      throw new ConnectionError(`Failed to export ${library}@${version}`, error);
+    }
+  }
+
+  /**
+   * Stores the contents of a bundle as its library version in a single transaction,
+   * replacing any documents already indexed for it. Vectors are imported as they are,
+   * so a bundle embedded with a different model than the configured one is rejected.
+   * In full-text-only mode any bundle is accepted.
+   * @returns Number of documents imported
+   * @throws {BundleError} If the bundle was embedded with a different model
+   */
+  async importDocuments(bundle: Bundle): Promise<number> {
+    this.assertImportableBundle(bundle);
+    const { embeddingModel } = bundle;
+
+    try {
+      const library = bundle.library.toLowerCase();
+      const version = bundle.version.toLowerCase();
+      await this.transaction(async (client) => {
+        await this.deleteVersion(client, library, version);
+
+        for (const doc of bundle.documents) {
+          await client.query(
+            `INSERT INTO documents (library, version, url, content, metadata, sort_order, embedding)
+             VALUES ($1, $2, $3, $4, $5, $6, $7::vector)`,
+            [
+              library,
+              version,
+              doc.url,
+              doc.content,
+              JSON.stringify(doc.metadata),
+              doc.sortOrder,
+              doc.embedding ? JSON.stringify(this.padVector(doc.embedding)) : null,
+            ],
+          );
+        }
+
+        if (embeddingModel) {
+          await this.upsertEmbeddingModel(client, library, version, embeddingModel);
+        }
+        for (const page of bundle.pages) {
+          await this.upsertPage(client, library, version, page);
+        }
+      });
+      return bundle.documents.length;
+    } catch (error) {
+      throw new ConnectionError(
+        `Failed to import ${bundle.library}@${bundle.version || "[no version]"}`,
+        error,
+      );
+    }
+  }
+
+  /**
+   * Retrieves a document by its ID.
+   * @param id The ID of the document.
+   * @returns The document, or null if not found.
+   */
+  async getById(id: string): Promise<Document | null> {
+    try {
+      const result = await this.pool.query<DbDocument>(
+        `SELECT ${DOCUMENT_COLUMNS} FROM documents WHERE id = $1`,
+        [id],
+      );
+      const row = result.rows[0];
+      return row ? mapDbDocumentToDocument(row) : null;
+    } catch (error) {
+      throw new ConnectionError(`Failed to get document by ID ${id}`, error);
+    }
+  }
+
+  /**
+   * Lists all chunks of a library version without their vectors, ordered by page URL
+   * and position within the page.
+   */
+  async queryDocuments(library: string, version: string): Promise<Document[]> {
+    try {
+      const result = await this.pool.query<DbDocument>(
+        `SELECT ${DOCUMENT_COLUMNS} FROM documents
+         WHERE library = $1 AND version = $2
+         ORDER BY url, sort_order, id`,
+        [library.toLowerCase(), version.toLowerCase()],
+      );
+      return result.rows.map((row) => mapDbDocumentToDocument(row));
+    } catch (error) {
+      throw new ConnectionError(
+        `Failed to query documents of ${library}@${version || "[no version]"}`,
+        error,
+      );
+    }
+  }
+
+  /**
+   * Finds documents matching a text query using hybrid search.
+   * Combines vector similarity search with full-text search using Reciprocal Rank Fusion.
+   * Without an embedding model, or when the stored vectors were produced by a different
+   * model than the configured one, results are ranked purely by full-text relevance.
+   * Filters restrict both legs of the search before ranking. The ranking options
+   * override those configured for the library.
+   */
+  async findByContent(
+    library: string,
+    version: string,
+    query: string,
+    limit: number,
+    filters?: SearchFilters,
+    ranking?: RankingOptions,
+  ): Promise<Document[]> {
+    try {
+      const useVectors =
+        this.embeddings !== null && (await this.hasCompatibleVectors(library, version));
+      const settings = await this.resolveRanking(library, ranking);
+      const rawResults =
+        this.embeddings && useVectors
+          ? await this.queryHybrid(
+              this.embeddings,
+              library,
+              version,
+              query,
+              limit,
+              settings,
+              filters,
+            )
+          : await this.queryFullText(library, version, query, limit, settings, filters);
+
+      return this.rankResults(rawResults, limit, settings);
+    } catch (error) {
+      throw new ConnectionError(
+        `Failed to find documents by content with query "${query}"`,
+        error,
+      );
+    }
+  }
+
+  /**
+   * Runs the vector and full-text legs of a hybrid search in a single query. Like the
+   * FTS5 query of the SQLite store, the text is matched as a phrase, so operators in the
+   * user query are treated literally. The vector score is the cosine distance, which the
+   * HNSW index on `documents.embedding` serves. The full-text score is the negated
+   * `ts_rank_cd`, so that lower is better for both legs.
+   */
+  private async queryHybrid(
+    embeddings: Embeddings,
+    library: string,
+    version: string,
+    query: string,
+    limit: number,
+    ranking: RankingSettings,
+    filters?: SearchFilters,
+  ): Promise<RawSearchResult[]> {
+    const rawEmbedding = await embeddings.embedQuery(query);
+    const embedding = this.padVector(rawEmbedding);
+    const filter = this.buildFilterClause(7, filters);
+
+    const result = await this.pool.query<RawSearchResult>(
+      `
+      WITH vec_scores AS (
+        SELECT d.id, d.embedding <=> $3::vector AS vec_score
+        FROM documents d
+        WHERE d.library = $1
+          AND d.version = $2
+          AND d.embedding IS NOT NULL
+          ${filter.sql}
+        ORDER BY vec_score
+        LIMIT $4
+      ),
+      fts_scores AS (
+        SELECT d.id, -ts_rank_cd($6::float4[], d.fts, q) AS fts_score
+        FROM documents d, phraseto_tsquery('${FTS_CONFIG}', $5) q
+        WHERE d.library = $1
+          AND d.version = $2
+          AND d.fts @@ q
+          ${filter.sql}
+        ORDER BY fts_score
+        LIMIT $4
+      )
+      SELECT
+        d.id::text AS id,
+        d.content,
+        d.metadata::text AS metadata,
+        d.sort_order,
+        v.vec_score,
+        f.fts_score
+      FROM documents d
+      LEFT JOIN vec_scores v ON d.id = v.id
+      LEFT JOIN fts_scores f ON d.id = f.id
+      WHERE v.id IS NOT NULL OR f.id IS NOT NULL
+    `,
+      [
+        library.toLowerCase(),
+        version.toLowerCase(),
+        JSON.stringify(embedding),
+        limit,
+        query,
+        this.rankWeights(ranking),
+        ...filter.params,
+      ],
+    );
+    return result.rows;
+  }
+
+  /**
+   * Runs a keyword-only search, used when no embedding model is configured.
+   */
+  private async queryFullText(
+    library: string,
+    version: string,
+    query: string,
+    limit: number,
+    ranking: RankingSettings,
+    filters?: SearchFilters,
+  ): Promise<RawSearchResult[]> {
+    const filter = this.buildFilterClause(6, filters);
+    const result = await this.pool.query<RawSearchResult>(
+      `
+      SELECT
+        d.id::text AS id,
+        d.content,
+        d.metadata::text AS metadata,
+        d.sort_order,
+        NULL AS vec_score,
+        -ts_rank_cd($5::float4[], d.fts, q) AS fts_score
+      FROM documents d, phraseto_tsquery('${FTS_CONFIG}', $3) q
+      WHERE d.library = $1
+        AND d.version = $2
+        AND d.fts @@ q
+        ${filter.sql}
+      ORDER BY fts_score
+      LIMIT $4
+    `,
+      [
+        library.toLowerCase(),
+        version.toLowerCase(),
+        query,
+        limit,
+        this.rankWeights(ranking),
+        ...filter.params,
+      ],
+    );
+    return result.rows;
+  }
+
+  /**
+   * Translates the BM25 column weights into the `{D, C, B, A}` weight array of
+   * `ts_rank_cd`, which only accepts values up to 1: content is weighted as A, the URL
+   * as B, and title and heading path share D, which gets the higher of their weights.
+   */
+  private rankWeights(ranking: RankingSettings): number[] {
+    const { content, title, url, path } = ranking.bm25Weights;
+    const weights = [Math.max(title, path), 0, url, content];
+    const max = Math.max(...weights) || 1;
+    return weights.map((weight) => weight / max);
+  }
+
+  /**
+   * Regenerates the vectors of a library version from the stored chunk content using
+   * the configured embedding model, without re-scraping. Documents are processed in
+   * batches, each written in its own transaction; the model record is only updated
+   * after all batches succeeded, so an interrupted run can simply be repeated.
+   * @returns Number of documents re-embedded
+   */
+  async reembedDocuments(
+    library: string,
+    version: string,
+    onProgress?: (processed: number, total: number) => void,
+  ): Promise<number> {
+    const { embeddings, modelName } = this.requireEmbeddings();
+
+    try {
+      const args = [library.toLowerCase(), version.toLowerCase()];
+      const { rows } = await this.pool.query<
+        Pick<DbDocument, "id" | "content" | "metadata">
+      >(
+        "SELECT id::text AS id, content, metadata::text AS metadata FROM documents WHERE library = $1 AND version = $2 ORDER BY id",
+        args,
+      );
+
+      for (let start = 0; start < rows.length; start += REEMBED_BATCH_SIZE) {
+        const batch = rows.slice(start, start + REEMBED_BATCH_SIZE);
+        const texts = batch.map((row) =>
+          this.formatEmbeddingText(row.content, JSON.parse(row.metadata)),
+        );
+        const rawEmbeddings = await embeddings.embedDocuments(texts);
+        await this.transaction(async (client) => {
+          for (let i = 0; i < batch.length; i++) {
+            await client.query(
+              "UPDATE documents SET embedding = $1::vector WHERE id = $2",
+              [JSON.stringify(this.padVector(rawEmbeddings[i])), batch[i].id],
+            );
+          }
+        });
+        onProgress?.(start + batch.length, rows.length);
+      }
+
+      if (rows.length > 0) {
+        await this.upsertEmbeddingModel(this.pool, args[0], args[1], {
+          model: modelName,
+          dimension: this.modelDimension,
+        });
+      }
+      return rows.length;
+    } catch (error) {
+      throw new ConnectionError(
+        `Failed to re-embed documents for ${library}@${version || "[no version]"}`,
+        error,
+      );
+    }
+  }
+
+  /**
+   * Finds child chunks of a given document based on path hierarchy.
+   */
+  async findChildChunks(
+    library: string,
+    version: string,
+    id: string,
+    limit: number,
+  ): Promise<Document[]> {
+    try {
+      const parent = await this.getById(id);
+      if (!parent) {
+        return [];
+      }
+
+      const parentPath = (parent.metadata as DocumentMetadata).path ?? [];
+      const parentUrl = (parent.metadata as DocumentMetadata).url;
+
+      const result = await this.pool.query<DbDocument>(
+        `SELECT ${DOCUMENT_COLUMNS} FROM documents
+         WHERE library = $1
+           AND version = $2
+           AND url = $3
+           AND jsonb_array_length(metadata->'path') = $4
+           AND (ARRAY(SELECT jsonb_array_elements_text(metadata->'path')))[1:$4 - 1] = $5::text[]
+         ORDER BY sort_order
+         LIMIT $6`,
+        [
+          library.toLowerCase(),
+          version.toLowerCase(),
+          parentUrl,
+          parentPath.length + 1,
+          parentPath,
+          limit,
+        ],
+      );
+
+      return result.rows.map((row) => mapDbDocumentToDocument(row));
+    } catch (error) {
+      throw new ConnectionError(`Failed to find child chunks for ID ${id}`, error);
+    }
+  }
+
+  /**
+   * Finds preceding sibling chunks of a given document.
+   */
+  async findPrecedingSiblingChunks(
+    library: string,
+    version: string,
+    id: string,
+    limit: number,
+  ): Promise<Document[]> {
+    try {
+      const reference = await this.getById(id);
+      if (!reference) {
+        return [];
+      }
+
+      const refMetadata = reference.metadata as DocumentMetadata;
+
+      const result = await this.pool.query<DbDocument>(
+        `SELECT ${DOCUMENT_COLUMNS} FROM documents
+         WHERE library = $1
+           AND version = $2
+           AND url = $3
+           AND sort_order < (SELECT sort_order FROM documents WHERE id = $4)
+           AND metadata->'path' = $5::jsonb
+         ORDER BY sort_order DESC
+         LIMIT $6`,
+        [
+          library.toLowerCase(),
+          version.toLowerCase(),
+          refMetadata.url,
+          id,
+          JSON.stringify(refMetadata.path),
+          limit,
+        ],
+      );
+
+      return result.rows.reverse().map((row) => mapDbDocumentToDocument(row));
+    } catch (error) {
+      throw new ConnectionError(
+        `Failed to find preceding sibling chunks for ID ${id}`,
+        error,
+      );
+    }
+  }
+
+  /**
+   * Finds subsequent sibling chunks of a given document.
+   */
+  async findSubsequentSiblingChunks(
+    library: string,
+    version: string,
+    id: string,
+    limit: number,
+  ): Promise<Document[]> {
+    try {
+      const reference = await this.getById(id);
+      if (!reference) {
+        return [];
+      }
+
+      const refMetadata = reference.metadata as DocumentMetadata;
+
+      const result = await this.pool.query<DbDocument>(
+        `SELECT ${DOCUMENT_COLUMNS} FROM documents
+         WHERE library = $1
+           AND version = $2
+           AND url = $3
+           AND sort_order > (SELECT sort_order FROM documents WHERE id = $4)
+           AND metadata->'path' = $5::jsonb
+         ORDER BY sort_order
+         LIMIT $6`,
+        [
+          library.toLowerCase(),
+          version.toLowerCase(),
+          refMetadata.url,
+          id,
+          JSON.stringify(refMetadata.path),
+          limit,
+        ],
+      );
+
+      return result.rows.map((row) => mapDbDocumentToDocument(row));
+    } catch (error) {
+      throw new ConnectionError(
+        `Failed to find subsequent sibling chunks for ID ${id}`,
+        error,
+      );
+    }
+  }
+
+  /**
+   * Finds the parent chunk of a given document.
+   */
+  async findParentChunk(
+    library: string,
+    version: string,
+    id: string,
+  ): Promise<Document | null> {
+    try {
+      const child = await this.getById(id);
+      if (!child) {
+        return null;
+      }
+
+      const childMetadata = child.metadata as DocumentMetadata;
+      const path = childMetadata.path ?? [];
+      const parentPath = path.slice(0, -1);
+
+      if (parentPath.length === 0) {
+        return null;
+      }
+
+      const result = await this.pool.query<DbDocument>(
+        `SELECT ${DOCUMENT_COLUMNS} FROM documents
+         WHERE library = $1
+           AND version = $2
+           AND url = $3
+           AND metadata->'path' = $4::jsonb
+         LIMIT 1`,
+        [
+          library.toLowerCase(),
+          version.toLowerCase(),
+          childMetadata.url,
+          JSON.stringify(parentPath),
+        ],
+      );
+
+      const row = result.rows[0];
+      return row ? mapDbDocumentToDocument(row) : null;
+    } catch (error) {
+      throw new ConnectionError(`Failed to find parent chunk for ID ${id}`, error);
+    }
+  }
+}
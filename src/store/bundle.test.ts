@@ -0,0 +1,129 @@
+// @vitest-environment node
+import { createHash } from "node:crypto";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { gunzipSync, gzipSync } from "node:zlib";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { BUNDLE_FORMAT_VERSION, readBundle, writeBundle } from "./bundle";
+import { BundleError } from "./errors";
+import type { Bundle } from "./types";
+
+const bundle: Bundle = {
+  library: "react",
+  version: "18.2.0",
+  createdAt: "2025-01-01T00:00:00.000Z",
+  embeddingModel: { model: "local:hash", dimension: 3 },
+  documents: [
+    {
+      url: "https://react.dev/learn",
+      content: "Quick start",
+      metadata: {
+        url: "https://react.dev/learn",
+        title: "Quick Start",
+        library: "react",
+        version: "18.2.0",
+        level: 1,
+        path: ["Quick Start"],
+      },
+      sortOrder: 0,
+      embedding: [0.5, -0.25, 0.125],
+    },
+    {
+      url: "https://react.dev/learn",
+      content: "Components",
+      metadata: {
+        url: "https://react.dev/learn",
+        title: "Quick Start",
+        library: "react",
+        version: "18.2.0",
+      },
+      sortOrder: 1,
+      embedding: null,
+    },
+  ],
+  pages: [
+    {
+      url: "https://react.dev/learn",
+      contentHash: "abc",
+      etag: '"v1"',
+      links: ["https://react.dev/reference"],
+    },
+  ],
+};
+
+describe("bundle", () => {
+  let dir: string;
+  let file: string;
+
+  /** Rewrites the decompressed bundle text without updating its checksum */
+  const tamper = (edit: (text: string) => string) => {
+    const text = gunzipSync(readFileSync(file)).toString("utf-8");
+    writeFileSync(file, gzipSync(edit(text)));
+  };
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), "docs-mcp-bundle-"));
+    file = path.join(dir, "react.bundle");
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should round-trip documents, vectors, model info and pages", async () => {
+    await writeBundle(file, bundle);
+
+    expect(await readBundle(file)).toEqual(bundle);
+  });
+
+  it("should reject a bundle whose content was modified", async () => {
+    await writeBundle(file, bundle);
+    tamper((text) => text.replace("Components", "Tampered"));
+
+    await expect(readBundle(file)).rejects.toThrow(/integrity check/);
+  });
+
+  it("should reject a truncated bundle", async () => {
+    await writeBundle(file, bundle);
+    tamper((text) => text.split("\n").slice(0, 2).join("\n"));
+
+    await expect(readBundle(file)).rejects.toThrow(BundleError);
+  });
+
+  it("should reject files that are not bundles", async () => {
+    writeFileSync(file, "plain text");
+
+    await expect(readBundle(file)).rejects.toThrow(/Failed to read bundle/);
+  });
+
+  it("should reject bundles written by a newer format version", async () => {
+    await writeBundle(file, bundle);
+    const text = gunzipSync(readFileSync(file)).toString("utf-8");
+    const [header] = text.split("\n");
+    const newer = JSON.stringify({
+      ...JSON.parse(header),
+      formatVersion: BUNDLE_FORMAT_VERSION + 1,
+    });
+    // Re-create the bundle with a valid checksum around the newer header
+    const lines = text.split("\n").filter(Boolean).slice(0, -1);
+    lines[0] = newer;
+    const body = lines.map((line) => `${line}\n`).join("");
+    const sha256 = createHash("sha256").update(body).digest("hex");
+    writeFileSync(
+      file,
+      gzipSync(`${body}${JSON.stringify({ type: "checksum", sha256 })}\n`),
+    );
+
+    await expect(readBundle(file)).rejects.toThrow(/Please upgrade/);
+  });
+
+  it("should reject vectors that do not match the embedding model", async () => {
+    await writeBundle(file, {
+      ...bundle,
+      documents: [{ ...bundle.documents[0], embedding: [0.1, 0.2] }],
+    });
+
+    await expect(readBundle(file)).rejects.toThrow(/does not match its embedding model/);
+  });
+});
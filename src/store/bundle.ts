@@ -0,0 +1,145 @@
+import { createHash } from "node:crypto";
+import { readFile, writeFile } from "node:fs/promises";
+import { promisify } from "node:util";
+import { gunzip, gzip } from "node:zlib";
+import { BundleError } from "./errors";
+import type { Bundle, BundleDocument, EmbeddingModelInfo, PageState } from "./types";
+
+/** Identifies bundle files written by this application */
+export const BUNDLE_FORMAT = "docs-mcp-bundle";
+
+/** Version of the bundle layout; bumped on incompatible changes */
+export const BUNDLE_FORMAT_VERSION = 1;
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
+interface BundleHeader {
+  format: string;
+  formatVersion: number;
+  library: string;
+  version: string;
+  createdAt: string;
+  embeddingModel: EmbeddingModelInfo | null;
+  documentCount: number;
+  pageCount: number;
+}
+
+type BundleRecord =
+  | ({ type: "document" } & BundleDocument)
+  | ({ type: "page" } & PageState)
+  | { type: "checksum"; sha256: string };
+
+/**
+ * Writes a bundle as gzip-compressed JSON lines: a header with the library version,
+ * embedding model and record counts, one line per document and page, and a trailing
+ * SHA-256 checksum over all preceding lines.
+ */
+export async function writeBundle(filePath: string, bundle: Bundle): Promise<void> {
+  const header: BundleHeader = {
+    format: BUNDLE_FORMAT,
+    formatVersion: BUNDLE_FORMAT_VERSION,
+    library: bundle.library,
+    version: bundle.version,
+    createdAt: bundle.createdAt,
+    embeddingModel: bundle.embeddingModel,
+    documentCount: bundle.documents.length,
+    pageCount: bundle.pages.length,
+  };
+  const lines = [
+    JSON.stringify(header),
+    ...bundle.documents.map((doc) => JSON.stringify({ type: "document", ...doc })),
+    ...bundle.pages.map((page) => JSON.stringify({ type: "page", ...page })),
+  ];
+  const body = lines.map((line) => `${line}\n`).join("");
+  const checksum: BundleRecord = { type: "checksum", sha256: sha256(body) };
+  const compressed = await gzipAsync(`${body}${JSON.stringify(checksum)}\n`);
+  await writeFile(filePath, compressed);
+}
+
+/**
+ * Reads and verifies a bundle written by `writeBundle`.
+ * @throws {BundleError} If the file is not a bundle, was written by a newer release,
+ *   or fails the checksum or consistency checks.
+ */
+export async function readBundle(filePath: string): Promise<Bundle> {
+  let text: string;
+  try {
+    text = (await gunzipAsync(await readFile(filePath))).toString("utf-8");
+  } catch (error) {
+    throw new BundleError(`Failed to read bundle ${filePath}`, filePath, error);
+  }
+
+  const lines = text.split("\n").filter((line) => line.length > 0);
+  const trailer = lines.pop();
+  const body = lines.map((line) => `${line}\n`).join("");
+  const checksum = trailer ? (parseLine(trailer, filePath) as BundleRecord) : undefined;
+  if (checksum?.type !== "checksum" || checksum.sha256 !== sha256(body)) {
+    throw new BundleError(
+      `Bundle ${filePath} failed its integrity check; the file is truncated or corrupted`,
+      filePath,
+    );
+  }
+
+  const header = parseLine(lines[0], filePath) as BundleHeader;
+  if (header.format !== BUNDLE_FORMAT) {
+    throw new BundleError(`${filePath} is not a documentation bundle`, filePath);
+  }
+  if (header.formatVersion > BUNDLE_FORMAT_VERSION) {
+    throw new BundleError(
+      `Bundle ${filePath} uses format version ${header.formatVersion}, but this release only supports up to ${BUNDLE_FORMAT_VERSION}. Please upgrade docs-mcp-server.`,
+      filePath,
+    );
+  }
+
+  const bundle: Bundle = {
+    library: header.library,
+    version: header.version,
+    createdAt: header.createdAt,
+    embeddingModel: header.embeddingModel,
+    documents: [],
+    pages: [],
+  };
+  for (const line of lines.slice(1)) {
+    const { type, ...record } = parseLine(line, filePath) as BundleRecord;
+    if (type === "document") {
+      bundle.documents.push(record as BundleDocument);
+    } else if (type === "page") {
+      bundle.pages.push(record as PageState);
+    }
+  }
+
+  if (
+    bundle.documents.length !== header.documentCount ||
+    bundle.pages.length !== header.pageCount
+  ) {
+    throw new BundleError(
+      `Bundle ${filePath} is incomplete: expected ${header.documentCount} documents and ${header.pageCount} pages, found ${bundle.documents.length} and ${bundle.pages.length}`,
+      filePath,
+    );
+  }
+  const dimension = bundle.embeddingModel?.dimension;
+  const invalid = bundle.documents.find(
+    (doc) => doc.embedding !== null && doc.embedding.length !== dimension,
+  );
+  if (invalid) {
+    throw new BundleError(
+      `Bundle ${filePath} contains a vector that does not match its embedding model (${invalid.url})`,
+      filePath,
+    );
+  }
+
+  return bundle;
+}
+
+function sha256(text: string): string {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+function parseLine(line: string, filePath: string): unknown {
+  try {
+    return JSON.parse(line);
+  } catch (error) {
+    throw new BundleError(`Bundle ${filePath} contains malformed data`, filePath, error);
+  }
+}
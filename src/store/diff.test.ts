@@ -0,0 +1,132 @@
+import { Document } from "@langchain/core/documents";
+import { describe, expect, it } from "vitest";
+import { diffDocuments, diffLines, getPagePath } from "./diff";
+
+const chunk = (url: string, path: string[], content: string) =>
+  new Document({ pageContent: content, metadata: { url, title: path[0], path } });
+
+describe("diff", () => {
+  describe("getPagePath", () => {
+    it("should replace version segments and ignore the host", () => {
+      expect(getPagePath("https://v2.x.dev/docs/v2.0.0/api/", ["1.0.0", "2.0.0"])).toBe(
+        "/docs/{version}/api",
+      );
+      expect(getPagePath("https://x.dev/docs/1.0.0/api", ["1.0.0", "2.0.0"])).toBe(
+        "/docs/{version}/api",
+      );
+      expect(getPagePath("https://x.dev/", ["", "main"])).toBe("/");
+    });
+
+    it("should replace the shorter forms of semantic versions", () => {
+      const versions = ["5.1.0", "6.0.2"];
+      expect(getPagePath("https://x.dev/docs/5.1/api", versions)).toBe(
+        "/docs/{version}/api",
+      );
+      expect(getPagePath("https://x.dev/docs/v6/api", versions)).toBe(
+        "/docs/{version}/api",
+      );
+      expect(getPagePath("https://x.dev/docs/6.x/api", versions)).toBe(
+        "/docs/{version}/api",
+      );
+      expect(getPagePath("https://x.dev/steps/5", versions)).toBe("/steps/5");
+    });
+  });
+
+  describe("diffLines", () => {
+    it("should mark added and removed lines with context around them", () => {
+      const oldLines = ["a", "b", "c", "d", "e", "f", "g", "h"];
+      const newLines = ["a", "b", "c", "d", "e", "F", "g", "h", "i"];
+      expect(diffLines(oldLines, newLines)).toBe(
+        ["  ...", "  d", "  e", "- f", "+ F", "  g", "  h", "+ i"].join("\n"),
+      );
+    });
+
+    it("should cut off long diffs", () => {
+      const newLines = Array.from({ length: 250 }, (_, index) => `line ${index}`);
+      const diff = diffLines([], newLines).split("\n");
+      expect(diff).toHaveLength(201);
+      expect(diff[0]).toBe("+ line 0");
+      expect(diff[200]).toBe("  ... (50 more lines)");
+    });
+  });
+
+  describe("diffDocuments", () => {
+    it("should report added, removed and modified sections by page and heading path", () => {
+      const from = [
+        chunk("https://x.dev/1.0/api", ["API"], "# API\nThe API."),
+        chunk(
+          "https://x.dev/1.0/api",
+          ["API", "get"],
+          "## get\nget(key)\nReturns a value.",
+        ),
+        chunk("https://x.dev/1.0/api", ["API", "get"], "Throws if missing."),
+        chunk("https://x.dev/1.0/api", ["API", "legacy"], "## legacy\nDeprecated."),
+        chunk("https://x.dev/1.0/intro", ["Intro"], "# Intro\nWelcome."),
+      ];
+      const to = [
+        chunk("https://x.dev/2.0/api/", ["API"], "# API\nThe API.  \n\n"),
+        chunk("https://x.dev/2.0/api/", ["API", "get"], "## get\nget(key, fallback)"),
+        chunk("https://x.dev/2.0/api/", ["API", "get"], "Returns a value."),
+        chunk("https://x.dev/2.0/api/", ["API", "set"], "## set\nset(key, value)"),
+        chunk("https://x.dev/2.0/intro", ["Intro"], "# Intro\nWelcome."),
+      ];
+
+      const diff = diffDocuments("lib", "1.0", "2.0", from, to);
+
+      expect(diff.unchanged).toBe(2);
+      expect(diff.changes).toEqual([
+        {
+          status: "modified",
+          url: "https://x.dev/2.0/api/",
+          path: "/{version}/api",
+          headings: ["API", "get"],
+          diff: "  ## get\n- get(key)\n+ get(key, fallback)\n  Returns a value.\n- Throws if missing.",
+        },
+        {
+          status: "added",
+          url: "https://x.dev/2.0/api/",
+          path: "/{version}/api",
+          headings: ["API", "set"],
+          diff: "+ ## set\n+ set(key, value)",
+        },
+        {
+          status: "removed",
+          url: "https://x.dev/1.0/api",
+          path: "/{version}/api",
+          headings: ["API", "legacy"],
+          diff: "- ## legacy\n- Deprecated.",
+        },
+      ]);
+    });
+
+    it("should follow the headings of sections merged into one chunk", () => {
+      const from = [
+        chunk(
+          "https://x.dev/guide",
+          ["Guide"],
+          "# Guide\nIntro.\n## Setup\n```sh\n# install\nnpm i x\n```\n### Options\nNone.",
+        ),
+      ];
+      const to = [
+        chunk("https://x.dev/guide", ["Guide"], "# Guide\nIntro.\n## Setup"),
+        chunk(
+          "https://x.dev/guide",
+          ["Guide", "Setup"],
+          "```sh\n# install\nnpm i x\n```",
+        ),
+        chunk("https://x.dev/guide", ["Guide", "Setup", "Options"], "### Options\nSome."),
+      ];
+
+      const diff = diffDocuments("lib", "1.0", "2.0", from, to);
+
+      expect(diff.unchanged).toBe(2);
+      expect(diff.changes).toEqual([
+        expect.objectContaining({
+          status: "modified",
+          headings: ["Guide", "Setup", "Options"],
+          diff: "  ### Options\n- None.\n+ Some.",
+        }),
+      ]);
+    });
+  });
+});
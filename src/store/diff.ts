@@ -0,0 +1,301 @@
+import type { Document } from "@langchain/core/documents";
+import semver from "semver";
+import type { SectionChange, VersionDiff } from "./types";
+
+/** Unchanged lines shown around each change in a section diff */
+const CONTEXT_LINES = 2;
+
+/** Lines shown per section diff before the rest is cut off */
+const MAX_DIFF_LINES = 200;
+
+/**
+ * Largest table of line pairs compared to find the longest common subsequence.
+ * Sections beyond it are shown as fully replaced instead of using quadratic memory.
+ */
+const MAX_LCS_CELLS = 4_000_000;
+
+/** Placeholder for URL path segments naming one of the compared versions */
+const VERSION_SEGMENT = "{version}";
+
+/** Markdown heading, e.g. "## Hooks" */
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)(?:\s+#+)?$/;
+
+/** Line opening or closing a fenced code block */
+const FENCE_PATTERN = /^\s*(?:```|~~~)/;
+
+/** Text of a section gathered from its chunks */
+interface Section {
+  url: string;
+  path: string;
+  headings: string[];
+  lines: string[];
+}
+
+/** A line of a diff: " " unchanged, "-" removed, "+" added */
+type DiffLine = [" " | "-" | "+", string];
+
+/**
+ * Returns the URL path segments that may name a version: the version itself and, for
+ * semantic versions, the shorter forms docs sites use such as "18.2", "18.x" and "v18".
+ * A bare major like "18" is left out, as it is too easily a page number or step.
+ */
+function getVersionLabels(version: string): string[] {
+  const label = version.toLowerCase();
+  const labels = [label, `v${label}`];
+  const parsed = semver.parse(version);
+  if (parsed) {
+    const { major, minor } = parsed;
+    labels.push(`${major}.${minor}`, `v${major}.${minor}`, `${major}.x`, `v${major}`);
+  }
+  return labels;
+}
+
+/**
+ * Returns the path of a page URL that stays the same across versions: segments naming
+ * one of the versions (e.g. "18.2.0", "v18.2.0", "18.2" or "v18") become `{version}`
+ * and a trailing slash is dropped. The host is ignored, so versions served from
+ * different hosts can be compared.
+ */
+export function getPagePath(url: string, versions: string[]): string {
+  let pathname: string;
+  try {
+    pathname = new URL(url).pathname;
+  } catch {
+    pathname = url;
+  }
+  const labels = new Set(
+    versions.filter((version) => version !== "").flatMap(getVersionLabels),
+  );
+  const path = pathname
+    .split("/")
+    .map((segment) => (labels.has(segment.toLowerCase()) ? VERSION_SEGMENT : segment))
+    .join("/");
+  return path.length > 1 ? path.replace(/\/+$/, "") : path;
+}
+
+/**
+ * Splits text into lines for comparison, ignoring trailing whitespace and blank lines
+ * so that differences in how chunks were split do not show up as changes.
+ */
+function toLines(text: string): string[] {
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.trimEnd())
+    .filter((line) => line.length > 0);
+}
+
+/**
+ * Groups the chunks of a version into sections by page path and heading path, in the
+ * order the chunks are stored. Chunks may hold several small sections merged by the
+ * splitter, so the heading path is followed through the Markdown headings of the
+ * content; the chunk's own heading path only serves as the start of each page.
+ */
+function collectSections(
+  documents: Document[],
+  versions: string[],
+): Map<string, Section> {
+  const sections = new Map<string, Section>();
+  let pageUrl: string | null = null;
+  let stack: Array<{ level: number; title: string }> = [];
+
+  for (const document of documents) {
+    const url: string = document.metadata.url;
+    const path = getPagePath(url, versions);
+    if (url !== pageUrl) {
+      pageUrl = url;
+      const headings: string[] = document.metadata.path ?? [];
+      stack = headings.map((title, index) => ({ level: index + 1, title }));
+    }
+
+    let inCodeBlock = false;
+    for (const line of toLines(document.pageContent)) {
+      const heading = inCodeBlock ? null : HEADING_PATTERN.exec(line);
+      if (FENCE_PATTERN.test(line)) {
+        inCodeBlock = !inCodeBlock;
+      }
+      if (heading) {
+        const level = heading[1].length;
+        while (stack.length > 0 && stack[stack.length - 1].level >= level) {
+          stack.pop();
+        }
+        stack.push({ level, title: heading[2] });
+      }
+
+      const headings = stack.map((entry) => entry.title);
+      const key = JSON.stringify([path, headings]);
+      let section = sections.get(key);
+      if (!section) {
+        section = { url, path, headings, lines: [] };
+        sections.set(key, section);
+      }
+      section.lines.push(line);
+    }
+  }
+  return sections;
+}
+
+/**
+ * Compares two lists of lines by their longest common subsequence. Lines shared at
+ * the start and end are matched first to keep the table small.
+ */
+function compareLines(oldLines: string[], newLines: string[]): DiffLine[] {
+  let start = 0;
+  while (
+    start < oldLines.length &&
+    start < newLines.length &&
+    oldLines[start] === newLines[start]
+  ) {
+    start++;
+  }
+  let oldEnd = oldLines.length;
+  let newEnd = newLines.length;
+  while (
+    oldEnd > start &&
+    newEnd > start &&
+    oldLines[oldEnd - 1] === newLines[newEnd - 1]
+  ) {
+    oldEnd--;
+    newEnd--;
+  }
+
+  const prefix = oldLines.slice(0, start).map((line): DiffLine => [" ", line]);
+  const suffix = oldLines.slice(oldEnd).map((line): DiffLine => [" ", line]);
+  const oldMiddle = oldLines.slice(start, oldEnd);
+  const newMiddle = newLines.slice(start, newEnd);
+  const rows = oldMiddle.length + 1;
+  const columns = newMiddle.length + 1;
+
+  if (rows * columns > MAX_LCS_CELLS) {
+    return [
+      ...prefix,
+      ...oldMiddle.map((line): DiffLine => ["-", line]),
+      ...newMiddle.map((line): DiffLine => ["+", line]),
+      ...suffix,
+    ];
+  }
+
+  // lengths[i * columns + j] is the LCS length of oldMiddle[i..] and newMiddle[j..]
+  const lengths = new Uint32Array(rows * columns);
+  for (let i = oldMiddle.length - 1; i >= 0; i--) {
+    for (let j = newMiddle.length - 1; j >= 0; j--) {
+      lengths[i * columns + j] =
+        oldMiddle[i] === newMiddle[j]
+          ? lengths[(i + 1) * columns + j + 1] + 1
+          : Math.max(lengths[(i + 1) * columns + j], lengths[i * columns + j + 1]);
+    }
+  }
+
+  const middle: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < oldMiddle.length && j < newMiddle.length) {
+    if (oldMiddle[i] === newMiddle[j]) {
+      middle.push([" ", oldMiddle[i]]);
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * columns + j] >= lengths[i * columns + j + 1]) {
+      middle.push(["-", oldMiddle[i++]]);
+    } else {
+      middle.push(["+", newMiddle[j++]]);
+    }
+  }
+  for (; i < oldMiddle.length; i++) middle.push(["-", oldMiddle[i]]);
+  for (; j < newMiddle.length; j++) middle.push(["+", newMiddle[j]]);
+
+  return [...prefix, ...middle, ...suffix];
+}
+
+/**
+ * Produces a line diff of two texts given as lines. Added lines start with "+ ",
+ * removed ones with "- " and unchanged context lines with "  "; runs of unchanged
+ * lines further away from a change are collapsed to "  ...". Long diffs are cut off
+ * after a fixed number of lines.
+ */
+export function diffLines(oldLines: string[], newLines: string[]): string {
+  const lines = compareLines(oldLines, newLines);
+  const shown = new Array<boolean>(lines.length).fill(false);
+  lines.forEach(([kind], index) => {
+    if (kind !== " ") {
+      const end = Math.min(lines.length - 1, index + CONTEXT_LINES);
+      for (let k = Math.max(0, index - CONTEXT_LINES); k <= end; k++) {
+        shown[k] = true;
+      }
+    }
+  });
+
+  const output: string[] = [];
+  lines.forEach(([kind, line], index) => {
+    if (shown[index]) {
+      output.push(`${kind} ${line}`);
+    } else if (index === 0 || shown[index - 1]) {
+      output.push("  ...");
+    }
+  });
+  if (output.length > MAX_DIFF_LINES) {
+    const omitted = output.length - MAX_DIFF_LINES;
+    return [...output.slice(0, MAX_DIFF_LINES), `  ... (${omitted} more lines)`].join(
+      "\n",
+    );
+  }
+  return output.join("\n");
+}
+
+/**
+ * Compares the chunks of two versions of a library section by section. Sections are
+ * matched by the path of their page's URL, ignoring version segments, and their
+ * heading path. Sections differing only in trailing whitespace or blank lines are
+ * unchanged.
+ */
+export function diffDocuments(
+  library: string,
+  fromVersion: string,
+  toVersion: string,
+  fromDocuments: Document[],
+  toDocuments: Document[],
+): VersionDiff {
+  const versions = [fromVersion, toVersion];
+  const fromSections = collectSections(fromDocuments, versions);
+  const toSections = collectSections(toDocuments, versions);
+  const changes: SectionChange[] = [];
+  let unchanged = 0;
+
+  for (const [key, section] of toSections) {
+    const previous = fromSections.get(key);
+    const { url, path, headings } = section;
+    if (!previous) {
+      changes.push({
+        status: "added",
+        url,
+        path,
+        headings,
+        diff: diffLines([], section.lines),
+      });
+    } else if (previous.lines.join("\n") !== section.lines.join("\n")) {
+      changes.push({
+        status: "modified",
+        url,
+        path,
+        headings,
+        diff: diffLines(previous.lines, section.lines),
+      });
+    } else {
+      unchanged++;
+    }
+  }
+  for (const [key, section] of fromSections) {
+    if (!toSections.has(key)) {
+      const { url, path, headings } = section;
+      changes.push({
+        status: "removed",
+        url,
+        path,
+        headings,
+        diff: diffLines(section.lines, []),
+      });
+    }
+  }
+
+  // Sorting is stable, so sections keep their order within a page
+  changes.sort((a, b) => a.path.localeCompare(b.path));
+  return { library, fromVersion, toVersion, changes, unchanged };
+}
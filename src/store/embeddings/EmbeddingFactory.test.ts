@@ -1,14 +1,17 @@
 import { BedrockEmbeddings } from "@langchain/aws";
 import { GoogleGenerativeAIEmbeddings } from "@langchain/google-genai";
 import { VertexAIEmbeddings } from "@langchain/google-vertexai";
-import { OpenAIEmbeddings } from "@langchain/openai";
 import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { VECTOR_DIMENSION } from "../schema";
 import {
   ModelConfigurationError,
   UnsupportedProviderError,
   createEmbeddingModel,
+  parseEmbeddingModel,
 } from "./EmbeddingFactory";
 import { FixedDimensionEmbeddings } from "./FixedDimensionEmbeddings";
+import { LocalHashEmbeddings } from "./LocalHashEmbeddings";
+import { OpenAICompatibleEmbeddings } from "./OpenAICompatibleEmbeddings";
 
 // Mock process.env for each test
 const originalEnv = process.env;
@@ -38,20 +41,54 @@ afterEach(() => {
 describe("createEmbeddingModel", () => {
   test("should create OpenAI embeddings with just model name (default provider)", () => {
     const model = createEmbeddingModel("text-embedding-3-small");
-    expect(model).toBeInstanceOf(OpenAIEmbeddings);
+    expect(model).toBeInstanceOf(OpenAICompatibleEmbeddings);
     expect(model).toMatchObject({
-      modelName: "text-embedding-3-small",
+      model: "text-embedding-3-small",
+      baseURL: "https://api.openai.com/v1",
     });
   });
 
   test("should create OpenAI embeddings with explicit provider", () => {
     const model = createEmbeddingModel("openai:text-embedding-3-small");
-    expect(model).toBeInstanceOf(OpenAIEmbeddings);
+    expect(model).toBeInstanceOf(OpenAICompatibleEmbeddings);
     expect(model).toMatchObject({
-      modelName: "text-embedding-3-small",
+      model: "text-embedding-3-small",
     });
   });
 
+  test("should create OpenRouter embeddings and keep colons in the model name", () => {
+    const model = createEmbeddingModel("openrouter:qwen/qwen3-embedding:free");
+    expect(model).toBeInstanceOf(OpenAICompatibleEmbeddings);
+    expect(model).toMatchObject({
+      model: "qwen/qwen3-embedding:free",
+      baseURL: "https://openrouter.ai/api/v1",
+    });
+  });
+
+  test("should use OPENAI_API_BASE for OpenAI-compatible endpoints", () => {
+    vi.stubGlobal("process", {
+      env: { OPENAI_API_BASE: "http://localhost:11434/v1/" },
+    });
+
+    const model = createEmbeddingModel("openai:nomic-embed-text");
+    expect(model).toMatchObject({
+      model: "nomic-embed-text",
+      baseURL: "http://localhost:11434/v1",
+    });
+  });
+
+  test("should throw ModelConfigurationError for OpenAI without key or base URL", () => {
+    vi.stubGlobal("process", {
+      env: {
+        // Missing OPENAI_API_KEY and OPENAI_API_BASE
+      },
+    });
+
+    expect(() =>
+      createEmbeddingModel("openrouter:openai/text-embedding-3-small"),
+    ).toThrow(ModelConfigurationError);
+  });
+
   test("should create Google Vertex AI embeddings", () => {
     const model = createEmbeddingModel("vertex:text-embedding-004");
     expect(model).toBeInstanceOf(VertexAIEmbeddings);
@@ -107,8 +144,14 @@ describe("createEmbeddingModel", () => {
     });
   });
 
-  test("should throw UnsupportedProviderError for unknown provider", () => {
-    expect(() => createEmbeddingModel("unknown:model")).toThrow(UnsupportedProviderError);
+  test("should create Azure OpenAI embeddings for the configured deployment", () => {
+    const model = createEmbeddingModel("microsoft:text-embedding-ada-002");
+    expect(model).toBeInstanceOf(OpenAICompatibleEmbeddings);
+    expect(model).toMatchObject({
+      model: "text-embedding-ada-002",
+      baseURL:
+        "https://test-instance.openai.azure.com/openai/deployments/test-deployment",
+    });
   });
 
   test("should throw ModelConfigurationError for Azure OpenAI without required env vars", () => {
@@ -127,6 +170,22 @@ describe("createEmbeddingModel", () => {
     );
   });
 
+  test("should create local hash embeddings without any environment variables", () => {
+    vi.stubGlobal("process", { env: {} });
+
+    const model = createEmbeddingModel("local:hash");
+    expect(model).toBeInstanceOf(LocalHashEmbeddings);
+    expect(model).toMatchObject({ dimension: VECTOR_DIMENSION });
+  });
+
+  test("should throw ModelConfigurationError for unknown local models", () => {
+    expect(() => createEmbeddingModel("local:tfidf")).toThrow(ModelConfigurationError);
+  });
+
+  test("should throw UnsupportedProviderError for unknown provider", () => {
+    expect(() => createEmbeddingModel("unknown:model")).toThrow(UnsupportedProviderError);
+  });
+
   test("should throw ModelConfigurationError for AWS Bedrock without required env vars", () => {
     // Override env to simulate missing AWS credentials
     vi.stubGlobal("process", {
@@ -140,3 +199,19 @@ describe("createEmbeddingModel", () => {
     );
   });
 });
+
+describe("parseEmbeddingModel", () => {
+  test("should default to the openai provider", () => {
+    expect(parseEmbeddingModel("text-embedding-3-small")).toEqual({
+      provider: "openai",
+      model: "text-embedding-3-small",
+    });
+  });
+
+  test("should split on the first colon only", () => {
+    expect(parseEmbeddingModel("openrouter:vendor/model:free")).toEqual({
+      provider: "openrouter",
+      model: "vendor/model:free",
+    });
+  });
+});
@@ -1,43 +1,209 @@
-// 已彻底移除 embedding 相关依赖和实现
-// 保留类型定义和异常提示
+import { BedrockEmbeddings } from "@langchain/aws";
+import type { Embeddings } from "@langchain/core/embeddings";
+import { GoogleGenerativeAIEmbeddings } from "@langchain/google-genai";
+import { VertexAIEmbeddings } from "@langchain/google-vertexai";
+import { VECTOR_DIMENSION } from "../schema";
+import { FixedDimensionEmbeddings } from "./FixedDimensionEmbeddings";
+import { LocalHashEmbeddings } from "./LocalHashEmbeddings";
+import { OpenAICompatibleEmbeddings } from "./OpenAICompatibleEmbeddings";
 
 /**
  * Supported embedding model providers. Each provider requires specific environment
  * variables to be set for API access.
  */
-export type EmbeddingProvider = "openrouter";
+export type EmbeddingProvider =
+  | "openai"
+  | "openrouter"
+  | "vertex"
+  | "gemini"
+  | "aws"
+  | "microsoft"
+  | "local";
+
+/** Default API base URLs for the OpenAI-compatible providers */
+const DEFAULT_BASE_URLS: Record<"openai" | "openrouter", string> = {
+  openai: "https://api.openai.com/v1",
+  openrouter: "https://openrouter.ai/api/v1",
+};
 
 /**
  * Error thrown when an invalid or unsupported embedding provider is specified.
  */
 export class UnsupportedProviderError extends Error {
   constructor(provider: string) {
-    super(`Embedding is not supported in this build: ${provider}`);
+    super(`Unsupported embedding provider: ${provider}`);
     this.name = "UnsupportedProviderError";
   }
 }
 
+/**
+ * Error thrown when there's an issue with the model configuration or missing environment variables.
+ */
+export class ModelConfigurationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ModelConfigurationError";
+  }
+}
+
+/**
+ * Splits a "provider:model_name" string into its parts. Only the first colon separates
+ * the provider, so model names that contain colons themselves (common on OpenRouter,
+ * e.g. "openrouter:qwen/qwen3-embedding:free") are preserved. A string without a
+ * known provider prefix is treated as an OpenAI model name.
+ */
+export function parseEmbeddingModel(providerAndModel: string): {
+  provider: string;
+  model: string;
+} {
+  const separatorIndex = providerAndModel.indexOf(":");
+  if (separatorIndex === -1) {
+    return { provider: "openai", model: providerAndModel };
+  }
+  return {
+    provider: providerAndModel.slice(0, separatorIndex),
+    model: providerAndModel.slice(separatorIndex + 1),
+  };
+}
+
 /**
  * Creates an embedding model instance based on the specified provider and model name.
  * The provider and model name should be specified in the format "provider:model_name"
- * (e.g., "google:text-embedding-004"). If no provider is specified (i.e., just "model_name"),
- * OpenAI is used as the default provider.
+ * (e.g., "openrouter:openai/text-embedding-3-small"). If no provider is specified
+ * (i.e., just "model_name"), OpenAI is used as the default provider.
+ *
+ * The `openai` and `openrouter` providers talk to any OpenAI-compatible `/embeddings`
+ * endpoint, so local gateways and self-hosted servers are configured by pointing
+ * `OPENAI_API_BASE` at them.
  *
  * Environment variables required per provider:
- * - OpenAI: OPENAI_API_KEY (and optionally OPENAI_API_BASE, OPENAI_ORG_ID)
+ * - OpenAI / OpenRouter: OPENAI_API_KEY (unless OPENAI_API_BASE points to a server
+ *   that does not require one), optionally OPENAI_API_BASE and OPENAI_ORG_ID
  * - Google Cloud Vertex AI: GOOGLE_APPLICATION_CREDENTIALS (path to service account JSON)
  * - Google GenAI (Gemini): GOOGLE_API_KEY
  * - AWS: AWS_ACCESS_KEY_ID, AWS_SECRET_ACCESS_KEY, AWS_REGION (or BEDROCK_AWS_REGION)
  * - Microsoft: AZURE_OPENAI_API_KEY, AZURE_OPENAI_API_INSTANCE_NAME, AZURE_OPENAI_API_DEPLOYMENT_NAME, AZURE_OPENAI_API_VERSION
+ * - Local ("local:hash"): none, vectors are computed in-process without network access
  *
- * @param providerAndModel - The provider and model name in the format "provider:model_name"
- *                          or just "model_name" for OpenAI models.
- * @returns A configured instance of the appropriate Embeddings implementation.
  * @throws {UnsupportedProviderError} If an unsupported provider is specified.
  * @throws {ModelConfigurationError} If there's an issue with the model configuration.
  */
-export function createEmbeddingModel(providerAndModel: string): never {
-  throw new UnsupportedProviderError(
-    "Embedding functionality has been disabled. Please use chat/completions only.",
-  );
+export function createEmbeddingModel(providerAndModel: string): Embeddings {
+  const { provider, model } = parseEmbeddingModel(providerAndModel);
+
+  if (!model) {
+    throw new ModelConfigurationError(
+      `Missing model name in embedding model specification "${providerAndModel}"`,
+    );
+  }
+
+  switch (provider) {
+    case "openai":
+    case "openrouter": {
+      const customBaseURL = process.env.OPENAI_API_BASE;
+      const apiKey = process.env.OPENAI_API_KEY;
+      if (!apiKey && !customBaseURL) {
+        throw new ModelConfigurationError(
+          `OPENAI_API_KEY environment variable is required for the ${provider} provider`,
+        );
+      }
+
+      const headers: Record<string, string> = {};
+      if (process.env.OPENAI_ORG_ID) {
+        headers["OpenAI-Organization"] = process.env.OPENAI_ORG_ID;
+      }
+
+      return new OpenAICompatibleEmbeddings({
+        model,
+        baseURL: customBaseURL || DEFAULT_BASE_URLS[provider],
+        apiKey,
+        headers,
+      });
+    }
+
+    case "vertex": {
+      if (!process.env.GOOGLE_APPLICATION_CREDENTIALS) {
+        throw new ModelConfigurationError(
+          "GOOGLE_APPLICATION_CREDENTIALS environment variable is required for Google Cloud Vertex AI",
+        );
+      }
+      return new VertexAIEmbeddings({ model });
+    }
+
+    case "gemini": {
+      if (!process.env.GOOGLE_API_KEY) {
+        throw new ModelConfigurationError(
+          "GOOGLE_API_KEY environment variable is required for Google AI (Gemini)",
+        );
+      }
+      // Gemini models support Matryoshka Representation Learning, so oversized
+      // vectors can be truncated safely to the database dimension
+      const baseEmbeddings = new GoogleGenerativeAIEmbeddings({
+        apiKey: process.env.GOOGLE_API_KEY,
+        model,
+      });
+      return new FixedDimensionEmbeddings(
+        baseEmbeddings,
+        VECTOR_DIMENSION,
+        providerAndModel,
+        true,
+      );
+    }
+
+    case "aws": {
+      const region = process.env.BEDROCK_AWS_REGION || process.env.AWS_REGION;
+      if (!region) {
+        throw new ModelConfigurationError(
+          "BEDROCK_AWS_REGION or AWS_REGION environment variable is required for AWS Bedrock",
+        );
+      }
+      if (!process.env.AWS_ACCESS_KEY_ID || !process.env.AWS_SECRET_ACCESS_KEY) {
+        throw new ModelConfigurationError(
+          "AWS_ACCESS_KEY_ID and AWS_SECRET_ACCESS_KEY environment variables are required for AWS Bedrock",
+        );
+      }
+      return new BedrockEmbeddings({
+        region,
+        credentials: {
+          accessKeyId: process.env.AWS_ACCESS_KEY_ID,
+          secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY,
+          sessionToken: process.env.AWS_SESSION_TOKEN,
+        },
+        model,
+      });
+    }
+
+    case "microsoft": {
+      const {
+        AZURE_OPENAI_API_KEY: apiKey,
+        AZURE_OPENAI_API_INSTANCE_NAME: instanceName,
+        AZURE_OPENAI_API_DEPLOYMENT_NAME: deploymentName,
+        AZURE_OPENAI_API_VERSION: apiVersion,
+      } = process.env;
+      if (!apiKey || !instanceName || !deploymentName || !apiVersion) {
+        throw new ModelConfigurationError(
+          "AZURE_OPENAI_API_KEY, AZURE_OPENAI_API_INSTANCE_NAME, AZURE_OPENAI_API_DEPLOYMENT_NAME and AZURE_OPENAI_API_VERSION environment variables are required for Azure OpenAI",
+        );
+      }
+      // Azure serves the OpenAI protocol per deployment and authenticates with an api-key header
+      return new OpenAICompatibleEmbeddings({
+        model,
+        baseURL: `https://${instanceName}.openai.azure.com/openai/deployments/${deploymentName}`,
+        headers: { "api-key": apiKey },
+        params: { "api-version": apiVersion },
+      });
+    }
+
+    case "local": {
+      if (model !== "hash") {
+        throw new ModelConfigurationError(
+          `Unknown local embedding model "${model}". Supported local models: hash`,
+        );
+      }
+      return new LocalHashEmbeddings({ dimension: VECTOR_DIMENSION });
+    }
+
+    default:
+      throw new UnsupportedProviderError(provider);
+  }
 }
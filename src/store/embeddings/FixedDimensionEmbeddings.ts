@@ -21,10 +21,12 @@ export class FixedDimensionEmbeddings extends Embeddings {
     private readonly allowTruncate: boolean = false,
   ) {
     super({});
-    // Parse provider and model from string (e.g., "gemini:embedding-001" or just "text-embedding-3-small")
-    const [providerOrModel, modelName] = providerAndModel.split(":");
-    this.provider = modelName ? providerOrModel : "openai"; // Default to openai if no provider specified
-    this.model = modelName || providerOrModel;
+    // Parse provider and model from string (e.g., "gemini:embedding-001" or just "text-embedding-3-small").
+    // Only the first colon separates the provider; model names may contain colons themselves.
+    const separatorIndex = providerAndModel.indexOf(":");
+    this.provider =
+      separatorIndex === -1 ? "openai" : providerAndModel.slice(0, separatorIndex); // Default to openai if no provider specified
+    this.model = providerAndModel.slice(separatorIndex + 1);
   }
 
   /**
@@ -0,0 +1,54 @@
+import { describe, expect, test } from "vitest";
+import { VECTOR_DIMENSION } from "../schema";
+import { LocalHashEmbeddings } from "./LocalHashEmbeddings";
+
+const cosine = (a: number[], b: number[]) => a.reduce((sum, v, i) => sum + v * b[i], 0);
+const norm = (v: number[]) => Math.sqrt(cosine(v, v));
+
+describe("LocalHashEmbeddings", () => {
+  test("should produce vectors of the database dimension by default", async () => {
+    const embeddings = new LocalHashEmbeddings();
+    const vector = await embeddings.embedQuery("hello world");
+    expect(vector.length).toBe(VECTOR_DIMENSION);
+  });
+
+  test("should honor a custom dimension", async () => {
+    const embeddings = new LocalHashEmbeddings({ dimension: 64 });
+    const vector = await embeddings.embedQuery("hello world");
+    expect(vector.length).toBe(64);
+  });
+
+  test("should be deterministic across instances", async () => {
+    const a = await new LocalHashEmbeddings().embedQuery("React hooks cleanup");
+    const b = await new LocalHashEmbeddings().embedQuery("React hooks cleanup");
+    expect(a).toEqual(b);
+  });
+
+  test("should return unit-length vectors", async () => {
+    const vector = await new LocalHashEmbeddings().embedQuery("some text to embed");
+    expect(norm(vector)).toBeCloseTo(1, 6);
+  });
+
+  test("should return a zero vector for text without words", async () => {
+    const vector = await new LocalHashEmbeddings().embedQuery("  --- !!! ");
+    expect(vector.every((v) => v === 0)).toBe(true);
+  });
+
+  test("should rank lexically related texts higher", async () => {
+    const embeddings = new LocalHashEmbeddings();
+    const [query, related, unrelated] = await embeddings.embedDocuments([
+      "cleanup function in useEffect",
+      "The useEffect hook can return a cleanup function.",
+      "Configure the database connection pool size.",
+    ]);
+    expect(cosine(query, related)).toBeGreaterThan(cosine(query, unrelated));
+  });
+
+  test("should embed documents in input order", async () => {
+    const embeddings = new LocalHashEmbeddings();
+    const docs = ["first document", "second document"];
+    const vectors = await embeddings.embedDocuments(docs);
+    expect(vectors[0]).toEqual(await embeddings.embedQuery(docs[0]));
+    expect(vectors[1]).toEqual(await embeddings.embedQuery(docs[1]));
+  });
+});
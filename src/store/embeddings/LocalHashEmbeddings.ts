@@ -0,0 +1,100 @@
+import { Embeddings, type EmbeddingsParams } from "@langchain/core/embeddings";
+import { VECTOR_DIMENSION } from "../schema";
+
+/** Length of the character n-grams hashed in addition to whole words */
+const NGRAM_SIZE = 3;
+
+/** Relative weight of a whole-word feature compared to a single character n-gram */
+const WORD_WEIGHT = 2;
+
+export interface LocalHashEmbeddingsParams extends EmbeddingsParams {
+  /** Number of hash buckets, i.e. the length of every produced vector */
+  dimension?: number;
+}
+
+/**
+ * Fully offline embeddings based on the hashing trick. Every text is tokenized into
+ * lowercase words and character trigrams (padded with word boundaries), each feature
+ * is hashed with FNV-1a into one of `dimension` buckets with a hash-derived sign, and
+ * the sublinear term frequencies (`1 + log(tf)`) are accumulated and L2-normalized.
+ *
+ * The result is deterministic and needs no model download or network access, which
+ * makes it suitable for air-gapped machines and tests. Character n-grams give some
+ * robustness against inflections and identifiers such as `useEffect` vs. `effect`,
+ * but the vectors carry lexical rather than semantic similarity.
+ */
+export class LocalHashEmbeddings extends Embeddings {
+  readonly dimension: number;
+
+  constructor(params: LocalHashEmbeddingsParams = {}) {
+    super(params);
+    this.dimension = params.dimension ?? VECTOR_DIMENSION;
+  }
+
+  async embedQuery(text: string): Promise<number[]> {
+    return this.embed(text);
+  }
+
+  async embedDocuments(documents: string[]): Promise<number[][]> {
+    return documents.map((text) => this.embed(text));
+  }
+
+  /**
+   * Computes the normalized hashed feature vector for a single text.
+   */
+  private embed(text: string): number[] {
+    const counts = new Map<string, number>();
+    const addFeature = (feature: string, weight: number) => {
+      counts.set(feature, (counts.get(feature) ?? 0) + weight);
+    };
+
+    for (const word of tokenize(text)) {
+      addFeature(`w:${word}`, WORD_WEIGHT);
+      const padded = `<${word}>`;
+      for (let i = 0; i + NGRAM_SIZE <= padded.length; i++) {
+        addFeature(`g:${padded.slice(i, i + NGRAM_SIZE)}`, 1);
+      }
+    }
+
+    const vector = new Array<number>(this.dimension).fill(0);
+    for (const [feature, count] of counts) {
+      const hash = fnv1a(feature);
+      const bucket = hash % this.dimension;
+      // Use a bit outside the bucket range for the sign, so collisions tend to cancel out
+      const sign = (hash >>> 31) & 1 ? -1 : 1;
+      vector[bucket] += sign * (1 + Math.log(count));
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map((value) => value / norm) : vector;
+  }
+}
+
+/**
+ * Splits text into lowercase alphanumeric words, additionally breaking camelCase
+ * identifiers so `useEffect` contributes both `use` and `effect`.
+ */
+function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  for (const word of text.split(/[^\p{L}\p{N}]+/u)) {
+    if (!word) continue;
+    tokens.push(word.toLowerCase());
+    const parts = word.replace(/([\p{Ll}\p{N}])(\p{Lu})/gu, "$1 $2").split(" ");
+    if (parts.length > 1) {
+      tokens.push(...parts.map((part) => part.toLowerCase()));
+    }
+  }
+  return tokens;
+}
+
+/**
+ * 32-bit FNV-1a hash of a string's UTF-16 code units, returned as an unsigned integer.
+ */
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
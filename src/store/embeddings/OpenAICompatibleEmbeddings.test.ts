@@ -0,0 +1,146 @@
+// @vitest-environment node
+import { type IncomingMessage, type Server, createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from "vitest";
+import { OpenAICompatibleEmbeddings } from "./OpenAICompatibleEmbeddings";
+
+interface RecordedRequest {
+  url?: string;
+  authorization?: string;
+  apiKey?: string;
+  body: { model: string; input: string[] };
+}
+
+/**
+ * Local stand-in for an OpenAI-compatible `/embeddings` endpoint. Each input is
+ * embedded as `[input.length, index]`, and the response lists vectors in reverse
+ * order to verify that results are reordered by their `index` field.
+ */
+describe("OpenAICompatibleEmbeddings", () => {
+  let server: Server;
+  let baseURL: string;
+  let requests: RecordedRequest[];
+  let failNext = false;
+
+  const readBody = async (req: IncomingMessage): Promise<string> => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks).toString("utf-8");
+  };
+
+  beforeAll(async () => {
+    server = createServer(async (req, res) => {
+      const body = JSON.parse(await readBody(req));
+      requests.push({
+        url: req.url,
+        authorization: req.headers.authorization,
+        apiKey: req.headers["api-key"] as string | undefined,
+        body,
+      });
+
+      if (failNext) {
+        failNext = false;
+        res.writeHead(500, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: { message: "boom" } }));
+        return;
+      }
+
+      const data = (body.input as string[])
+        .map((text, index) => ({
+          object: "embedding",
+          index,
+          embedding: [text.length, index],
+        }))
+        .reverse();
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ object: "list", model: body.model, data }));
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    failNext = false;
+  });
+
+  test("should embed a query and send model and bearer token", async () => {
+    const embeddings = new OpenAICompatibleEmbeddings({
+      model: "test-model",
+      baseURL,
+      apiKey: "secret",
+    });
+
+    const vector = await embeddings.embedQuery("hello");
+
+    expect(vector).toEqual([5, 0]);
+    expect(requests).toHaveLength(1);
+    expect(requests[0].url).toBe("/v1/embeddings");
+    expect(requests[0].authorization).toBe("Bearer secret");
+    expect(requests[0].body).toEqual({ model: "test-model", input: ["hello"] });
+  });
+
+  test("should omit the authorization header without an API key", async () => {
+    const embeddings = new OpenAICompatibleEmbeddings({ model: "local", baseURL });
+
+    await embeddings.embedQuery("hi");
+
+    expect(requests[0].authorization).toBeUndefined();
+  });
+
+  test("should send the configured headers and query parameters", async () => {
+    const embeddings = new OpenAICompatibleEmbeddings({
+      model: "ada",
+      baseURL,
+      headers: { "api-key": "azure-secret" },
+      params: { "api-version": "2024-02-01" },
+    });
+
+    await embeddings.embedQuery("hi");
+
+    expect(requests[0].url).toBe("/v1/embeddings?api-version=2024-02-01");
+    expect(requests[0].apiKey).toBe("azure-secret");
+    expect(requests[0].authorization).toBeUndefined();
+  });
+
+  test("should batch documents and preserve input order", async () => {
+    const embeddings = new OpenAICompatibleEmbeddings({
+      model: "test-model",
+      baseURL,
+      batchSize: 2,
+    });
+
+    const vectors = await embeddings.embedDocuments(["a", "bb", "ccc"]);
+
+    expect(vectors).toEqual([
+      [1, 0],
+      [2, 1],
+      [3, 0],
+    ]);
+    expect(requests.map((r) => r.body.input)).toEqual([["a", "bb"], ["ccc"]]);
+  });
+
+  test("should not send a request for an empty document list", async () => {
+    const embeddings = new OpenAICompatibleEmbeddings({ model: "test-model", baseURL });
+
+    await expect(embeddings.embedDocuments([])).resolves.toEqual([]);
+    expect(requests).toHaveLength(0);
+  });
+
+  test("should surface HTTP errors", async () => {
+    const embeddings = new OpenAICompatibleEmbeddings({
+      model: "test-model",
+      baseURL,
+      maxRetries: 0,
+    });
+    failNext = true;
+
+    await expect(embeddings.embedQuery("hello")).rejects.toThrow(/500/);
+  });
+});
@@ -0,0 +1,107 @@
+import { Embeddings, type EmbeddingsParams } from "@langchain/core/embeddings";
+import axios from "axios";
+
+/** Maximum number of texts sent in a single `/embeddings` request */
+const DEFAULT_BATCH_SIZE = 128;
+
+/** Request timeout for a single `/embeddings` call in milliseconds */
+const DEFAULT_TIMEOUT = 60_000;
+
+export interface OpenAICompatibleEmbeddingsParams extends EmbeddingsParams {
+  /** Model identifier as understood by the endpoint (e.g., "text-embedding-3-small") */
+  model: string;
+  /** Base URL of the API, without the trailing `/embeddings` (e.g., "https://openrouter.ai/api/v1") */
+  baseURL: string;
+  /** Bearer token; omitted for local gateways that do not require authentication */
+  apiKey?: string;
+  /** Additional HTTP headers sent with every request */
+  headers?: Record<string, string>;
+  /** Query parameters sent with every request (e.g. Azure's `api-version`) */
+  params?: Record<string, string>;
+  batchSize?: number;
+  timeout?: number;
+}
+
+/**
+ * Shape of a response returned by an OpenAI-compatible `/embeddings` endpoint.
+ * Only the fields needed to reconstruct the vectors are declared.
+ */
+interface EmbeddingsResponse {
+  data: Array<{ index: number; embedding: number[] }>;
+}
+
+/**
+ * Embeddings implementation for any endpoint that speaks the OpenAI `/embeddings`
+ * protocol (OpenAI itself, OpenRouter, Ollama, LiteLLM, vLLM and similar gateways).
+ * Texts are sent in batches and the returned vectors are reordered by their `index`
+ * field, since the protocol does not guarantee response order. Retries are delegated
+ * to LangChain's `AsyncCaller`.
+ */
+export class OpenAICompatibleEmbeddings extends Embeddings {
+  readonly model: string;
+  readonly baseURL: string;
+  private readonly apiKey?: string;
+  private readonly headers: Record<string, string>;
+  private readonly params: Record<string, string>;
+  private readonly batchSize: number;
+  private readonly timeout: number;
+
+  constructor(params: OpenAICompatibleEmbeddingsParams) {
+    super(params);
+    this.model = params.model;
+    this.baseURL = params.baseURL.replace(/\/+$/, "");
+    this.apiKey = params.apiKey;
+    this.headers = params.headers ?? {};
+    this.params = params.params ?? {};
+    this.batchSize = params.batchSize ?? DEFAULT_BATCH_SIZE;
+    this.timeout = params.timeout ?? DEFAULT_TIMEOUT;
+  }
+
+  async embedQuery(text: string): Promise<number[]> {
+    const [vector] = await this.embedBatch([text]);
+    return vector;
+  }
+
+  async embedDocuments(documents: string[]): Promise<number[][]> {
+    const vectors: number[][] = [];
+    for (let i = 0; i < documents.length; i += this.batchSize) {
+      const batch = documents.slice(i, i + this.batchSize);
+      vectors.push(...(await this.embedBatch(batch)));
+    }
+    return vectors;
+  }
+
+  /**
+   * Sends a single request for the given texts and returns their vectors in input order.
+   */
+  private async embedBatch(input: string[]): Promise<number[][]> {
+    if (input.length === 0) {
+      return [];
+    }
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      ...this.headers,
+    };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await this.caller.call(() =>
+      axios.post<EmbeddingsResponse>(
+        `${this.baseURL}/embeddings`,
+        { model: this.model, input },
+        { headers, params: this.params, timeout: this.timeout },
+      ),
+    );
+
+    const data = response.data?.data;
+    if (!Array.isArray(data) || data.length !== input.length) {
+      throw new Error(
+        `Embedding endpoint ${this.baseURL} returned ${Array.isArray(data) ? data.length : "no"} vectors for ${input.length} inputs`,
+      );
+    }
+
+    return [...data].sort((a, b) => a.index - b.index).map((item) => item.embedding);
+  }
+}
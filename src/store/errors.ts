@@ -30,10 +30,67 @@ class DimensionError extends StoreError {
 
 class ConnectionError extends StoreError {}
 
+/**
+ * Error thrown when vectors stored for a library version were produced by a different
+ * embedding model than the one currently configured. Mixing vectors from different
+ * models makes similarity scores meaningless, so the version has to be re-embedded.
+ */
+class EmbeddingModelMismatchError extends StoreError {
+  constructor(
+    public readonly library: string,
+    public readonly version: string,
+    public readonly storedModel: string,
+    public readonly currentModel: string,
+  ) {
+    super(
+      `Embeddings for ${library}@${version || "[no version]"} were created with "${storedModel}", ` +
+        `but the configured model is "${currentModel}". ` +
+        `Run "docs-cli reembed ${library}${version ? ` --version ${version}` : ""}" to regenerate them.`,
+    );
+  }
+}
+
+/**
+ * Error thrown when the database schema cannot be brought up to date, either because
+ * a migration failed (it is rolled back) or because the database was written by a
+ * newer release whose schema this version does not know.
+ */
+class MigrationError extends StoreError {
+  constructor(
+    message: string,
+    public readonly version?: number,
+    cause?: unknown,
+  ) {
+    super(message, cause);
+  }
+}
+
+/**
+ * Error thrown when a bundle file cannot be imported because it is malformed, fails
+ * its integrity check, or was embedded with a model that conflicts with the store's.
+ */
+class BundleError extends StoreError {
+  constructor(
+    message: string,
+    public readonly filePath?: string,
+    cause?: unknown,
+  ) {
+    super(message, cause);
+  }
+}
+
 class DocumentNotFoundError extends StoreError {
   constructor(public readonly id: string) {
     super(`Document ${id} not found`);
   }
 }
 
-export { StoreError, ConnectionError, DocumentNotFoundError, DimensionError };
+export {
+  StoreError,
+  BundleError,
+  ConnectionError,
+  DocumentNotFoundError,
+  DimensionError,
+  EmbeddingModelMismatchError,
+  MigrationError,
+};
@@ -1,3 +1,4 @@
 export * from "./DocumentStore";
+export * from "./PostgresDocumentStore";
 export * from "./DocumentManagementService";
 export * from "./errors";
@@ -0,0 +1,124 @@
+// @vitest-environment node
+import Database from "better-sqlite3";
+import * as sqliteVec from "sqlite-vec";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { MigrationError } from "./errors";
+import { applyMigrations, getSchemaVersion } from "./migrations";
+import { MIGRATIONS } from "./schema";
+import type { Migration } from "./types";
+
+vi.mock("../utils/logger");
+
+const testMigrations: Migration[] = [
+  {
+    version: 1,
+    description: "Create items",
+    sql: "CREATE TABLE items(id INTEGER PRIMARY KEY, name TEXT);",
+  },
+  {
+    version: 2,
+    description: "Add items.size",
+    sql: "ALTER TABLE items ADD COLUMN size INTEGER NOT NULL DEFAULT 0;",
+  },
+];
+
+const tableNames = (db: Database.Database) =>
+  (
+    db.prepare("SELECT name FROM sqlite_master WHERE type = 'table'").all() as Array<{
+      name: string;
+    }>
+  ).map((row) => row.name);
+
+describe("migrations", () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("should report version 0 for a database that was never migrated", () => {
+    expect(getSchemaVersion(db)).toBe(0);
+    expect(tableNames(db)).not.toContain("schema_version");
+  });
+
+  it("should apply all pending migrations in version order", () => {
+    const result = applyMigrations(db, {
+      migrations: [testMigrations[1], testMigrations[0]],
+    });
+
+    expect(result).toEqual({
+      fromVersion: 0,
+      toVersion: 2,
+      applied: [
+        { version: 1, description: "Create items" },
+        { version: 2, description: "Add items.size" },
+      ],
+      dryRun: false,
+    });
+    expect(getSchemaVersion(db)).toBe(2);
+    db.prepare("INSERT INTO items (name, size) VALUES ('a', 1)").run();
+  });
+
+  it("should only apply migrations newer than the current version", () => {
+    applyMigrations(db, { migrations: testMigrations.slice(0, 1) });
+
+    const result = applyMigrations(db, { migrations: testMigrations });
+
+    expect(result.fromVersion).toBe(1);
+    expect(result.applied.map((m) => m.version)).toEqual([2]);
+    expect(applyMigrations(db, { migrations: testMigrations }).applied).toEqual([]);
+  });
+
+  it("should list pending migrations without changing the database in a dry run", () => {
+    const result = applyMigrations(db, { migrations: testMigrations, dryRun: true });
+
+    expect(result.dryRun).toBe(true);
+    expect(result.toVersion).toBe(0);
+    expect(result.applied).toHaveLength(2);
+    expect(tableNames(db)).toEqual([]);
+  });
+
+  it("should roll back a failing migration and keep earlier ones", () => {
+    const failing: Migration = {
+      version: 3,
+      description: "Broken",
+      sql: "CREATE TABLE extra(id INTEGER); INSERT INTO missing VALUES (1);",
+    };
+
+    expect(() =>
+      applyMigrations(db, { migrations: [...testMigrations, failing] }),
+    ).toThrow(MigrationError);
+    expect(getSchemaVersion(db)).toBe(2);
+    expect(tableNames(db)).not.toContain("extra");
+  });
+
+  it("should refuse a database written by a newer schema", () => {
+    applyMigrations(db, { migrations: testMigrations });
+
+    expect(() => applyMigrations(db, { migrations: testMigrations.slice(0, 1) })).toThrow(
+      /newer than the latest version 1/,
+    );
+  });
+
+  it("should adopt a database created before schema versioning", () => {
+    sqliteVec.load(db);
+    // Databases of earlier releases already contain the initial schema
+    db.exec(MIGRATIONS[0].sql);
+    db.prepare(
+      "INSERT INTO documents (library, version, url, content, metadata, sort_order) VALUES ('lib', '', 'u', 'c', '{}', 0)",
+    ).run();
+
+    const result = applyMigrations(db);
+
+    expect(result.fromVersion).toBe(0);
+    expect(result.toVersion).toBe(MIGRATIONS.at(-1)?.version);
+    expect(tableNames(db)).toContain("embedding_models");
+    expect(db.prepare("SELECT COUNT(*) AS count FROM documents").get()).toEqual({
+      count: 1,
+    });
+  });
+});
@@ -0,0 +1,178 @@
+import type { Database } from "better-sqlite3";
+import type { PoolClient } from "pg";
+import { logger } from "../utils/logger";
+import { MigrationError } from "./errors";
+import { MIGRATIONS, POSTGRES_MIGRATIONS } from "./schema";
+import type { Migration, MigrationResult } from "./types";
+
+const createSchemaVersionTableSQL = `
+  CREATE TABLE IF NOT EXISTS schema_version(
+    version INTEGER PRIMARY KEY,
+    description TEXT NOT NULL,
+    applied_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+  );
+`;
+
+const createPostgresSchemaVersionTableSQL = `
+  CREATE TABLE IF NOT EXISTS schema_version(
+    version INTEGER PRIMARY KEY,
+    description TEXT NOT NULL,
+    applied_at TIMESTAMPTZ NOT NULL DEFAULT now()
+  );
+`;
+
+/** Key of the advisory lock that serializes migration runs against one PostgreSQL database */
+const POSTGRES_MIGRATION_LOCK_ID = 715_300_001;
+
+/**
+ * Determines the migrations that still have to be applied to a database at `fromVersion`.
+ * @throws {MigrationError} If the database is newer than the application
+ */
+function planMigrations(fromVersion: number, migrations: Migration[]) {
+  const sorted = [...migrations].sort((a, b) => a.version - b.version);
+  const latestVersion = sorted.at(-1)?.version ?? 0;
+
+  if (fromVersion > latestVersion) {
+    throw new MigrationError(
+      `Database schema version ${fromVersion} is newer than the latest version ${latestVersion} supported by this release. Please upgrade docs-mcp-server.`,
+      fromVersion,
+    );
+  }
+
+  const pending = sorted.filter((migration) => migration.version > fromVersion);
+  const applied = pending.map(({ version, description }) => ({ version, description }));
+  return { latestVersion, pending, applied };
+}
+
+/**
+ * Returns the schema version of the database, i.e. the highest applied migration,
+ * or 0 for a database that has never been migrated. Does not modify the database.
+ */
+export function getSchemaVersion(db: Database): number {
+  const table = db
+    .prepare(
+      "SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'schema_version'",
+    )
+    .get();
+  if (!table) {
+    return 0;
+  }
+  const row = db.prepare("SELECT MAX(version) AS version FROM schema_version").get() as
+    | { version: number | null }
+    | undefined;
+  return row?.version ?? 0;
+}
+
+/**
+ * Brings the database schema up to date by applying all pending migrations in
+ * version order. Each migration runs in its own transaction together with its
+ * `schema_version` record, so a failing migration is rolled back completely and
+ * leaves the database at the last successfully applied version.
+ *
+ * @param migrations Migrations to consider, defaults to the application's schema
+ * @throws {MigrationError} If a migration fails or the database is newer than the application
+ */
+export function applyMigrations(
+  db: Database,
+  options: { dryRun?: boolean; migrations?: Migration[] } = {},
+): MigrationResult {
+  const { dryRun = false, migrations = MIGRATIONS } = options;
+  const fromVersion = getSchemaVersion(db);
+  const { latestVersion, pending, applied } = planMigrations(fromVersion, migrations);
+
+  if (dryRun || pending.length === 0) {
+    return { fromVersion, toVersion: fromVersion, applied, dryRun };
+  }
+
+  db.exec(createSchemaVersionTableSQL);
+  const recordVersion = db.prepare(
+    "INSERT INTO schema_version (version, description) VALUES (?, ?)",
+  );
+  for (const migration of pending) {
+    const apply = db.transaction(() => {
+      db.exec(migration.sql);
+      recordVersion.run(migration.version, migration.description);
+    });
+    try {
+      apply();
+    } catch (error) {
+      throw new MigrationError(
+        `Failed to apply migration ${migration.version} (${migration.description})`,
+        migration.version,
+        error,
+      );
+    }
+    logger.info(
+      `🗄️ Applied schema migration ${migration.version}: ${migration.description}`,
+    );
+  }
+
+  return { fromVersion, toVersion: latestVersion, applied, dryRun };
+}
+
+/**
+ * Returns the schema version of a PostgreSQL database, or 0 if it was never migrated.
+ */
+export async function getPostgresSchemaVersion(client: PoolClient): Promise<number> {
+  const table = await client.query<{ name: string | null }>(
+    "SELECT to_regclass('schema_version')::text AS name",
+  );
+  if (!table.rows[0]?.name) {
+    return 0;
+  }
+  const result = await client.query<{ version: number | null }>(
+    "SELECT MAX(version) AS version FROM schema_version",
+  );
+  return result.rows[0]?.version ?? 0;
+}
+
+/**
+ * PostgreSQL counterpart of `applyMigrations`. Migrations run one transaction each,
+ * while holding an advisory lock so that several servers starting against the same
+ * database do not migrate it concurrently.
+ *
+ * @throws {MigrationError} If a migration fails or the database is newer than the application
+ */
+export async function applyPostgresMigrations(
+  client: PoolClient,
+  options: { dryRun?: boolean; migrations?: Migration[] } = {},
+): Promise<MigrationResult> {
+  const { dryRun = false, migrations = POSTGRES_MIGRATIONS } = options;
+
+  await client.query("SELECT pg_advisory_lock($1)", [POSTGRES_MIGRATION_LOCK_ID]);
+  try {
+    const fromVersion = await getPostgresSchemaVersion(client);
+    const { latestVersion, pending, applied } = planMigrations(fromVersion, migrations);
+
+    if (dryRun || pending.length === 0) {
+      return { fromVersion, toVersion: fromVersion, applied, dryRun };
+    }
+
+    await client.query(createPostgresSchemaVersionTableSQL);
+    for (const migration of pending) {
+      try {
+        await client.query("BEGIN");
+        await client.query(migration.sql);
+        await client.query(
+          "INSERT INTO schema_version (version, description) VALUES ($1, $2)",
+          [migration.version, migration.description],
+        );
+        await client.query("COMMIT");
+      } catch (error) {
+        await client.query("ROLLBACK");
+        throw new MigrationError(
+          `Failed to apply migration ${migration.version} (${migration.description})`,
+          migration.version,
+          error,
+        );
+      }
+      logger.info(
+        `🗄️ Applied schema migration ${migration.version}: ${migration.description}`,
+      );
+    }
+
+    return { fromVersion, toVersion: latestVersion, applied, dryRun };
+  } finally {
+    await client.query("SELECT pg_advisory_unlock($1)", [POSTGRES_MIGRATION_LOCK_ID]);
+  }
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { StoreError } from "./errors";
+import {
+  DEFAULT_RANKING,
+  calculateFusedScore,
+  combineRankingOptions,
+  mergeRankingOptions,
+  validateRankingOptions,
+} from "./ranking";
+
+describe("ranking", () => {
+  it("should apply later options over earlier ones without unsetting values", () => {
+    const settings = mergeRankingOptions(
+      DEFAULT_RANKING,
+      { rrfK: 20, bm25Weights: { url: 0 } },
+      null,
+      { rrfK: undefined, textWeight: 2, bm25Weights: { title: 3 } },
+    );
+
+    expect(settings).toEqual({
+      rrfK: 20,
+      vectorWeight: 1,
+      textWeight: 2,
+      bm25Weights: { content: 10, title: 3, url: 0, path: 1 },
+    });
+  });
+
+  it("should combine partial options", () => {
+    expect(
+      combineRankingOptions({ vectorWeight: 0.5 }, { bm25Weights: { path: 2 } }),
+    ).toEqual({ vectorWeight: 0.5, bm25Weights: { path: 2 } });
+  });
+
+  it("should weight the reciprocal ranks of both legs", () => {
+    const settings = mergeRankingOptions(DEFAULT_RANKING, {
+      rrfK: 10,
+      vectorWeight: 2,
+      textWeight: 1,
+    });
+
+    expect(calculateFusedScore(settings, 1, 4)).toBeCloseTo(2 / 11 + 1 / 14);
+    expect(calculateFusedScore(settings, undefined, 1)).toBeCloseTo(1 / 11);
+    expect(calculateFusedScore(settings)).toBe(0);
+  });
+
+  it.each([
+    [{ rrfK: 0 }, /rrfK=0/],
+    [{ rrfK: Number.NaN }, /rrfK=NaN/],
+    [{ textWeight: -1 }, /textWeight=-1/],
+    [{ bm25Weights: { url: -2 } }, /bm25Weights\.url=-2/],
+    [{ vectorWeight: 0, textWeight: 0 }, /must not both be 0/],
+  ])("should reject invalid options %o", (options, message) => {
+    expect(() => validateRankingOptions(options)).toThrow(StoreError);
+    expect(() => validateRankingOptions(options)).toThrow(message);
+  });
+
+  it("should accept the defaults and zero weights of single fields", () => {
+    expect(() => validateRankingOptions(DEFAULT_RANKING)).not.toThrow();
+    expect(() =>
+      validateRankingOptions({ vectorWeight: 0, bm25Weights: { path: 0 } }),
+    ).not.toThrow();
+  });
+});
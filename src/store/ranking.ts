@@ -0,0 +1,113 @@
+import { StoreError } from "./errors";
+import type { Bm25Weights, RankingOptions, RankingSettings } from "./types";
+
+/** Default constant `k` of Reciprocal Rank Fusion, dampening the weight of top ranks */
+export const DEFAULT_RRF_K = 60;
+
+/**
+ * Ranking used unless configured otherwise: both legs weighted equally, and full-text
+ * matches in the content counting most, followed by the URL.
+ */
+export const DEFAULT_RANKING: RankingSettings = {
+  rrfK: DEFAULT_RRF_K,
+  vectorWeight: 1,
+  textWeight: 1,
+  bm25Weights: { content: 10, title: 1, url: 5, path: 1 },
+};
+
+/** Columns of the full-text index, in the order `bm25()` expects their weights */
+export const BM25_COLUMNS: Array<keyof Bm25Weights> = ["content", "title", "url", "path"];
+
+/**
+ * Checks that ranking options are usable: `rrfK` must be positive, weights must not be
+ * negative, and the two legs must not both be weighted 0.
+ * @throws {StoreError} If an option is out of range
+ */
+export function validateRankingOptions(options: RankingOptions): void {
+  const { rrfK, vectorWeight, textWeight, bm25Weights = {} } = options;
+  if (rrfK !== undefined && !(Number.isFinite(rrfK) && rrfK > 0)) {
+    throw new StoreError(
+      `Invalid ranking option rrfK=${rrfK}: must be a positive number`,
+    );
+  }
+  const weights: Array<[string, number | undefined]> = [
+    ["vectorWeight", vectorWeight],
+    ["textWeight", textWeight],
+    ...BM25_COLUMNS.map((column): [string, number | undefined] => [
+      `bm25Weights.${column}`,
+      bm25Weights[column],
+    ]),
+  ];
+  for (const [name, value] of weights) {
+    if (value !== undefined && !(Number.isFinite(value) && value >= 0)) {
+      throw new StoreError(
+        `Invalid ranking option ${name}=${value}: must be a non-negative number`,
+      );
+    }
+  }
+  if (vectorWeight === 0 && textWeight === 0) {
+    throw new StoreError(
+      "Invalid ranking options: vectorWeight and textWeight must not both be 0",
+    );
+  }
+}
+
+/**
+ * Combines partial ranking options, later options taking precedence. Null entries and
+ * undefined values are skipped, so they never unset an option.
+ */
+export function combineRankingOptions(
+  ...options: Array<RankingOptions | null | undefined>
+): RankingOptions {
+  const combined: RankingOptions = {};
+  const bm25Weights: Partial<Bm25Weights> = {};
+  for (const next of options) {
+    if (next) {
+      Object.assign(combined, definedValues(next));
+      Object.assign(bm25Weights, definedValues(next.bm25Weights));
+    }
+  }
+  return { ...combined, bm25Weights };
+}
+
+/**
+ * Applies partial ranking options on top of complete settings, later options taking
+ * precedence.
+ */
+export function mergeRankingOptions(
+  base: RankingSettings,
+  ...overrides: Array<RankingOptions | null | undefined>
+): RankingSettings {
+  const combined = combineRankingOptions(...overrides);
+  return {
+    ...base,
+    ...combined,
+    bm25Weights: { ...base.bm25Weights, ...combined.bm25Weights },
+  };
+}
+
+/**
+ * Calculates the weighted Reciprocal Rank Fusion score of a result from its ranks in
+ * both legs; a leg that did not return the result contributes nothing.
+ */
+export function calculateFusedScore(
+  settings: RankingSettings,
+  vecRank?: number,
+  ftsRank?: number,
+): number {
+  let score = 0;
+  if (vecRank !== undefined) {
+    score += settings.vectorWeight / (settings.rrfK + vecRank);
+  }
+  if (ftsRank !== undefined) {
+    score += settings.textWeight / (settings.rrfK + ftsRank);
+  }
+  return score;
+}
+
+/** Drops undefined values, so they do not overwrite settings when spread */
+function definedValues<T extends object>(values: T = {} as T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(values).filter(([, value]) => value !== undefined),
+  ) as Partial<T>;
+}
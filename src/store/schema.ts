@@ -1,59 +1,295 @@
+import type { Migration } from "./types";
+
 /** Default vector dimension used across the application */
 export const VECTOR_DIMENSION = 1536;
 
-// Main table and index creation SQL
-export const createTablesSQL = `
-  -- Documents table
-  CREATE TABLE IF NOT EXISTS documents(
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    library TEXT NOT NULL,
-    version TEXT NOT NULL DEFAULT '',
-    url TEXT NOT NULL,
-    content TEXT,
-    metadata JSON,
-    sort_order INTEGER NOT NULL,
-    UNIQUE(url, library, version, sort_order)
-  );
-
-  -- Indexes
-  CREATE INDEX IF NOT EXISTS idx_documents_library_lower ON documents(lower(library));
-  CREATE INDEX IF NOT EXISTS idx_documents_version_lower ON documents(lower(library), lower(version));
-
-  -- Create Embeddings virtual table
-  CREATE VIRTUAL TABLE IF NOT EXISTS documents_vec USING vec0(
-    library TEXT NOT NULL,
-    version TEXT NOT NULL,
-    embedding FLOAT[${VECTOR_DIMENSION}]
-  );
-
-  -- Create FTS5 virtual table
-  CREATE VIRTUAL TABLE IF NOT EXISTS documents_fts USING fts5(
-    content,
-    title,
-    url,
-    path,
-    tokenize='porter unicode61',
-    content='documents',
-    content_rowid='id'
-  );
-
-  -- Delete trigger to maintain FTS index
-  CREATE TRIGGER IF NOT EXISTS documents_fts_after_delete AFTER DELETE ON documents BEGIN
-    INSERT INTO documents_fts(documents_fts, rowid, content, title, url, path) 
-    VALUES('delete', old.id, old.content, json_extract(old.metadata, '$.title'), old.url, json_extract(old.metadata, '$.path'));
-  END;
-
-  -- Update trigger to maintain FTS index 
-  CREATE TRIGGER IF NOT EXISTS documents_fts_after_update AFTER UPDATE ON documents BEGIN
-    INSERT INTO documents_fts(documents_fts, rowid, content, title, url, path) 
-    VALUES('delete', old.id, old.content, json_extract(old.metadata, '$.title'), old.url, json_extract(old.metadata, '$.path'));
-    INSERT INTO documents_fts(rowid, content, title, url, path) 
-    VALUES(new.id, new.content, json_extract(new.metadata, '$.title'), new.url, json_extract(new.metadata, '$.path'));
-  END;
-
-  -- Insert trigger to maintain FTS index
-  CREATE TRIGGER IF NOT EXISTS documents_fts_after_insert AFTER INSERT ON documents BEGIN
-    INSERT INTO documents_fts(rowid, content, title, url, path)
-    VALUES(new.id, new.content, json_extract(new.metadata, '$.title'), new.url, json_extract(new.metadata, '$.path'));
-  END;
-`;
+/**
+ * Ordered list of schema migrations. Each migration is applied once, inside a
+ * transaction, and recorded in the `schema_version` table. Existing migrations
+ * must never be edited once released; schema changes are added as a new entry
+ * with the next version number.
+ *
+ * Migration 1 uses `IF NOT EXISTS` throughout so that databases created before
+ * versioning was introduced are adopted without changes.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "Initial schema: documents, vector and full-text indexes",
+    sql: `
+      -- Documents table
+      CREATE TABLE IF NOT EXISTS documents(
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        library TEXT NOT NULL,
+        version TEXT NOT NULL DEFAULT '',
+        url TEXT NOT NULL,
+        content TEXT,
+        metadata JSON,
+        sort_order INTEGER NOT NULL,
+        UNIQUE(url, library, version, sort_order)
+      );
+
+      -- Indexes
+      CREATE INDEX IF NOT EXISTS idx_documents_library_lower ON documents(lower(library));
+      CREATE INDEX IF NOT EXISTS idx_documents_version_lower ON documents(lower(library), lower(version));
+
+      -- Create Embeddings virtual table
+      CREATE VIRTUAL TABLE IF NOT EXISTS documents_vec USING vec0(
+        library TEXT NOT NULL,
+        version TEXT NOT NULL,
+        embedding FLOAT[${VECTOR_DIMENSION}]
+      );
+
+      -- Create FTS5 virtual table
+      CREATE VIRTUAL TABLE IF NOT EXISTS documents_fts USING fts5(
+        content,
+        title,
+        url,
+        path,
+        tokenize='porter unicode61',
+        content='documents',
+        content_rowid='id'
+      );
+
+      -- Delete trigger to maintain FTS index
+      CREATE TRIGGER IF NOT EXISTS documents_fts_after_delete AFTER DELETE ON documents BEGIN
+        INSERT INTO documents_fts(documents_fts, rowid, content, title, url, path) 
+        VALUES('delete', old.id, old.content, json_extract(old.metadata, '$.title'), old.url, json_extract(old.metadata, '$.path'));
+      END;
+
+      -- Update trigger to maintain FTS index 
+      CREATE TRIGGER IF NOT EXISTS documents_fts_after_update AFTER UPDATE ON documents BEGIN
+        INSERT INTO documents_fts(documents_fts, rowid, content, title, url, path) 
+        VALUES('delete', old.id, old.content, json_extract(old.metadata, '$.title'), old.url, json_extract(old.metadata, '$.path'));
+        INSERT INTO documents_fts(rowid, content, title, url, path) 
+        VALUES(new.id, new.content, json_extract(new.metadata, '$.title'), new.url, json_extract(new.metadata, '$.path'));
+      END;
+
+      -- Insert trigger to maintain FTS index
+      CREATE TRIGGER IF NOT EXISTS documents_fts_after_insert AFTER INSERT ON documents BEGIN
+        INSERT INTO documents_fts(rowid, content, title, url, path)
+        VALUES(new.id, new.content, json_extract(new.metadata, '$.title'), new.url, json_extract(new.metadata, '$.path'));
+      END;
+    `,
+  },
+  {
+    version: 2,
+    description: "Record the embedding model per library version",
+    sql: `
+      -- Embedding model that produced the vectors of each library version
+      CREATE TABLE IF NOT EXISTS embedding_models(
+        library TEXT NOT NULL,
+        version TEXT NOT NULL DEFAULT '',
+        model TEXT NOT NULL,
+        dimension INTEGER NOT NULL,
+        updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY(library, version)
+      );
+    `,
+  },
+  {
+    version: 3,
+    description: "Track scraped pages for incremental re-scraping",
+    sql: `
+      -- Content hash, HTTP validators and outgoing links of every scraped page
+      CREATE TABLE IF NOT EXISTS pages(
+        library TEXT NOT NULL,
+        version TEXT NOT NULL DEFAULT '',
+        url TEXT NOT NULL,
+        content_hash TEXT NOT NULL,
+        etag TEXT,
+        last_modified TEXT,
+        links JSON NOT NULL DEFAULT '[]',
+        updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY(library, version, url)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_documents_url ON documents(library, version, url);
+    `,
+  },
+  {
+    version: 4,
+    description: "Store ranking options per library",
+    sql: `
+      -- Hybrid ranking options overriding the defaults for all versions of a library
+      CREATE TABLE IF NOT EXISTS library_ranking(
+        library TEXT PRIMARY KEY,
+        options JSON NOT NULL,
+        updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+      );
+    `,
+  },
+  {
+    version: 5,
+    description: "Store version aliases per library",
+    sql: `
+      -- Named aliases (e.g. "stable") pointing at an indexed version of a library
+      CREATE TABLE IF NOT EXISTS version_aliases(
+        library TEXT NOT NULL,
+        alias TEXT NOT NULL,
+        version TEXT NOT NULL,
+        updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY(library, alias)
+      );
+    `,
+  },
+  {
+    version: 6,
+    description: "Register indexed library versions with their provenance",
+    sql: `
+      -- Source URL, scraper options, job, description, timing and size of every version
+      CREATE TABLE IF NOT EXISTS library_versions(
+        library TEXT NOT NULL,
+        version TEXT NOT NULL DEFAULT '',
+        source_url TEXT,
+        scraper_options JSON,
+        job_id TEXT,
+        description TEXT,
+        started_at TEXT,
+        finished_at TEXT,
+        page_count INTEGER NOT NULL DEFAULT 0,
+        chunk_count INTEGER NOT NULL DEFAULT 0,
+        updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY(library, version)
+      );
+
+      -- Register the versions indexed before the registry existed, skipping staged jobs
+      INSERT OR IGNORE INTO library_versions (library, version, finished_at, page_count, chunk_count)
+      SELECT d.library, d.version,
+        strftime('%Y-%m-%dT%H:%M:%fZ', (
+          SELECT MAX(p.updated_at) FROM pages p
+          WHERE p.library = d.library AND p.version = d.version
+        )),
+        COUNT(DISTINCT d.url), COUNT(*)
+      FROM documents d
+      WHERE d.library NOT GLOB '__staging__/*'
+      GROUP BY d.library, d.version;
+    `,
+  },
+];
+
+/**
+ * Schema migrations of the PostgreSQL backend, applied and versioned like `MIGRATIONS`.
+ * Vectors are stored in a pgvector column of the documents table and the full-text
+ * index is a generated `tsvector` column, labelling content as A, the URL as B, and
+ * title and heading path as D, so the BM25 column weights of the ranking can be
+ * applied as `ts_rank_cd` weights.
+ */
+export const POSTGRES_MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "Initial schema: documents with pgvector embeddings and full-text index",
+    sql: `
+      CREATE EXTENSION IF NOT EXISTS vector;
+
+      -- Documents with their (padded) embedding and generated full-text vector
+      CREATE TABLE IF NOT EXISTS documents(
+        id BIGSERIAL PRIMARY KEY,
+        library TEXT NOT NULL,
+        version TEXT NOT NULL DEFAULT '',
+        url TEXT NOT NULL,
+        content TEXT,
+        metadata JSONB,
+        sort_order INTEGER NOT NULL,
+        embedding vector(${VECTOR_DIMENSION}),
+        fts tsvector GENERATED ALWAYS AS (
+          setweight(to_tsvector('english', coalesce(content, '')), 'A') ||
+          setweight(to_tsvector('english', url), 'B') ||
+          setweight(to_tsvector('english', coalesce(metadata->>'title', '')), 'D') ||
+          setweight(to_tsvector('english', coalesce(metadata->>'path', '')), 'D')
+        ) STORED,
+        UNIQUE(url, library, version, sort_order)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_documents_library_version ON documents(library, version);
+      CREATE INDEX IF NOT EXISTS idx_documents_url ON documents(library, version, url);
+      CREATE INDEX IF NOT EXISTS idx_documents_fts ON documents USING GIN(fts);
+
+      -- Embedding model that produced the vectors of each library version
+      CREATE TABLE IF NOT EXISTS embedding_models(
+        library TEXT NOT NULL,
+        version TEXT NOT NULL DEFAULT '',
+        model TEXT NOT NULL,
+        dimension INTEGER NOT NULL,
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+        PRIMARY KEY(library, version)
+      );
+
+      -- Content hash, HTTP validators and outgoing links of every scraped page
+      CREATE TABLE IF NOT EXISTS pages(
+        library TEXT NOT NULL,
+        version TEXT NOT NULL DEFAULT '',
+        url TEXT NOT NULL,
+        content_hash TEXT NOT NULL,
+        etag TEXT,
+        last_modified TEXT,
+        links JSONB NOT NULL DEFAULT '[]',
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+        PRIMARY KEY(library, version, url)
+      );
+    `,
+  },
+  {
+    version: 2,
+    description: "Store ranking options per library",
+    sql: `
+      CREATE TABLE IF NOT EXISTS library_ranking(
+        library TEXT PRIMARY KEY,
+        options JSONB NOT NULL,
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+      );
+    `,
+  },
+  {
+    version: 3,
+    description: "Store version aliases per library",
+    sql: `
+      CREATE TABLE IF NOT EXISTS version_aliases(
+        library TEXT NOT NULL,
+        alias TEXT NOT NULL,
+        version TEXT NOT NULL,
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+        PRIMARY KEY(library, alias)
+      );
+    `,
+  },
+  {
+    version: 4,
+    description: "Register indexed library versions with their provenance",
+    sql: `
+      CREATE TABLE IF NOT EXISTS library_versions(
+        library TEXT NOT NULL,
+        version TEXT NOT NULL DEFAULT '',
+        source_url TEXT,
+        scraper_options JSONB,
+        job_id TEXT,
+        description TEXT,
+        started_at TIMESTAMPTZ,
+        finished_at TIMESTAMPTZ,
+        page_count INTEGER NOT NULL DEFAULT 0,
+        chunk_count INTEGER NOT NULL DEFAULT 0,
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+        PRIMARY KEY(library, version)
+      );
+
+      INSERT INTO library_versions (library, version, finished_at, page_count, chunk_count)
+      SELECT d.library, d.version,
+        (SELECT MAX(p.updated_at) FROM pages p
+         WHERE p.library = d.library AND p.version = d.version),
+        COUNT(DISTINCT d.url), COUNT(*)
+      FROM documents d
+      WHERE NOT starts_with(d.library, '__staging__/')
+      GROUP BY d.library, d.version
+      ON CONFLICT DO NOTHING;
+    `,
+  },
+  {
+    version: 5,
+    description: "Index document embeddings for approximate nearest-neighbor search",
+    sql: `
+      -- HNSW index used by the cosine distance operator (<=>) of the vector search
+      CREATE INDEX IF NOT EXISTS idx_documents_embedding ON documents
+        USING hnsw (embedding vector_cosine_ops);
+    `,
+  },
+];
@@ -1,3 +1,6 @@
+import type { Document } from "@langchain/core/documents";
+import type { ScraperOptions } from "../scraper/types";
+import type { SectionContentType } from "../splitter/types";
 import type { DocumentMetadata } from "../types";
 
 /**
@@ -21,28 +24,580 @@ export interface DbDocument {
 export type DbQueryResult<T> = T | undefined;
 
 /**
- * Maps raw database document to the Document type used by the application
+ * Maps raw database document to the Document type used by the application. The
+ * position of the chunk within its page is added to the metadata as `sort_order`
+ * when the row includes it.
  */
 export function mapDbDocumentToDocument(doc: DbDocument) {
   return {
     id: doc.id,
     pageContent: doc.content,
-    metadata: JSON.parse(doc.metadata) as DocumentMetadata,
+    metadata: {
+      ...JSON.parse(doc.metadata),
+      ...(doc.sort_order !== undefined && { sort_order: doc.sort_order }),
+    } as DocumentMetadata,
   };
 }
 
+/**
+ * How search results are produced: "hybrid" fuses vector similarity and BM25 via
+ * Reciprocal Rank Fusion, "fts" ranks by BM25 only (no embedding model configured).
+ */
+export type SearchMode = "hybrid" | "fts";
+
+/**
+ * Weights of the full-text index columns in the BM25 score. A match in a column with a
+ * higher weight counts more; 0 ignores the column.
+ */
+export interface Bm25Weights {
+  content: number;
+  title: number;
+  url: number;
+  path: number;
+}
+
+/**
+ * Parameters of the hybrid ranking, which fuses the ranks of both search legs with
+ * weighted Reciprocal Rank Fusion: `vectorWeight / (rrfK + vectorRank) +
+ * textWeight / (rrfK + textRank)`.
+ */
+export interface RankingSettings {
+  /** RRF constant; smaller values give top-ranked results more weight */
+  rrfK: number;
+  /** Weight of the vector similarity leg */
+  vectorWeight: number;
+  /** Weight of the full-text leg */
+  textWeight: number;
+  bm25Weights: Bm25Weights;
+}
+
+/**
+ * Partial ranking parameters, configured per library or passed with a query. Unset
+ * values fall back to the library's settings, then to the defaults.
+ */
+export interface RankingOptions extends Partial<Omit<RankingSettings, "bm25Weights">> {
+  bm25Weights?: Partial<Bm25Weights>;
+}
+
+/**
+ * How a search result was ranked within its library version, returned when a search
+ * is run with `explain`.
+ */
+export interface RankingExplanation {
+  /** Distance to the query embedding, or null if the vector leg did not return the chunk */
+  vectorDistance: number | null;
+  vectorRank: number | null;
+  /**
+   * Full-text score, or null if the full-text leg did not return the chunk. In SQLite
+   * this is the BM25 score, in PostgreSQL the negated `ts_rank_cd`; lower is better.
+   */
+  textScore: number | null;
+  textRank: number | null;
+  /** Weighted RRF score the result was ranked by */
+  fusedScore: number;
+  /** RRF score over the query variants, if the search was run with `expand` */
+  expansionScore?: number;
+  /** Relevance assigned by the re-ranking model (0-10), if the result was re-ranked */
+  rerankScore?: number;
+}
+
 /**
  * Search result type returned by the DocumentRetrieverService
  */
 export interface StoreSearchResult {
+  /** Library the result was found in */
+  library: string;
+  /** Version the result was found in ("" for unversioned documents) */
+  version: string;
   url: string;
   content: string;
   score: number | null;
+  /** Ranking details, only present when the search was run with `explain` */
+  explain?: RankingExplanation;
+  /** Set when content of the page was cut or left out to stay within the budget */
+  truncated?: boolean;
+}
+
+/**
+ * Restricts a search to chunks matching all given criteria. Filters are applied inside
+ * the database query, to both the vector and the full-text leg of a hybrid search.
+ */
+export interface SearchFilters {
+  /** Only chunks of pages whose URL starts with this prefix */
+  urlPrefix?: string;
+  /** Only chunks whose heading path contains this text (case-insensitive) */
+  pathContains?: string;
+  /** Only chunks containing content of this type, e.g. "code" for code examples */
+  contentType?: SectionContentType;
+  /** Only chunks at this heading level or deeper (1 = top-level section) */
+  minLevel?: number;
+}
+
+/**
+ * Options of a search, passed from the tools through the service to the store.
+ */
+export interface SearchOptions {
+  filters?: SearchFilters;
+  /** Overrides the ranking parameters configured for the library */
+  ranking?: RankingOptions;
+  /** Attach the ranking details of every result */
+  explain?: boolean;
+  /** Budget for the content of all results, in estimated tokens */
+  maxTokens?: number;
+  /** Budget for the content of all results, in characters */
+  maxChars?: number;
+  /** Set to false to skip re-ranking even when a re-ranking model is configured */
+  rerank?: boolean;
+  /** Also search for rewritten variants of the query and fuse the results */
+  expand?: boolean;
+}
+
+/**
+ * Reorders search hits by their relevance to the query, e.g. using a chat model.
+ * Implementations must not fail the search: on errors they return the hits unchanged.
+ */
+export interface Reranker {
+  rerank(query: string, documents: Document[]): Promise<Document[]>;
+}
+
+/**
+ * Size and embedding coverage of an indexed library version.
+ */
+export interface VersionStats {
+  library: string;
+  version: string;
+  pages: number;
+  chunks: number;
+  /** Total length of the chunk content in characters */
+  contentSize: number;
+  /** Average chunk length in characters, rounded */
+  averageChunkSize: number;
+  /** Chunks without a vector, e.g. indexed in full-text-only mode */
+  missingEmbeddings: number;
+  /** When the version was last indexed (ISO 8601), or null if unknown */
+  indexedAt: string | null;
+}
+
+/**
+ * Row of the per-version statistics query. Counts may be returned as strings (PostgreSQL
+ * bigint) and timestamps as `Date` (PostgreSQL) or "YYYY-MM-DD HH:MM:SS" UTC (SQLite).
+ */
+export interface DbVersionStats {
+  library: string;
+  version: string;
+  pages: number | string;
+  chunks: number | string;
+  content_size: number | string | null;
+  missing_embeddings: number | string;
+  indexed_at: string | Date | null;
+}
+
+/**
+ * Converts a row of the per-version statistics query to `VersionStats`.
+ */
+export function mapDbVersionStats(row: DbVersionStats): VersionStats {
+  const chunks = Number(row.chunks);
+  const contentSize = Number(row.content_size ?? 0);
+  const indexedAt =
+    typeof row.indexed_at === "string"
+      ? new Date(`${row.indexed_at.replace(" ", "T")}Z`)
+      : row.indexed_at;
+  return {
+    library: row.library,
+    version: row.version,
+    pages: Number(row.pages),
+    chunks,
+    contentSize,
+    averageChunkSize: chunks > 0 ? Math.round(contentSize / chunks) : 0,
+    missingEmbeddings: Number(row.missing_embeddings),
+    indexedAt: indexedAt ? indexedAt.toISOString() : null,
+  };
+}
+
+/**
+ * Statistics of the whole store.
+ */
+export interface StoreStats {
+  versions: VersionStats[];
+  /** Size of the database in bytes */
+  databaseSize: number;
+}
+
+/**
+ * Inconsistencies found by a consistency check of the store.
+ */
+export interface ConsistencyReport {
+  /** Vectors whose document no longer exists */
+  orphanedVectors: number;
+  /** Documents missing from the full-text index plus index entries without a document */
+  ftsDrift: number;
+  /** Chunks identical to an earlier chunk of the same page, metadata included */
+  duplicateChunks: number;
+}
+
+/**
+ * Outcome of a garbage collection run.
+ */
+export interface GarbageCollectionResult {
+  /** Inconsistencies found and repaired */
+  repaired: ConsistencyReport;
+  /** Size of the database in bytes before the run */
+  sizeBefore: number;
+  /** Size of the database in bytes after compaction */
+  sizeAfter: number;
+}
+
+/**
+ * Generates variants of a search query, e.g. synonyms or a hypothetical answer passage.
+ * Implementations must not fail the search: on errors they return no variants.
+ */
+export interface QueryExpander {
+  expand(query: string): Promise<string[]>;
+}
+
+/**
+ * A library version to search, e.g. one of several in a cross-library search.
+ */
+export interface SearchTarget {
+  library: string;
+  version: string | null | undefined;
+}
+
+/**
+ * Identity of the embedding model that produced the vectors of a library version.
+ * `model` is the normalized "provider:model" string and `dimension` the native
+ * (unpadded) vector length of that model.
+ */
+export interface EmbeddingModelInfo {
+  model: string;
+  dimension: number;
+}
+
+/**
+ * Named alias of a library version, e.g. "stable" for "18.3.1". Accepted wherever a
+ * version is, and resolved to the version it points at.
+ */
+export interface VersionAlias {
+  library: string;
+  alias: string;
+  version: string;
+}
+
+/**
+ * Scraper options as stored in the version registry, without the runtime-only
+ * cancellation signal and known pages.
+ */
+export type StoredScraperOptions = Omit<ScraperOptions, "signal" | "knownPages">;
+
+/**
+ * Provenance of an indexed library version: where and how it was scraped, and when.
+ */
+export interface VersionProvenance {
+  /** URL the scrape started from, or null for imported or pre-registry versions */
+  sourceUrl: string | null;
+  scraperOptions: StoredScraperOptions | null;
+  /** ID of the job that last indexed the version */
+  jobId: string | null;
+  /** Free-text description; null keeps the previous one when the version is re-indexed */
+  description: string | null;
+  /** When indexing started and finished (ISO 8601), or null if unknown */
+  startedAt: string | null;
+  finishedAt: string | null;
+}
+
+/**
+ * Registry entry of an indexed library version. Page and chunk counts are taken when
+ * the entry is saved.
+ */
+export interface VersionRecord extends VersionProvenance {
+  library: string;
+  version: string;
+  pages: number;
+  chunks: number;
+}
+
+/**
+ * Row of the `library_versions` table. Options may be returned as a JSON string
+ * (SQLite) or parsed (PostgreSQL), and timestamps as ISO strings or `Date`.
+ */
+export interface DbVersionRecord {
+  library: string;
+  version: string;
+  source_url: string | null;
+  scraper_options: string | StoredScraperOptions | null;
+  job_id: string | null;
+  description: string | null;
+  started_at: string | Date | null;
+  finished_at: string | Date | null;
+  page_count: number | string;
+  chunk_count: number | string;
+}
+
+/**
+ * Converts a row of the `library_versions` table to `VersionRecord`.
+ */
+export function mapDbVersionRecord(row: DbVersionRecord): VersionRecord {
+  const toIsoString = (value: string | Date | null) =>
+    value instanceof Date ? value.toISOString() : value;
+  return {
+    library: row.library,
+    version: row.version,
+    sourceUrl: row.source_url,
+    scraperOptions:
+      typeof row.scraper_options === "string"
+        ? JSON.parse(row.scraper_options)
+        : row.scraper_options,
+    jobId: row.job_id,
+    description: row.description,
+    startedAt: toIsoString(row.started_at),
+    finishedAt: toIsoString(row.finished_at),
+    pages: Number(row.page_count),
+    chunks: Number(row.chunk_count),
+  };
+}
+
+/**
+ * How a section differs between two versions: "added" sections exist only in the
+ * newer version, "removed" ones only in the older version.
+ */
+export type SectionChangeStatus = "added" | "removed" | "modified";
+
+/**
+ * A section that differs between two versions of a library. Sections are identified
+ * by the path of their page's URL and their heading path.
+ */
+export interface SectionChange {
+  status: SectionChangeStatus;
+  /** URL of the page, in the newer version unless the section was removed */
+  url: string;
+  /** Path of the page's URL with version segments replaced by `{version}` */
+  path: string;
+  /** Headings leading to the section, from the page title down */
+  headings: string[];
+  /** Line diff of the section text: "+ " added, "- " removed, "  " context lines */
+  diff: string;
+}
+
+/**
+ * Differences between two indexed versions of a library.
+ */
+export interface VersionDiff {
+  library: string;
+  fromVersion: string;
+  toVersion: string;
+  /** Changed sections, ordered by page path */
+  changes: SectionChange[];
+  /** Number of sections identical in both versions */
+  unchanged: number;
+}
+
+/**
+ * Stored state of a scraped page, used by incremental re-scrapes to skip pages
+ * whose content did not change and to send conditional HTTP requests.
+ */
+export interface PageState {
+  url: string;
+  /** SHA-256 of the page content as produced by the scraper */
+  contentHash: string;
+  etag?: string;
+  lastModified?: string;
+  /** Links found on the page, replayed when the server answers "304 Not Modified" */
+  links: string[];
+}
+
+/**
+ * A document chunk as exported to a bundle. `embedding` holds the unpadded vector, or
+ * null if the version was indexed without an embedding model.
+ */
+export interface BundleDocument {
+  url: string;
+  content: string;
+  metadata: DocumentMetadata;
+  sortOrder: number;
+  embedding: number[] | null;
+}
+
+/**
+ * Portable snapshot of one indexed library version: its documents with their vectors,
+ * the embedding model that produced them and the scraped page states.
+ */
+export interface Bundle {
+  library: string;
+  version: string;
+  /** ISO timestamp of the export */
+  createdAt: string;
+  embeddingModel: EmbeddingModelInfo | null;
+  documents: BundleDocument[];
+  pages: PageState[];
+}
+
+/**
+ * Outcome of importing a bundle into the store.
+ */
+export interface BundleImportResult {
+  library: string;
+  version: string;
+  documentCount: number;
+}
+
+/**
+ * A single schema migration. `sql` may contain multiple statements and is executed
+ * in one transaction together with recording `version` in `schema_version`.
+ */
+export interface Migration {
+  version: number;
+  description: string;
+  sql: string;
+}
+
+/**
+ * Outcome of a migration run. In a dry run `applied` lists the migrations that
+ * would be applied and the schema version is left unchanged.
+ */
+export interface MigrationResult {
+  /** Schema version before the run */
+  fromVersion: number;
+  /** Schema version after the run (equal to `fromVersion` for a dry run) */
+  toVersion: number;
+  applied: Array<Pick<Migration, "version" | "description">>;
+  dryRun: boolean;
+}
+
+/**
+ * Storage backend of the document index. Implemented by `DocumentStore` (SQLite with
+ * sqlite-vec and FTS5) and `PostgresDocumentStore` (PostgreSQL with pgvector and
+ * `tsvector` full-text search). Library names and versions are matched
+ * case-insensitively; an empty version denotes unversioned documents.
+ */
+export interface DocumentStorage {
+  /** Applies pending schema migrations, then initializes the embedding model. */
+  initialize(): Promise<void>;
+  shutdown(): Promise<void>;
+  /** Applies pending schema migrations, or only reports them when `dryRun` is set. */
+  migrate(options?: { dryRun?: boolean }): Promise<MigrationResult>;
+
+  getSearchMode(): SearchMode;
+  getEmbeddingModelInfo(): EmbeddingModelInfo | null;
+  getStoredEmbeddingModel(
+    library: string,
+    version: string,
+  ): Promise<EmbeddingModelInfo | null>;
+
+  // Libraries and versions
+  queryUniqueVersions(library: string): Promise<string[]>;
+  checkDocumentExists(library: string, version: string): Promise<boolean>;
+  queryLibraryVersions(): Promise<Map<string, Set<string>>>;
+  getStatistics(): Promise<StoreStats>;
+
+  // Maintenance
+  /** Reports orphaned vectors, full-text index drift and duplicate chunks. */
+  checkConsistency(): Promise<ConsistencyReport>;
+  /** Repairs what `checkConsistency()` reports, then compacts and optimizes the database. */
+  collectGarbage(): Promise<GarbageCollectionResult>;
+
+  // Adding and removing documents
+  addDocuments(library: string, version: string, documents: Document[]): Promise<void>;
+  deleteDocuments(library: string, version: string): Promise<number>;
+  reembedDocuments(
+    library: string,
+    version: string,
+    onProgress?: (processed: number, total: number) => void,
+  ): Promise<number>;
+
+  // Staging of scrape jobs
+  getStagingLibrary(jobId: string): string;
+  swapStagedDocuments(
+    stagingLibrary: string,
+    library: string,
+    version: string,
+  ): Promise<number>;
+  deleteStagedDocuments(stagingLibrary: string, version: string): Promise<number>;
+
+  // Pages of incremental scrapes
+  /**
+   * Atomically replaces the chunks of a page (`page.url`) with the given ones and
+   * records its new state. The old chunks are kept if embedding the new ones fails.
+   */
+  replacePage(
+    library: string,
+    version: string,
+    documents: Document[],
+    page: PageState,
+  ): Promise<number>;
+  deletePage(library: string, version: string, url: string): Promise<number>;
+  queryUrls(library: string, version: string): Promise<string[]>;
+  getPageStates(library: string, version: string): Promise<Map<string, PageState>>;
+  upsertPageState(library: string, version: string, page: PageState): Promise<void>;
+
+  // Ranking configured per library
+  getRankingOptions(library: string): Promise<RankingOptions | null>;
+  /** Stores the ranking options of a library, or removes them when `options` is null. */
+  setRankingOptions(library: string, options: RankingOptions | null): Promise<void>;
+
+  // Version aliases
+  /** Lists the aliases of a library, or of all libraries, ordered by library and alias. */
+  queryVersionAliases(library?: string): Promise<VersionAlias[]>;
+  /**
+   * Points an alias of a library at a version, or removes it when `version` is null.
+   * Aliases pointing at a version are removed together with it by `deleteDocuments()`.
+   */
+  setVersionAlias(library: string, alias: string, version: string | null): Promise<void>;
+
+  // Version registry
+  /** Lists the registry entries of a library, or of all libraries, ordered by library. */
+  queryVersionRecords(library?: string): Promise<VersionRecord[]>;
+  /**
+   * Records the provenance of an indexed version, counting its pages and chunks. The
+   * entry is removed together with the documents by `deleteDocuments()`.
+   */
+  saveVersionRecord(
+    library: string,
+    version: string,
+    provenance: VersionProvenance,
+  ): Promise<void>;
+
+  // Bundles
+  exportDocuments(library: string, version: string): Promise<Bundle>;
+  importDocuments(bundle: Bundle): Promise<number>;
+
+  // Search and context lookups
+  getById(id: string): Promise<Document | null>;
+  /** Lists all chunks of a library version without vectors, ordered by URL and position. */
+  queryDocuments(library: string, version: string): Promise<Document[]>;
+  findByContent(
+    library: string,
+    version: string,
+    query: string,
+    limit: number,
+    filters?: SearchFilters,
+    ranking?: RankingOptions,
+  ): Promise<Document[]>;
+  findChildChunks(
+    library: string,
+    version: string,
+    id: string,
+    limit: number,
+  ): Promise<Document[]>;
+  findPrecedingSiblingChunks(
+    library: string,
+    version: string,
+    id: string,
+    limit: number,
+  ): Promise<Document[]>;
+  findSubsequentSiblingChunks(
+    library: string,
+    version: string,
+    id: string,
+    limit: number,
+  ): Promise<Document[]>;
+  findParentChunk(library: string, version: string, id: string): Promise<Document | null>;
 }
 
 export interface LibraryVersion {
   version: string;
   indexed: boolean;
+  /** Registry entry of the version, if it has one */
+  record?: VersionRecord;
 }
 
 /**
@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import {
+  findMatchingVersion,
+  isValidVersionLabel,
+  parseVersion,
+  sortVersions,
+} from "./versions";
+
+describe("versions", () => {
+  describe("parseVersion", () => {
+    it.each([
+      ["1.2.3", "semver", "1.2.3"],
+      ["v1.2.3", "semver", "1.2.3"],
+      ["19.0.0-rc.1", "semver", "19.0.0-rc.1"],
+      ["v2", "semver", "2.0.0"],
+      ["1.2", "semver", "1.2.0"],
+      ["2024-05", "calver", "2024.5.0"],
+      ["2024.05.17", "calver", "2024.5.17"],
+      ["main", "label", null],
+      ["release/2.x", "label", null],
+    ])("should parse '%s' as %s", (label, kind, version) => {
+      const parsed = parseVersion(label);
+      expect(parsed.kind).toBe(kind);
+      expect(parsed.semver?.version ?? null).toBe(version);
+    });
+  });
+
+  describe("isValidVersionLabel", () => {
+    it.each(["1.2.3", "v2", "2024-05", "main", "release/2.x"])(
+      "should accept '%s'",
+      (label) => {
+        expect(isValidVersionLabel(label)).toBe(true);
+      },
+    );
+
+    it.each(["latest", "1.x", "^2.0.0", "not a version", ""])(
+      "should reject '%s'",
+      (label) => {
+        expect(isValidVersionLabel(label)).toBe(false);
+      },
+    );
+  });
+
+  describe("sortVersions", () => {
+    it("should put labels first, then numbered versions in ascending order", () => {
+      expect(
+        sortVersions(["2.0.0", "main", "1.10.0", "v1.2", "1.10.0-beta.1", "develop"]),
+      ).toEqual(["develop", "main", "v1.2", "1.10.0-beta.1", "1.10.0", "2.0.0"]);
+    });
+
+    it("should order calendar versions by date", () => {
+      expect(sortVersions(["2024-10", "2023.12.01", "2024-02"])).toEqual([
+        "2023.12.01",
+        "2024-02",
+        "2024-10",
+      ]);
+    });
+  });
+
+  describe("findMatchingVersion", () => {
+    const versions = ["main", "1.0.0", "1.2", "2.0.0", "3.0.0-beta.1"];
+
+    it("should return the newest stable version for 'latest' or no target", () => {
+      expect(findMatchingVersion(versions, undefined)).toBe("2.0.0");
+      expect(findMatchingVersion(versions, "latest")).toBe("2.0.0");
+    });
+
+    it("should include prereleases only when asked to", () => {
+      expect(findMatchingVersion(versions, "3.x")).toBeNull();
+      expect(findMatchingVersion(versions, "3.x", { includePrerelease: true })).toBe(
+        "3.0.0-beta.1",
+      );
+      expect(findMatchingVersion(versions, "latest", { includePrerelease: true })).toBe(
+        "3.0.0-beta.1",
+      );
+    });
+
+    it("should match stored labels exactly, ignoring case", () => {
+      expect(findMatchingVersion(versions, "Main")).toBe("main");
+      expect(findMatchingVersion(versions, "3.0.0-beta.1")).toBe("3.0.0-beta.1");
+    });
+
+    it("should resolve ranges and partial versions", () => {
+      expect(findMatchingVersion(versions, "1.x")).toBe("1.2");
+      expect(findMatchingVersion(versions, "^1.0.0")).toBe("1.2");
+      expect(findMatchingVersion(versions, "1.0")).toBe("1.0.0");
+    });
+
+    it("should fall back to the newest older version for exact versions", () => {
+      expect(findMatchingVersion(versions, "1.5.0")).toBe("1.2");
+      expect(findMatchingVersion(versions, "0.9.0")).toBeNull();
+      expect(findMatchingVersion(["2024-01", "2024-06"], "2024-03")).toBe("2024-01");
+    });
+
+    it("should return null for unknown labels", () => {
+      expect(findMatchingVersion(versions, "develop")).toBeNull();
+    });
+
+    it("should prefer a default branch for libraries without numbered versions", () => {
+      expect(findMatchingVersion(["feature-x", "master"], undefined)).toBe("master");
+      expect(findMatchingVersion(["nightly", "canary"], undefined)).toBe("canary");
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import semver, { type SemVer } from "semver";
+
+/**
+ * How a version label is interpreted:
+ * - "semver": a semantic version, also loosely written ones like "v2" or "1.2"
+ * - "calver": a calendar version like "2024-05" or "2024.05.01"
+ * - "label": anything else, e.g. a branch name like "main"
+ */
+export type VersionKind = "semver" | "calver" | "label";
+
+export interface ParsedVersion {
+  /** The version as stored */
+  label: string;
+  kind: VersionKind;
+  /** Comparable semantic version, or null for labels */
+  semver: SemVer | null;
+}
+
+export interface VersionMatchOptions {
+  /** Let ranges and "latest" match prerelease versions, e.g. "19.0.0-rc.1" */
+  includePrerelease?: boolean;
+}
+
+/** Branch names preferred as "latest" when a library has no numbered versions */
+const DEFAULT_BRANCHES = ["main", "master", "trunk", "develop"];
+
+/** Year and month, optionally followed by the day, separated by "-" or "." */
+const CALVER_PATTERN = /^(\d{4})[-.](\d{1,2})(?:[-.](\d{1,2}))?$/;
+
+/** Major and optional minor version, optionally prefixed with "v" */
+const LOOSE_SEMVER_PATTERN = /^v?(\d+)(?:\.(\d+))?$/i;
+
+/** Characters allowed in version labels, e.g. "main" or "release/2.x" */
+const VERSION_LABEL_PATTERN = /^[a-z0-9][a-z0-9._/-]*$/i;
+
+/**
+ * Interprets a version label. Calendar versions are compared as `year.month.day`, so
+ * they order correctly among themselves.
+ */
+export function parseVersion(label: string): ParsedVersion {
+  const exact = semver.parse(label);
+  if (exact) {
+    return { label, kind: "semver", semver: exact };
+  }
+  const calver = label.match(CALVER_PATTERN);
+  if (calver) {
+    const [, year, month, day = "0"] = calver;
+    return {
+      label,
+      kind: "calver",
+      semver: new semver.SemVer(`${year}.${Number(month)}.${Number(day)}`),
+    };
+  }
+  const loose = label.match(LOOSE_SEMVER_PATTERN);
+  if (loose) {
+    const [, major, minor = "0"] = loose;
+    return {
+      label,
+      kind: "semver",
+      semver: new semver.SemVer(`${Number(major)}.${Number(minor)}.0`),
+    };
+  }
+  return { label, kind: "label", semver: null };
+}
+
+/**
+ * Returns whether a string is a valid label to index documentation under: a version of
+ * any kind, or a name such as a branch. Ranges like "1.x" and "latest" are not.
+ */
+export function isValidVersionLabel(label: string): boolean {
+  if (label.toLowerCase() === "latest") {
+    return false;
+  }
+  if (parseVersion(label).kind !== "label") {
+    return true;
+  }
+  return VERSION_LABEL_PATTERN.test(label) && !semver.validRange(label);
+}
+
+/**
+ * Orders versions ascending: labels first (alphabetically), then numbered versions by
+ * their semantic version, so the newest numbered version always sorts last.
+ */
+export function compareVersions(a: string, b: string): number {
+  const left = parseVersion(a).semver;
+  const right = parseVersion(b).semver;
+  if (left && right) {
+    return semver.compare(left, right) || a.localeCompare(b);
+  }
+  if (left || right) {
+    return left ? 1 : -1;
+  }
+  return a.localeCompare(b);
+}
+
+/**
+ * Returns the versions sorted by `compareVersions`, without modifying the input.
+ */
+export function sortVersions(versions: string[]): string[] {
+  return [...versions].sort(compareVersions);
+}
+
+/**
+ * Finds the version that best matches a target among the indexed versions:
+ * - No target or "latest": the newest numbered version; for libraries without
+ *   numbered versions, a default branch such as "main", or the first label
+ * - A stored label (case-insensitive), e.g. "main", "2024-05" or "19.0.0-rc.1": itself
+ * - A range, e.g. "5.x", "^5.2" or "1.2": the newest version in the range
+ * - Any other version, e.g. "18.0.0" or "2024-06": the newest version up to it, since
+ *   older documentation is more useful than none
+ *
+ * Prerelease versions only match ranges and "latest" with `includePrerelease`.
+ * @returns The matching version as stored, or null if none matches
+ */
+export function findMatchingVersion(
+  versions: string[],
+  target: string | undefined,
+  options: VersionMatchOptions = {},
+): string | null {
+  const { includePrerelease = false } = options;
+  const parsed = versions.map(parseVersion);
+  const newest = (range: string) => {
+    const matches = parsed.filter(
+      (version) =>
+        version.semver && semver.satisfies(version.semver, range, { includePrerelease }),
+    );
+    return (
+      matches
+        .map((version) => version.label)
+        .sort(compareVersions)
+        .at(-1) ?? null
+    );
+  };
+
+  if (!target || target.toLowerCase() === "latest") {
+    const labels = parsed.filter((version) => version.kind === "label");
+    const defaultBranch = DEFAULT_BRANCHES.find((branch) =>
+      labels.some((version) => version.label.toLowerCase() === branch),
+    );
+    return (
+      newest("*") ??
+      labels.find((version) => version.label.toLowerCase() === defaultBranch)?.label ??
+      sortVersions(labels.map((version) => version.label))[0] ??
+      null
+    );
+  }
+
+  const stored = versions.find(
+    (version) => version.toLowerCase() === target.toLowerCase(),
+  );
+  if (stored) {
+    return stored;
+  }
+
+  const targetVersion = parseVersion(target);
+  if (
+    targetVersion.kind === "label" ||
+    (targetVersion.kind === "semver" && !semver.valid(target))
+  ) {
+    // Partial versions like "1.2" are ranges too
+    return semver.validRange(target) ? newest(target) : null;
+  }
+  return targetVersion.semver ? newest(`<=${targetVersion.semver.version}`) : null;
+}
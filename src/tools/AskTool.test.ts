@@ -0,0 +1,125 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { MockedObject } from "vitest";
+import type { DocumentManagementService } from "../store";
+import { openrouterChat } from "../utils/openrouter";
+import { AskTool } from "./AskTool";
+import { LibraryNotFoundError, ToolError } from "./errors";
+
+vi.mock("../store");
+vi.mock("../utils/logger");
+vi.mock("../utils/openrouter", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../utils/openrouter")>()),
+  openrouterChat: vi.fn(),
+}));
+
+const mockDocService = {
+  validateLibraryExists: vi.fn(),
+  findBestVersion: vi.fn(),
+  searchStore: vi.fn(),
+} as MockedObject<DocumentManagementService>;
+
+const mockChat = vi.mocked(openrouterChat);
+
+const reply = (content: string) => ({ choices: [{ message: { content } }] });
+
+describe("AskTool", () => {
+  let askTool: AskTool;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    mockDocService.findBestVersion.mockResolvedValue({
+      bestMatch: "18.2.0",
+      hasUnversioned: false,
+    });
+    mockDocService.searchStore.mockResolvedValue([
+      {
+        library: "react",
+        version: "18.2.0",
+        url: "https://react.dev/reference/useEffect",
+        content: "useEffect runs after render.",
+        score: 0.03,
+      },
+      {
+        library: "react",
+        version: "18.2.0",
+        url: "https://react.dev/learn/cleanup",
+        content: "Return a cleanup function.",
+        score: 0.02,
+      },
+    ]);
+    askTool = new AskTool(mockDocService);
+  });
+
+  it("should answer from the search results and list the cited sources", async () => {
+    mockChat.mockResolvedValue(reply("Return a function from the effect [2]."));
+
+    const result = await askTool.execute({
+      library: "react",
+      version: "18.x",
+      question: "How do I clean up an effect?",
+    });
+
+    expect(mockDocService.findBestVersion).toHaveBeenCalledWith("react", "18.x");
+    expect(mockDocService.searchStore).toHaveBeenCalledWith(
+      "react",
+      "18.2.0",
+      "How do I clean up an effect?",
+      5,
+      { maxTokens: 3000 },
+    );
+    const { messages } = mockChat.mock.calls[0][0];
+    expect(messages[1].content).toContain(
+      "[2] https://react.dev/learn/cleanup\nReturn a cleanup function.",
+    );
+    expect(messages[1].content).toContain("Question: How do I clean up an effect?");
+    expect(result).toEqual({
+      answered: true,
+      answer: "Return a function from the effect [2].",
+      citations: [{ number: 2, url: "https://react.dev/learn/cleanup" }],
+    });
+  });
+
+  it("should list all sources if the answer cites none", async () => {
+    mockChat.mockResolvedValue(reply("Effects run after render."));
+
+    const result = await askTool.execute({ library: "react", question: "When?" });
+
+    expect(result.citations.map((citation) => citation.number)).toEqual([1, 2]);
+  });
+
+  it("should refuse without calling the model when nothing is found", async () => {
+    mockDocService.searchStore.mockResolvedValue([]);
+
+    const result = await askTool.execute({ library: "react", question: "Vue routing?" });
+
+    expect(mockChat).not.toHaveBeenCalled();
+    expect(result).toEqual({
+      answered: false,
+      answer: "No relevant documentation found in react@18.2.0 to answer this question.",
+      citations: [],
+    });
+  });
+
+  it("should refuse when the sources do not answer the question", async () => {
+    mockChat.mockResolvedValue(reply("NO_ANSWER"));
+
+    const result = await askTool.execute({ library: "react", question: "Vue routing?" });
+
+    expect(result.answered).toBe(false);
+    expect(result.citations).toEqual([]);
+  });
+
+  it("should pass library errors through and wrap model errors in a ToolError", async () => {
+    mockDocService.validateLibraryExists.mockRejectedValueOnce(
+      new LibraryNotFoundError("reac", ["react"]),
+    );
+    await expect(askTool.execute({ library: "reac", question: "?" })).rejects.toThrow(
+      LibraryNotFoundError,
+    );
+
+    mockChat.mockRejectedValue(new Error("timeout of 60000ms exceeded"));
+    await expect(askTool.execute({ library: "react", question: "?" })).rejects.toThrow(
+      ToolError,
+    );
+  });
+});
@@ -0,0 +1,149 @@
+import type { DocumentManagementService } from "../store";
+import type { StoreSearchResult } from "../store/types";
+import { logger } from "../utils/logger";
+import { openrouterChat, readChatContent } from "../utils/openrouter";
+import { ToolError } from "./errors";
+
+/** Number of search results given to the model as sources by default */
+const DEFAULT_LIMIT = 5;
+
+/** Token budget for the content of all sources together */
+const SOURCE_TOKEN_BUDGET = 3000;
+
+/** Milliseconds the model gets to write an answer from the sources */
+const ANSWER_TIMEOUT = 60_000;
+
+/** Reply the model gives when the sources do not answer the question */
+const NO_ANSWER = "NO_ANSWER";
+
+const SYSTEM_PROMPT =
+  "You answer questions about software documentation using only the numbered sources " +
+  "you are given. Be concise. Cite the sources that support each statement as [1], [2] " +
+  "and so on. Do not use knowledge that is not in the sources. If the sources do not " +
+  "answer the question, reply with exactly NO_ANSWER.";
+
+export interface AskToolOptions {
+  library: string;
+  /** Version or range; defaults to the latest indexed version */
+  version?: string;
+  question: string;
+  /** Maximum number of search results used as sources */
+  limit?: number;
+  /** Chat model; defaults to DOCS_MCP_ASK_MODEL, then to the OpenRouter default model */
+  model?: string;
+}
+
+export interface AskToolCitation {
+  /** Number the answer refers to, as in "[1]" */
+  number: number;
+  url: string;
+}
+
+export interface AskToolResult {
+  /** False if nothing relevant was found and the question was not answered */
+  answered: boolean;
+  answer: string;
+  /** Sources cited in the answer */
+  citations: AskToolCitation[];
+}
+
+/**
+ * Tool for answering a question from the indexed documentation of a library. The
+ * question is searched in the library, the results are given to a chat model as
+ * numbered sources, and the model's answer cites them by number. The tool refuses to
+ * answer when the search finds nothing or the model finds no answer in the sources.
+ */
+export class AskTool {
+  readonly name = "ask_docs";
+  private docService: DocumentManagementService;
+
+  constructor(docService: DocumentManagementService) {
+    this.docService = docService;
+  }
+
+  /**
+   * Answers the question with citations of the documentation it is based on.
+   * @throws {LibraryNotFoundError} If the library does not exist.
+   * @throws {VersionNotFoundError} If no version matches the requested one.
+   * @throws {ToolError} If the chat model cannot be reached.
+   */
+  async execute(options: AskToolOptions): Promise<AskToolResult> {
+    const { library, version, question, limit = DEFAULT_LIMIT } = options;
+
+    await this.docService.validateLibraryExists(library);
+    const { bestMatch } = await this.docService.findBestVersion(library, version);
+    const target = `${library}${bestMatch ? `@${bestMatch}` : " (unversioned)"}`;
+    logger.info(`💬 Answering from ${target}: ${question}`);
+
+    const sources = await this.docService.searchStore(
+      library,
+      bestMatch,
+      question,
+      limit,
+      { maxTokens: SOURCE_TOKEN_BUDGET },
+    );
+    if (sources.length === 0) {
+      return this.refuse(target);
+    }
+
+    const answer = await this.generateAnswer(question, sources, options.model);
+    if (answer.length === 0 || answer.includes(NO_ANSWER)) {
+      return this.refuse(target);
+    }
+
+    logger.info(`✅ Answered from ${sources.length} sources`);
+    return { answered: true, answer, citations: this.findCitations(answer, sources) };
+  }
+
+  /**
+   * Sends the question and the numbered sources to the chat model.
+   * @throws {ToolError} If the request fails.
+   */
+  private async generateAnswer(
+    question: string,
+    sources: StoreSearchResult[],
+    model = process.env.DOCS_MCP_ASK_MODEL?.trim() || undefined,
+  ): Promise<string> {
+    const context = sources
+      .map((source, index) => `[${index + 1}] ${source.url}\n${source.content}`)
+      .join("\n\n");
+    try {
+      const response = await openrouterChat({
+        model,
+        timeout: ANSWER_TIMEOUT,
+        messages: [
+          { role: "system", content: SYSTEM_PROMPT },
+          { role: "user", content: `Sources:\n\n${context}\n\nQuestion: ${question}` },
+        ],
+        extraBody: { temperature: 0 },
+      });
+      return readChatContent(response).trim();
+    } catch (error) {
+      const errorMessage = `Failed to generate an answer: ${error instanceof Error ? error.message : String(error)}`;
+      logger.error(`❌ ${errorMessage}`);
+      throw new ToolError(errorMessage, this.name);
+    }
+  }
+
+  /**
+   * Lists the sources the answer refers to, in order of their numbers. If the model
+   * cited none, all sources are listed, since the answer is based on them.
+   */
+  private findCitations(answer: string, sources: StoreSearchResult[]): AskToolCitation[] {
+    const all = sources.map((source, index) => ({ number: index + 1, url: source.url }));
+    const cited = new Set(
+      Array.from(answer.matchAll(/\[(\d+)\]/g), (match) => Number(match[1])),
+    );
+    const citations = all.filter((citation) => cited.has(citation.number));
+    return citations.length > 0 ? citations : all;
+  }
+
+  private refuse(target: string): AskToolResult {
+    logger.info(`ℹ️ No relevant documentation found in ${target}`);
+    return {
+      answered: false,
+      answer: `No relevant documentation found in ${target} to answer this question.`,
+      citations: [],
+    };
+  }
+}
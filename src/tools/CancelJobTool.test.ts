@@ -26,6 +26,8 @@ describe("CancelJobTool", () => {
     status,
     createdAt: new Date("2023-01-01T10:00:00Z"),
     options: { library: "lib-a", version: "1.0.0", url: "url1" } as ScraperOptions,
+    stagingLibrary: null,
+    description: null,
     progress: null,
     error: status === PipelineJobStatus.FAILED ? new Error("Job failed") : null,
     startedAt:
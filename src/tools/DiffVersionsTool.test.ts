@@ -0,0 +1,130 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { MockedObject } from "vitest";
+import type { DocumentManagementService } from "../store";
+import type { VersionDiff } from "../store/types";
+import { openrouterChat } from "../utils/openrouter";
+import { DiffVersionsTool } from "./DiffVersionsTool";
+import { VersionNotFoundError } from "./errors";
+
+vi.mock("../store");
+vi.mock("../utils/logger");
+vi.mock("../utils/openrouter", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../utils/openrouter")>()),
+  openrouterChat: vi.fn(),
+}));
+
+const mockDocService = {
+  diffVersions: vi.fn(),
+} as MockedObject<DocumentManagementService>;
+
+const mockChat = vi.mocked(openrouterChat);
+
+const versionDiff: VersionDiff = {
+  library: "react",
+  fromVersion: "17.0.2",
+  toVersion: "18.2.0",
+  changes: [
+    {
+      status: "added",
+      url: "https://react.dev/reference/useId",
+      path: "/reference/useId",
+      headings: ["useId"],
+      diff: "+ useId()",
+    },
+    {
+      status: "removed",
+      url: "https://react.dev/reference/render",
+      path: "/reference/render",
+      headings: ["render"],
+      diff: "- render(element, container)",
+    },
+  ],
+  unchanged: 12,
+};
+
+describe("DiffVersionsTool", () => {
+  let diffVersionsTool: DiffVersionsTool;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    mockDocService.diffVersions.mockResolvedValue(versionDiff);
+    diffVersionsTool = new DiffVersionsTool(mockDocService);
+  });
+
+  it("should return the diff without a summary by default", async () => {
+    const result = await diffVersionsTool.execute({
+      library: "react",
+      fromVersion: "17.0.2",
+      toVersion: "stable",
+    });
+
+    expect(mockDocService.diffVersions).toHaveBeenCalledWith("react", "17.0.2", "stable");
+    expect(result).toEqual({ ...versionDiff, summary: null });
+    expect(mockChat).not.toHaveBeenCalled();
+  });
+
+  it("should summarize breaking-looking changes, removals first", async () => {
+    mockChat.mockResolvedValue({
+      choices: [{ message: { content: " render() was removed. " } }],
+    });
+
+    const result = await diffVersionsTool.execute({
+      library: "react",
+      fromVersion: "17.0.2",
+      toVersion: "18.2.0",
+      summarize: true,
+      model: "openai/gpt-4.1-mini",
+    });
+
+    expect(result.summary).toBe("render() was removed.");
+    const request = mockChat.mock.calls[0][0];
+    expect(request.model).toBe("openai/gpt-4.1-mini");
+    expect(request.messages[1].content).toBe(
+      "Changes from react 17.0.2 to 18.2.0:\n\n" +
+        "[removed] /reference/render > render\n- render(element, container)\n\n" +
+        "[added] /reference/useId > useId\n+ useId()",
+    );
+  });
+
+  it("should return the diff without a summary if the model fails", async () => {
+    mockChat.mockRejectedValue(new Error("Request failed with status code 401"));
+
+    const result = await diffVersionsTool.execute({
+      library: "react",
+      fromVersion: "17.0.2",
+      toVersion: "18.2.0",
+      summarize: true,
+    });
+
+    expect(result.changes).toHaveLength(2);
+    expect(result.summary).toBeNull();
+  });
+
+  it("should not ask the model when nothing changed", async () => {
+    mockDocService.diffVersions.mockResolvedValue({ ...versionDiff, changes: [] });
+
+    const result = await diffVersionsTool.execute({
+      library: "react",
+      fromVersion: "18.2.0",
+      toVersion: "18.2.0",
+      summarize: true,
+    });
+
+    expect(result.summary).toBe("No sections changed.");
+    expect(mockChat).not.toHaveBeenCalled();
+  });
+
+  it("should pass on errors for versions that are not indexed", async () => {
+    mockDocService.diffVersions.mockRejectedValue(
+      new VersionNotFoundError("react", "16.0.0", []),
+    );
+
+    await expect(
+      diffVersionsTool.execute({
+        library: "react",
+        fromVersion: "16.0.0",
+        toVersion: "18.2.0",
+      }),
+    ).rejects.toThrow(VersionNotFoundError);
+  });
+});
@@ -0,0 +1,125 @@
+import type { DocumentManagementService } from "../store";
+import type { SectionChange, VersionDiff } from "../store/types";
+import { logger } from "../utils/logger";
+import { openrouterChat, readChatContent } from "../utils/openrouter";
+
+/** Characters of section diffs given to the model for a summary */
+const SUMMARY_CHAR_BUDGET = 16_000;
+
+/** Time the model has to summarize in milliseconds */
+const SUMMARY_TIMEOUT = 60_000;
+
+/** Order in which changes are given to the model; removals most often break users */
+const SUMMARY_ORDER: SectionChange["status"][] = ["removed", "modified", "added"];
+
+const SYSTEM_PROMPT =
+  "You review differences between two versions of a library's documentation. Lines " +
+  "starting with '-' were removed and lines starting with '+' were added. List the " +
+  "changes that look like they could break existing users: removed or renamed APIs, " +
+  "changed signatures, parameters, return values or defaults, new requirements and " +
+  "deprecations. Be concise and name the affected page or section for each. Use only " +
+  "the differences you are given. If none of them looks breaking, say so in one sentence.";
+
+export interface DiffVersionsToolOptions {
+  library: string;
+  /** Older version or alias; omit for the unversioned documents */
+  fromVersion?: string;
+  /** Newer version or alias; omit for the unversioned documents */
+  toVersion?: string;
+  /** Whether a chat model summarizes the changes that look breaking */
+  summarize?: boolean;
+  /** Chat model; defaults to DOCS_MCP_DIFF_MODEL, then to the OpenRouter default model */
+  model?: string;
+}
+
+export interface DiffVersionsToolResult extends VersionDiff {
+  /** Summary of breaking-looking changes, or null if not requested or unavailable */
+  summary: string | null;
+}
+
+/**
+ * Tool for comparing two indexed versions of a library. Sections are matched by the
+ * path of their page's URL and their heading path, and reported as added, removed or
+ * modified with a line diff of their text. Optionally a chat model summarizes the
+ * changes that look breaking; if it cannot be reached, the diff is returned without a
+ * summary.
+ */
+export class DiffVersionsTool {
+  readonly name = "diff_versions";
+  private docService: DocumentManagementService;
+
+  constructor(docService: DocumentManagementService) {
+    this.docService = docService;
+  }
+
+  /**
+   * Compares the two versions and summarizes the differences if requested.
+   * @throws {LibraryNotFoundError} If the library does not exist.
+   * @throws {VersionNotFoundError} If either version is not indexed.
+   */
+  async execute(options: DiffVersionsToolOptions): Promise<DiffVersionsToolResult> {
+    const { library, fromVersion, toVersion, summarize = false } = options;
+
+    const diff = await this.docService.diffVersions(library, fromVersion, toVersion);
+    let summary: string | null = null;
+    if (summarize) {
+      summary =
+        diff.changes.length > 0
+          ? await this.summarize(diff, options.model)
+          : "No sections changed.";
+    }
+
+    logger.info(
+      `✅ Found ${diff.changes.length} changed sections between ${library}@${diff.fromVersion || "[no version]"} and ${diff.toVersion || "[no version]"}`,
+    );
+    return { ...diff, summary };
+  }
+
+  /**
+   * Asks the chat model for the breaking-looking changes, giving it as many section
+   * diffs as fit the budget. Returns null if the request fails.
+   */
+  private async summarize(
+    diff: VersionDiff,
+    model = process.env.DOCS_MCP_DIFF_MODEL?.trim() || undefined,
+  ): Promise<string | null> {
+    const sections: string[] = [];
+    let length = 0;
+    const ordered = SUMMARY_ORDER.flatMap((status) =>
+      diff.changes.filter((change) => change.status === status),
+    );
+    for (const change of ordered) {
+      const heading = [change.path, ...change.headings].join(" > ");
+      const section = `[${change.status}] ${heading}\n${change.diff}`;
+      if (length + section.length > SUMMARY_CHAR_BUDGET && sections.length > 0) {
+        break;
+      }
+      sections.push(section);
+      length += section.length;
+    }
+    const omitted = ordered.length - sections.length;
+    const versions = `${diff.fromVersion || "(unversioned)"} to ${diff.toVersion || "(unversioned)"}`;
+    const note = omitted > 0 ? `\n\n(${omitted} more changed sections omitted)` : "";
+
+    try {
+      const response = await openrouterChat({
+        model,
+        timeout: SUMMARY_TIMEOUT,
+        messages: [
+          { role: "system", content: SYSTEM_PROMPT },
+          {
+            role: "user",
+            content: `Changes from ${diff.library} ${versions}:\n\n${sections.join("\n\n")}${note}`,
+          },
+        ],
+        extraBody: { temperature: 0 },
+      });
+      return readChatContent(response).trim() || null;
+    } catch (error) {
+      logger.warn(
+        `⚠️ Failed to summarize the changes: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      return null;
+    }
+  }
+}
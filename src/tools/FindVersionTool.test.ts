@@ -32,7 +32,9 @@ describe("FindVersionTool", () => {
 
     const result = await findVersionTool.execute(options);
 
-    expect(mockDocService.findBestVersion).toHaveBeenCalledWith("react", "18.2.0");
+    expect(mockDocService.findBestVersion).toHaveBeenCalledWith("react", "18.2.0", {
+      includePrerelease: false,
+    });
     expect(result).toContain("Best match: 18.2.0");
     expect(result).not.toContain("Unversioned docs");
   });
@@ -44,7 +46,9 @@ describe("FindVersionTool", () => {
 
     const result = await findVersionTool.execute(options);
 
-    expect(mockDocService.findBestVersion).toHaveBeenCalledWith("react", "18.x");
+    expect(mockDocService.findBestVersion).toHaveBeenCalledWith("react", "18.x", {
+      includePrerelease: false,
+    });
     expect(result).toContain("Best match: 18.3.1");
     expect(result).toContain("Unversioned docs also available");
   });
@@ -56,7 +60,9 @@ describe("FindVersionTool", () => {
 
     const result = await findVersionTool.execute(options);
 
-    expect(mockDocService.findBestVersion).toHaveBeenCalledWith("vue", "4.0.0");
+    expect(mockDocService.findBestVersion).toHaveBeenCalledWith("vue", "4.0.0", {
+      includePrerelease: false,
+    });
     expect(result).toContain("No matching version found");
     expect(result).toContain("but unversioned docs exist");
   });
@@ -75,7 +81,9 @@ describe("FindVersionTool", () => {
 
     const result = await findVersionTool.execute(options);
 
-    expect(mockDocService.findBestVersion).toHaveBeenCalledWith("angular", "1.0.0");
+    expect(mockDocService.findBestVersion).toHaveBeenCalledWith("angular", "1.0.0", {
+      includePrerelease: false,
+    });
     expect(result).toContain("No matching version or unversioned documents found");
     expect(result).toContain("Available:"); // Check it mentions availability without exact format
     expect(result).toContain("15.0.0");
@@ -89,7 +97,13 @@ describe("FindVersionTool", () => {
 
     const result = await findVersionTool.execute(options);
 
-    expect(mockDocService.findBestVersion).toHaveBeenCalledWith("unknown-lib", undefined); // targetVersion is undefined
+    expect(mockDocService.findBestVersion).toHaveBeenCalledWith(
+      "unknown-lib",
+      undefined,
+      {
+        includePrerelease: false,
+      },
+    ); // targetVersion is undefined
     expect(result).toContain("No matching version or unversioned documents found");
     expect(result).toContain("Available: None");
   });
@@ -113,7 +127,9 @@ describe("FindVersionTool", () => {
     const result = await findVersionTool.execute(options);
 
     // Check that findBestVersion was called with undefined for targetVersion
-    expect(mockDocService.findBestVersion).toHaveBeenCalledWith("react", undefined);
+    expect(mockDocService.findBestVersion).toHaveBeenCalledWith("react", undefined, {
+      includePrerelease: false,
+    });
     expect(result).toContain("Best match: 18.3.1");
   });
 });
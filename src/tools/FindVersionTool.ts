@@ -5,11 +5,15 @@ import { VersionNotFoundError } from "./errors";
 export interface FindVersionToolOptions {
   library: string;
   targetVersion?: string;
+  /** Let ranges and "latest" match prerelease versions such as "19.0.0-rc.1" */
+  includePrerelease?: boolean;
 }
 
 /**
  * Tool for finding the best matching version of a library in the store.
- * Supports exact version matches and X-Range patterns (e.g., '5.x', '5.2.x').
+ * Supports exact version matches, X-Range patterns (e.g., '5.x', '5.2.x'), calendar
+ * versions (e.g., '2024-05'), labels such as branch names (e.g., 'main') and version
+ * aliases (e.g., 'stable').
  */
 export class FindVersionTool {
   private docService: DocumentManagementService;
@@ -23,13 +27,14 @@ export class FindVersionTool {
    * @returns A descriptive string indicating the best match and unversioned status, or an error message.
    */
   async execute(options: FindVersionToolOptions): Promise<string> {
-    const { library, targetVersion } = options;
+    const { library, targetVersion, includePrerelease = false } = options;
     const targetVersionString = targetVersion ? `@${targetVersion}` : "";
 
     try {
       const { bestMatch, hasUnversioned } = await this.docService.findBestVersion(
         library,
         targetVersion,
+        { includePrerelease },
       );
 
       let message = "";
@@ -48,7 +53,7 @@ export class FindVersionTool {
       return message;
     } catch (error) {
       if (error instanceof VersionNotFoundError) {
-        // This error is thrown when no semver versions AND no unversioned docs exist.
+        // This error is thrown when no versions AND no unversioned docs exist.
         logger.info(`ℹ️ Version not found: ${error.message}`);
         return `No matching version or unversioned documents found for ${library}${targetVersionString}. Available: ${
           error.availableVersions.length > 0
@@ -24,6 +24,8 @@ describe("GetJobInfoTool", () => {
     createdAt: new Date("2023-01-01T10:00:00Z"),
     startedAt: new Date("2023-01-01T10:05:00Z"),
     options: { library: "lib-a", version: "1.0.0", url: "url1" } as ScraperOptions,
+    stagingLibrary: null,
+    description: null,
     progress: null,
     error: null,
     finishedAt: null,
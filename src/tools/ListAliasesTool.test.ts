@@ -0,0 +1,30 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { MockedObject } from "vitest";
+import type { DocumentManagementService } from "../store";
+import { ListAliasesTool } from "./ListAliasesTool";
+
+vi.mock("../store");
+
+const mockDocService = {
+  listVersionAliases: vi.fn(),
+} as MockedObject<DocumentManagementService>;
+
+describe("ListAliasesTool", () => {
+  let listAliasesTool: ListAliasesTool;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    listAliasesTool = new ListAliasesTool(mockDocService);
+  });
+
+  it("should list the aliases of a library or of all libraries", async () => {
+    const aliases = [{ library: "react", alias: "stable", version: "18.3.1" }];
+    mockDocService.listVersionAliases.mockResolvedValue(aliases);
+
+    expect(await listAliasesTool.execute({ library: "react" })).toEqual({ aliases });
+    expect(mockDocService.listVersionAliases).toHaveBeenCalledWith("react");
+
+    await listAliasesTool.execute();
+    expect(mockDocService.listVersionAliases).toHaveBeenLastCalledWith(undefined);
+  });
+});
@@ -0,0 +1,26 @@
+import type { DocumentManagementService } from "../store";
+import type { VersionAlias } from "../store/types";
+
+export interface ListAliasesToolOptions {
+  /** Library whose aliases are listed; all libraries if omitted */
+  library?: string;
+}
+
+export interface ListAliasesToolResult {
+  aliases: VersionAlias[];
+}
+
+/**
+ * Tool for listing version aliases and the versions they point at.
+ */
+export class ListAliasesTool {
+  private docService: DocumentManagementService;
+
+  constructor(docService: DocumentManagementService) {
+    this.docService = docService;
+  }
+
+  async execute(options: ListAliasesToolOptions = {}): Promise<ListAliasesToolResult> {
+    return { aliases: await this.docService.listVersionAliases(options.library) };
+  }
+}
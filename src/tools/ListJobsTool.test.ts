@@ -1,5 +1,6 @@
 import { type Mock, beforeEach, describe, expect, it, vi } from "vitest";
 import type { PipelineManager } from "../pipeline/PipelineManager";
+import type { RefreshScheduler } from "../pipeline/RefreshScheduler";
 import { type PipelineJob, PipelineJobStatus } from "../pipeline/types";
 import type { ScraperOptions } from "../scraper/types";
 import type { ScraperProgress } from "../scraper/types";
@@ -23,6 +24,8 @@ describe("ListJobsTool", () => {
       status: PipelineJobStatus.QUEUED,
       createdAt: new Date("2023-01-01T10:00:00Z"),
       options: { library: "lib-a", version: "1.0.0", url: "url1" } as ScraperOptions, // Complete options
+      stagingLibrary: null,
+      description: null,
       progress: null,
       error: null,
       startedAt: null,
@@ -40,6 +43,8 @@ describe("ListJobsTool", () => {
       createdAt: new Date("2023-01-01T11:00:00Z"),
       startedAt: new Date("2023-01-01T11:05:00Z"),
       options: { library: "lib-b", version: "2.0.0", url: "url2" } as ScraperOptions, // Complete options
+      stagingLibrary: null,
+      description: null,
       progress: {
         pagesScraped: 5,
         maxPages: 100,
@@ -63,6 +68,8 @@ describe("ListJobsTool", () => {
       startedAt: new Date("2023-01-01T12:05:00Z"),
       finishedAt: new Date("2023-01-01T12:15:00Z"),
       options: { library: "lib-a", version: "1.1.0", url: "url3" } as ScraperOptions, // Complete options
+      stagingLibrary: null,
+      description: null,
       progress: {
         pagesScraped: 10,
         maxPages: 10,
@@ -146,4 +153,44 @@ describe("ListJobsTool", () => {
 
     expect(result.jobs).toEqual([]);
   });
+
+  it("should list the refresh schedules with their last and next run", async () => {
+    const mockScheduler = {
+      listSchedules: vi.fn().mockReturnValue([
+        {
+          library: "lib-a",
+          every: "1d",
+          lastRunAt: new Date("2023-01-01T10:00:00Z"),
+          lastRunStatus: "started",
+          lastRunMessage: "Started 1 of 1 refresh jobs.",
+          nextRunAt: new Date("2023-01-02T10:03:00Z"),
+          jobIds: ["job-1"],
+        },
+      ]),
+    } as Partial<RefreshScheduler>;
+    listJobsTool = new ListJobsTool(
+      mockManagerInstance as PipelineManager,
+      mockScheduler as RefreshScheduler,
+    );
+
+    const result = await listJobsTool.execute({});
+
+    expect(result.schedules).toEqual([
+      {
+        library: "lib-a",
+        every: "1d",
+        lastRunAt: "2023-01-01T10:00:00.000Z",
+        lastRunStatus: "started",
+        lastRunMessage: "Started 1 of 1 refresh jobs.",
+        nextRunAt: "2023-01-02T10:03:00.000Z",
+        jobIds: ["job-1"],
+      },
+    ]);
+  });
+
+  it("should list no schedules without a scheduler", async () => {
+    const result = await listJobsTool.execute({});
+
+    expect(result.schedules).toEqual([]);
+  });
 });
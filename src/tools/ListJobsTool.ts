@@ -1,5 +1,6 @@
 import type { PipelineManager } from "../pipeline/PipelineManager";
-import type { PipelineJob, PipelineJobStatus } from "../pipeline/types";
+import type { RefreshScheduler } from "../pipeline/RefreshScheduler";
+import type { PipelineJob, PipelineJobStatus, ScheduleStatus } from "../pipeline/types";
 import type { JobInfo } from "./GetJobInfoTool"; // Import JobInfo
 
 /**
@@ -10,27 +11,40 @@ export interface ListJobsInput {
   status?: PipelineJobStatus;
 }
 
+/**
+ * A refresh schedule with its last and next run, as ISO strings.
+ */
+export interface ScheduleInfo extends Omit<ScheduleStatus, "lastRunAt" | "nextRunAt"> {
+  lastRunAt: string | null;
+  nextRunAt: string | null;
+}
+
 /**
  * Response structure for the ListJobsTool.
  */
 export interface ListJobsToolResponse {
   jobs: JobInfo[];
+  /** Refresh schedules of the server; empty if it runs no scheduler. */
+  schedules: ScheduleInfo[];
 }
 
 /**
- * Tool for listing pipeline jobs managed by the PipelineManager.
- * Allows filtering jobs by their status.
+ * Tool for listing pipeline jobs managed by the PipelineManager, along with the refresh
+ * schedules that enqueue jobs periodically. Allows filtering jobs by their status.
  */
 export class ListJobsTool {
   private manager: PipelineManager; // Change property name and type
+  private scheduler?: RefreshScheduler;
 
   /**
    * Creates an instance of ListJobsTool.
    * @param manager The PipelineManager instance.
+   * @param scheduler The RefreshScheduler whose schedules are listed along with the jobs.
    */
-  constructor(manager: PipelineManager) {
+  constructor(manager: PipelineManager, scheduler?: RefreshScheduler) {
     // Change constructor parameter
     this.manager = manager;
+    this.scheduler = scheduler;
   }
 
   /**
@@ -56,6 +70,14 @@ export class ListJobsTool {
       }),
     );
 
-    return { jobs: simplifiedJobs };
+    const schedules: ScheduleInfo[] = (this.scheduler?.listSchedules() ?? []).map(
+      (schedule) => ({
+        ...schedule,
+        lastRunAt: schedule.lastRunAt?.toISOString() ?? null,
+        nextRunAt: schedule.nextRunAt?.toISOString() ?? null,
+      }),
+    );
+
+    return { jobs: simplifiedJobs, schedules };
   }
 }
@@ -82,6 +82,49 @@ describe("ListLibrariesTool", () => {
     }
   });
 
+  it("should include the registry details of a version", async () => {
+    (mockDocService.listLibraries as Mock).mockResolvedValue([
+      {
+        library: "react",
+        versions: [
+          {
+            version: "18.2.0",
+            indexed: true,
+            record: {
+              library: "react",
+              version: "18.2.0",
+              sourceUrl: "https://react.dev/reference",
+              scraperOptions: null,
+              jobId: "job-1",
+              description: "API reference",
+              startedAt: "2025-01-02T03:00:00.000Z",
+              finishedAt: "2025-01-02T03:04:05.000Z",
+              pages: 120,
+              chunks: 950,
+            },
+          },
+        ],
+      },
+    ]);
+
+    const result = await listLibrariesTool.execute();
+
+    expect(result.libraries[0].versions).toEqual([
+      {
+        version: "18.2.0",
+        indexed: true,
+        sourceUrl: "https://react.dev/reference",
+        scraperOptions: null,
+        jobId: "job-1",
+        description: "API reference",
+        startedAt: "2025-01-02T03:00:00.000Z",
+        finishedAt: "2025-01-02T03:04:05.000Z",
+        pages: 120,
+        chunks: 950,
+      },
+    ]);
+  });
+
   it("should return an empty list when no libraries are in the store", async () => {
     (mockDocService.listLibraries as Mock).mockResolvedValue([]);
 
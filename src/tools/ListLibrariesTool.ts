@@ -1,6 +1,12 @@
 import type { DocumentManagementService } from "../store/DocumentManagementService";
+import type { VersionRecord } from "../store/types";
 
-export interface LibraryVersion {
+/**
+ * Indexed version of a library. Versions in the registry also report where and how
+ * they were scraped, when, and how many pages and chunks they hold.
+ */
+export interface LibraryVersion
+  extends Partial<Omit<VersionRecord, "library" | "version">> {
   version: string;
   indexed: boolean;
 }
@@ -29,10 +35,13 @@ export class ListLibrariesTool {
 
     const libraries = rawLibraries.map(({ library, versions }) => ({
       name: library,
-      versions: versions.map((v) => ({
-        version: v.version,
-        indexed: v.indexed,
-      })),
+      versions: versions.map(({ version, indexed, record }) => {
+        if (!record) {
+          return { version, indexed };
+        }
+        const { library: _, version: __, ...details } = record;
+        return { version, indexed, ...details };
+      }),
     }));
 
     return { libraries };
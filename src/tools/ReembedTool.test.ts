@@ -0,0 +1,58 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { MockedObject } from "vitest";
+import type { DocumentManagementService } from "../store";
+import { ReembedTool } from "./ReembedTool";
+import { LibraryNotFoundError, ToolError } from "./errors";
+
+vi.mock("../store");
+vi.mock("../utils/logger");
+
+const mockDocService = {
+  reembedLibrary: vi.fn(),
+  getEmbeddingModelInfo: vi.fn(),
+} as MockedObject<DocumentManagementService>;
+
+describe("ReembedTool", () => {
+  let reembedTool: ReembedTool;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    mockDocService.getEmbeddingModelInfo.mockReturnValue({
+      model: "local:hash",
+      dimension: 1536,
+    });
+    reembedTool = new ReembedTool(mockDocService);
+  });
+
+  it("should re-embed a versioned library and report the count and model", async () => {
+    mockDocService.reembedLibrary.mockResolvedValue(42);
+
+    const result = await reembedTool.execute({ library: "react", version: "18.2.0" });
+
+    expect(mockDocService.reembedLibrary).toHaveBeenCalledWith("react", "18.2.0");
+    expect(result).toEqual({
+      message: "Re-embedded 42 documents for react@18.2.0 with local:hash.",
+      documentsReembedded: 42,
+    });
+  });
+
+  it("should re-embed unversioned documents when no version is given", async () => {
+    mockDocService.reembedLibrary.mockResolvedValue(3);
+
+    const result = await reembedTool.execute({ library: "lodash" });
+
+    expect(mockDocService.reembedLibrary).toHaveBeenCalledWith("lodash", undefined);
+    expect(result.message).toBe(
+      "Re-embedded 3 documents for lodash (unversioned) with local:hash.",
+    );
+  });
+
+  it("should wrap service errors in a ToolError", async () => {
+    mockDocService.reembedLibrary.mockRejectedValue(new LibraryNotFoundError("reac", []));
+
+    await expect(reembedTool.execute({ library: "reac" })).rejects.toThrow(ToolError);
+    await expect(reembedTool.execute({ library: "reac" })).rejects.toThrow(
+      /Failed to re-embed documents for reac \(unversioned\)/,
+    );
+  });
+});
@@ -0,0 +1,49 @@
+import type { DocumentManagementService } from "../store";
+import { logger } from "../utils/logger";
+import { ToolError } from "./errors";
+
+export interface ReembedToolOptions {
+  library: string;
+  version?: string;
+}
+
+export interface ReembedToolResult {
+  message: string;
+  documentsReembedded: number;
+}
+
+/**
+ * Tool for regenerating the vectors of an indexed library version with the currently
+ * configured embedding model. Used after switching DOCS_MCP_EMBEDDING_MODEL, since
+ * vectors of different models cannot be compared and would otherwise force searches
+ * on that version back to full-text ranking.
+ */
+export class ReembedTool {
+  readonly name = "reembed_docs";
+  private docService: DocumentManagementService;
+
+  constructor(docService: DocumentManagementService) {
+    this.docService = docService;
+  }
+
+  /**
+   * Re-embeds all stored chunks of the given library version.
+   * @throws {ToolError} If the library does not exist or embedding fails.
+   */
+  async execute(options: ReembedToolOptions): Promise<ReembedToolResult> {
+    const { library, version } = options;
+    const target = `${library}${version ? `@${version}` : " (unversioned)"}`;
+
+    try {
+      const documentsReembedded = await this.docService.reembedLibrary(library, version);
+      const model = this.docService.getEmbeddingModelInfo()?.model;
+      const message = `Re-embedded ${documentsReembedded} documents for ${target}${model ? ` with ${model}` : ""}.`;
+      logger.info(`✅ ${message}`);
+      return { message, documentsReembedded };
+    } catch (error) {
+      const errorMessage = `Failed to re-embed documents for ${target}: ${error instanceof Error ? error.message : String(error)}`;
+      logger.error(`❌ ${errorMessage}`);
+      throw new ToolError(errorMessage, this.name);
+    }
+  }
+}
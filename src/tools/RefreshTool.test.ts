@@ -0,0 +1,230 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { MockedObject } from "vitest";
+import type { PipelineManager } from "../pipeline/PipelineManager";
+import { type PipelineJob, PipelineJobStatus } from "../pipeline/types";
+import { ScrapeMode } from "../scraper/types";
+import type { DocumentManagementService } from "../store";
+import type { VersionRecord } from "../store/types";
+import { logger } from "../utils/logger";
+import { RefreshTool } from "./RefreshTool";
+import { LibraryNotFoundError, ToolError } from "./errors";
+
+vi.mock("../store");
+vi.mock("../utils/logger");
+
+const mockDocService = {
+  listVersionRecords: vi.fn(),
+  validateLibraryExists: vi.fn(),
+  resolveVersion: vi.fn(),
+  listVersions: vi.fn(),
+} as MockedObject<DocumentManagementService>;
+
+const mockManager = {
+  enqueueJob: vi.fn(),
+  getJobs: vi.fn(),
+  getJob: vi.fn(),
+  waitForJobCompletion: vi.fn(),
+} as MockedObject<PipelineManager>;
+
+const createRecord = (
+  library: string,
+  version: string,
+  overrides: Partial<VersionRecord> = {},
+): VersionRecord => ({
+  library,
+  version,
+  sourceUrl: `https://${library}.dev/`,
+  scraperOptions: {
+    url: `https://${library}.dev/`,
+    library,
+    version,
+    maxPages: 50,
+    maxDepth: 2,
+    scope: "hostname",
+    scrapeMode: ScrapeMode.Fetch,
+  },
+  jobId: "old-job",
+  description: null,
+  startedAt: "2025-01-01T00:00:00.000Z",
+  finishedAt: "2025-01-01T00:05:00.000Z",
+  pages: 10,
+  chunks: 40,
+  ...overrides,
+});
+
+describe("RefreshTool", () => {
+  let refreshTool: RefreshTool;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    mockManager.getJobs.mockResolvedValue([]);
+    mockManager.enqueueJob.mockResolvedValue("new-job");
+    mockManager.getJob.mockResolvedValue({
+      progress: { pagesScraped: 12 },
+    } as PipelineJob);
+    mockDocService.resolveVersion.mockImplementation(
+      async (_, version) => version ?? undefined,
+    );
+    refreshTool = new RefreshTool(mockDocService, mockManager);
+  });
+
+  it("should re-enqueue every version of a library with its stored options", async () => {
+    mockDocService.listVersionRecords.mockResolvedValue([
+      createRecord("react", "17.0.2"),
+      createRecord("react", "18.2.0"),
+    ]);
+
+    const result = await refreshTool.execute({ library: "react" });
+
+    expect(mockDocService.listVersionRecords).toHaveBeenCalledWith("react");
+    expect(mockManager.enqueueJob).toHaveBeenCalledTimes(2);
+    expect(mockManager.enqueueJob).toHaveBeenCalledWith("react", "18.2.0", {
+      url: "https://react.dev/",
+      library: "react",
+      version: "18.2.0",
+      maxPages: 50,
+      maxDepth: 2,
+      scope: "hostname",
+      scrapeMode: ScrapeMode.Fetch,
+    });
+    expect(result.outcomes).toEqual([
+      {
+        library: "react",
+        version: "17.0.2",
+        status: "completed",
+        jobId: "new-job",
+        pagesScraped: 12,
+      },
+      {
+        library: "react",
+        version: "18.2.0",
+        status: "completed",
+        jobId: "new-job",
+        pagesScraped: 12,
+      },
+    ]);
+  });
+
+  it("should refresh a single version, resolving aliases", async () => {
+    mockDocService.resolveVersion.mockResolvedValueOnce("18.2.0");
+    mockDocService.listVersionRecords.mockResolvedValue([
+      createRecord("react", "17.0.2"),
+      createRecord("react", "18.2.0"),
+    ]);
+    mockManager.waitForJobCompletion.mockResolvedValue(undefined);
+
+    const result = await refreshTool.execute({
+      library: "react",
+      version: "stable",
+      waitForCompletion: false,
+    });
+
+    expect(mockManager.enqueueJob).toHaveBeenCalledTimes(1);
+    expect(result.outcomes).toEqual([
+      { library: "react", version: "18.2.0", status: "queued", jobId: "new-job" },
+    ]);
+  });
+
+  it("should log failures of jobs it does not wait for", async () => {
+    mockDocService.listVersionRecords.mockResolvedValue([
+      createRecord("react", "18.2.0"),
+    ]);
+    mockManager.waitForJobCompletion.mockRejectedValue(new Error("Network unreachable"));
+
+    const result = await refreshTool.execute({
+      library: "react",
+      waitForCompletion: false,
+    });
+    await vi.waitFor(() =>
+      expect(logger.warn).toHaveBeenCalledWith(
+        "⚠️ Refresh of react@18.2.0 failed: Network unreachable",
+      ),
+    );
+
+    expect(mockManager.waitForJobCompletion).toHaveBeenCalledWith("new-job");
+    expect(result.outcomes[0].status).toBe("queued");
+  });
+
+  it("should throw a VersionNotFoundError for versions not in the registry", async () => {
+    mockDocService.listVersionRecords.mockResolvedValue([
+      createRecord("react", "18.2.0"),
+    ]);
+    mockDocService.listVersions.mockResolvedValue([{ version: "18.2.0", indexed: true }]);
+
+    await expect(
+      refreshTool.execute({ library: "react", version: "16.0.0" }),
+    ).rejects.toThrow(/Version 16.0.0 not found for react/);
+  });
+
+  it("should reject unknown libraries", async () => {
+    mockDocService.validateLibraryExists.mockRejectedValue(
+      new LibraryNotFoundError("reac", ["react"]),
+    );
+
+    await expect(refreshTool.execute({ library: "reac" })).rejects.toThrow(ToolError);
+  });
+
+  it("should require a library unless all libraries are refreshed", async () => {
+    await expect(refreshTool.execute({})).rejects.toThrow(/Specify a library/);
+  });
+
+  it("should skip versions without stored options, recently indexed or in progress", async () => {
+    const recent = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+    mockDocService.listVersionRecords.mockResolvedValue([
+      createRecord("lodash", "", { scraperOptions: null, sourceUrl: null }),
+      createRecord("react", "18.2.0", { finishedAt: recent }),
+      createRecord("vue", "3.4.0"),
+      createRecord("zod", "3.22.0"),
+    ]);
+    mockManager.getJobs.mockResolvedValueOnce([
+      { id: "running-job", library: "vue", version: "3.4.0" } as PipelineJob,
+    ]);
+
+    const result = await refreshTool.execute({
+      all: true,
+      olderThan: 7 * 24 * 60 * 60 * 1000,
+    });
+
+    expect(mockDocService.listVersionRecords).toHaveBeenCalledWith();
+    expect(mockManager.getJobs).toHaveBeenCalledWith(PipelineJobStatus.QUEUED);
+    expect(mockManager.enqueueJob).toHaveBeenCalledTimes(1);
+    expect(result.outcomes.map((outcome) => [outcome.library, outcome.status])).toEqual([
+      ["lodash", "skipped"],
+      ["react", "skipped"],
+      ["vue", "skipped"],
+      ["zod", "completed"],
+    ]);
+    expect(result.outcomes[0].message).toMatch(/No stored scrape configuration/);
+    expect(result.outcomes[1].message).toBe(`Last indexed at ${recent}.`);
+    expect(result.outcomes[2].message).toBe("Already being scraped by job running-job.");
+  });
+
+  it("should report failed jobs without failing the other refreshes", async () => {
+    mockDocService.listVersionRecords.mockResolvedValue([
+      createRecord("react", "17.0.2"),
+      createRecord("react", "18.2.0"),
+    ]);
+    // The second job fails while the first one is still running
+    let finishFirst!: () => void;
+    mockManager.waitForJobCompletion
+      .mockReturnValueOnce(
+        new Promise<void>((resolve) => {
+          finishFirst = resolve;
+        }),
+      )
+      .mockRejectedValueOnce(new Error("Network unreachable"));
+
+    const refresh = refreshTool.execute({ library: "react" });
+    await vi.waitFor(() =>
+      expect(mockManager.waitForJobCompletion).toHaveBeenCalledTimes(2),
+    );
+    finishFirst();
+    const result = await refresh;
+
+    expect(result.outcomes.map((outcome) => outcome.status)).toEqual([
+      "completed",
+      "failed",
+    ]);
+    expect(result.outcomes[1].message).toBe("Network unreachable");
+  });
+});
@@ -0,0 +1,202 @@
+import type { PipelineManager } from "../pipeline/PipelineManager";
+import { PipelineJobStatus } from "../pipeline/types";
+import type { DocumentManagementService } from "../store";
+import type { VersionRecord } from "../store/types";
+import { logger } from "../utils/logger";
+import { ToolError, VersionNotFoundError } from "./errors";
+
+export interface RefreshToolOptions {
+  /** Library to refresh; required unless `all` is set */
+  library?: string;
+  /** Version or alias to refresh; all versions of the library are refreshed if omitted */
+  version?: string;
+  /** Refresh every indexed version of every library */
+  all?: boolean;
+  /** Only refresh versions last indexed longer ago than this, in milliseconds */
+  olderThan?: number;
+  /** If false, returns once the jobs are enqueued without waiting. Defaults to true. */
+  waitForCompletion?: boolean;
+}
+
+/**
+ * Outcome of refreshing one library version:
+ * - 'completed' / 'failed': the job finished (only when waiting for completion)
+ * - 'queued': the job was enqueued (when not waiting for completion)
+ * - 'skipped': no job was enqueued, see `message`
+ */
+export type RefreshStatus = "completed" | "failed" | "queued" | "skipped";
+
+export interface RefreshOutcome {
+  library: string;
+  version: string;
+  status: RefreshStatus;
+  jobId?: string;
+  pagesScraped?: number;
+  /** Why the version was skipped or its job failed */
+  message?: string;
+}
+
+export interface RefreshToolResult {
+  outcomes: RefreshOutcome[];
+}
+
+/**
+ * Tool for re-scraping indexed library versions with the scraper options recorded in
+ * the version registry when they were last scraped, so the source URL, scope, depth
+ * and scrape mode need not be repeated.
+ */
+export class RefreshTool {
+  readonly name = "refresh_docs";
+  private docService: DocumentManagementService;
+  private manager: PipelineManager;
+
+  constructor(docService: DocumentManagementService, manager: PipelineManager) {
+    this.docService = docService;
+    this.manager = manager;
+  }
+
+  /**
+   * Enqueues a scrape job for every selected version and, unless `waitForCompletion`
+   * is false, waits for all of them. Versions without stored scraper options, indexed
+   * more recently than `olderThan`, or already being scraped are skipped.
+   * @throws {ToolError} If neither a library nor `all` is given, or the library or
+   * version is not indexed.
+   */
+  async execute(options: RefreshToolOptions): Promise<RefreshToolResult> {
+    const {
+      library,
+      version,
+      all = false,
+      olderThan,
+      waitForCompletion = true,
+    } = options;
+
+    if (!all && !library) {
+      throw new ToolError("Specify a library to refresh, or refresh all.", this.name);
+    }
+
+    let records: VersionRecord[];
+    try {
+      records = await this.selectRecords(all ? undefined : library, version);
+    } catch (error) {
+      if (error instanceof ToolError) {
+        throw error;
+      }
+      throw new ToolError(
+        `Failed to refresh ${library}: ${error instanceof Error ? error.message : String(error)}`,
+        this.name,
+      );
+    }
+
+    const activeJobs = [
+      ...(await this.manager.getJobs(PipelineJobStatus.QUEUED)),
+      ...(await this.manager.getJobs(PipelineJobStatus.RUNNING)),
+    ];
+    const cutoff = olderThan !== undefined ? Date.now() - olderThan : undefined;
+
+    const outcomes: RefreshOutcome[] = [];
+    const completions: Promise<void>[] = [];
+    for (const record of records) {
+      const outcome: RefreshOutcome = {
+        library: record.library,
+        version: record.version,
+        status: "skipped",
+      };
+      outcomes.push(outcome);
+      const target = `${record.library}@${record.version || "[no version]"}`;
+
+      if (!record.scraperOptions) {
+        outcome.message =
+          "No stored scrape configuration (indexed before the version registry or imported from a bundle).";
+        continue;
+      }
+      if (
+        cutoff !== undefined &&
+        record.finishedAt &&
+        new Date(record.finishedAt).getTime() > cutoff
+      ) {
+        outcome.message = `Last indexed at ${record.finishedAt}.`;
+        continue;
+      }
+      const activeJob = activeJobs.find(
+        (job) => job.library === record.library && job.version === record.version,
+      );
+      if (activeJob) {
+        outcome.message = `Already being scraped by job ${activeJob.id}.`;
+        continue;
+      }
+
+      try {
+        outcome.jobId = await this.manager.enqueueJob(record.library, record.version, {
+          ...record.scraperOptions,
+          library: record.library,
+          version: record.version,
+        });
+        outcome.status = "queued";
+        logger.info(
+          `🔄 Refreshing ${target} from ${record.scraperOptions.url} (job ${outcome.jobId})`,
+        );
+        // Handle each job's outcome right away, so a failure never goes unhandled
+        if (waitForCompletion) {
+          completions.push(this.waitForOutcome(outcome, outcome.jobId));
+        } else {
+          this.manager.waitForJobCompletion(outcome.jobId).catch((error) => {
+            logger.warn(
+              `⚠️ Refresh of ${target} failed: ${error instanceof Error ? error.message : String(error)}`,
+            );
+          });
+        }
+      } catch (error) {
+        outcome.status = "failed";
+        outcome.message = error instanceof Error ? error.message : String(error);
+        logger.error(`❌ Failed to enqueue refresh of ${target}: ${outcome.message}`);
+      }
+    }
+
+    await Promise.all(completions);
+    return { outcomes };
+  }
+
+  /**
+   * Returns the registry entries to refresh: all of them, those of a library, or the
+   * one of a single version.
+   */
+  private async selectRecords(
+    library: string | undefined,
+    version: string | undefined,
+  ): Promise<VersionRecord[]> {
+    if (!library) {
+      return this.docService.listVersionRecords();
+    }
+    await this.docService.validateLibraryExists(library);
+    const records = await this.docService.listVersionRecords(library);
+    if (version === undefined) {
+      return records;
+    }
+    const resolved = (await this.docService.resolveVersion(library, version)) ?? "";
+    const record = records.find((entry) => entry.version === resolved.toLowerCase());
+    if (!record) {
+      throw new VersionNotFoundError(
+        library,
+        version,
+        await this.docService.listVersions(library),
+      );
+    }
+    return [record];
+  }
+
+  /**
+   * Waits for a refresh job and records whether it completed or failed.
+   */
+  private async waitForOutcome(outcome: RefreshOutcome, jobId: string): Promise<void> {
+    try {
+      await this.manager.waitForJobCompletion(jobId);
+      outcome.status = "completed";
+    } catch (error) {
+      outcome.status = "failed";
+      outcome.message = error instanceof Error ? error.message : String(error);
+    }
+    const job = await this.manager.getJob(jobId);
+    outcome.pagesScraped = job?.progress?.pagesScraped ?? 0;
+  }
+}
@@ -0,0 +1,39 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { MockedObject } from "vitest";
+import type { DocumentManagementService } from "../store";
+import { StoreError } from "../store/errors";
+import { RemoveAliasTool } from "./RemoveAliasTool";
+import { ToolError } from "./errors";
+
+vi.mock("../store");
+vi.mock("../utils/logger");
+
+const mockDocService = {
+  removeVersionAlias: vi.fn(),
+} as MockedObject<DocumentManagementService>;
+
+describe("RemoveAliasTool", () => {
+  let removeAliasTool: RemoveAliasTool;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    removeAliasTool = new RemoveAliasTool(mockDocService);
+  });
+
+  it("should remove the alias", async () => {
+    const result = await removeAliasTool.execute({ library: "react", alias: "next" });
+
+    expect(mockDocService.removeVersionAlias).toHaveBeenCalledWith("react", "next");
+    expect(result.message).toBe("Removed alias react@next.");
+  });
+
+  it("should wrap service errors in a ToolError", async () => {
+    mockDocService.removeVersionAlias.mockRejectedValue(
+      new StoreError("Alias 'beta' is not defined for react"),
+    );
+
+    await expect(
+      removeAliasTool.execute({ library: "react", alias: "beta" }),
+    ).rejects.toThrow(ToolError);
+  });
+});
@@ -0,0 +1,40 @@
+import type { DocumentManagementService } from "../store";
+import { logger } from "../utils/logger";
+import { ToolError } from "./errors";
+
+export interface RemoveAliasToolOptions {
+  library: string;
+  alias: string;
+}
+
+/**
+ * Tool for removing a version alias of a library. The version it pointed at stays
+ * indexed.
+ */
+export class RemoveAliasTool {
+  readonly name = "remove_alias";
+  private docService: DocumentManagementService;
+
+  constructor(docService: DocumentManagementService) {
+    this.docService = docService;
+  }
+
+  /**
+   * Removes the alias.
+   * @throws {ToolError} If the alias is not defined.
+   */
+  async execute(options: RemoveAliasToolOptions): Promise<{ message: string }> {
+    const { library, alias } = options;
+
+    try {
+      await this.docService.removeVersionAlias(library, alias);
+      const message = `Removed alias ${library}@${alias}.`;
+      logger.info(`✅ ${message}`);
+      return { message };
+    } catch (error) {
+      const errorMessage = `Failed to remove alias ${library}@${alias}: ${error instanceof Error ? error.message : String(error)}`;
+      logger.error(`❌ ${errorMessage}`);
+      throw new ToolError(errorMessage, this.name);
+    }
+  }
+}
@@ -0,0 +1,42 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { MockedObject } from "vitest";
+import type { RefreshScheduler } from "../pipeline/RefreshScheduler";
+import { ScheduleError } from "../pipeline/errors";
+import { RemoveScheduleTool } from "./RemoveScheduleTool";
+import { ToolError } from "./errors";
+
+vi.mock("../pipeline/RefreshScheduler");
+vi.mock("../utils/logger");
+
+const mockScheduler = {
+  removeSchedule: vi.fn(),
+} as MockedObject<RefreshScheduler>;
+
+describe("RemoveScheduleTool", () => {
+  let removeScheduleTool: RemoveScheduleTool;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    removeScheduleTool = new RemoveScheduleTool(mockScheduler);
+  });
+
+  it("should remove the schedule", async () => {
+    const result = await removeScheduleTool.execute({
+      library: "react",
+      version: "18.2.0",
+    });
+
+    expect(mockScheduler.removeSchedule).toHaveBeenCalledWith("react", "18.2.0");
+    expect(result.message).toBe("Removed refresh schedule of react@18.2.0.");
+  });
+
+  it("should wrap scheduler errors in a ToolError", async () => {
+    mockScheduler.removeSchedule.mockRejectedValue(
+      new ScheduleError("No schedule defined for react (all versions)"),
+    );
+
+    await expect(removeScheduleTool.execute({ library: "react" })).rejects.toThrow(
+      ToolError,
+    );
+  });
+});
@@ -0,0 +1,42 @@
+import type { RefreshScheduler } from "../pipeline/RefreshScheduler";
+import { logger } from "../utils/logger";
+import { ToolError } from "./errors";
+
+export interface RemoveScheduleToolOptions {
+  library: string;
+  /** Version or alias of the schedule; the library-wide schedule if omitted */
+  version?: string;
+}
+
+/**
+ * Tool for removing the refresh schedule of a library. Jobs it already started keep
+ * running, and the indexed documentation is not affected.
+ */
+export class RemoveScheduleTool {
+  readonly name = "remove_schedule";
+  private scheduler: RefreshScheduler;
+
+  constructor(scheduler: RefreshScheduler) {
+    this.scheduler = scheduler;
+  }
+
+  /**
+   * Removes the schedule and saves the schedule file.
+   * @throws {ToolError} If no such schedule exists or it cannot be saved.
+   */
+  async execute(options: RemoveScheduleToolOptions): Promise<{ message: string }> {
+    const { library, version } = options;
+    const target = `${library}${version ? `@${version}` : " (all versions)"}`;
+
+    try {
+      await this.scheduler.removeSchedule(library, version);
+      const message = `Removed refresh schedule of ${target}.`;
+      logger.info(`✅ ${message}`);
+      return { message };
+    } catch (error) {
+      const errorMessage = `Failed to remove refresh schedule of ${target}: ${error instanceof Error ? error.message : String(error)}`;
+      logger.error(`❌ ${errorMessage}`);
+      throw new ToolError(errorMessage, this.name);
+    }
+  }
+}
@@ -15,7 +15,8 @@ export const RemoveToolInputSchema: JSONSchema7 = {
     },
     version: {
       type: "string",
-      description: "Version of the library (optional, removes unversioned if omitted)",
+      description:
+        "Version or alias of the library (optional, removes unversioned if omitted)",
     },
   },
   required: ["library"],
@@ -79,6 +79,9 @@ describe("ScrapeTool", () => {
     { input: "1.2.3-beta.1", expectedInternal: "1.2.3-beta.1" },
     { input: "1", expectedInternal: "1.0.0" }, // Coerced
     { input: "1.2", expectedInternal: "1.2.0" }, // Coerced
+    { input: "2024-05", expectedInternal: "2024-05" }, // Calendar version
+    { input: "v2", expectedInternal: "v2" }, // Loose version, kept as given
+    { input: "Main", expectedInternal: "main" }, // Branch label
     { input: null, expectedInternal: "" }, // Null -> Unversioned
     { input: undefined, expectedInternal: "" }, // Undefined -> Unversioned
   ])(
@@ -87,21 +90,20 @@ describe("ScrapeTool", () => {
       const options = getBaseOptions(input);
       await scrapeTool.execute(options);
 
-      expect(mockDocService.removeAllDocuments).toHaveBeenCalledWith(
-        "test-lib",
-        expectedInternal.toLowerCase(),
-      );
+      // Existing documents are replaced atomically by the job, not cleared upfront
+      expect(mockDocService.removeAllDocuments).not.toHaveBeenCalled();
       // Check enqueueJob call (implies constructor was called)
       expect(mockManagerInstance.enqueueJob).toHaveBeenCalledWith(
         "test-lib",
         expectedInternal.toLowerCase(),
         expect.objectContaining({ url: options.url }), // Check basic options passed
+        undefined, // No description
       );
       expect(mockManagerInstance.waitForJobCompletion).toHaveBeenCalledWith(MOCK_JOB_ID);
     },
   );
 
-  it.each(["latest", "1.x", "invalid-version"])(
+  it.each(["latest", "1.x", "^2.0.0", "not a version"])(
     "should throw error for invalid version format '%s'",
     async (invalidVersion) => {
       const options = getBaseOptions(invalidVersion);
@@ -119,6 +121,7 @@ describe("ScrapeTool", () => {
   it("should execute the pipeline process with correct options", async () => {
     const options: ScrapeToolOptions = {
       ...getBaseOptions("1.0.0"),
+      description: "Core docs",
       options: {
         maxPages: 50,
         maxDepth: 2,
@@ -143,11 +146,29 @@ describe("ScrapeTool", () => {
         maxConcurrency: 5, // Test override
         ignoreErrors: false, // Overridden
         scrapeMode: ScrapeMode.Auto, // Use enum
+        incremental: false, // Default replaces the version
       },
+      "Core docs",
     );
     expect(mockManagerInstance.waitForJobCompletion).toHaveBeenCalledWith(MOCK_JOB_ID);
   });
 
+  it("should keep existing documents and enqueue an incremental job", async () => {
+    const options: ScrapeToolOptions = {
+      ...getBaseOptions("1.0.0"),
+      options: { incremental: true },
+    };
+    await scrapeTool.execute(options);
+
+    expect(mockDocService.removeAllDocuments).not.toHaveBeenCalled();
+    expect(mockManagerInstance.enqueueJob).toHaveBeenCalledWith(
+      "test-lib",
+      "1.0.0",
+      expect.objectContaining({ incremental: true }),
+      undefined,
+    );
+  });
+
   it("should return the number of pages scraped on successful completion", async () => {
     const options = getBaseOptions("1.0.0");
 
@@ -3,6 +3,7 @@ import { DEFAULT_MAX_CONCURRENCY, DEFAULT_MAX_DEPTH, DEFAULT_MAX_PAGES } from ".
 import type { PipelineManager } from "../pipeline/PipelineManager";
 import { ScrapeMode } from "../scraper/types";
 import type { DocumentManagementService } from "../store/DocumentManagementService";
+import { isValidVersionLabel } from "../store/versions";
 import type { ProgressResponse } from "../types";
 import { logger } from "../utils/logger";
 
@@ -10,6 +11,8 @@ export interface ScrapeToolOptions {
   library: string;
   version?: string | null; // Make version optional
   url: string;
+  /** Description recorded for the version; the previous one is kept if omitted */
+  description?: string;
   /** @deprecated Progress reporting should be handled via job status polling or external callbacks. */
   onProgress?: (response: ProgressResponse) => void; // Keep for interface compatibility, but mark deprecated
   options?: {
@@ -38,6 +41,13 @@ export interface ScrapeToolOptions {
      * @default ScrapeMode.Auto
      */
     scrapeMode?: ScrapeMode;
+    /**
+     * Update an already indexed version in place instead of clearing it first.
+     * Unchanged pages (by HTTP validators or content hash) are not re-embedded and
+     * pages no longer reached by the crawl are removed.
+     * @default false
+     */
+    incremental?: boolean;
   };
   /** If false, returns jobId immediately without waiting. Defaults to true. */
   waitForCompletion?: boolean;
@@ -69,6 +79,7 @@ export class ScrapeTool {
       library,
       version,
       url,
+      description,
       // onProgress is no longer used internally
       options: scraperOptions,
       waitForCompletion = true,
@@ -91,23 +102,29 @@ export class ScrapeTool {
           internalVersion = coercedVersion.version;
         } else {
           throw new Error(
-            `Invalid version format for scraping: '${version}'. Use 'X.Y.Z', 'X.Y.Z-prerelease', 'X.Y', 'X', or omit.`,
+            `Invalid version format for scraping: '${version}'. Use 'X.Y.Z', 'X.Y.Z-prerelease', 'X.Y', 'X', a calendar version like '2024-05', a label like 'main', or omit.`,
           );
         }
+      } else if (isValidVersionLabel(version)) {
+        // Calendar versions and labels such as branch names are kept as given
+        internalVersion = version;
       } else {
         throw new Error(
-          `Invalid version format for scraping: '${version}'. Use 'X.Y.Z', 'X.Y.Z-prerelease', 'X.Y', 'X', or omit.`,
+          `Invalid version format for scraping: '${version}'. Use 'X.Y.Z', 'X.Y.Z-prerelease', 'X.Y', 'X', a calendar version like '2024-05', a label like 'main', or omit.`,
         );
       }
     }
 
     internalVersion = internalVersion.toLowerCase();
-
-    // Remove any existing documents for this library/version
-    await this.docService.removeAllDocuments(library, internalVersion);
-    logger.info(
-      `💾 Cleared store for ${library}@${internalVersion || "[no version]"} before scraping.`,
-    );
+    const incremental = scraperOptions?.incremental ?? false;
+
+    // Existing documents stay searchable while the job runs: incremental jobs update
+    // them in place, all other jobs replace them atomically once they complete.
+    if (incremental) {
+      logger.info(
+        `♻️ Incrementally updating ${library}@${internalVersion || "[no version]"}.`,
+      );
+    }
 
     // Use the injected manager instance
     const manager = this.manager;
@@ -119,7 +136,7 @@ export class ScrapeTool {
     // manager.setCallbacks(...)
 
     // Enqueue the job using the injected manager
-    const jobId = await manager.enqueueJob(library, internalVersion, {
+    const jobOptions = {
       url: url,
       library: library,
       version: internalVersion,
@@ -130,7 +147,14 @@ export class ScrapeTool {
       maxConcurrency: scraperOptions?.maxConcurrency ?? DEFAULT_MAX_CONCURRENCY,
       ignoreErrors: scraperOptions?.ignoreErrors ?? true,
       scrapeMode: scraperOptions?.scrapeMode ?? ScrapeMode.Auto, // Pass scrapeMode enum
-    });
+      incremental,
+    };
+    const jobId = await manager.enqueueJob(
+      library,
+      internalVersion,
+      jobOptions,
+      description,
+    );
 
     logger.info(`🚀 Job ${jobId} enqueued for scraping.`);
     // Report enqueueing via onProgress if provided (for backward compatibility, though deprecated)
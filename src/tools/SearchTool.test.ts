@@ -3,7 +3,7 @@ import type { DocumentManagementService } from "../store";
 import type { StoreSearchResult } from "../store/types";
 import { logger } from "../utils/logger";
 import { SearchTool, type SearchToolOptions } from "./SearchTool";
-import { LibraryNotFoundError, VersionNotFoundError } from "./errors";
+import { LibraryNotFoundError, ToolError, VersionNotFoundError } from "./errors";
 
 // Mock dependencies
 vi.mock("../store");
@@ -20,7 +20,13 @@ describe("SearchTool", () => {
       validateLibraryExists: vi.fn(),
       findBestVersion: vi.fn(),
       searchStore: vi.fn(),
+      searchLibraries: vi.fn(),
+      listLibraries: vi.fn(),
       listVersions: vi.fn(),
+      resolveVersion: vi.fn(
+        async (_library: string, version?: string | null) => version ?? undefined,
+      ),
+      getSearchMode: vi.fn().mockReturnValue("hybrid"),
     };
 
     searchTool = new SearchTool(mockDocService as DocumentManagementService);
@@ -33,11 +39,15 @@ describe("SearchTool", () => {
 
   const mockSearchResults: StoreSearchResult[] = [
     {
+      library: "test-lib",
+      version: "1.0.0",
       url: "http://example.com/page1",
       content: "Content for result 1",
       score: 0.9,
     },
     {
+      library: "test-lib",
+      version: "1.0.0",
       url: "http://example.com/page2",
       content: "Content for result 2",
       score: 0.8,
@@ -62,11 +72,43 @@ describe("SearchTool", () => {
       "1.0.0", // Exact version
       "test query",
       5, // Default limit
+      {},
     );
     expect(result.results).toEqual(mockSearchResults);
+    expect(result.mode).toBe("hybrid");
     expect(result.error).toBeUndefined();
   });
 
+  it("should search the version an alias points at when exactMatch is true", async () => {
+    (mockDocService.resolveVersion as Mock).mockResolvedValue("1.2.0");
+    (mockDocService.searchStore as Mock).mockResolvedValue(mockSearchResults);
+
+    await searchTool.execute({ ...baseOptions, version: "stable", exactMatch: true });
+
+    expect(mockDocService.resolveVersion).toHaveBeenCalledWith("test-lib", "stable");
+    expect(mockDocService.searchStore).toHaveBeenCalledWith(
+      "test-lib",
+      "1.2.0",
+      "test query",
+      5,
+      {},
+    );
+  });
+
+  it("should report keyword-only mode when no embedding model is configured", async () => {
+    (mockDocService.getSearchMode as Mock).mockReturnValue("fts");
+    (mockDocService.findBestVersion as Mock).mockResolvedValue({
+      bestMatch: "1.0.0",
+      hasUnversioned: false,
+    });
+    (mockDocService.searchStore as Mock).mockResolvedValue(mockSearchResults);
+
+    const result = await searchTool.execute({ ...baseOptions, version: "1.0.0" });
+
+    expect(result.mode).toBe("fts");
+    expect(result.results).toEqual(mockSearchResults);
+  });
+
   it("should throw VersionNotFoundError when exactMatch is true but no version is specified", async () => {
     const options: SearchToolOptions = {
       ...baseOptions,
@@ -106,12 +148,15 @@ describe("SearchTool", () => {
 
     const result = await searchTool.execute(options);
 
-    expect(mockDocService.findBestVersion).toHaveBeenCalledWith("test-lib", "1.x");
+    expect(mockDocService.findBestVersion).toHaveBeenCalledWith("test-lib", "1.x", {
+      includePrerelease: false,
+    });
     expect(mockDocService.searchStore).toHaveBeenCalledWith(
       "test-lib",
       "1.2.0", // Best matched version
       "test query",
       5,
+      {},
     );
     expect(result.results).toEqual(mockSearchResults);
     expect(result.error).toBeUndefined();
@@ -125,13 +170,16 @@ describe("SearchTool", () => {
 
     const result = await searchTool.execute(options);
 
-    expect(mockDocService.findBestVersion).toHaveBeenCalledWith("test-lib", "2.0.0");
+    expect(mockDocService.findBestVersion).toHaveBeenCalledWith("test-lib", "2.0.0", {
+      includePrerelease: false,
+    });
     // searchStore receives null, which it should normalize to "" for unversioned search
     expect(mockDocService.searchStore).toHaveBeenCalledWith(
       "test-lib",
       null,
       "test query",
       5,
+      {},
     );
     expect(result.results).toEqual(mockSearchResults);
     expect(result.error).toBeUndefined();
@@ -146,12 +194,15 @@ describe("SearchTool", () => {
     await searchTool.execute(options);
 
     // The implementation passes undefined, which is defaulted to "latest" in the method
-    expect(mockDocService.findBestVersion).toHaveBeenCalledWith("test-lib", undefined);
+    expect(mockDocService.findBestVersion).toHaveBeenCalledWith("test-lib", undefined, {
+      includePrerelease: false,
+    });
     expect(mockDocService.searchStore).toHaveBeenCalledWith(
       "test-lib",
       "1.2.0",
       "test query",
       5,
+      {},
     );
   });
 
@@ -173,6 +224,35 @@ describe("SearchTool", () => {
       "1.0.0",
       "test query",
       10, // Specified limit
+      {},
+    );
+  });
+
+  it("should pass filters, ranking options, explain and budget to the search", async () => {
+    const options: SearchToolOptions = {
+      ...baseOptions,
+      version: "1.0.0",
+      exactMatch: true,
+      filters: { contentType: "code" },
+      ranking: { rrfK: 10, vectorWeight: 2 },
+      explain: true,
+      maxTokens: 2000,
+    };
+    (mockDocService.searchStore as Mock).mockResolvedValue([]);
+
+    await searchTool.execute(options);
+
+    expect(mockDocService.searchStore).toHaveBeenCalledWith(
+      "test-lib",
+      "1.0.0",
+      "test query",
+      5,
+      {
+        filters: { contentType: "code" },
+        ranking: { rrfK: 10, vectorWeight: 2 },
+        explain: true,
+        maxTokens: 2000,
+      },
     );
   });
 
@@ -189,6 +269,7 @@ describe("SearchTool", () => {
     expect(mockDocService.findBestVersion).toHaveBeenCalledWith(
       "test-lib",
       "nonexistent",
+      { includePrerelease: false },
     );
     expect(mockDocService.searchStore).not.toHaveBeenCalled();
     expect(result.results).toEqual([]);
@@ -260,4 +341,138 @@ describe("SearchTool", () => {
       expect.stringContaining("Search failed: Search index corrupted"),
     );
   });
+
+  // --- Cross-Library Search Tests ---
+
+  describe("searching several libraries", () => {
+    it("should search each library at its best-matching version", async () => {
+      (mockDocService.findBestVersion as Mock).mockImplementation(async (library) => ({
+        bestMatch: library === "react" ? "18.2.0" : "14.0.0",
+        hasUnversioned: false,
+      }));
+      (mockDocService.searchLibraries as Mock).mockResolvedValue(mockSearchResults);
+
+      const result = await searchTool.execute({
+        libraries: ["react", "next"],
+        query: "server components",
+        limit: 3,
+        includePrerelease: true,
+      });
+
+      expect(mockDocService.validateLibraryExists).toHaveBeenCalledTimes(2);
+      expect(mockDocService.findBestVersion).toHaveBeenCalledWith("next", undefined, {
+        includePrerelease: true,
+      });
+      expect(mockDocService.searchLibraries).toHaveBeenCalledWith(
+        [
+          { library: "react", version: "18.2.0" },
+          { library: "next", version: "14.0.0" },
+        ],
+        "server components",
+        3,
+        {},
+      );
+      expect(result.results).toEqual(mockSearchResults);
+    });
+
+    it("should search all indexed libraries and skip those without a matching version", async () => {
+      (mockDocService.listLibraries as Mock).mockResolvedValue([
+        { library: "react", versions: [] },
+        { library: "vue", versions: [] },
+      ]);
+      (mockDocService.findBestVersion as Mock).mockImplementation(async (library) => {
+        if (library === "vue") throw new VersionNotFoundError("vue", "18.x", []);
+        return { bestMatch: "18.2.0", hasUnversioned: false };
+      });
+      (mockDocService.searchLibraries as Mock).mockResolvedValue([]);
+
+      await searchTool.execute({ query: "hooks", version: "18.x" });
+
+      expect(mockDocService.validateLibraryExists).not.toHaveBeenCalled();
+      expect(mockDocService.searchLibraries).toHaveBeenCalledWith(
+        [{ library: "react", version: "18.2.0" }],
+        "hooks",
+        5,
+        {},
+      );
+    });
+
+    it("should return an error when no library has a matching version", async () => {
+      (mockDocService.findBestVersion as Mock).mockRejectedValue(
+        new VersionNotFoundError("react", "99.x", []),
+      );
+
+      const result = await searchTool.execute({
+        libraries: ["react", "next"],
+        query: "hooks",
+        version: "99.x",
+      });
+
+      expect(mockDocService.searchLibraries).not.toHaveBeenCalled();
+      expect(result.error?.message).toContain("No version matching 99.x");
+    });
+
+    it("should skip unknown libraries and report them with suggestions", async () => {
+      (mockDocService.validateLibraryExists as Mock).mockImplementation(
+        async (library) => {
+          if (library === "raect") throw new LibraryNotFoundError("raect", ["react"]);
+        },
+      );
+      (mockDocService.findBestVersion as Mock).mockResolvedValue({
+        bestMatch: "14.0.0",
+        hasUnversioned: false,
+      });
+      (mockDocService.searchLibraries as Mock).mockResolvedValue(mockSearchResults);
+
+      const result = await searchTool.execute({
+        libraries: ["raect", "next"],
+        query: "hooks",
+      });
+
+      expect(mockDocService.searchLibraries).toHaveBeenCalledWith(
+        [{ library: "next", version: "14.0.0" }],
+        "hooks",
+        5,
+        {},
+      );
+      expect(result.results).toEqual(mockSearchResults);
+      expect(result.error).toBeUndefined();
+      expect(result.unknownLibraries).toEqual([
+        {
+          library: "raect",
+          message: expect.stringContaining("Library 'raect' not found"),
+          suggestions: ["react"],
+        },
+      ]);
+    });
+
+    it("should return an error when none of the libraries exist", async () => {
+      (mockDocService.validateLibraryExists as Mock).mockImplementation(
+        async (library) => {
+          throw new LibraryNotFoundError(library, library === "raect" ? ["react"] : []);
+        },
+      );
+
+      const result = await searchTool.execute({
+        libraries: ["raect", "nxt"],
+        query: "hooks",
+      });
+
+      expect(mockDocService.searchLibraries).not.toHaveBeenCalled();
+      expect(result.unknownLibraries).toHaveLength(2);
+      expect(result.error?.message).toContain("Library 'nxt' not found.");
+      expect(result.error?.suggestions).toEqual(["react"]);
+    });
+
+    it("should reject exact version matching", async () => {
+      await expect(
+        searchTool.execute({
+          libraries: ["react", "next"],
+          query: "hooks",
+          version: "18.2.0",
+          exactMatch: true,
+        }),
+      ).rejects.toThrow(ToolError);
+    });
+  });
 });
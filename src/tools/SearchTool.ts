@@ -1,14 +1,41 @@
 import type { DocumentManagementService } from "../store";
-import type { StoreSearchResult } from "../store/types";
+import type {
+  RankingOptions,
+  SearchFilters,
+  SearchMode,
+  SearchOptions,
+  SearchTarget,
+  StoreSearchResult,
+} from "../store/types";
 import { logger } from "../utils/logger";
-import { LibraryNotFoundError, VersionNotFoundError } from "./errors";
+import { LibraryNotFoundError, ToolError, VersionNotFoundError } from "./errors";
 
 export interface SearchToolOptions {
-  library: string;
+  /** Library to search. Omit it together with `libraries` to search all indexed libraries. */
+  library?: string;
+  /** Libraries to search together, each at its best-matching version */
+  libraries?: string[];
+  /** Version or range; applied to every library when several are searched */
   version?: string;
+  /** Let ranges and "latest" match prerelease versions such as "19.0.0-rc.1" */
+  includePrerelease?: boolean;
   query: string;
   limit?: number;
   exactMatch?: boolean;
+  /** Restricts results by URL prefix, heading path, content type or heading level */
+  filters?: SearchFilters;
+  /** Overrides the ranking parameters configured for the searched libraries */
+  ranking?: RankingOptions;
+  /** Attach vector distance, full-text score, both ranks and the fused score to each result */
+  explain?: boolean;
+  /** Limits the content of all results to about this many tokens */
+  maxTokens?: number;
+  /** Limits the content of all results to this many characters */
+  maxChars?: number;
+  /** Set to false to skip the configured re-ranking model */
+  rerank?: boolean;
+  /** Also search for variants of the query generated by the chat model */
+  expand?: boolean;
 }
 
 export interface SearchToolResultError {
@@ -17,8 +44,20 @@ export interface SearchToolResultError {
   suggestions?: string[]; // Specific to LibraryNotFoundError
 }
 
+export interface UnknownLibrary {
+  library: string;
+  message: string;
+  /** Indexed libraries with similar names */
+  suggestions: string[];
+}
+
 export interface SearchToolResult {
+  /** Results tagged with the library and version they were found in */
   results: StoreSearchResult[];
+  /** Whether results come from hybrid (vector + BM25) or keyword-only (BM25) search */
+  mode: SearchMode;
+  /** Requested libraries that are not indexed when searching several; the others are still searched */
+  unknownLibraries?: UnknownLibrary[];
   error?: SearchToolResultError;
 }
 
@@ -26,6 +65,7 @@ export interface SearchToolResult {
  * Tool for searching indexed documentation.
  * Supports exact version matches and version range patterns.
  * Returns available versions when requested version is not found.
+ * Searching several libraries (or all indexed ones) fuses their results into one list.
  */
 export class SearchTool {
   private docService: DocumentManagementService;
@@ -35,7 +75,18 @@ export class SearchTool {
   }
 
   async execute(options: SearchToolOptions): Promise<SearchToolResult> {
-    const { library, version, query, limit = 5, exactMatch = false } = options;
+    const libraries = options.libraries ?? (options.library ? [options.library] : []);
+    if (libraries.length !== 1) {
+      return this.executeMultiple(libraries, options);
+    }
+    const [library] = libraries;
+    const {
+      version,
+      query,
+      limit = 5,
+      exactMatch = false,
+      includePrerelease = false,
+    } = options;
 
     // When exactMatch is true, version must be specified and not 'latest'
     if (exactMatch && (!version || version === "latest")) {
@@ -51,9 +102,10 @@ export class SearchTool {
 
     // Default to 'latest' only when exactMatch is false
     const resolvedVersion = version || "latest";
+    const mode = this.docService.getSearchMode();
 
     logger.info(
-      `🔍 Searching ${library}@${resolvedVersion} for: ${query}${exactMatch ? " (exact match)" : ""}`,
+      `🔍 Searching ${library}@${resolvedVersion} for: ${query}${exactMatch ? " (exact match)" : ""}${mode === "fts" ? " (full-text only)" : ""}`,
     );
 
     try {
@@ -65,7 +117,9 @@ export class SearchTool {
 
       if (!exactMatch) {
         // If not exact match, find the best version (which might be null)
-        const versionResult = await this.docService.findBestVersion(library, version);
+        const versionResult = await this.docService.findBestVersion(library, version, {
+          includePrerelease,
+        });
         // Use the bestMatch from the result, which could be null
         versionToSearch = versionResult.bestMatch;
 
@@ -73,8 +127,10 @@ export class SearchTool {
         // should we search unversioned? The current logic passes null to searchStore,
         // which gets normalized to "" (unversioned). This seems reasonable.
         // If findBestVersion threw VersionNotFoundError, it's caught below.
+      } else {
+        // An alias names an exact version, so it is searched as that version
+        versionToSearch = await this.docService.resolveVersion(library, version);
       }
-      // If exactMatch is true, versionToSearch remains the originally provided version.
 
       // Note: versionToSearch can be string | null | undefined here.
       // searchStore handles null/undefined by normalizing to "".
@@ -83,15 +139,17 @@ export class SearchTool {
         versionToSearch,
         query,
         limit,
+        this.searchOptions(options),
       );
       logger.info(`✅ Found ${results.length} matching results`);
 
-      return { results };
+      return { results, mode };
     } catch (error) {
       if (error instanceof LibraryNotFoundError) {
         logger.info(`ℹ️ Library not found: ${error.message}`);
         return {
           results: [],
+          mode,
           error: {
             message: error.message,
             suggestions: error.suggestions,
@@ -102,6 +160,7 @@ export class SearchTool {
         logger.info(`ℹ️ Version not found: ${error.message}`);
         return {
           results: [],
+          mode,
           error: {
             message: error.message,
             availableVersions: error.availableVersions,
@@ -115,4 +174,114 @@ export class SearchTool {
       throw error;
     }
   }
+
+  /**
+   * Searches several libraries, or all indexed ones when `libraries` is empty, each at
+   * its best-matching version. Libraries without a version matching `version` are
+   * skipped, so a range like "18.x" can be applied to a set of related libraries.
+   * Libraries that are not indexed are skipped as well and reported with suggestions.
+   */
+  private async executeMultiple(
+    libraries: string[],
+    options: SearchToolOptions,
+  ): Promise<SearchToolResult> {
+    const {
+      version,
+      query,
+      limit = 5,
+      exactMatch = false,
+      includePrerelease = false,
+    } = options;
+    const mode = this.docService.getSearchMode();
+
+    if (exactMatch) {
+      throw new ToolError(
+        "Exact version matching is only supported when searching a single library",
+        "SearchTool",
+      );
+    }
+
+    const searchAll = libraries.length === 0;
+    const candidates = searchAll
+      ? (await this.docService.listLibraries()).map((lib) => lib.library)
+      : libraries;
+
+    logger.info(
+      `🔍 Searching ${searchAll ? "all libraries" : candidates.join(", ")}${version ? `@${version}` : ""} for: ${query}${mode === "fts" ? " (full-text only)" : ""}`,
+    );
+
+    const targets: SearchTarget[] = [];
+    const unknownLibraries: UnknownLibrary[] = [];
+    for (const library of candidates) {
+      try {
+        if (!searchAll) {
+          await this.docService.validateLibraryExists(library);
+        }
+        const { bestMatch } = await this.docService.findBestVersion(library, version, {
+          includePrerelease,
+        });
+        targets.push({ library, version: bestMatch });
+      } catch (error) {
+        if (error instanceof LibraryNotFoundError) {
+          logger.info(`ℹ️ Skipping ${library}: ${error.message}`);
+          unknownLibraries.push({
+            library,
+            message: error.message,
+            suggestions: error.suggestions,
+          });
+          continue;
+        }
+        if (error instanceof VersionNotFoundError) {
+          logger.info(`ℹ️ Skipping ${library}: ${error.message}`);
+          continue;
+        }
+        throw error;
+      }
+    }
+
+    const unknown = unknownLibraries.length > 0 ? { unknownLibraries } : {};
+    if (unknownLibraries.length > 0 && unknownLibraries.length === candidates.length) {
+      return {
+        results: [],
+        mode,
+        ...unknown,
+        error: {
+          message: unknownLibraries.map((entry) => entry.message).join(" "),
+          suggestions: [
+            ...new Set(unknownLibraries.flatMap((entry) => entry.suggestions)),
+          ],
+        },
+      };
+    }
+    if (targets.length === 0) {
+      return {
+        results: [],
+        mode,
+        ...unknown,
+        error: {
+          message:
+            candidates.length === 0
+              ? "No indexed libraries to search"
+              : `No version matching ${version} found for ${searchAll ? "any library" : candidates.join(", ")}`,
+        },
+      };
+    }
+
+    const results = await this.docService.searchLibraries(
+      targets,
+      query,
+      limit,
+      this.searchOptions(options),
+    );
+    logger.info(
+      `✅ Found ${results.length} matching results in ${targets.length} libraries`,
+    );
+    return { results, mode, ...unknown };
+  }
+
+  /** Picks the options passed through to the document service */
+  private searchOptions(options: SearchToolOptions): SearchOptions {
+    const { filters, ranking, explain, maxTokens, maxChars, rerank, expand } = options;
+    return { filters, ranking, explain, maxTokens, maxChars, rerank, expand };
+  }
 }
@@ -0,0 +1,46 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { MockedObject } from "vitest";
+import type { DocumentManagementService } from "../store";
+import { SetAliasTool } from "./SetAliasTool";
+import { ToolError, VersionNotFoundError } from "./errors";
+
+vi.mock("../store");
+vi.mock("../utils/logger");
+
+const mockDocService = {
+  setVersionAlias: vi.fn(),
+} as MockedObject<DocumentManagementService>;
+
+describe("SetAliasTool", () => {
+  let setAliasTool: SetAliasTool;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    setAliasTool = new SetAliasTool(mockDocService);
+  });
+
+  it("should point the alias at the version", async () => {
+    const result = await setAliasTool.execute({
+      library: "react",
+      alias: "stable",
+      version: "18.3.1",
+    });
+
+    expect(mockDocService.setVersionAlias).toHaveBeenCalledWith(
+      "react",
+      "stable",
+      "18.3.1",
+    );
+    expect(result.message).toBe("Alias react@stable now points to 18.3.1.");
+  });
+
+  it("should wrap service errors in a ToolError", async () => {
+    mockDocService.setVersionAlias.mockRejectedValue(
+      new VersionNotFoundError("react", "19.0.0", []),
+    );
+
+    await expect(
+      setAliasTool.execute({ library: "react", alias: "next", version: "19.0.0" }),
+    ).rejects.toThrow(ToolError);
+  });
+});
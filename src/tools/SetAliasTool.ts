@@ -0,0 +1,44 @@
+import type { DocumentManagementService } from "../store";
+import { logger } from "../utils/logger";
+import { ToolError } from "./errors";
+
+export interface SetAliasToolOptions {
+  library: string;
+  /** Alias name, e.g. "stable" or "next" */
+  alias: string;
+  /** Indexed version the alias points at */
+  version: string;
+}
+
+/**
+ * Tool for naming an indexed version of a library, e.g. `stable` for `18.3.1`. The
+ * alias is accepted wherever a version is, so agents can ask for "stable" without
+ * knowing version numbers. Setting an existing alias moves it to the new version.
+ */
+export class SetAliasTool {
+  readonly name = "set_alias";
+  private docService: DocumentManagementService;
+
+  constructor(docService: DocumentManagementService) {
+    this.docService = docService;
+  }
+
+  /**
+   * Points the alias at the version.
+   * @throws {ToolError} If the alias name is invalid or the version is not indexed.
+   */
+  async execute(options: SetAliasToolOptions): Promise<{ message: string }> {
+    const { library, alias, version } = options;
+
+    try {
+      await this.docService.setVersionAlias(library, alias, version);
+      const message = `Alias ${library}@${alias} now points to ${version}.`;
+      logger.info(`✅ ${message}`);
+      return { message };
+    } catch (error) {
+      const errorMessage = `Failed to set alias ${library}@${alias}: ${error instanceof Error ? error.message : String(error)}`;
+      logger.error(`❌ ${errorMessage}`);
+      throw new ToolError(errorMessage, this.name);
+    }
+  }
+}
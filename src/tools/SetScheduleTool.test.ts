@@ -0,0 +1,76 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { MockedObject } from "vitest";
+import type { RefreshScheduler } from "../pipeline/RefreshScheduler";
+import { ScheduleError } from "../pipeline/errors";
+import type { ScheduleStatus } from "../pipeline/types";
+import { SetScheduleTool } from "./SetScheduleTool";
+import { ToolError } from "./errors";
+
+vi.mock("../pipeline/RefreshScheduler");
+vi.mock("../utils/logger");
+
+const mockScheduler = {
+  setSchedule: vi.fn(),
+} as MockedObject<RefreshScheduler>;
+
+const createStatus = (overrides: Partial<ScheduleStatus>): ScheduleStatus => ({
+  library: "react",
+  lastRunAt: null,
+  lastRunStatus: null,
+  lastRunMessage: null,
+  nextRunAt: new Date("2025-01-11T03:02:00.000Z"),
+  jobIds: [],
+  ...overrides,
+});
+
+describe("SetScheduleTool", () => {
+  let setScheduleTool: SetScheduleTool;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    setScheduleTool = new SetScheduleTool(mockScheduler);
+  });
+
+  it("should schedule the refresh and report the next run", async () => {
+    mockScheduler.setSchedule.mockResolvedValue(createStatus({ cron: "0 3 * * *" }));
+
+    const result = await setScheduleTool.execute({ library: "react", cron: "0 3 * * *" });
+
+    expect(mockScheduler.setSchedule).toHaveBeenCalledWith({
+      library: "react",
+      cron: "0 3 * * *",
+    });
+    expect(result).toEqual({
+      message:
+        "Scheduled refresh of react (all versions) at '0 3 * * *', next run at 2025-01-11T03:02:00.000Z.",
+      nextRunAt: "2025-01-11T03:02:00.000Z",
+    });
+  });
+
+  it("should describe interval schedules of a single version", async () => {
+    mockScheduler.setSchedule.mockResolvedValue(
+      createStatus({ version: "18.2.0", every: "1d" }),
+    );
+
+    const result = await setScheduleTool.execute({
+      library: "react",
+      version: "18.2.0",
+      every: "1d",
+    });
+
+    expect(result.message).toMatch(/^Scheduled refresh of react@18.2.0 every 1d/);
+  });
+
+  it("should wrap scheduler errors in a ToolError", async () => {
+    mockScheduler.setSchedule.mockRejectedValue(
+      new ScheduleError("Schedule of react needs either 'every' or 'cron'"),
+    );
+
+    await expect(setScheduleTool.execute({ library: "react" })).rejects.toThrow(
+      ToolError,
+    );
+    await expect(setScheduleTool.execute({ library: "react" })).rejects.toThrow(
+      /Failed to schedule refresh of react \(all versions\)/,
+    );
+  });
+});
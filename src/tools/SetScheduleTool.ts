@@ -0,0 +1,47 @@
+import type { RefreshScheduler } from "../pipeline/RefreshScheduler";
+import type { RefreshSchedule } from "../pipeline/types";
+import { logger } from "../utils/logger";
+import { ToolError } from "./errors";
+
+export type SetScheduleToolOptions = RefreshSchedule;
+
+export interface SetScheduleToolResult {
+  message: string;
+  /** When the schedule runs next, as an ISO string */
+  nextRunAt: string | null;
+}
+
+/**
+ * Tool for re-indexing a library periodically, on an interval such as `1d` or a cron
+ * expression. Each run re-scrapes the library with the options it was last scraped
+ * with. Setting a schedule for a library version that has one replaces it.
+ */
+export class SetScheduleTool {
+  readonly name = "set_schedule";
+  private scheduler: RefreshScheduler;
+
+  constructor(scheduler: RefreshScheduler) {
+    this.scheduler = scheduler;
+  }
+
+  /**
+   * Adds or replaces the schedule and saves the schedule file.
+   * @throws {ToolError} If the schedule is invalid or cannot be saved.
+   */
+  async execute(options: SetScheduleToolOptions): Promise<SetScheduleToolResult> {
+    const target = `${options.library}${options.version ? `@${options.version}` : " (all versions)"}`;
+
+    try {
+      const status = await this.scheduler.setSchedule(options);
+      const nextRunAt = status.nextRunAt?.toISOString() ?? null;
+      const timing = status.cron ? `at '${status.cron}'` : `every ${status.every}`;
+      const message = `Scheduled refresh of ${target} ${timing}${nextRunAt ? `, next run at ${nextRunAt}` : ""}.`;
+      logger.info(`✅ ${message}`);
+      return { message, nextRunAt };
+    } catch (error) {
+      const errorMessage = `Failed to schedule refresh of ${target}: ${error instanceof Error ? error.message : String(error)}`;
+      logger.error(`❌ ${errorMessage}`);
+      throw new ToolError(errorMessage, this.name);
+    }
+  }
+}
@@ -0,0 +1,63 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { MockedObject } from "vitest";
+import type { DocumentManagementService } from "../store";
+import type { VersionStats } from "../store/types";
+import { StatsTool } from "./StatsTool";
+
+vi.mock("../store");
+
+const mockDocService = {
+  getStatistics: vi.fn(),
+} as MockedObject<DocumentManagementService>;
+
+const stats = (library: string, version: string, chunks: number): VersionStats => ({
+  library,
+  version,
+  pages: 2,
+  chunks,
+  contentSize: chunks * 100,
+  averageChunkSize: 100,
+  missingEmbeddings: 1,
+  indexedAt: "2025-01-01T00:00:00.000Z",
+});
+
+describe("StatsTool", () => {
+  let statsTool: StatsTool;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    statsTool = new StatsTool(mockDocService);
+  });
+
+  it("should report the statistics per version with totals", async () => {
+    const versions = [
+      stats("react", "18.2.0", 10),
+      stats("react", "19.0.0", 12),
+      stats("vue", "", 3),
+    ];
+    mockDocService.getStatistics.mockResolvedValue({ versions, databaseSize: 4096 });
+
+    const result = await statsTool.execute();
+
+    expect(result).toEqual({
+      totals: {
+        libraries: 2,
+        versions: 3,
+        pages: 6,
+        chunks: 25,
+        contentSize: 2500,
+        missingEmbeddings: 3,
+      },
+      versions,
+      databaseSize: 4096,
+    });
+  });
+
+  it("should report zero totals for an empty store", async () => {
+    mockDocService.getStatistics.mockResolvedValue({ versions: [], databaseSize: 0 });
+
+    const { totals } = await statsTool.execute();
+
+    expect(Object.values(totals)).toEqual([0, 0, 0, 0, 0, 0]);
+  });
+});
@@ -0,0 +1,51 @@
+import type { DocumentManagementService } from "../store";
+import type { VersionStats } from "../store/types";
+
+export interface StatsTotals {
+  libraries: number;
+  versions: number;
+  pages: number;
+  chunks: number;
+  /** Total length of the chunk content in characters */
+  contentSize: number;
+  /** Chunks without a vector */
+  missingEmbeddings: number;
+}
+
+export interface StatsToolResult {
+  totals: StatsTotals;
+  versions: VersionStats[];
+  /** Size of the database in bytes */
+  databaseSize: number;
+}
+
+/**
+ * Tool for reporting what the store contains: page and chunk counts, content size,
+ * embedding coverage and index date per library version, totals and the database size.
+ */
+export class StatsTool {
+  private docService: DocumentManagementService;
+
+  constructor(docService: DocumentManagementService) {
+    this.docService = docService;
+  }
+
+  async execute(): Promise<StatsToolResult> {
+    const { versions, databaseSize } = await this.docService.getStatistics();
+    const sum = (field: "pages" | "chunks" | "contentSize" | "missingEmbeddings") =>
+      versions.reduce((total, stats) => total + stats[field], 0);
+
+    return {
+      totals: {
+        libraries: new Set(versions.map((stats) => stats.library)).size,
+        versions: versions.length,
+        pages: sum("pages"),
+        chunks: sum("chunks"),
+        contentSize: sum("contentSize"),
+        missingEmbeddings: sum("missingEmbeddings"),
+      },
+      versions,
+      databaseSize,
+    };
+  }
+}
@@ -1,4 +1,4 @@
-import semver from "semver";
+import { compareVersions } from "../store/versions";
 
 class ToolError extends Error {
   constructor(
@@ -26,7 +26,9 @@ class VersionNotFoundError extends ToolError {
   }
 
   getLatestVersion() {
-    return this.availableVersions.sort((a, b) => semver.compare(b.version, a.version))[0];
+    return this.availableVersions.sort((a, b) =>
+      compareVersions(b.version, a.version),
+    )[0];
   }
 }
 
@@ -1,10 +1,20 @@
+export * from "./AskTool";
 export * from "./CancelJobTool";
+export * from "./DiffVersionsTool";
 export * from "./errors";
 export * from "./FetchUrlTool";
 export * from "./FindVersionTool";
 export * from "./GetJobInfoTool";
+export * from "./ListAliasesTool";
 export * from "./ListJobsTool";
 export * from "./ListLibrariesTool";
+export * from "./ReembedTool";
+export * from "./RefreshTool";
+export * from "./RemoveAliasTool";
+export * from "./RemoveScheduleTool";
 export * from "./RemoveTool";
 export * from "./ScrapeTool";
 export * from "./SearchTool";
+export * from "./SetAliasTool";
+export * from "./SetScheduleTool";
+export * from "./StatsTool";
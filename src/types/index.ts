@@ -1,9 +1,15 @@
+import type { SectionContentType } from "../splitter/types";
+
 /**
  * Common document content type shared across modules
  */
 export interface Document {
   content: string;
   metadata: DocumentMetadata;
+  /** HTTP `ETag` of the fetched page, used for conditional requests on re-scrape */
+  etag?: string;
+  /** HTTP `Last-Modified` of the fetched page, used for conditional requests on re-scrape */
+  lastModified?: string;
 }
 
 /**
@@ -16,6 +22,7 @@ export interface DocumentMetadata {
   version: string;
   level?: number; // Optional during scraping
   path?: string[]; // Optional during scraping
+  types?: SectionContentType[]; // Content types within the chunk, set by the splitter
 }
 
 /**
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { nextCronTime, parseCron } from "./cron";
+
+/** Local date for readable expectations; months are 1-based */
+const at = (year: number, month: number, day: number, hour = 0, minute = 0) =>
+  new Date(year, month - 1, day, hour, minute);
+
+describe("cron", () => {
+  describe("parseCron", () => {
+    it("should expand values, ranges, steps and lists", () => {
+      const cron = parseCron("*/15 9-17/4 1,15 * 1-5");
+      expect([...cron.minutes]).toEqual([0, 15, 30, 45]);
+      expect([...cron.hours]).toEqual([9, 13, 17]);
+      expect([...cron.daysOfMonth]).toEqual([1, 15]);
+      expect(cron.months.size).toBe(12);
+      expect([...cron.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it("should treat 7 as Sunday and accept macros", () => {
+      expect([...parseCron("0 0 * * 7").daysOfWeek]).toEqual([0]);
+      expect([...parseCron("@daily").hours]).toEqual([0]);
+    });
+
+    it.each([
+      ["0 0 * *", /expected 5 fields/],
+      ["60 * * * *", /minute '60' is outside 0-59/],
+      ["0 0 0 * *", /day of month '0' is outside 1-31/],
+      ["0 5-1 * * *", /hour '5-1' is outside 0-23/],
+      ["a * * * *", /bad minute 'a'/],
+      ["0 0 31 2 *", /never matches/],
+    ])("should reject '%s'", (expression, error) => {
+      expect(() => parseCron(expression)).toThrow(error);
+    });
+  });
+
+  describe("nextCronTime", () => {
+    it("should return the next matching minute", () => {
+      const cron = parseCron("30 3 * * *");
+      expect(nextCronTime(cron, at(2025, 1, 10, 2, 0))).toEqual(at(2025, 1, 10, 3, 30));
+      expect(nextCronTime(cron, at(2025, 1, 10, 3, 30))).toEqual(at(2025, 1, 11, 3, 30));
+    });
+
+    it("should match either restricted day field", () => {
+      // The 1st of the month or any Monday; 2025-01-06 is a Monday
+      const cron = parseCron("0 0 1 * 1");
+      expect(nextCronTime(cron, at(2025, 1, 2))).toEqual(at(2025, 1, 6));
+      expect(nextCronTime(cron, at(2025, 1, 27, 1))).toEqual(at(2025, 2, 1));
+    });
+
+    it("should skip to matching months and leap days", () => {
+      expect(nextCronTime(parseCron("0 12 * 6 *"), at(2025, 1, 1))).toEqual(
+        at(2025, 6, 1, 12),
+      );
+      expect(nextCronTime(parseCron("0 0 29 2 *"), at(2025, 3, 1))).toEqual(
+        at(2028, 2, 29),
+      );
+    });
+  });
+});
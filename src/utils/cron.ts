@@ -0,0 +1,145 @@
+/**
+ * A parsed five-field cron expression. Fields hold the allowed values; day of week
+ * uses 0 for Sunday.
+ */
+export interface CronExpression {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** Whether the day-of-month field is unrestricted (starts with `*`) */
+  anyDayOfMonth: boolean;
+  /** Whether the day-of-week field is unrestricted (starts with `*`) */
+  anyDayOfWeek: boolean;
+}
+
+const FIELDS = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  { name: "day of week", min: 0, max: 7 },
+];
+
+const MACROS: Record<string, string> = {
+  "@hourly": "0 * * * *",
+  "@daily": "0 0 * * *",
+  "@weekly": "0 0 * * 0",
+  "@monthly": "0 0 1 * *",
+};
+
+/** Five years cover every satisfiable expression, including ones only matching Feb 29 */
+const SEARCH_LIMIT_MS = 5 * 366 * 24 * 60 * 60 * 1000;
+
+/**
+ * Parses one field of a cron expression: `*`, values and ranges (`1-5`), optionally
+ * with a step (`0-30/10`), separated by commas.
+ */
+function parseField(
+  field: string,
+  { name, min, max }: (typeof FIELDS)[number],
+  expression: string,
+): Set<number> {
+  const values = new Set<number>();
+  for (const item of field.split(",")) {
+    const match = /^(?:\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(item);
+    if (!match) {
+      throw new Error(`Invalid cron expression '${expression}': bad ${name} '${item}'`);
+    }
+    let start = min;
+    let end = max;
+    if (match[1] !== undefined) {
+      start = Number(match[1]);
+      // A single value with a step ("5/15") runs from the value to the maximum
+      end = match[2] !== undefined ? Number(match[2]) : match[3] ? max : start;
+    }
+    const step = match[3] ? Number(match[3]) : 1;
+    if (start < min || end > max || start > end || step < 1) {
+      throw new Error(
+        `Invalid cron expression '${expression}': ${name} '${item}' is outside ${min}-${max}`,
+      );
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+/**
+ * Parses a cron expression with the fields minute, hour, day of month, month and day
+ * of week, or one of the macros `@hourly`, `@daily`, `@weekly` and `@monthly`.
+ * As in standard cron, a day matches if either restricted day field matches.
+ * @throws {Error} If the expression is malformed or never matches
+ */
+export function parseCron(expression: string): CronExpression {
+  const source = MACROS[expression.trim().toLowerCase()] ?? expression.trim();
+  const parts = source.split(/\s+/);
+  if (parts.length !== FIELDS.length) {
+    throw new Error(
+      `Invalid cron expression '${expression}': expected 5 fields (minute hour day-of-month month day-of-week)`,
+    );
+  }
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) =>
+    parseField(part, FIELDS[index], expression),
+  );
+  // Sunday may be written as 0 or 7
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+  const cron: CronExpression = {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: parts[2].startsWith("*"),
+    anyDayOfWeek: parts[4].startsWith("*"),
+  };
+  if (!nextCronTime(cron, new Date())) {
+    throw new Error(`Invalid cron expression '${expression}': it never matches`);
+  }
+  return cron;
+}
+
+/**
+ * Checks the day fields of a cron expression against a date.
+ */
+function matchesDay(cron: CronExpression, date: Date): boolean {
+  const dayOfMonth = cron.daysOfMonth.has(date.getDate());
+  const dayOfWeek = cron.daysOfWeek.has(date.getDay());
+  if (cron.anyDayOfMonth || cron.anyDayOfWeek) {
+    return dayOfMonth && dayOfWeek;
+  }
+  return dayOfMonth || dayOfWeek;
+}
+
+/**
+ * Returns the first minute after `after` matching a cron expression, in local time,
+ * or null if there is none within five years.
+ */
+export function nextCronTime(cron: CronExpression, after: Date): Date | null {
+  const date = new Date(after.getTime());
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+  const limit = after.getTime() + SEARCH_LIMIT_MS;
+
+  // Skip whole months, days and hours that cannot match instead of every minute
+  while (date.getTime() <= limit) {
+    if (!cron.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0, 0, 0);
+    } else if (!matchesDay(cron, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0, 0, 0);
+    } else if (!cron.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0, 0, 0);
+    } else if (!cron.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1, 0, 0);
+    } else {
+      return date;
+    }
+  }
+  return null;
+}
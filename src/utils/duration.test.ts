@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { parseDuration } from "./duration";
+
+describe("parseDuration", () => {
+  it.each([
+    ["30s", 30_000],
+    ["15m", 900_000],
+    ["6h", 21_600_000],
+    ["7d", 604_800_000],
+    ["2w", 1_209_600_000],
+    ["1.5h", 5_400_000],
+    [" 7D ", 604_800_000],
+  ])("should parse '%s'", (value, expected) => {
+    expect(parseDuration(value)).toBe(expected);
+  });
+
+  it.each(["", "7", "d", "7y", "-1d", "0h", "seven days"])(
+    "should reject '%s'",
+    (value) => {
+      expect(() => parseDuration(value)).toThrow(/Invalid duration/);
+    },
+  );
+
+  it("should accept zero durations only when allowed", () => {
+    expect(parseDuration("0s", { allowZero: true })).toBe(0);
+    expect(() => parseDuration("0s")).toThrow(/Invalid duration/);
+    expect(() => parseDuration("-1s", { allowZero: true })).toThrow(/Invalid duration/);
+  });
+});
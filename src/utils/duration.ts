@@ -0,0 +1,26 @@
+const UNIT_MS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Parses a duration such as `30s`, `15m`, `6h`, `7d` or `2w` into milliseconds.
+ * @param options.allowZero - Accept zero durations such as `0s`, e.g. to disable a delay
+ * @throws {Error} If the value is not a positive number followed by a unit
+ */
+export function parseDuration(
+  value: string,
+  options: { allowZero?: boolean } = {},
+): number {
+  const match = /^(\d+(?:\.\d+)?)\s*([smhdw])$/i.exec(value.trim());
+  const amount = match ? Number.parseFloat(match[1]) : 0;
+  if (!match || (amount === 0 && !options.allowZero)) {
+    throw new Error(
+      `Invalid duration '${value}': expected a number followed by s, m, h, d or w (e.g. '7d')`,
+    );
+  }
+  return amount * UNIT_MS[match[2].toLowerCase()];
+}
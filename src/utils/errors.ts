@@ -22,6 +22,13 @@ class NetworkError extends ScraperError {
   }
 }
 
+/** The requested resource does not exist (HTTP 404/410 or a missing file) */
+class NotFoundError extends ScraperError {
+  constructor(message: string, cause?: Error) {
+    super(message, false, cause);
+  }
+}
+
 class RateLimitError extends ScraperError {
   constructor(
     message: string,
@@ -59,6 +66,7 @@ class RedirectError extends ScraperError {
 export {
   ScraperError,
   NetworkError,
+  NotFoundError,
   RateLimitError,
   InvalidUrlError,
   ParsingError,
@@ -20,6 +20,14 @@ export interface OpenRouterChatOptions {
   extraBody?: Record<string, any>; // 支持扩展 body 字段
   referer?: string; // HTTP-Referer
   xTitle?: string; // X-Title
+  timeout?: number; // 请求超时（毫秒），默认不限
+}
+
+/**
+ * OpenAI 兼容 `/chat/completions` 接口的响应，仅声明读取回复所需的字段
+ */
+export interface ChatCompletionResponse {
+  choices?: Array<{ message?: { content?: string } }>;
 }
 
 /**
@@ -36,7 +44,8 @@ export async function openrouterChat({
   extraBody = {},
   referer,
   xTitle,
-}: OpenRouterChatOptions) {
+  timeout,
+}: OpenRouterChatOptions): Promise<ChatCompletionResponse> {
   const finalHeaders: Record<string, string> = {
     Authorization: `Bearer ${apiKey}`,
     "Content-Type": "application/json",
@@ -45,7 +54,7 @@ export async function openrouterChat({
   if (referer) finalHeaders["HTTP-Referer"] = referer;
   if (xTitle) finalHeaders["X-Title"] = xTitle;
 
-  const response = await axios.post(
+  const response = await axios.post<ChatCompletionResponse>(
     `${baseURL}/chat/completions`,
     {
       model,
@@ -54,11 +63,19 @@ export async function openrouterChat({
     },
     {
       headers: finalHeaders,
+      timeout,
     },
   );
   return response.data;
 }
 
+/**
+ * 读取第一个候选回复的文本，没有回复时返回空字符串
+ */
+export function readChatContent(response: ChatCompletionResponse): string {
+  return response.choices?.[0]?.message?.content ?? "";
+}
+
 // 支持的模型列表（可扩展）
 export const OPENROUTER_MODELS = [
   "openai/gpt-4.1",